@@ -13,13 +13,23 @@ import PaymentCodePage from "@/pages/payment-code";
 import PaymentSuccessPage from "@/pages/payment-success";
 import AdminDashboard from "@/pages/admin/index";
 import AdminQuotes from "@/pages/admin/quotes";
+import AdminQuoteDrafts from "@/pages/admin/quote-drafts";
+import AdminQuestionnaires from "@/pages/admin/questionnaires";
 import AdminProjects from "@/pages/admin/projects";
 import AdminReviews from "@/pages/admin/reviews";
 import AdminPaymentCodes from "@/pages/admin/payment-codes";
 import AdminUsers from "@/pages/admin/users";
 import AdminSubscriptions from "@/pages/admin/subscriptions";
 import AdminCodePayments from "@/pages/admin/code-payments";
+import AdminPlans from "@/pages/admin/plans";
+import AdminCoupons from "@/pages/admin/coupons";
+import AdminExchangeRates from "@/pages/admin/exchange-rates";
+import AdminPricing from "@/pages/admin/pricing";
+import AdminCodeAttempts from "@/pages/admin/code-attempts";
+import AdminPayments from "@/pages/admin/payments";
+import AdminInvoices from "@/pages/admin/invoices";
 import ProfilePage from "@/pages/profile";
+import ProposalPage from "@/pages/proposal";
 
 function Router() {
   return (
@@ -31,14 +41,24 @@ function Router() {
       <Route path="/payment/code" component={PaymentCodePage} />
       <Route path="/payment/success" component={PaymentSuccessPage} />
       <Route path="/profile" component={ProfilePage} />
+      <Route path="/proposal/:token" component={ProposalPage} />
       <Route path="/admin" component={AdminDashboard} />
       <Route path="/admin/quotes" component={AdminQuotes} />
+      <Route path="/admin/quote-drafts" component={AdminQuoteDrafts} />
+      <Route path="/admin/questionnaires" component={AdminQuestionnaires} />
       <Route path="/admin/projects" component={AdminProjects} />
       <Route path="/admin/reviews" component={AdminReviews} />
       <Route path="/admin/payment-codes" component={AdminPaymentCodes} />
       <Route path="/admin/users" component={AdminUsers} />
       <Route path="/admin/subscriptions" component={AdminSubscriptions} />
       <Route path="/admin/code-payments" component={AdminCodePayments} />
+      <Route path="/admin/plans" component={AdminPlans} />
+      <Route path="/admin/coupons" component={AdminCoupons} />
+      <Route path="/admin/exchange-rates" component={AdminExchangeRates} />
+      <Route path="/admin/pricing" component={AdminPricing} />
+      <Route path="/admin/code-attempts" component={AdminCodeAttempts} />
+      <Route path="/admin/payments" component={AdminPayments} />
+      <Route path="/admin/invoices" component={AdminInvoices} />
       <Route component={NotFound} />
     </Switch>
   );
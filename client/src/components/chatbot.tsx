@@ -1,9 +1,11 @@
 import { useState, useRef, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { MessageCircle, X, Send, Bot, User, Sparkles } from "lucide-react";
+import { getCurrencySymbol, type Plan } from "@shared/schema";
 
 interface Message {
   id: string;
@@ -19,6 +21,11 @@ interface ChatOption {
   action: string;
 }
 
+interface BotResponse {
+  text: string;
+  options?: ChatOption[];
+}
+
 const menuOptions: ChatOption[] = [
   { id: "services", label: "Nossos Serviços", action: "services" },
   { id: "quote", label: "Solicitar Orçamento", action: "quote" },
@@ -28,7 +35,7 @@ const menuOptions: ChatOption[] = [
   { id: "portfolio", label: "Ver Portfólio", action: "portfolio" },
 ];
 
-const responses: Record<string, { text: string; options?: ChatOption[] }> = {
+const responses: Record<string, BotResponse> = {
   welcome: {
     text: "Olá! Sou o BW, assistente virtual da BragaWork. Como posso ajudá-lo hoje?",
     options: menuOptions,
@@ -47,13 +54,6 @@ const responses: Record<string, { text: string; options?: ChatOption[] }> = {
       { id: "back", label: "Voltar ao Menu", action: "menu" },
     ],
   },
-  maintenance: {
-    text: "Oferecemos planos de manutenção mensal:\n\n• Manutenção de Site: €50/mês\n• Manutenção de App: €100/mês\n\nInclui atualizações, correções de bugs, backups e suporte técnico.\n\nDeseja saber mais sobre os planos?",
-    options: [
-      { id: "plans", label: "Ver Planos", action: "plans" },
-      { id: "back", label: "Voltar ao Menu", action: "menu" },
-    ],
-  },
   payment: {
     text: "Aceitamos os seguintes métodos de pagamento:\n\n• Cartão de crédito/débito\n• Transferência bancária\n• Pagamento por código (para projetos específicos)\n\nSe você recebeu um código de pagamento, pode usá-lo na página de Pagamento por Código.",
     options: [
@@ -79,25 +79,59 @@ const responses: Record<string, { text: string; options?: ChatOption[] }> = {
     text: "Como mais posso ajudá-lo?",
     options: menuOptions,
   },
-  plans: {
-    text: "Detalhes dos planos de manutenção:\n\n🌐 SITE (€50/mês):\n• Atualizações de segurança\n• Correções de bugs\n• Backup semanal\n• Suporte por email/WhatsApp\n\n📱 APP (€100/mês):\n• Tudo do plano Site\n• Atualizações nas lojas\n• Monitoramento de performance\n• Suporte prioritário",
-    options: [
-      { id: "sub", label: "Assinar Plano", action: "subscribe" },
-      { id: "back", label: "Voltar ao Menu", action: "menu" },
-    ],
-  },
   default: {
     text: "Desculpe, não entendi sua pergunta. Posso ajudá-lo com informações sobre nossos serviços, orçamentos, manutenção ou pagamentos.",
     options: menuOptions,
   },
 };
 
+const formatPlanPrice = (plan: Plan) => {
+  const symbol = getCurrencySymbol(plan.currency);
+  return plan.annualPrice
+    ? `${symbol}${Number(plan.monthlyPrice)}/mês ou ${symbol}${Number(plan.annualPrice)}/ano`
+    : `${symbol}${Number(plan.monthlyPrice)}/mês`;
+};
+
+// Maintenance answers are built from the plans catalog so prices never drift
+function buildPlanResponses(plans: Plan[]): Record<string, BotResponse> {
+  const planList = plans.map((plan) => `• ${plan.name}: ${formatPlanPrice(plan)}`).join("\n");
+  const planDetails = plans
+    .map((plan) => {
+      const icon = plan.serviceType === "app" ? "📱" : "🌐";
+      const features = (plan.features || []).map((feature) => `• ${feature}`).join("\n");
+      return `${icon} ${plan.name.toUpperCase()} (${formatPlanPrice(plan)}):\n${features}`;
+    })
+    .join("\n\n");
+  const fallback = "Consulte os valores atuais na página de Manutenção.";
+
+  return {
+    maintenance: {
+      text: `Oferecemos planos de manutenção mensal:\n\n${planList || fallback}\n\nInclui atualizações, correções de bugs, backups e suporte técnico.\n\nDeseja saber mais sobre os planos?`,
+      options: [
+        { id: "plans", label: "Ver Planos", action: "plans" },
+        { id: "back", label: "Voltar ao Menu", action: "menu" },
+      ],
+    },
+    plans: {
+      text: `Detalhes dos planos de manutenção:\n\n${planDetails || fallback}`,
+      options: [
+        { id: "sub", label: "Assinar Plano", action: "subscribe" },
+        { id: "back", label: "Voltar ao Menu", action: "menu" },
+      ],
+    },
+  };
+}
+
 export function Chatbot() {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  const { data: plans = [] } = useQuery<Plan[]>({
+    queryKey: ["/api/plans"],
+  });
+
   useEffect(() => {
     if (isOpen && messages.length === 0) {
       addBotMessage("welcome");
@@ -111,7 +145,7 @@ export function Chatbot() {
   }, [messages]);
 
   const addBotMessage = (responseKey: string) => {
-    const response = responses[responseKey] || responses.default;
+    const response = { ...responses, ...buildPlanResponses(plans) }[responseKey] || responses.default;
     const newMessage: Message = {
       id: Date.now().toString(),
       type: "bot",
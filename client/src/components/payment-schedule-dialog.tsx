@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Plus, Trash2, Wallet } from "lucide-react";
+import { currencies, formatCurrency, splitScheduleAmounts, type Quote } from "@shared/schema";
+
+// Shape returned by GET /api/quotes/:id/payment-schedule and /api/profile/quotes
+export interface PaymentSchedule {
+  price: string;
+  currency: string;
+  paid: string;
+  balance: string;
+  milestones: Array<{
+    id: number;
+    position: number;
+    label: string;
+    percentage: string;
+    amount: string;
+    dueDate: string | null;
+    code: string;
+    status: "open" | "processing" | "paid";
+    paid: string;
+    paidAt: string | null;
+  }>;
+}
+
+export const milestoneStatusLabels: Record<string, { label: string; color: string }> = {
+  open: { label: "Por pagar", color: "bg-yellow-500" },
+  processing: { label: "Em processamento", color: "bg-blue-500" },
+  paid: { label: "Pago", color: "bg-green-500" },
+};
+
+type MilestoneForm = { label: string; percentage: string; dueDate: string };
+
+// The usual split for bigger projects: deposit, mid-project and delivery
+const defaultMilestones: MilestoneForm[] = [
+  { label: "Sinal", percentage: "30", dueDate: "" },
+  { label: "Entrega intermédia", percentage: "40", dueDate: "" },
+  { label: "Entrega final", percentage: "30", dueDate: "" },
+];
+
+export function PaymentScheduleDialog({ quote }: { quote: Quote }) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [price, setPrice] = useState("");
+  const [currency, setCurrency] = useState("EUR");
+  const [milestones, setMilestones] = useState<MilestoneForm[]>(defaultMilestones);
+
+  const queryKey = [`/api/quotes/${quote.id}/payment-schedule`];
+  const { data: schedule, isLoading } = useQuery<PaymentSchedule | null>({
+    queryKey,
+    enabled: isOpen && !!quote.price,
+  });
+
+  const percentageTotal = milestones.reduce((acc, m) => acc + (Number(m.percentage) || 0), 0);
+  const amounts =
+    Number(price) > 0 && Math.round(percentageTotal * 100) === 10000
+      ? splitScheduleAmounts(Number(price), milestones.map((m) => Number(m.percentage)))
+      : null;
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/quotes/${quote.id}/payment-schedule`, {
+        price,
+        currency,
+        milestones: milestones.map((m) => ({
+          label: m.label,
+          percentage: m.percentage,
+          dueDate: m.dueDate || null,
+        })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-codes"] });
+      toast({ title: "Orçamento aceite", description: "Os códigos de pagamento foram enviados ao cliente." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao criar plano de pagamentos",
+        description: getApiErrorMessage(error, "Verifique o preço e as prestações."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMilestone = (index: number, changes: Partial<MilestoneForm>) => {
+    setMilestones(milestones.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-payment-schedule-${quote.id}`}>
+          <Wallet className="w-4 h-4 mr-2" />
+          {quote.price ? "Pagamentos" : "Aceitar"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Plano de Pagamentos</DialogTitle>
+          <DialogDescription>
+            Orçamento #{quote.id} · {quote.firstName} {quote.lastName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {quote.price ? (
+          isLoading || !schedule ? (
+            <div className="py-8 flex justify-center">
+              <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full" />
+            </div>
+          ) : (
+            <div className="space-y-4 pt-4">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div>
+                  <p className="text-xs text-muted-foreground">Preço</p>
+                  <p className="font-semibold">{formatCurrency(schedule.price, schedule.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Pago</p>
+                  <p className="font-semibold text-green-500">{formatCurrency(schedule.paid, schedule.currency)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Em falta</p>
+                  <p className="font-semibold text-yellow-500">{formatCurrency(schedule.balance, schedule.currency)}</p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                {schedule.milestones.map((milestone) => {
+                  const statusInfo = milestoneStatusLabels[milestone.status];
+                  return (
+                    <div
+                      key={milestone.id}
+                      className="flex items-center justify-between gap-2 rounded-md border border-border p-3 text-sm"
+                    >
+                      <div>
+                        <p className="font-medium">
+                          {milestone.label} ({parseFloat(milestone.percentage)}%)
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Código <span className="font-mono">{milestone.code}</span>
+                          {milestone.dueDate &&
+                            ` · até ${new Date(milestone.dueDate).toLocaleDateString("pt-PT")}`}
+                        </p>
+                      </div>
+                      <div className="flex flex-col items-end gap-1">
+                        <span className="font-semibold">{formatCurrency(milestone.amount, schedule.currency)}</span>
+                        <Badge className={statusInfo?.color}>{statusInfo?.label}</Badge>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )
+        ) : (
+          <div className="space-y-4 pt-4">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor={`quote-price-${quote.id}`}>Preço acordado *</Label>
+                <Input
+                  id={`quote-price-${quote.id}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Moeda</Label>
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {currencies.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Prestações</Label>
+              {milestones.map((milestone, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={milestone.label}
+                    onChange={(e) => updateMilestone(index, { label: e.target.value })}
+                    placeholder="Descrição"
+                    className="flex-1"
+                  />
+                  <Input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={milestone.percentage}
+                    onChange={(e) => updateMilestone(index, { percentage: e.target.value })}
+                    className="w-20"
+                    aria-label="Percentagem"
+                  />
+                  <Input
+                    type="date"
+                    value={milestone.dueDate}
+                    onChange={(e) => updateMilestone(index, { dueDate: e.target.value })}
+                    className="w-36"
+                    aria-label="Data limite"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setMilestones(milestones.filter((_, i) => i !== index))}
+                    disabled={milestones.length === 1}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setMilestones([...milestones, { label: "", percentage: "", dueDate: "" }])}
+                  disabled={milestones.length >= 12}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Prestação
+                </Button>
+                <span className={`text-sm ${Math.round(percentageTotal * 100) === 10000 ? "text-muted-foreground" : "text-destructive"}`}>
+                  Total: {percentageTotal}%
+                </span>
+              </div>
+              {amounts && (
+                <p className="text-sm text-muted-foreground">
+                  {milestones.map((m, i) => `${m.label || "Prestação"}: ${formatCurrency(amounts[i], currency)}`).join(" · ")}
+                </p>
+              )}
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !amounts || milestones.some((m) => !m.label.trim())}
+            >
+              {createMutation.isPending ? "Processando..." : "Aceitar Orçamento e Gerar Códigos"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,407 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Eye, FileSignature, FileText, Link2, Plus, Trash2 } from "lucide-react";
+import {
+  calculateProposalTotal,
+  currencies,
+  formatCurrency,
+  quoteAdditionalLabels,
+  type Quote,
+  type QuoteProposal,
+} from "@shared/schema";
+
+export const proposalStatusLabels: Record<string, { label: string; color: string }> = {
+  sent: { label: "Enviada", color: "bg-blue-500" },
+  accepted: { label: "Aceite", color: "bg-green-500" },
+  declined: { label: "Recusada", color: "bg-red-500" },
+  superseded: { label: "Substituída", color: "bg-muted text-muted-foreground" },
+  expired: { label: "Expirada", color: "bg-yellow-500" },
+};
+
+// 'sent' proposals past their validity date are shown as expired
+export function getProposalStatus(proposal: Pick<QuoteProposal, "status" | "validUntil">): string {
+  if (proposal.status === "sent" && new Date(proposal.validUntil).getTime() < Date.now()) return "expired";
+  return proposal.status;
+}
+
+// Shape returned by GET /api/quotes/:id/proposals
+type AdminProposal = QuoteProposal & {
+  signature: {
+    signerName: string;
+    signatureImage: string;
+    ipAddress: string;
+    userAgent: string | null;
+    documentHash: string;
+    signedAt: string;
+  } | null;
+};
+
+type ItemForm = { description: string; quantity: string; unitPrice: string };
+
+interface ProposalForm {
+  items: ItemForm[];
+  currency: string;
+  scope: string;
+  timeline: string;
+  terms: string;
+  validUntil: string;
+}
+
+const defaultTerms =
+  "Pagamento de 30% na adjudicação e o restante conforme o plano de pagamentos acordado. " +
+  "Alterações fora do âmbito descrito são orçamentadas à parte.";
+
+function toDateInput(date: Date) {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// A new version starts from the latest one, or from what the client asked for
+function initialForm(quote: Quote, latest?: QuoteProposal): ProposalForm {
+  const validUntil = toDateInput(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000));
+  if (latest) {
+    return {
+      items: latest.items.map((item) => ({
+        description: item.description,
+        quantity: String(item.quantity),
+        unitPrice: String(item.unitPrice),
+      })),
+      currency: latest.currency,
+      scope: latest.scope,
+      timeline: latest.timeline ?? "",
+      terms: latest.terms ?? "",
+      validUntil,
+    };
+  }
+
+  return {
+    items: [
+      { description: quote.serviceType === "website" ? "Website" : "Aplicativo", quantity: "1", unitPrice: "" },
+      ...(quote.additionals ?? []).map((id) => ({
+        description: quoteAdditionalLabels[id] ?? id,
+        quantity: "1",
+        unitPrice: "",
+      })),
+    ],
+    currency: quote.currency,
+    scope: quote.projectDescription ?? "",
+    timeline: "",
+    terms: defaultTerms,
+    validUntil,
+  };
+}
+
+export function ProposalDialog({ quote }: { quote: Quote }) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<ProposalForm>(() => initialForm(quote));
+
+  const queryKey = [`/api/quotes/${quote.id}/proposals`];
+  const { data, isLoading } = useQuery<AdminProposal[]>({
+    queryKey,
+    enabled: isOpen,
+  });
+  const proposals = data ?? [];
+
+  // Refilled whenever the versions change, e.g. right after sending one
+  useEffect(() => {
+    if (data) setForm(initialForm(quote, data[0]));
+  }, [data]);
+
+  const items = form.items.map((item) => ({
+    description: item.description,
+    quantity: Number(item.quantity) || 0,
+    unitPrice: Number(item.unitPrice) || 0,
+  }));
+  const total = calculateProposalTotal(items);
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/quotes/${quote.id}/proposals`, {
+        items,
+        currency: form.currency,
+        scope: form.scope,
+        timeline: form.timeline || null,
+        terms: form.terms || null,
+        validUntil: form.validUntil,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({ title: "Proposta enviada", description: "O cliente recebeu o link por email." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao enviar proposta",
+        description: getApiErrorMessage(error, "Verifique as linhas e o âmbito."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateItem = (index: number, changes: Partial<ItemForm>) => {
+    setForm({ ...form, items: form.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const copyLink = async (proposal: QuoteProposal) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/proposal/${proposal.token}`);
+    toast({ title: "Link copiado" });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-proposal-${quote.id}`}>
+          <FileSignature className="w-4 h-4 mr-2" />
+          Proposta
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Proposta</DialogTitle>
+          <DialogDescription>
+            Orçamento #{quote.id} · {quote.firstName} {quote.lastName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 flex justify-center">
+            <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full" />
+          </div>
+        ) : (
+          <div className="space-y-6 pt-4">
+            {proposals.length > 0 && (
+              <div className="space-y-2">
+                <Label>Versões</Label>
+                {proposals.map((proposal) => {
+                  const statusInfo = proposalStatusLabels[getProposalStatus(proposal)];
+                  return (
+                    <div
+                      key={proposal.id}
+                      className="flex items-center justify-between gap-2 rounded-md border border-border p-3 text-sm"
+                    >
+                      <div>
+                        <p className="font-medium">
+                          v{proposal.version} · {formatCurrency(proposal.total, proposal.currency)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Enviada em {new Date(proposal.createdAt!).toLocaleDateString("pt-PT")}
+                          {proposal.viewedAt &&
+                            ` · vista em ${new Date(proposal.viewedAt).toLocaleDateString("pt-PT")}`}
+                          {proposal.respondedAt &&
+                            ` · respondida em ${new Date(proposal.respondedAt).toLocaleDateString("pt-PT")}`}
+                        </p>
+                        {proposal.declineReason && (
+                          <p className="text-xs text-muted-foreground">Motivo: {proposal.declineReason}</p>
+                        )}
+                        {proposal.signature && (
+                          <div className="mt-2 space-y-1">
+                            <img
+                              src={proposal.signature.signatureImage}
+                              alt={`Assinatura de ${proposal.signature.signerName}`}
+                              className="h-12 rounded bg-white"
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              Assinada por {proposal.signature.signerName} em{" "}
+                              {new Date(proposal.signature.signedAt).toLocaleString("pt-PT")} · IP{" "}
+                              {proposal.signature.ipAddress}
+                            </p>
+                            <p className="text-xs text-muted-foreground break-all" title={proposal.signature.userAgent ?? ""}>
+                              SHA-256 <span className="font-mono">{proposal.signature.documentHash}</span>
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Badge className={statusInfo?.color}>{statusInfo?.label}</Badge>
+                        <Button size="icon" variant="ghost" onClick={() => copyLink(proposal)} aria-label="Copiar link">
+                          <Link2 className="w-4 h-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" asChild>
+                          <a href={`/proposal/${proposal.token}`} target="_blank" rel="noopener noreferrer" aria-label="Abrir">
+                            <Eye className="w-4 h-4" />
+                          </a>
+                        </Button>
+                        <Button size="icon" variant="ghost" asChild>
+                          <a
+                            href={`/api/proposals/${proposal.token}/pdf`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            aria-label="PDF"
+                          >
+                            <FileText className="w-4 h-4" />
+                          </a>
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {quote.price || proposals.some((proposal) => proposal.status === "accepted") ? (
+              <p className="text-sm text-muted-foreground">
+                {quote.price
+                  ? "Este orçamento já foi aceite com um plano de pagamentos."
+                  : "O cliente já aceitou uma proposta. Crie o plano de pagamentos para avançar."}
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <Label className="text-base">
+                  {proposals.length > 0 ? `Nova versão (v${proposals[0].version + 1})` : "Nova proposta"}
+                </Label>
+
+                <div className="space-y-2">
+                  <Label>Linhas</Label>
+                  {form.items.map((item, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        value={item.description}
+                        onChange={(e) => updateItem(index, { description: e.target.value })}
+                        placeholder="Descrição"
+                        className="flex-1"
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={item.quantity}
+                        onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                        className="w-20"
+                        aria-label="Quantidade"
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={item.unitPrice}
+                        onChange={(e) => updateItem(index, { unitPrice: e.target.value })}
+                        className="w-28"
+                        placeholder="Preço"
+                        aria-label="Preço unitário"
+                      />
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => setForm({ ...form, items: form.items.filter((_, i) => i !== index) })}
+                        disabled={form.items.length === 1}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() =>
+                        setForm({ ...form, items: [...form.items, { description: "", quantity: "1", unitPrice: "" }] })
+                      }
+                      disabled={form.items.length >= 50}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Linha
+                    </Button>
+                    <span className="text-sm font-semibold">Total: {formatCurrency(total, form.currency)}</span>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Moeda</Label>
+                    <Select value={form.currency} onValueChange={(currency) => setForm({ ...form, currency })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {currencies.map((code) => (
+                          <SelectItem key={code} value={code}>
+                            {code}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`proposal-valid-${quote.id}`}>Válida até *</Label>
+                    <Input
+                      id={`proposal-valid-${quote.id}`}
+                      type="date"
+                      value={form.validUntil}
+                      onChange={(e) => setForm({ ...form, validUntil: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor={`proposal-scope-${quote.id}`}>Âmbito *</Label>
+                  <Textarea
+                    id={`proposal-scope-${quote.id}`}
+                    value={form.scope}
+                    onChange={(e) => setForm({ ...form, scope: e.target.value })}
+                    className="min-h-[100px]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`proposal-timeline-${quote.id}`}>Prazos</Label>
+                  <Textarea
+                    id={`proposal-timeline-${quote.id}`}
+                    value={form.timeline}
+                    onChange={(e) => setForm({ ...form, timeline: e.target.value })}
+                    placeholder="Ex.: design em 2 semanas, desenvolvimento em 4 semanas"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`proposal-terms-${quote.id}`}>Termos</Label>
+                  <Textarea
+                    id={`proposal-terms-${quote.id}`}
+                    value={form.terms}
+                    onChange={(e) => setForm({ ...form, terms: e.target.value })}
+                  />
+                </div>
+
+                <Button
+                  className="w-full"
+                  onClick={() => sendMutation.mutate()}
+                  disabled={
+                    sendMutation.isPending ||
+                    total <= 0 ||
+                    !form.validUntil ||
+                    form.scope.trim().length < 10 ||
+                    form.items.some((item) => !item.description.trim())
+                  }
+                >
+                  {sendMutation.isPending ? "Enviando..." : "Enviar Proposta ao Cliente"}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { FileText, Paperclip, X } from "lucide-react";
+import { maxQuoteAttachments, maxQuoteAttachmentSize, type QuoteAttachmentInfo } from "@shared/schema";
+
+// Mirrors the types accepted by the server
+const accept = ".pdf,.png,.jpg,.jpeg,.gif,.webp,.svg,.txt,.doc,.docx,.pptx,.zip";
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Files go to the draft of the quote form; ensureDraft saves the form first
+// when it has not been saved yet and returns the draft token.
+export function QuoteAttachmentsField({
+  draftToken,
+  ensureDraft,
+}: {
+  draftToken: string | null;
+  ensureDraft: () => Promise<string | null>;
+}) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const queryKey = [`/api/quote-drafts/${draftToken}/attachments`];
+  const { data: attachments = [] } = useQuery<QuoteAttachmentInfo[]>({
+    queryKey,
+    enabled: !!draftToken,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const tooLarge = files.find((file) => file.size > maxQuoteAttachmentSize);
+      if (tooLarge) {
+        throw new Error(`${tooLarge.name} tem mais de ${maxQuoteAttachmentSize / 1024 / 1024} MB`);
+      }
+      const token = await ensureDraft();
+      if (!token) throw new Error("Não foi possível guardar o pedido");
+
+      const body = new FormData();
+      files.forEach((file) => body.append("files", file));
+      const res = await fetch(`/api/quote-drafts/${token}/attachments`, {
+        method: "POST",
+        body,
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return token;
+    },
+    onSuccess: (token) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/quote-drafts/${token}/attachments`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao anexar ficheiros",
+        description: getApiErrorMessage(error, error.message || "Por favor, tente novamente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/quote-drafts/${draftToken}/attachments/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const remaining = maxQuoteAttachments - attachments.length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <Label>Anexos (opcional)</Label>
+          <p className="text-xs text-muted-foreground">
+            Briefing, logótipo, maquetes... até {maxQuoteAttachments} ficheiros de{" "}
+            {maxQuoteAttachmentSize / 1024 / 1024} MB (PDF, imagens, Word, PowerPoint, ZIP).
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="border-primary/30"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploadMutation.isPending || remaining <= 0}
+          data-testid="button-attach-files"
+        >
+          <Paperclip className="w-4 h-4 mr-2" />
+          {uploadMutation.isPending ? "Enviando..." : "Anexar"}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={accept}
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []).slice(0, remaining);
+            e.target.value = "";
+            if (files.length > 0) uploadMutation.mutate(files);
+          }}
+          data-testid="input-attachments"
+        />
+      </div>
+
+      {attachments.length > 0 && (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="flex items-center gap-3 rounded-md border border-border px-3 py-2 text-sm"
+              data-testid={`attachment-${attachment.id}`}
+            >
+              <FileText className="w-4 h-4 text-primary shrink-0" />
+              <span className="truncate flex-1">{attachment.fileName}</span>
+              <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => removeMutation.mutate(attachment.id)}
+                disabled={removeMutation.isPending}
+                aria-label={`Remover ${attachment.fileName}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
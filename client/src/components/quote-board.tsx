@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { QuoteDetailDialog, getQuoteStatusInfo, isFollowUpOverdue } from "@/components/quote-detail-dialog";
+import { BellRing, Globe, Smartphone } from "lucide-react";
+import {
+  canChangeQuoteStatus,
+  formatCurrency,
+  quoteLostReasons,
+  quoteStatuses,
+  type Quote,
+  type QuoteStatus,
+} from "@shared/schema";
+
+type Move = { quote: Quote; status: QuoteStatus };
+
+// Agreed price once accepted, otherwise the instant estimate range
+function getQuoteValue(quote: Quote): string | null {
+  if (quote.price) return formatCurrency(quote.price, quote.currency);
+  if (quote.estimateMin && quote.estimateMax) {
+    return `${formatCurrency(quote.estimateMin)} – ${formatCurrency(quote.estimateMax)}`;
+  }
+  return null;
+}
+
+// Pipeline columns; cards are dragged between them and only dropped where
+// the status transition is allowed. Moves go through PATCH /api/quotes/:id/status.
+export function QuoteBoard({ quotes }: { quotes: Quote[] }) {
+  const { toast } = useToast();
+  const [dragging, setDragging] = useState<Quote | null>(null);
+  const [overColumn, setOverColumn] = useState<QuoteStatus | null>(null);
+  const [pendingLoss, setPendingLoss] = useState<Quote | null>(null);
+  const [lostReason, setLostReason] = useState("");
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ quote, status, lostReason }: Move & { lostReason?: string }) => {
+      return apiRequest("PATCH", `/api/quotes/${quote.id}/status`, { status, lostReason: lostReason ?? null });
+    },
+    // The card moves right away and goes back if the server refuses
+    onMutate: ({ quote, status }) => {
+      queryClient.setQueryData<Quote[]>(["/api/quotes"], (current) =>
+        current?.map((q) => (q.id === quote.id ? { ...q, status } : q)),
+      );
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao mover orçamento",
+        description: getApiErrorMessage(error, "Por favor, tente novamente."),
+        variant: "destructive",
+      });
+    },
+    onSettled: (_, __, { quote }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/quotes/${quote.id}/events`] });
+    },
+  });
+
+  const handleDrop = (status: QuoteStatus) => {
+    const quote = dragging;
+    setDragging(null);
+    setOverColumn(null);
+    if (!quote || quote.status === status) return;
+
+    if (!canChangeQuoteStatus(quote.status, status)) {
+      toast({
+        title: "Mudança não permitida",
+        description: `Um orçamento "${getQuoteStatusInfo(quote.status).label}" não pode passar para "${getQuoteStatusInfo(status).label}".`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (status === "lost") {
+      setLostReason("");
+      setPendingLoss(quote);
+      return;
+    }
+    moveMutation.mutate({ quote, status });
+  };
+
+  return (
+    <>
+      <div className="flex gap-4 overflow-x-auto pb-4" data-testid="quote-board">
+        {quoteStatuses.map((status) => {
+          const statusInfo = getQuoteStatusInfo(status);
+          const columnQuotes = quotes.filter((quote) => quote.status === status);
+          const canDrop = !!dragging && dragging.status !== status && canChangeQuoteStatus(dragging.status, status);
+          return (
+            <div
+              key={status}
+              className={`flex-shrink-0 w-72 rounded-xl border p-3 space-y-3 transition-colors ${
+                overColumn === status && canDrop
+                  ? "border-primary bg-primary/5"
+                  : dragging && !canDrop
+                    ? "border-border opacity-50"
+                    : "border-border bg-muted/30"
+              }`}
+              onDragOver={(e) => {
+                if (!canDrop) return;
+                e.preventDefault();
+                setOverColumn(status);
+              }}
+              onDragLeave={() => setOverColumn((current) => (current === status ? null : current))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(status);
+              }}
+              data-testid={`board-column-${status}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className={`w-2.5 h-2.5 rounded-full ${statusInfo.color}`} />
+                  <h3 className="font-semibold text-sm">{statusInfo.label}</h3>
+                </div>
+                <Badge variant="secondary">{columnQuotes.length}</Badge>
+              </div>
+
+              {columnQuotes.map((quote) => {
+                const value = getQuoteValue(quote);
+                return (
+                  <Card
+                    key={quote.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      e.dataTransfer.setData("text/plain", String(quote.id));
+                      setDragging(quote);
+                    }}
+                    onDragEnd={() => {
+                      setDragging(null);
+                      setOverColumn(null);
+                    }}
+                    className={`p-3 space-y-2 bg-card cursor-grab active:cursor-grabbing ${
+                      dragging?.id === quote.id ? "opacity-50" : ""
+                    }`}
+                    data-testid={`board-card-${quote.id}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-medium text-sm">
+                        {quote.firstName} {quote.lastName}
+                      </p>
+                      {quote.serviceType === "website" ? (
+                        <Globe className="w-4 h-4 text-muted-foreground shrink-0" aria-label="Website" />
+                      ) : (
+                        <Smartphone className="w-4 h-4 text-muted-foreground shrink-0" aria-label="Aplicativo" />
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{quote.businessSegment}</p>
+                    {value && <p className="text-sm font-semibold">{value}</p>}
+                    {quote.status === "lost" && quote.lostReason && (
+                      <p className="text-xs text-muted-foreground">
+                        {quoteLostReasons[quote.lostReason] ?? quote.lostReason}
+                      </p>
+                    )}
+                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                      <span>{formatDistanceToNow(new Date(quote.createdAt!), { addSuffix: true, locale: ptBR })}</span>
+                      {quote.followUpAt && (
+                        <span
+                          className={`flex items-center gap-1 ${isFollowUpOverdue(quote) ? "text-destructive font-medium" : ""}`}
+                        >
+                          <BellRing className="w-3 h-3" />
+                          {new Date(quote.followUpAt).toLocaleDateString("pt-BR")}
+                        </span>
+                      )}
+                    </div>
+                    <QuoteDetailDialog quote={quote} />
+                  </Card>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!pendingLoss} onOpenChange={(open) => !open && setPendingLoss(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Marcar como perdido</DialogTitle>
+            <DialogDescription>
+              {pendingLoss && `Orçamento #${pendingLoss.id} · ${pendingLoss.firstName} ${pendingLoss.lastName}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Motivo da perda *</Label>
+            <Select value={lostReason} onValueChange={setLostReason}>
+              <SelectTrigger data-testid="select-board-lost-reason">
+                <SelectValue placeholder="Escolha o motivo" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.keys(quoteLostReasons).map((reason) => (
+                  <SelectItem key={reason} value={reason}>
+                    {quoteLostReasons[reason]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setPendingLoss(null)}>
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!lostReason}
+              onClick={() => {
+                if (pendingLoss) moveMutation.mutate({ quote: pendingLoss, status: "lost", lostReason });
+                setPendingLoss(null);
+              }}
+            >
+              Marcar como Perdido
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
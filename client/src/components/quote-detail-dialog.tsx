@@ -0,0 +1,391 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import {
+  ArrowRight,
+  BellRing,
+  CalendarClock,
+  CheckCircle,
+  FileSignature,
+  GitMerge,
+  History,
+  Inbox,
+  Paperclip,
+  ShieldCheck,
+  StickyNote,
+  Wallet,
+  XCircle,
+} from "lucide-react";
+import {
+  quoteLostReasons,
+  quoteStatusLabels,
+  quoteStatusTransitions,
+  type Quote,
+  type QuoteAttachmentInfo,
+  type QuoteEvent,
+  type QuoteStatus,
+} from "@shared/schema";
+import { formatFileSize } from "@/components/quote-attachments-field";
+import { formatAnswerValue } from "@/components/quote-questions";
+
+export const quoteStatusColors: Record<QuoteStatus, string> = {
+  new: "bg-yellow-500",
+  contacted: "bg-sky-500",
+  proposal_sent: "bg-blue-500",
+  negotiating: "bg-violet-500",
+  won: "bg-green-500",
+  lost: "bg-red-500",
+};
+
+export function getQuoteStatusInfo(status: string): { label: string; color: string } {
+  return {
+    label: quoteStatusLabels[status as QuoteStatus] ?? status,
+    color: quoteStatusColors[status as QuoteStatus] ?? "bg-muted text-muted-foreground",
+  };
+}
+
+// Follow-ups are due on the day; anything before today is overdue
+export function isFollowUpOverdue(quote: Pick<Quote, "followUpAt" | "status">): boolean {
+  if (!quote.followUpAt || quote.status === "won" || quote.status === "lost") return false;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return new Date(quote.followUpAt).getTime() < today.getTime();
+}
+
+// Shape returned by GET /api/quotes/:id/events
+type QuoteEventWithUser = QuoteEvent & { userName: string | null };
+
+const eventIcons: Record<string, typeof History> = {
+  created: Inbox,
+  status_changed: ArrowRight,
+  note: StickyNote,
+  follow_up: BellRing,
+  proposal_sent: FileSignature,
+  proposal_accepted: CheckCircle,
+  proposal_declined: XCircle,
+  payment_schedule: Wallet,
+  released: ShieldCheck,
+  merged: GitMerge,
+};
+
+function describeEvent(event: QuoteEventWithUser): string {
+  const status = (value: string | null) => (value ? getQuoteStatusInfo(value).label : "");
+  switch (event.type) {
+    case "created":
+      return "Pedido de orçamento recebido";
+    case "status_changed":
+      return `${status(event.fromStatus)} → ${status(event.toStatus)}`;
+    case "note":
+      return "Nota interna";
+    case "follow_up":
+      return event.followUpAt
+        ? `Follow-up agendado para ${new Date(event.followUpAt).toLocaleDateString("pt-PT")}`
+        : "Follow-up removido";
+    case "proposal_sent":
+      return "Proposta enviada";
+    case "proposal_accepted":
+      return "Proposta aceite pelo cliente";
+    case "proposal_declined":
+      return "Proposta recusada pelo cliente";
+    case "payment_schedule":
+      return "Plano de pagamentos criado";
+    case "released":
+      return "Libertado da quarentena";
+    case "merged":
+      return "Duplicado fundido";
+    default:
+      return event.type;
+  }
+}
+
+function toDateInput(date: Date) {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function QuoteDetailDialog({ quote }: { quote: Quote }) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState("");
+  const [lostReason, setLostReason] = useState("");
+  const [statusNote, setStatusNote] = useState("");
+  const [note, setNote] = useState("");
+  const [followUp, setFollowUp] = useState(quote.followUpAt ? toDateInput(new Date(quote.followUpAt)) : "");
+
+  const eventsKey = [`/api/quotes/${quote.id}/events`];
+  const { data: events = [], isLoading } = useQuery<QuoteEventWithUser[]>({
+    queryKey: eventsKey,
+    enabled: isOpen,
+  });
+
+  const { data: attachments = [] } = useQuery<QuoteAttachmentInfo[]>({
+    queryKey: [`/api/quotes/${quote.id}/attachments`],
+    enabled: isOpen,
+  });
+
+  const nextStatuses = quoteStatusTransitions[quote.status as QuoteStatus] ?? [];
+  const statusInfo = getQuoteStatusInfo(quote.status);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+    queryClient.invalidateQueries({ queryKey: eventsKey });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: getApiErrorMessage(error, "Por favor, tente novamente."), variant: "destructive" });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", `/api/quotes/${quote.id}/status`, {
+        status,
+        lostReason: status === "lost" ? lostReason : null,
+        note: statusNote || null,
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      setStatus("");
+      setLostReason("");
+      setStatusNote("");
+      toast({ title: "Estado atualizado" });
+    },
+    onError: onError("Erro ao atualizar estado"),
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/quotes/${quote.id}/notes`, { note });
+    },
+    onSuccess: () => {
+      refresh();
+      setNote("");
+    },
+    onError: onError("Erro ao adicionar nota"),
+  });
+
+  const followUpMutation = useMutation({
+    mutationFn: async (followUpAt: string | null) => {
+      return apiRequest("PUT", `/api/quotes/${quote.id}/follow-up`, { followUpAt });
+    },
+    onSuccess: (_, followUpAt) => {
+      refresh();
+      setFollowUp(followUpAt ?? "");
+      toast({ title: followUpAt ? "Follow-up agendado" : "Follow-up removido" });
+    },
+    onError: onError("Erro ao agendar follow-up"),
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-quote-detail-${quote.id}`}>
+          <History className="w-4 h-4 mr-2" />
+          Detalhes
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Orçamento #{quote.id}
+            <Badge className={statusInfo.color}>{statusInfo.label}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {quote.firstName} {quote.lastName} · {quote.email}
+            {quote.status === "lost" && quote.lostReason && ` · ${quoteLostReasons[quote.lostReason] ?? quote.lostReason}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 pt-4">
+          {nextStatuses.length > 0 && (
+            <div className="space-y-3">
+              <Label className="text-base">Mudar estado</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger data-testid="select-quote-status">
+                    <SelectValue placeholder="Novo estado" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {nextStatuses.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {quoteStatusLabels[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {status === "lost" && (
+                  <Select value={lostReason} onValueChange={setLostReason}>
+                    <SelectTrigger data-testid="select-lost-reason">
+                      <SelectValue placeholder="Motivo da perda" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.keys(quoteLostReasons).map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {quoteLostReasons[reason]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              {status && (
+                <>
+                  <Textarea
+                    value={statusNote}
+                    onChange={(e) => setStatusNote(e.target.value)}
+                    placeholder="Comentário (opcional)"
+                    maxLength={1000}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => statusMutation.mutate()}
+                    disabled={statusMutation.isPending || (status === "lost" && !lostReason)}
+                  >
+                    {statusMutation.isPending ? "Salvando..." : "Atualizar Estado"}
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {quote.answers && quote.answers.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-base">Respostas do questionário</Label>
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                {quote.answers.map((answer) => (
+                  <div key={answer.fieldId} data-testid={`quote-answer-${answer.fieldId}`}>
+                    <dt className="text-muted-foreground">{answer.label}</dt>
+                    <dd className="font-medium whitespace-pre-line">{formatAnswerValue(answer.value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+
+          {attachments.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-base">Anexos</Label>
+              <ul className="space-y-2">
+                {attachments.map((attachment) => (
+                  <li key={attachment.id} className="flex items-center gap-2 text-sm">
+                    <Paperclip className="w-4 h-4 text-primary shrink-0" />
+                    <a
+                      href={`/api/quote-attachments/${attachment.id}/download`}
+                      className="truncate hover:text-primary underline-offset-2 hover:underline"
+                      data-testid={`link-attachment-${attachment.id}`}
+                    >
+                      {attachment.fileName}
+                    </a>
+                    <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor={`follow-up-${quote.id}`} className="text-base">
+              Próximo follow-up
+            </Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id={`follow-up-${quote.id}`}
+                type="date"
+                value={followUp}
+                onChange={(e) => setFollowUp(e.target.value)}
+                className="w-48"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => followUpMutation.mutate(followUp)}
+                disabled={followUpMutation.isPending || !followUp}
+              >
+                <CalendarClock className="w-4 h-4 mr-2" />
+                Agendar
+              </Button>
+              {quote.followUpAt && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => followUpMutation.mutate(null)}
+                  disabled={followUpMutation.isPending}
+                >
+                  Remover
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`quote-note-${quote.id}`} className="text-base">
+              Nota interna
+            </Label>
+            <Textarea
+              id={`quote-note-${quote.id}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Visível apenas para administradores"
+              maxLength={2000}
+            />
+            <Button size="sm" onClick={() => noteMutation.mutate()} disabled={noteMutation.isPending || !note.trim()}>
+              {noteMutation.isPending ? "Salvando..." : "Adicionar Nota"}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-base">Histórico</Label>
+            {isLoading ? (
+              <div className="py-4 flex justify-center">
+                <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : (
+              <ol className="space-y-3">
+                {events.map((event) => {
+                  const Icon = eventIcons[event.type] ?? History;
+                  return (
+                    <li key={event.id} className="flex gap-3 text-sm" data-testid={`quote-event-${event.id}`}>
+                      <Icon className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                      <div className="space-y-1">
+                        <p className="font-medium">{describeEvent(event)}</p>
+                        {event.note && (
+                          <p className="text-muted-foreground whitespace-pre-line">{event.note}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(event.createdAt!).toLocaleString("pt-PT")} ·{" "}
+                          {event.userName ?? (event.userId ? "Administrador" : "Cliente / automático")}
+                        </p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -16,7 +16,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useFormChallenge } from "@/hooks/use-form-challenge";
+import { useAuth } from "@/lib/auth-context";
+import { QuoteAttachmentsField } from "@/components/quote-attachments-field";
+import { QuoteQuestions, type QuestionAnswers } from "@/components/quote-questions";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import {
   ArrowLeft,
   ArrowRight,
@@ -26,10 +30,21 @@ import {
   Smartphone,
   Briefcase,
   Layers,
+  ListChecks,
   FileText,
   Rocket,
   Sparkles,
+  Calculator,
+  Mail,
 } from "lucide-react";
+import {
+  businessSegments,
+  quoteAdditionalLabels,
+  formatCurrency,
+  buildQuestionnaireSchema,
+  formHoneypotField,
+  type QuestionField,
+} from "@shared/schema";
 
 const countryCodes = [
   { code: "+351", flag: "🇵🇹", country: "Portugal" },
@@ -40,28 +55,20 @@ const countryCodes = [
   { code: "+1", flag: "🇺🇸", country: "EUA" },
 ];
 
-const businessSegments = [
-  "Restaurante / Alimentação",
-  "Loja / E-commerce",
-  "Saúde / Medicina",
-  "Educação / Cursos",
-  "Advocacia / Jurídico",
-  "Imobiliária / Construção",
-  "Beleza / Estética",
-  "Academia / Fitness",
-  "Tecnologia / Startup",
-  "Consultoria / Serviços",
-  "Arte / Entretenimento",
-  "Outro",
-];
-
 const additionalFeatures = [
-  { id: "payment_online", label: "Pagamento Online", description: "Integração com métodos de pagamento" },
-  { id: "scheduling", label: "Agendamento", description: "Sistema de reservas e marcações" },
-  { id: "admin_panel", label: "Painel Administrativo", description: "Gestão de conteúdo e dados" },
-  { id: "chat", label: "Chat / Atendimento", description: "Comunicação em tempo real" },
+  { id: "payment_online", label: quoteAdditionalLabels.payment_online, description: "Integração com métodos de pagamento" },
+  { id: "scheduling", label: quoteAdditionalLabels.scheduling, description: "Sistema de reservas e marcações" },
+  { id: "admin_panel", label: quoteAdditionalLabels.admin_panel, description: "Gestão de conteúdo e dados" },
+  { id: "chat", label: quoteAdditionalLabels.chat, description: "Comunicação em tempo real" },
 ];
 
+// Range returned by POST /api/quotes/estimate
+interface QuoteEstimate {
+  min: number;
+  max: number;
+  currency: string;
+}
+
 interface FormData {
   firstName: string;
   lastName: string;
@@ -72,47 +79,200 @@ interface FormData {
   businessSegment: string;
   additionals: string[];
   projectDescription: string;
+  answers: QuestionAnswers;
 }
 
+// Shape returned by the /api/quote-drafts endpoints
+interface QuoteDraft {
+  token: string;
+  step: number;
+  data: Partial<FormData>;
+}
+
+// Token of the draft being filled in, so a refresh or a new tab picks it up
+const draftStorageKey = "quoteDraftToken";
+
+const emptyForm: FormData = {
+  firstName: "",
+  lastName: "",
+  email: "",
+  phone: "",
+  countryCode: "+351",
+  serviceType: "",
+  businessSegment: "",
+  additionals: [],
+  projectDescription: "",
+  answers: {},
+};
+
+// The questions step only shows when the chosen service type and segment
+// have a questionnaire
+const questionsStep = 4;
+const lastStep = 6;
+
 const steps = [
   { id: 1, title: "Dados Pessoais", icon: User },
   { id: 2, title: "Tipo de Projeto", icon: Globe },
   { id: 3, title: "Segmento", icon: Briefcase },
-  { id: 4, title: "Funcionalidades", icon: Layers },
-  { id: 5, title: "Descrição", icon: FileText },
+  { id: questionsStep, title: "Perguntas", icon: ListChecks },
+  { id: 5, title: "Funcionalidades", icon: Layers },
+  { id: lastStep, title: "Descrição", icon: FileText },
 ];
 
+function getQuestionnaireQuery(serviceType: string, businessSegment: string) {
+  return {
+    queryKey: ["/api/quote-questionnaire", serviceType, businessSegment],
+    queryFn: async (): Promise<QuestionField[]> => {
+      const params = new URLSearchParams({ serviceType, businessSegment });
+      const res = await apiRequest("GET", `/api/quote-questionnaire?${params}`);
+      return res.json();
+    },
+  };
+}
+
 export function QuoteForm() {
   const [currentStep, setCurrentStep] = useState(1);
-  const [formData, setFormData] = useState<FormData>({
-    firstName: "",
-    lastName: "",
-    email: "",
-    phone: "",
-    countryCode: "+351",
-    serviceType: "",
-    businessSegment: "",
-    additionals: [],
-    projectDescription: "",
-  });
+  const [formData, setFormData] = useState<FormData>(emptyForm);
   const [errors, setErrors] = useState<Partial<Record<keyof FormData, string>>>({});
+  const [answerErrors, setAnswerErrors] = useState<Record<string, string>>({});
+  const [honeypot, setHoneypot] = useState("");
+  const getChallengeProof = useFormChallenge("quote");
   const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [draftToken, setDraftToken] = useState<string | null>(null);
+  const draftTokenRef = useRef<string | null>(null);
+  const draftSaveRef = useRef<Promise<void>>(Promise.resolve());
+
+  const rememberDraft = (token: string | null) => {
+    draftTokenRef.current = token;
+    setDraftToken(token);
+    if (token) {
+      localStorage.setItem(draftStorageKey, token);
+    } else {
+      localStorage.removeItem(draftStorageKey);
+    }
+  };
+
+  // Picks up where the visitor left off: the emailed link, this browser or
+  // their account, in that order
+  useEffect(() => {
+    if (authLoading) return;
+    const fromLink = new URLSearchParams(window.location.search).get("draft");
+    const token = fromLink || localStorage.getItem(draftStorageKey);
+    if (!token && !isAuthenticated) return;
+    if (fromLink) window.history.replaceState(null, "", window.location.pathname);
+
+    let cancelled = false;
+    apiRequest("GET", token ? `/api/quote-drafts/${token}` : "/api/quote-drafts/mine")
+      .then((res) => res.json())
+      .then((draft: QuoteDraft) => {
+        if (cancelled) return;
+        rememberDraft(draft.token);
+        setFormData({ ...emptyForm, ...draft.data } as FormData);
+        setCurrentStep(draft.step);
+        toast({ title: "Retomámos o seu pedido", description: `Continue a partir do passo ${draft.step}.` });
+      })
+      .catch(() => {
+        if (!cancelled && token) rememberDraft(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authLoading]);
+
+  // Saves run one after the other, so the first one can hand its token to the
+  // next. A failed save forgets the token and the next one starts a new draft.
+  const saveDraft = (step: number, data: FormData) => {
+    draftSaveRef.current = draftSaveRef.current.then(async () => {
+      try {
+        const token = draftTokenRef.current;
+        const res = token
+          ? await apiRequest("PUT", `/api/quote-drafts/${token}`, { step, data })
+          : await apiRequest("POST", "/api/quote-drafts", { step, data });
+        const draft: QuoteDraft = await res.json();
+        rememberDraft(draft.token);
+      } catch {
+        rememberDraft(null);
+      }
+    });
+    return draftSaveRef.current;
+  };
+
+  // Recalculated on the summary step whenever the choices change
+  const { data: estimate, isFetching: isEstimating } = useQuery<QuoteEstimate>({
+    queryKey: ["/api/quotes/estimate", formData.serviceType, formData.businessSegment, formData.additionals.join(",")],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/quotes/estimate", {
+        serviceType: formData.serviceType,
+        businessSegment: formData.businessSegment || null,
+        additionals: formData.additionals,
+      });
+      return res.json();
+    },
+    enabled: currentStep === lastStep && !!formData.serviceType,
+  });
+
+  const { data: questions = [], isSuccess: questionsLoaded } = useQuery({
+    ...getQuestionnaireQuery(formData.serviceType, formData.businessSegment),
+    enabled: !!formData.serviceType && !!formData.businessSegment,
+  });
+
+  const visibleSteps = steps.filter(
+    (step) => step.id !== questionsStep || questions.length > 0 || currentStep === questionsStep,
+  );
+  const stepPosition = visibleSteps.findIndex((step) => step.id === currentStep) + 1;
+
+  // A resumed draft may stop on the questions step of a segment that no
+  // longer has any
+  useEffect(() => {
+    if (currentStep === questionsStep && questionsLoaded && questions.length === 0) {
+      setCurrentStep(questionsStep + 1);
+    }
+  }, [currentStep, questionsLoaded, questions.length]);
 
   const submitMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      return apiRequest("POST", "/api/quotes", data);
+      const [proof] = await Promise.all([getChallengeProof(), draftSaveRef.current]);
+      return apiRequest("POST", "/api/quotes", {
+        ...data,
+        ...proof,
+        [formHoneypotField]: honeypot,
+        draftToken: draftTokenRef.current,
+      });
     },
     onSuccess: () => {
+      rememberDraft(null);
       toast({
         title: "Orçamento enviado com sucesso!",
         description: "Em breve entraremos em contacto consigo.",
       });
-      setCurrentStep(6);
+      setCurrentStep(lastStep + 1);
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Erro ao enviar orçamento",
-        description: "Por favor, tente novamente.",
+        description: getApiErrorMessage(error, "Por favor, tente novamente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resumeLinkMutation = useMutation({
+    mutationFn: async () => {
+      await saveDraft(currentStep, formData);
+      if (!draftTokenRef.current) throw new Error("Não foi possível guardar o pedido");
+      return apiRequest("POST", `/api/quote-drafts/${draftTokenRef.current}/resume-link`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Link enviado",
+        description: `Enviámos para ${formData.email} um link para continuar mais tarde.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao enviar link",
+        description: getApiErrorMessage(error, "Por favor, tente novamente."),
         variant: "destructive",
       });
     },
@@ -142,25 +302,47 @@ export function QuoteForm() {
       case 3:
         if (!formData.businessSegment) newErrors.businessSegment = "Selecione um segmento";
         break;
+      case questionsStep: {
+        const result = buildQuestionnaireSchema(questions).safeParse(formData.answers);
+        const newAnswerErrors: Record<string, string> = {};
+        result.error?.errors.forEach((issue) => {
+          const fieldId = String(issue.path[0]);
+          if (!newAnswerErrors[fieldId]) newAnswerErrors[fieldId] = issue.message;
+        });
+        setAnswerErrors(newAnswerErrors);
+        if (!result.success) newErrors.answers = "Verifique as respostas";
+        break;
+      }
     }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleNext = () => {
-    if (validateStep(currentStep)) {
-      if (currentStep < 5) {
-        setCurrentStep(currentStep + 1);
-      } else {
-        submitMutation.mutate(formData);
-      }
+  const handleNext = async () => {
+    if (!validateStep(currentStep)) return;
+    if (currentStep === lastStep) {
+      submitMutation.mutate(formData);
+      return;
+    }
+
+    let next = currentStep + 1;
+    if (next === questionsStep) {
+      // The questionnaire may still be loading right after picking the segment
+      const fields = await queryClient
+        .fetchQuery(getQuestionnaireQuery(formData.serviceType, formData.businessSegment))
+        .catch(() => []);
+      if (fields.length === 0) next += 1;
     }
+    setCurrentStep(next);
+    saveDraft(next, formData);
   };
 
   const handleBack = () => {
-    if (currentStep > 1) {
-      setCurrentStep(currentStep - 1);
+    const previous = [...visibleSteps].reverse().find((step) => step.id < currentStep);
+    if (previous) {
+      setCurrentStep(previous.id);
+      saveDraft(previous.id, formData);
     }
   };
 
@@ -173,9 +355,9 @@ export function QuoteForm() {
     }));
   };
 
-  const progress = (currentStep / 5) * 100;
+  const progress = (stepPosition / visibleSteps.length) * 100;
 
-  if (currentStep === 6) {
+  if (currentStep > lastStep) {
     return (
       <Card className="max-w-2xl mx-auto p-8 bg-card/80 backdrop-blur border-primary/20 text-center">
         <div className="w-20 h-20 rounded-full bg-gradient-to-r from-primary to-secondary flex items-center justify-center mx-auto mb-6 glow-primary">
@@ -192,17 +374,7 @@ export function QuoteForm() {
             variant="outline"
             onClick={() => {
               setCurrentStep(1);
-              setFormData({
-                firstName: "",
-                lastName: "",
-                email: "",
-                phone: "",
-                countryCode: "+351",
-                serviceType: "",
-                businessSegment: "",
-                additionals: [],
-                projectDescription: "",
-              });
+              setFormData(emptyForm);
             }}
             className="border-primary/30"
           >
@@ -223,7 +395,7 @@ export function QuoteForm() {
     <div className="max-w-3xl mx-auto">
       <div className="mb-8">
         <div className="flex items-center justify-center gap-4 mb-4 flex-wrap">
-          {steps.map((step, index) => (
+          {visibleSteps.map((step, index) => (
             <div key={step.id} className="flex items-center gap-2">
               <div
                 className={`w-10 h-10 rounded-full flex items-center justify-center transition-all ${
@@ -238,7 +410,7 @@ export function QuoteForm() {
                   <step.icon className="w-5 h-5" />
                 )}
               </div>
-              {index < steps.length - 1 && (
+              {index < visibleSteps.length - 1 && (
                 <div
                   className={`hidden sm:block w-12 h-0.5 ${
                     currentStep > step.id ? "bg-primary" : "bg-muted"
@@ -250,11 +422,23 @@ export function QuoteForm() {
         </div>
         <Progress value={progress} className="h-2" />
         <p className="text-center text-sm text-muted-foreground mt-2">
-          Etapa {currentStep} de 5 - {steps[currentStep - 1]?.title}
+          Etapa {stepPosition} de {visibleSteps.length} - {visibleSteps[stepPosition - 1]?.title}
         </p>
       </div>
 
-      <Card className="p-6 sm:p-8 bg-card/80 backdrop-blur border-primary/20">
+      <Card className="p-6 sm:p-8 bg-card/80 backdrop-blur border-primary/20 relative">
+        <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+          <label htmlFor={formHoneypotField}>Deixe este campo vazio</label>
+          <input
+            id={formHoneypotField}
+            name={formHoneypotField}
+            type="text"
+            tabIndex={-1}
+            autoComplete="off"
+            value={honeypot}
+            onChange={(e) => setHoneypot(e.target.value)}
+          />
+        </div>
         {currentStep === 1 && (
           <div className="space-y-6 animate-fade-in">
             <div className="text-center mb-6">
@@ -427,7 +611,23 @@ export function QuoteForm() {
           </div>
         )}
 
-        {currentStep === 4 && (
+        {currentStep === questionsStep && (
+          <div className="space-y-6 animate-fade-in">
+            <div className="text-center mb-6">
+              <h2 className="font-serif text-2xl font-bold mb-2">Sobre o seu Negócio</h2>
+              <p className="text-muted-foreground">Algumas perguntas para {formData.businessSegment}</p>
+            </div>
+
+            <QuoteQuestions
+              fields={questions}
+              answers={formData.answers}
+              errors={answerErrors}
+              onChange={(answers) => setFormData({ ...formData, answers })}
+            />
+          </div>
+        )}
+
+        {currentStep === 5 && (
           <div className="space-y-6 animate-fade-in">
             <div className="text-center mb-6">
               <h2 className="font-serif text-2xl font-bold mb-2">Funcionalidades Extras</h2>
@@ -462,7 +662,7 @@ export function QuoteForm() {
           </div>
         )}
 
-        {currentStep === 5 && (
+        {currentStep === lastStep && (
           <div className="space-y-6 animate-fade-in">
             <div className="text-center mb-6">
               <h2 className="font-serif text-2xl font-bold mb-2">Descrição do Projeto</h2>
@@ -477,6 +677,14 @@ export function QuoteForm() {
               data-testid="textarea-description"
             />
 
+            <QuoteAttachmentsField
+              draftToken={draftToken}
+              ensureDraft={async () => {
+                await saveDraft(currentStep, formData);
+                return draftTokenRef.current;
+              }}
+            />
+
             <Card className="p-4 bg-primary/5 border-primary/20">
               <div className="flex items-start gap-3">
                 <Sparkles className="w-5 h-5 text-primary mt-0.5" />
@@ -497,6 +705,24 @@ export function QuoteForm() {
                 </div>
               </div>
             </Card>
+
+            {(estimate || isEstimating) && (
+              <Card className="p-4 bg-secondary/5 border-secondary/20" data-testid="card-estimate">
+                <div className="flex items-start gap-3">
+                  <Calculator className="w-5 h-5 text-secondary mt-0.5" />
+                  <div>
+                    <h4 className="font-medium text-sm mb-1">
+                      {isEstimating || !estimate
+                        ? "A calcular estimativa..."
+                        : `Estimativa: ${formatCurrency(estimate.min, estimate.currency)} – ${formatCurrency(estimate.max, estimate.currency)}`}
+                    </h4>
+                    <p className="text-xs text-muted-foreground">
+                      Valor indicativo. O preço final é definido depois de analisarmos o seu projeto.
+                    </p>
+                  </div>
+                </div>
+              </Card>
+            )}
           </div>
         )}
 
@@ -510,6 +736,18 @@ export function QuoteForm() {
             <ArrowLeft className="w-4 h-4 mr-2" />
             Voltar
           </Button>
+          {currentStep > 1 && (
+            <Button
+              variant="ghost"
+              onClick={() => resumeLinkMutation.mutate()}
+              disabled={resumeLinkMutation.isPending || submitMutation.isPending}
+              className="hidden sm:inline-flex"
+              data-testid="button-resume-later"
+            >
+              <Mail className="w-4 h-4 mr-2" />
+              {resumeLinkMutation.isPending ? "Enviando..." : "Continuar mais tarde"}
+            </Button>
+          )}
           <Button
             onClick={handleNext}
             disabled={submitMutation.isPending}
@@ -518,7 +756,7 @@ export function QuoteForm() {
           >
             {submitMutation.isPending ? (
               "Enviando..."
-            ) : currentStep === 5 ? (
+            ) : currentStep === lastStep ? (
               <>
                 <Rocket className="w-4 h-4 mr-2" />
                 Enviar Orçamento
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { getQuoteStatusInfo } from "@/components/quote-detail-dialog";
+import { GitMerge } from "lucide-react";
+import { quoteDuplicateReasons, type Quote, type QuoteDuplicateReason } from "@shared/schema";
+
+// Shape returned by GET /api/quotes/duplicates
+export interface QuoteDuplicateGroup {
+  quoteIds: number[];
+  reasons: QuoteDuplicateReason[];
+}
+
+// Won quotes carry payments and a project, so they can only be kept
+function canBeMerged(quote: Quote): boolean {
+  return quote.status !== "won";
+}
+
+export function QuoteMergeDialog({ quote, group, quotes }: { quote: Quote; group: QuoteDuplicateGroup; quotes: Quote[] }) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [primaryId, setPrimaryId] = useState(quote.id);
+  const [duplicateIds, setDuplicateIds] = useState<number[]>([]);
+
+  const groupQuotes = group.quoteIds
+    .map((id) => quotes.find((q) => q.id === id))
+    .filter((q): q is Quote => !!q);
+
+  // Starts from the oldest lead, or the won one if there is one, and merges all the others into it
+  const reset = () => {
+    const primary = groupQuotes.find((q) => !canBeMerged(q)) ?? groupQuotes[0] ?? quote;
+    setPrimaryId(primary.id);
+    setDuplicateIds(groupQuotes.filter((q) => q.id !== primary.id && canBeMerged(q)).map((q) => q.id));
+  };
+
+  const choosePrimary = (id: number) => {
+    setPrimaryId(id);
+    setDuplicateIds(duplicateIds.filter((duplicateId) => duplicateId !== id));
+  };
+
+  const toggleDuplicate = (id: number, checked: boolean) => {
+    setDuplicateIds(checked ? [...duplicateIds, id] : duplicateIds.filter((duplicateId) => duplicateId !== id));
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/quotes/${primaryId}/merge`, { duplicateIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/quotes/${primaryId}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/quotes/${primaryId}/attachments`] });
+      toast({ title: "Orçamentos fundidos", description: `Os duplicados ficaram no orçamento #${primaryId}.` });
+      setIsOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao fundir orçamentos",
+        description: getApiErrorMessage(error, "Por favor, tente novamente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (open) reset();
+        setIsOpen(open);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid={`button-merge-${quote.id}`}>
+          <GitMerge className="w-4 h-4 mr-2" />
+          Fundir
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Fundir Duplicados</DialogTitle>
+          <DialogDescription>
+            {group.reasons.map((reason) => quoteDuplicateReasons[reason] ?? reason).join(" · ")}. Escolha o pedido a
+            manter; os anexos e o histórico dos duplicados passam para ele.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={String(primaryId)} onValueChange={(value) => choosePrimary(Number(value))} className="space-y-2">
+          {groupQuotes.map((q) => {
+            const statusInfo = getQuoteStatusInfo(q.status);
+            const isPrimary = q.id === primaryId;
+            return (
+              <div key={q.id} className="rounded-md border border-border p-3 space-y-2" data-testid={`merge-quote-${q.id}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <RadioGroupItem value={String(q.id)} id={`merge-primary-${q.id}`} />
+                  <Label htmlFor={`merge-primary-${q.id}`} className="font-medium">
+                    #{q.id} · {q.firstName} {q.lastName}
+                  </Label>
+                  <Badge className={statusInfo.color}>{statusInfo.label}</Badge>
+                  {isPrimary && <Badge variant="secondary">Manter</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {q.email} · {q.countryCode} {q.phone} · {new Date(q.createdAt!).toLocaleDateString("pt-BR")}
+                </p>
+                {!isPrimary && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`merge-duplicate-${q.id}`}
+                      checked={duplicateIds.includes(q.id)}
+                      onCheckedChange={(checked) => toggleDuplicate(q.id, checked === true)}
+                      disabled={!canBeMerged(q)}
+                    />
+                    <Label htmlFor={`merge-duplicate-${q.id}`} className="text-sm">
+                      {canBeMerged(q) ? "Fundir neste pedido" : "Ganho, não pode ser fundido"}
+                    </Label>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </RadioGroup>
+
+        <Button
+          className="w-full"
+          onClick={() => mergeMutation.mutate()}
+          disabled={duplicateIds.length === 0 || mergeMutation.isPending}
+          data-testid="button-confirm-merge"
+        >
+          <GitMerge className="w-4 h-4 mr-2" />
+          {mergeMutation.isPending ? "A fundir..." : `Fundir ${duplicateIds.length} em #${primaryId}`}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
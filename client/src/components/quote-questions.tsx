@@ -0,0 +1,159 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { QuestionAnswerValue, QuestionField } from "@shared/schema";
+
+export type QuestionAnswers = Record<string, QuestionAnswerValue>;
+
+// Answers in a readable form, for summaries and the admin view
+export function formatAnswerValue(value: QuestionAnswerValue): string {
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Sim" : "Não";
+  return String(value);
+}
+
+function QuestionInput({
+  field,
+  value,
+  invalid,
+  onChange,
+}: {
+  field: QuestionField;
+  value: QuestionAnswerValue | undefined;
+  invalid: boolean;
+  onChange: (value: QuestionAnswerValue | undefined) => void;
+}) {
+  const id = `question-${field.id}`;
+
+  switch (field.type) {
+    case "text":
+      return (
+        <Textarea
+          id={id}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={2000}
+          className={`min-h-[80px] ${invalid ? "border-destructive" : ""}`}
+          data-testid={`input-${id}`}
+        />
+      );
+    case "number":
+      return (
+        <Input
+          id={id}
+          type="number"
+          value={typeof value === "number" ? value : ""}
+          min={field.min}
+          max={field.max}
+          onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+          className={`w-40 ${invalid ? "border-destructive" : ""}`}
+          data-testid={`input-${id}`}
+        />
+      );
+    case "select":
+      return (
+        <Select value={typeof value === "string" ? value : ""} onValueChange={onChange}>
+          <SelectTrigger id={id} className={invalid ? "border-destructive" : ""} data-testid={`select-${id}`}>
+            <SelectValue placeholder="Selecione uma opção" />
+          </SelectTrigger>
+          <SelectContent>
+            {(field.options ?? []).map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case "multi_select": {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {(field.options ?? []).map((option, index) => (
+            <Label key={option} htmlFor={`${id}-${index}`} className="flex items-center gap-2 font-normal cursor-pointer">
+              <Checkbox
+                id={`${id}-${index}`}
+                checked={selected.includes(option)}
+                onCheckedChange={() =>
+                  onChange(selected.includes(option) ? selected.filter((o) => o !== option) : [...selected, option])
+                }
+              />
+              {option}
+            </Label>
+          ))}
+        </div>
+      );
+    }
+    case "boolean":
+      return (
+        <RadioGroup
+          value={typeof value === "boolean" ? String(value) : ""}
+          onValueChange={(next) => onChange(next === "true")}
+          className="flex gap-6"
+        >
+          {[
+            { value: "true", label: "Sim" },
+            { value: "false", label: "Não" },
+          ].map((option) => (
+            <Label key={option.value} htmlFor={`${id}-${option.value}`} className="flex items-center gap-2 font-normal cursor-pointer">
+              <RadioGroupItem value={option.value} id={`${id}-${option.value}`} />
+              {option.label}
+            </Label>
+          ))}
+        </RadioGroup>
+      );
+  }
+}
+
+// The segment questionnaire step of the quote form
+export function QuoteQuestions({
+  fields,
+  answers,
+  errors,
+  onChange,
+}: {
+  fields: QuestionField[];
+  answers: QuestionAnswers;
+  errors: Record<string, string>;
+  onChange: (answers: QuestionAnswers) => void;
+}) {
+  const setAnswer = (fieldId: string, value: QuestionAnswerValue | undefined) => {
+    const next = { ...answers };
+    if (value === undefined) {
+      delete next[fieldId];
+    } else {
+      next[fieldId] = value;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-2">
+          <Label htmlFor={`question-${field.id}`}>
+            {field.label}
+            {field.required && " *"}
+          </Label>
+          {field.helpText && <p className="text-xs text-muted-foreground">{field.helpText}</p>}
+          <QuestionInput
+            field={field}
+            value={answers[field.id]}
+            invalid={!!errors[field.id]}
+            onChange={(value) => setAnswer(field.id, value)}
+          />
+          {errors[field.id] && <p className="text-xs text-destructive">{errors[field.id]}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { Undo2 } from "lucide-react";
+import { formatCurrency, type Invoice, type Payment, type Refund, type User } from "@shared/schema";
+
+// Shape returned by GET /api/admin/payments
+export type AdminPayment = Payment & {
+  user?: User;
+  refunds: Refund[];
+  refundedAmount: string;
+  invoice: Pick<Invoice, "id" | "invoiceNumber" | "status"> | null;
+};
+
+const refundableStatuses = ["succeeded", "partially_refunded"];
+
+export function isRefundable(payment: AdminPayment) {
+  return refundableStatuses.includes(payment.status) && getRemainingAmount(payment) > 0;
+}
+
+function getRemainingAmount(payment: AdminPayment) {
+  return Math.max(parseFloat(payment.amount) - parseFloat(payment.refundedAmount), 0);
+}
+
+export function RefundDialog({ payment }: { payment: AdminPayment }) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<"full" | "partial">("full");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  const remaining = getRemainingAmount(payment);
+  const currency = payment.currency || "EUR";
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/admin/payments/${payment.id}/refund`, {
+        amount: mode === "partial" ? amount : undefined,
+        reason,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payment-codes/used"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+      setIsOpen(false);
+      setMode("full");
+      setAmount("");
+      setReason("");
+      toast({ title: "Reembolso efetuado com sucesso!" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao reembolsar",
+        description: getApiErrorMessage(error, "Tente novamente mais tarde."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValid =
+    reason.trim().length >= 3 &&
+    (mode === "full" || (Number(amount) > 0 && Number(amount) <= remaining));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" data-testid={`button-refund-${payment.id}`}>
+          <Undo2 className="w-4 h-4 mr-2" />
+          Reembolsar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reembolsar Pagamento</DialogTitle>
+          <DialogDescription>
+            Pago {formatCurrency(payment.amount, currency)}
+            {parseFloat(payment.refundedAmount) > 0 && ` · já reembolsado ${formatCurrency(payment.refundedAmount, currency)}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 pt-4">
+          <div className="space-y-2">
+            <Label>Tipo de Reembolso</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as "full" | "partial")}>
+              <SelectTrigger data-testid="select-refund-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="full">Total ({formatCurrency(remaining, currency)})</SelectItem>
+                <SelectItem value="partial">Parcial</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === "partial" && (
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Valor ({currency}) *</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={remaining.toFixed(2)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder={remaining.toFixed(2)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Motivo *</Label>
+            <Textarea
+              id="refund-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex: Serviço cancelado pelo cliente"
+              rows={3}
+            />
+          </div>
+          <Button
+            className="w-full"
+            variant="destructive"
+            onClick={() => refundMutation.mutate()}
+            disabled={refundMutation.isPending || !isValid}
+          >
+            {refundMutation.isPending ? "Processando..." : "Confirmar Reembolso"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
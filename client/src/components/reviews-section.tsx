@@ -16,10 +16,10 @@ import { useAuth } from "@/lib/auth-context";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Star, Quote, PenLine } from "lucide-react";
-import type { Review, User } from "@shared/schema";
+import type { Review, PublicUser } from "@shared/schema";
 
 interface ReviewWithUser extends Review {
-  user?: User;
+  user?: PublicUser;
 }
 
 const defaultReviews: ReviewWithUser[] = [
@@ -30,7 +30,7 @@ const defaultReviews: ReviewWithUser[] = [
     comment: "Excelente trabalho! A equipe da BragaWork superou todas as expectativas. O site ficou incrível e moderno.",
     isApproved: true,
     createdAt: new Date(),
-    user: { id: 1, googleId: null, email: "cliente@email.com", username: "joao", displayName: "João Silva", avatarUrl: null, isAdmin: false, createdAt: new Date() },
+    user: { id: 1, displayName: "João Silva", avatarUrl: null },
   },
   {
     id: 2,
@@ -39,7 +39,7 @@ const defaultReviews: ReviewWithUser[] = [
     comment: "Profissionais competentes e atenciosos. Entregaram o projeto no prazo e com qualidade impecável.",
     isApproved: true,
     createdAt: new Date(),
-    user: { id: 2, googleId: null, email: "maria@email.com", username: "maria", displayName: "Maria Santos", avatarUrl: null, isAdmin: false, createdAt: new Date() },
+    user: { id: 2, displayName: "Maria Santos", avatarUrl: null },
   },
   {
     id: 3,
@@ -48,7 +48,7 @@ const defaultReviews: ReviewWithUser[] = [
     comment: "Muito satisfeito com o resultado. O suporte pós-entrega foi muito bom e ajudou a resolver todas as dúvidas.",
     isApproved: true,
     createdAt: new Date(),
-    user: { id: 3, googleId: null, email: "pedro@email.com", username: "pedro", displayName: "Pedro Costa", avatarUrl: null, isAdmin: false, createdAt: new Date() },
+    user: { id: 3, displayName: "Pedro Costa", avatarUrl: null },
   },
 ];
 
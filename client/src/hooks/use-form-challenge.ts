@@ -0,0 +1,64 @@
+import { useEffect, useRef } from "react";
+import { apiRequest } from "@/lib/queryClient";
+
+// Sent along with the form fields
+export interface FormChallengeProof {
+  challenge: string;
+  challengeSolution: string;
+}
+
+function countLeadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+  for (let i = 0; i < hash.length; i++) {
+    if (hash[i] !== 0) return bits + Math.clz32(hash[i]) - 24;
+    bits += 8;
+  }
+  return bits;
+}
+
+// Finds a number whose SHA-256 together with the challenge starts with
+// `difficulty` zero bits. Hashes run in batches so the page stays responsive.
+async function solveChallenge(challenge: string, difficulty: number): Promise<string> {
+  const encoder = new TextEncoder();
+  const batchSize = 512;
+  for (let start = 0; ; start += batchSize) {
+    const hashes = await Promise.all(
+      Array.from({ length: batchSize }, (_, i) =>
+        crypto.subtle.digest("SHA-256", encoder.encode(`${challenge}:${start + i}`)),
+      ),
+    );
+    const found = hashes.findIndex((hash) => countLeadingZeroBits(new Uint8Array(hash)) >= difficulty);
+    if (found !== -1) return String(start + found);
+  }
+}
+
+// Fetches and solves the anti-spam challenge of a public form as soon as it
+// opens, so it is usually ready by the time the visitor submits. Each proof
+// works once; taking one starts on the next.
+export function useFormChallenge(form: "quote") {
+  const proofRef = useRef<Promise<FormChallengeProof> | null>(null);
+
+  const prepare = () => {
+    const proof = apiRequest("GET", `/api/form-challenge?form=${form}`)
+      .then((res) => res.json())
+      .then(async ({ challenge, difficulty }: { challenge: string; difficulty: number }) => ({
+        challenge,
+        challengeSolution: await solveChallenge(challenge, difficulty),
+      }));
+    proof.catch(() => {
+      if (proofRef.current === proof) proofRef.current = null;
+    });
+    proofRef.current = proof;
+    return proof;
+  };
+
+  useEffect(() => {
+    prepare();
+  }, [form]);
+
+  return (): Promise<FormChallengeProof> => {
+    const proof = proofRef.current ?? prepare();
+    prepare();
+    return proof;
+  };
+}
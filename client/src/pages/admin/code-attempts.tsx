@@ -0,0 +1,123 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/lib/auth-context";
+import { ArrowLeft, AlertCircle, Globe, Clock, Fingerprint } from "lucide-react";
+import type { CodeVerificationAttempt } from "@shared/schema";
+
+const outcomeLabels: Record<string, { label: string; className: string }> = {
+  pending: { label: "Em curso", className: "text-muted-foreground border-muted-foreground" },
+  success: { label: "Válido", className: "text-green-500 border-green-500" },
+  not_found: { label: "Inexistente", className: "text-yellow-500 border-yellow-500" },
+  unavailable: { label: "Indisponível", className: "text-orange-500 border-orange-500" },
+  wrong_client: { label: "Outro cliente", className: "text-orange-500 border-orange-500" },
+  locked: { label: "Bloqueado", className: "text-destructive border-destructive" },
+};
+
+export default function AdminCodeAttempts() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+
+  const { data: attempts = [], isLoading } = useQuery<CodeVerificationAttempt[]>({
+    queryKey: ["/api/admin/code-attempts"],
+    enabled: isAdmin,
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+          <h1 className="font-serif text-2xl font-bold mb-2">Acesso Negado</h1>
+          <Link href="/">
+            <Button>Voltar ao Início</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const failedCount = attempts.filter((a) => a.outcome !== "success" && a.outcome !== "locked").length;
+  const lockedCount = attempts.filter((a) => a.outcome === "locked").length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border p-4">
+        <div className="max-w-7xl mx-auto flex flex-wrap items-center gap-4">
+          <Link href="/admin">
+            <Button size="icon" variant="ghost">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <h1 className="font-serif text-xl font-bold">Tentativas de Código</h1>
+          <Badge variant="secondary">{attempts.length} recentes</Badge>
+          <Badge variant="outline" className="text-orange-500 border-orange-500">
+            {failedCount} falhadas
+          </Badge>
+          <Badge variant="outline" className="text-destructive border-destructive">
+            {lockedCount} bloqueadas
+          </Badge>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 rounded-xl" />
+            ))}
+          </div>
+        ) : attempts.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">Nenhuma tentativa registada.</p>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {attempts.map((attempt) => {
+              const outcome = outcomeLabels[attempt.outcome] ?? {
+                label: attempt.outcome,
+                className: "",
+              };
+              return (
+                <Card
+                  key={attempt.id}
+                  className="p-4 bg-card/80 backdrop-blur border-primary/10 flex flex-wrap items-center gap-4"
+                  data-testid={`attempt-${attempt.id}`}
+                >
+                  <span className="font-mono font-bold min-w-[8rem]">{attempt.code || "—"}</span>
+                  <Badge variant="outline" className={outcome.className}>
+                    {outcome.label}
+                  </Badge>
+                  <span className="text-sm text-muted-foreground flex items-center gap-1">
+                    <Globe className="w-3 h-3" />
+                    {attempt.ipAddress}
+                  </span>
+                  {attempt.sessionId && (
+                    <span className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Fingerprint className="w-3 h-3" />
+                      {attempt.sessionId.slice(0, 8)}
+                    </span>
+                  )}
+                  <span className="text-sm text-muted-foreground flex items-center gap-1 ml-auto">
+                    <Clock className="w-3 h-3" />
+                    {new Date(attempt.createdAt!).toLocaleString("pt-BR")}
+                  </span>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
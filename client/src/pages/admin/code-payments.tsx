@@ -4,11 +4,12 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { RefundDialog, isRefundable, type AdminPayment } from "@/components/refund-dialog";
 import { useAuth } from "@/lib/auth-context";
 import { ArrowLeft, AlertCircle, Receipt, Download, FileText, Calendar, User, Mail } from "lucide-react";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
-import type { PaymentCode } from "@shared/schema";
+import { formatCurrency, formatCurrencyTotals, type PaymentCode } from "@shared/schema";
 
 export default function AdminCodePayments() {
   const { isAdmin, isLoading: authLoading } = useAuth();
@@ -18,6 +19,14 @@ export default function AdminCodePayments() {
     enabled: isAdmin,
   });
 
+  const { data: allPayments = [] } = useQuery<AdminPayment[]>({
+    queryKey: ["/api/admin/payments"],
+    enabled: isAdmin,
+  });
+
+  const getCodePayments = (code: PaymentCode) =>
+    allPayments.filter((p) => p.paymentCodeId === code.id && p.paymentType === "code_payment");
+
   const exportToPDF = (payment: PaymentCode) => {
     const doc = new jsPDF();
     
@@ -31,12 +40,12 @@ export default function AdminCodePayments() {
       ["Código", payment.code],
       ["Nome do Cliente", payment.usedByName || "N/A"],
       ["Email", payment.usedByEmail || "N/A"],
-      ["Valor Pago", `€${payment.amount}`],
+      ["Valor Pago", formatCurrency(payment.amount, payment.currency)],
       ["Descrição", payment.description || "Pagamento BragaWork"],
       ["Data do Pagamento", payment.usedAt 
         ? new Date(payment.usedAt).toLocaleDateString("pt-BR") 
         : "N/A"],
-      ["ID Stripe", payment.stripePaymentId || "N/A"],
+      ["ID Stripe", getCodePayments(payment).map((p) => p.stripePaymentId).join(", ") || "N/A"],
     ];
 
     autoTable(doc, {
@@ -62,14 +71,13 @@ export default function AdminCodePayments() {
     doc.text(`Data: ${new Date().toLocaleDateString("pt-BR")}`, 20, 35);
     doc.text(`Total de Pagamentos: ${payments.length}`, 20, 45);
     
-    const totalAmount = payments.reduce((sum, p) => sum + parseFloat(p.amount), 0);
-    doc.text(`Valor Total: €${totalAmount.toFixed(2)}`, 20, 55);
+    doc.text(`Valor Total: ${formatCurrencyTotals(payments)}`, 20, 55);
 
     const data = payments.map((p) => [
       p.code,
       p.usedByName || "N/A",
       p.usedByEmail || "N/A",
-      `€${p.amount}`,
+      formatCurrency(p.amount, p.currency),
       p.usedAt ? new Date(p.usedAt).toLocaleDateString("pt-BR") : "N/A",
     ]);
 
@@ -105,8 +113,6 @@ export default function AdminCodePayments() {
     );
   }
 
-  const totalAmount = payments.reduce((sum, p) => sum + parseFloat(p.amount), 0);
-
   return (
     <div className="min-h-screen bg-background">
       <header className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border p-4">
@@ -119,7 +125,7 @@ export default function AdminCodePayments() {
             </Link>
             <h1 className="font-serif text-xl font-bold">Pagamentos por Código</h1>
             <Badge variant="secondary">{payments.length} pagamentos</Badge>
-            <Badge className="bg-green-500">€{totalAmount.toFixed(2)} total</Badge>
+            <Badge className="bg-green-500">{formatCurrencyTotals(payments)} total</Badge>
           </div>
           {payments.length > 0 && (
             <Button onClick={exportAllToPDF} variant="outline" data-testid="button-export-all">
@@ -166,7 +172,7 @@ export default function AdminCodePayments() {
                     </span>
                   </div>
                   <p className="text-2xl font-bold text-gradient-primary mb-3">
-                    €{payment.amount}
+                    {formatCurrency(payment.amount, payment.currency)}
                   </p>
                   {payment.description && (
                     <p className="text-sm text-muted-foreground mb-3">
@@ -197,6 +203,25 @@ export default function AdminCodePayments() {
                       </span>
                     </div>
                   </div>
+                  {getCodePayments(payment).map((codePayment) => (
+                    <div
+                      key={codePayment.id}
+                      className="mt-4 pt-4 border-t border-border flex items-center justify-between gap-2 flex-wrap"
+                    >
+                      <div className="text-sm">
+                        <span className="font-medium">{formatCurrency(codePayment.amount, codePayment.currency || "EUR")}</span>
+                        {codePayment.status === "refunded" && (
+                          <Badge variant="secondary" className="ml-2">Reembolsado</Badge>
+                        )}
+                        {codePayment.status === "partially_refunded" && (
+                          <Badge variant="outline" className="ml-2 text-orange-500 border-orange-500">
+                            -{formatCurrency(codePayment.refundedAmount, codePayment.currency || "EUR")}
+                          </Badge>
+                        )}
+                      </div>
+                      {isRefundable(codePayment) && <RefundDialog payment={codePayment} />}
+                    </div>
+                  ))}
                 </div>
               </Card>
             ))}
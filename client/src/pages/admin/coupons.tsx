@@ -0,0 +1,548 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import {
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  AlertCircle,
+  TicketPercent,
+} from "lucide-react";
+import {
+  formatCurrency,
+  formatCurrencyTotals,
+  type Coupon,
+  type CouponRedemption,
+  type Plan,
+  type PaymentCode,
+} from "@shared/schema";
+
+type CouponWithRedemptions = Coupon & { redemptions: CouponRedemption[] };
+
+const appliesToLabels: Record<string, string> = {
+  all: "Assinaturas e códigos",
+  subscriptions: "Só assinaturas",
+  payment_codes: "Só códigos de pagamento",
+};
+
+const emptyForm = {
+  code: "",
+  description: "",
+  discountType: "percent",
+  discountValue: "",
+  appliesTo: "all",
+  planSlugs: [] as string[],
+  paymentCodeIds: [] as number[],
+  validFrom: "",
+  validUntil: "",
+  maxRedemptions: "",
+  isActive: true,
+};
+
+type CouponForm = typeof emptyForm;
+
+function toDateInput(value: Date | string | null) {
+  if (!value) return "";
+  const date = new Date(value);
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+const toPayload = (form: CouponForm) => ({
+  code: form.code.trim().toUpperCase(),
+  description: form.description.trim() || null,
+  discountType: form.discountType,
+  discountValue: form.discountValue,
+  appliesTo: form.appliesTo,
+  planSlugs: form.appliesTo !== "payment_codes" && form.planSlugs.length ? form.planSlugs : null,
+  paymentCodeIds: form.appliesTo !== "subscriptions" && form.paymentCodeIds.length ? form.paymentCodeIds : null,
+  validFrom: form.validFrom ? new Date(`${form.validFrom}T00:00:00`).toISOString() : null,
+  // Valid through the whole last day
+  validUntil: form.validUntil ? new Date(`${form.validUntil}T23:59:59`).toISOString() : null,
+  maxRedemptions: form.maxRedemptions ? parseInt(form.maxRedemptions) : null,
+  isActive: form.isActive,
+});
+
+const formatDiscount = (coupon: Coupon) =>
+  coupon.discountType === "percent" ? `${parseFloat(coupon.discountValue)}%` : formatCurrency(coupon.discountValue);
+
+export default function AdminCoupons() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [formData, setFormData] = useState<CouponForm>(emptyForm);
+
+  const { data: coupons = [], isLoading } = useQuery<CouponWithRedemptions[]>({
+    queryKey: ["/api/admin/coupons"],
+    enabled: isAdmin,
+  });
+
+  const { data: plans = [] } = useQuery<Plan[]>({
+    queryKey: ["/api/admin/plans"],
+    enabled: isAdmin,
+  });
+
+  const { data: paymentCodes = [] } = useQuery<PaymentCode[]>({
+    queryKey: ["/api/payment-codes"],
+    enabled: isAdmin,
+  });
+
+  // Used-up codes only matter when a coupon already points at them
+  const selectableCodes = paymentCodes.filter((c) => !c.isUsed || formData.paymentCodeIds.includes(c.id));
+
+  const invalidateCoupons = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/coupons"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CouponForm) => {
+      return apiRequest("POST", "/api/coupons", toPayload(data));
+    },
+    onSuccess: () => {
+      invalidateCoupons();
+      setIsDialogOpen(false);
+      resetForm();
+      toast({ title: "Cupão criado com sucesso!" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao criar cupão",
+        description: getApiErrorMessage(error, "Verifique os dados do cupão."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: CouponForm }) => {
+      return apiRequest("PATCH", `/api/coupons/${id}`, toPayload(data));
+    },
+    onSuccess: () => {
+      invalidateCoupons();
+      setIsDialogOpen(false);
+      resetForm();
+      toast({ title: "Cupão atualizado com sucesso!" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao atualizar cupão",
+        description: getApiErrorMessage(error, "Verifique os dados do cupão."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/coupons/${id}`);
+    },
+    onSuccess: () => {
+      invalidateCoupons();
+      toast({ title: "Cupão removido com sucesso!" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao remover cupão",
+        description: getApiErrorMessage(error, "Tente novamente mais tarde."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingCoupon(null);
+  };
+
+  const handleEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setFormData({
+      code: coupon.code,
+      description: coupon.description || "",
+      discountType: coupon.discountType,
+      discountValue: coupon.discountValue,
+      appliesTo: coupon.appliesTo,
+      planSlugs: coupon.planSlugs || [],
+      paymentCodeIds: coupon.paymentCodeIds || [],
+      validFrom: toDateInput(coupon.validFrom),
+      validUntil: toDateInput(coupon.validUntil),
+      maxRedemptions: coupon.maxRedemptions ? String(coupon.maxRedemptions) : "",
+      isActive: coupon.isActive ?? true,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const togglePlan = (slug: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      planSlugs: checked ? [...formData.planSlugs, slug] : formData.planSlugs.filter((s) => s !== slug),
+    });
+  };
+
+  const togglePaymentCode = (id: number, checked: boolean) => {
+    setFormData({
+      ...formData,
+      paymentCodeIds: checked ? [...formData.paymentCodeIds, id] : formData.paymentCodeIds.filter((c) => c !== id),
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!formData.code || !formData.discountValue) {
+      toast({
+        title: "Código e desconto são obrigatórios",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (editingCoupon) {
+      updateMutation.mutate({ id: editingCoupon.id, data: formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+          <h1 className="font-serif text-2xl font-bold mb-2">Acesso Negado</h1>
+          <Link href="/">
+            <Button>Voltar ao Início</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border p-4">
+        <div className="max-w-7xl mx-auto flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link href="/admin">
+              <Button size="icon" variant="ghost">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            </Link>
+            <h1 className="font-serif text-xl font-bold">Cupões de Desconto</h1>
+            <Badge variant="secondary">{coupons.length} cupões</Badge>
+          </div>
+
+          <Dialog open={isDialogOpen} onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) resetForm();
+          }}>
+            <DialogTrigger asChild>
+              <Button className="bg-gradient-to-r from-primary to-secondary">
+                <Plus className="w-4 h-4 mr-2" />
+                Novo Cupão
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingCoupon ? "Editar Cupão" : "Novo Cupão"}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 pt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="code">Código *</Label>
+                  <Input
+                    id="code"
+                    value={formData.code}
+                    onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                    placeholder="BEMVINDO10"
+                    className="font-mono"
+                    maxLength={32}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Descrição</Label>
+                  <Input
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Tipo de Desconto</Label>
+                    <Select
+                      value={formData.discountType}
+                      onValueChange={(value) => setFormData({ ...formData, discountType: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="percent">Percentagem (%)</SelectItem>
+                        <SelectItem value="fixed">Valor fixo (€, só pagamentos em EUR)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="discountValue">Desconto *</Label>
+                    <Input
+                      id="discountValue"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={formData.discountType === "percent" ? "100" : undefined}
+                      value={formData.discountValue}
+                      onChange={(e) => setFormData({ ...formData, discountValue: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Aplica-se a</Label>
+                  <Select
+                    value={formData.appliesTo}
+                    onValueChange={(value) => setFormData({ ...formData, appliesTo: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(appliesToLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.appliesTo !== "payment_codes" && plans.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Planos (nenhum = todos)</Label>
+                    <div className="space-y-2">
+                      {plans.map((plan) => (
+                        <label key={plan.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={formData.planSlugs.includes(plan.slug)}
+                            onCheckedChange={(checked) => togglePlan(plan.slug, checked === true)}
+                          />
+                          {plan.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {formData.appliesTo !== "subscriptions" && selectableCodes.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Códigos de pagamento (nenhum = todos)</Label>
+                    <div className="max-h-40 overflow-y-auto space-y-2 rounded-md border border-border p-2">
+                      {selectableCodes.map((paymentCode) => (
+                        <label key={paymentCode.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={formData.paymentCodeIds.includes(paymentCode.id)}
+                            onCheckedChange={(checked) => togglePaymentCode(paymentCode.id, checked === true)}
+                          />
+                          <span className="font-mono">{paymentCode.code}</span>
+                          <span className="text-muted-foreground truncate">
+                            {paymentCode.description || formatCurrency(paymentCode.amount, paymentCode.currency)}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="validFrom">Válido desde</Label>
+                    <Input
+                      id="validFrom"
+                      type="date"
+                      value={formData.validFrom}
+                      onChange={(e) => setFormData({ ...formData, validFrom: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="validUntil">Válido até</Label>
+                    <Input
+                      id="validUntil"
+                      type="date"
+                      value={formData.validUntil}
+                      onChange={(e) => setFormData({ ...formData, validUntil: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxRedemptions">Máximo de utilizações (vazio = ilimitado)</Label>
+                  <Input
+                    id="maxRedemptions"
+                    type="number"
+                    min="1"
+                    value={formData.maxRedemptions}
+                    onChange={(e) => setFormData({ ...formData, maxRedemptions: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="isActive">Cupão Ativo</Label>
+                  <Switch
+                    id="isActive"
+                    checked={formData.isActive}
+                    onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                  />
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={handleSubmit}
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                >
+                  {createMutation.isPending || updateMutation.isPending
+                    ? "Salvando..."
+                    : "Salvar"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-48 rounded-xl" />
+            ))}
+          </div>
+        ) : coupons.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">Nenhum cupão encontrado.</p>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {coupons.map((coupon) => {
+              const totalDiscount = formatCurrencyTotals(
+                coupon.redemptions.map((r) => ({ amount: r.discountAmount, currency: r.currency })),
+              );
+              const isExpired = !!coupon.validUntil && new Date(coupon.validUntil) < new Date();
+              const isExhausted = coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions;
+
+              return (
+                <Card
+                  key={coupon.id}
+                  className="p-6 bg-card/80 backdrop-blur border-primary/10"
+                  data-testid={`coupon-${coupon.id}`}
+                >
+                  <div className="flex items-start justify-between gap-4 mb-4">
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <TicketPercent className="w-4 h-4 text-primary" />
+                        <h3 className="font-mono font-semibold">{coupon.code}</h3>
+                      </div>
+                      {coupon.description && (
+                        <p className="text-xs text-muted-foreground">{coupon.description}</p>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      {!coupon.isActive && <Badge variant="secondary">Inativo</Badge>}
+                      {isExpired && <Badge variant="secondary">Expirado</Badge>}
+                      {isExhausted && <Badge variant="secondary">Esgotado</Badge>}
+                    </div>
+                  </div>
+                  <p className="text-xl font-bold text-gradient-primary">{formatDiscount(coupon)}</p>
+                  <p className="text-sm text-muted-foreground">{appliesToLabels[coupon.appliesTo] ?? coupon.appliesTo}</p>
+                  {!!coupon.planSlugs?.length && (
+                    <p className="text-xs text-muted-foreground mt-1">Planos: {coupon.planSlugs.join(", ")}</p>
+                  )}
+                  {!!coupon.paymentCodeIds?.length && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Códigos: {coupon.paymentCodeIds
+                        .map((id) => paymentCodes.find((c) => c.id === id)?.code ?? `#${id}`)
+                        .join(", ")}
+                    </p>
+                  )}
+                  {(coupon.validFrom || coupon.validUntil) && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Validade: {coupon.validFrom ? new Date(coupon.validFrom).toLocaleDateString("pt-PT") : "—"}
+                      {" a "}
+                      {coupon.validUntil ? new Date(coupon.validUntil).toLocaleDateString("pt-PT") : "—"}
+                    </p>
+                  )}
+                  <div className="mt-4 text-sm">
+                    <p>
+                      <span className="font-medium">{coupon.redemptionCount}</span>
+                      {coupon.maxRedemptions ? ` / ${coupon.maxRedemptions}` : ""} utilizações
+                    </p>
+                    <p className="text-muted-foreground">Desconto concedido: {totalDiscount}</p>
+                  </div>
+                  {coupon.redemptions.length > 0 && (
+                    <ul className="mt-3 space-y-1 max-h-32 overflow-y-auto">
+                      {coupon.redemptions.map((redemption) => (
+                        <li key={redemption.id} className="flex justify-between gap-2 text-xs text-muted-foreground">
+                          <span className="truncate">
+                            {redemption.email || "—"} · {redemption.target === "subscription" ? "Assinatura" : "Código"}
+                          </span>
+                          <span>
+                            -{formatCurrency(redemption.discountAmount, redemption.currency)} · {new Date(redemption.createdAt!).toLocaleDateString("pt-PT")}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex gap-2 mt-4">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleEdit(coupon)}
+                      data-testid={`button-edit-coupon-${coupon.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate(coupon.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-coupon-${coupon.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
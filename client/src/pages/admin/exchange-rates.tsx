@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ArrowLeft, AlertCircle, Coins, Trash2 } from "lucide-react";
+import { baseCurrency, currencies, formatCurrency, type ExchangeRate } from "@shared/schema";
+
+// Rates are only needed for the currencies other than the base one
+const rateCurrencies = currencies.filter((currency) => currency !== baseCurrency);
+
+function ExchangeRateCard({ currency, exchangeRate }: { currency: string; exchangeRate?: ExchangeRate }) {
+  const { toast } = useToast();
+  const [rate, setRate] = useState(exchangeRate ? String(parseFloat(exchangeRate.rate)) : "");
+
+  const invalidateRates = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/exchange-rates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", `/api/admin/exchange-rates/${currency}`, { rate });
+    },
+    onSuccess: () => {
+      invalidateRates();
+      toast({ title: `Taxa ${baseCurrency}/${currency} guardada` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao guardar taxa de câmbio",
+        description: getApiErrorMessage(error, "Verifique o valor indicado."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", `/api/admin/exchange-rates/${currency}`);
+    },
+    onSuccess: () => {
+      invalidateRates();
+      setRate("");
+      toast({ title: `Taxa ${baseCurrency}/${currency} removida` });
+    },
+  });
+
+  return (
+    <Card className="p-6 bg-card/80 backdrop-blur border-primary/10" data-testid={`exchange-rate-${currency}`}>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Coins className="w-4 h-4 text-primary" />
+          <h3 className="font-semibold">{currency}</h3>
+        </div>
+        {exchangeRate ? (
+          <Badge variant="outline">
+            Atualizada em {new Date(exchangeRate.updatedAt!).toLocaleDateString("pt-PT")}
+          </Badge>
+        ) : (
+          <Badge variant="secondary">Sem taxa</Badge>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`rate-${currency}`}>
+          {currency} por 1 {baseCurrency}
+        </Label>
+        <Input
+          id={`rate-${currency}`}
+          type="number"
+          step="0.000001"
+          min="0"
+          value={rate}
+          onChange={(e) => setRate(e.target.value)}
+        />
+        {Number(rate) > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {formatCurrency(100, currency)} = {formatCurrency(100 / Number(rate), baseCurrency)}
+          </p>
+        )}
+      </div>
+      <div className="flex gap-2 mt-4">
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || !(Number(rate) > 0)}
+        >
+          {saveMutation.isPending ? "Salvando..." : "Salvar"}
+        </Button>
+        {exchangeRate && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+export default function AdminExchangeRates() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+
+  const { data: exchangeRates = [], isLoading } = useQuery<ExchangeRate[]>({
+    queryKey: ["/api/admin/exchange-rates"],
+    enabled: isAdmin,
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+          <h1 className="font-serif text-2xl font-bold mb-2">Acesso Negado</h1>
+          <Link href="/">
+            <Button>Voltar ao Início</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border p-4">
+        <div className="max-w-7xl mx-auto flex items-center gap-4">
+          <Link href="/admin">
+            <Button size="icon" variant="ghost">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <h1 className="font-serif text-xl font-bold">Taxas de Câmbio</h1>
+          <Badge variant="secondary">Moeda base: {baseCurrency}</Badge>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        <p className="text-sm text-muted-foreground mb-6">
+          Usadas apenas nos relatórios do dashboard. Cada pagamento guarda a taxa em vigor quando foi feito, por
+          isso alterar uma taxa só afeta os pagamentos seguintes. Os clientes pagam sempre na moeda do código ou do plano.
+        </p>
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {rateCurrencies.map((currency) => (
+              <Skeleton key={currency} className="h-48 rounded-xl" />
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {rateCurrencies.map((currency) => (
+              <ExchangeRateCard
+                key={currency}
+                currency={currency}
+                exchangeRate={exchangeRates.find((r) => r.currency === currency)}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
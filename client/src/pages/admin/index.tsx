@@ -1,10 +1,22 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
 import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import {
   BarChart,
   Bar,
@@ -24,6 +36,8 @@ import {
   LayoutDashboard,
   Users,
   FileText,
+  FilePen,
+  ListChecks,
   FolderOpen,
   Star,
   CreditCard,
@@ -40,7 +54,15 @@ import {
   Download,
   ArrowUpRight,
   ArrowDownRight,
+  Package,
+  ShieldAlert,
+  Wallet,
+  ScrollText,
+  TicketPercent,
+  Coins,
+  Calculator,
 } from "lucide-react";
+import { formatCurrency } from "@shared/schema";
 
 interface AdminStats {
   totalUsers: number;
@@ -49,10 +71,17 @@ interface AdminStats {
   completedQuotes: number;
   activeSubscriptions: number;
   pastDueSubscriptions: number;
+  // Amounts below are converted to this currency
+  baseCurrency: string;
+  unconvertedCurrencies: string[];
+  mrr: number;
+  arr: number;
+  subscriptionsByInterval: { month: number; year: number };
   totalRevenue: number;
   currentMonthRevenue: number;
   lastMonthRevenue: number;
   revenueChange: number;
+  totalRefunded: number;
   revenueByService: {
     site: number;
     app: number;
@@ -60,6 +89,11 @@ interface AdminStats {
     custom: number;
   };
   monthlyData: Array<{ month: string; revenue: number; clients: number }>;
+  couponStats: {
+    redemptions: number;
+    totalDiscount: number;
+    topCoupons: Array<{ code: string; redemptions: number; totalDiscount: number }>;
+  };
   averageRating: number;
   totalReviews: number;
   approvedReviews: number;
@@ -68,16 +102,121 @@ interface AdminStats {
 const menuItems = [
   { href: "/admin", icon: LayoutDashboard, label: "Dashboard" },
   { href: "/admin/quotes", icon: FileText, label: "Orçamentos" },
+  { href: "/admin/quote-drafts", icon: FilePen, label: "Rascunhos" },
+  { href: "/admin/questionnaires", icon: ListChecks, label: "Questionários" },
   { href: "/admin/projects", icon: FolderOpen, label: "Portfólio" },
   { href: "/admin/reviews", icon: Star, label: "Avaliações" },
   { href: "/admin/users", icon: Users, label: "Clientes" },
   { href: "/admin/payment-codes", icon: CreditCard, label: "Códigos" },
+  { href: "/admin/payments", icon: Wallet, label: "Pagamentos" },
+  { href: "/admin/invoices", icon: ScrollText, label: "Faturas" },
   { href: "/admin/code-payments", icon: Receipt, label: "Pagamentos Código" },
   { href: "/admin/subscriptions", icon: TrendingUp, label: "Assinaturas" },
+  { href: "/admin/plans", icon: Package, label: "Planos" },
+  { href: "/admin/coupons", icon: TicketPercent, label: "Cupões" },
+  { href: "/admin/exchange-rates", icon: Coins, label: "Câmbios" },
+  { href: "/admin/pricing", icon: Calculator, label: "Preços" },
+  { href: "/admin/code-attempts", icon: ShieldAlert, label: "Tentativas de Código" },
 ];
 
 const COLORS = ["#00BFFF", "#7C3AED", "#10B981", "#F59E0B"];
 
+function toDateInput(date: Date) {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Defaults to the previous calendar month, which is what the accountant asks for
+function getPreviousMonth() {
+  const now = new Date();
+  return {
+    start: toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+    end: toDateInput(new Date(now.getFullYear(), now.getMonth(), 0)),
+  };
+}
+
+function SaftExportDialog() {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [period, setPeriod] = useState(getPreviousMonth);
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams(period);
+      const res = await apiRequest("GET", `/api/admin/saft?${params}`);
+      const filename =
+        res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ||
+        `SAFT-PT_${period.start}_${period.end}.xml`;
+      return { blob: await res.blob(), filename };
+    },
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao exportar SAF-T",
+        description: getApiErrorMessage(error, "Verifique o período e tente novamente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full justify-start" data-testid="button-export-saft">
+          <Download className="w-4 h-4 mr-2" />
+          Exportar SAF-T
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Exportar SAF-T (PT)</DialogTitle>
+          <DialogDescription>
+            Faturas e recibos emitidos no período, para enviar à contabilidade.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 pt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="saft-start">De</Label>
+              <Input
+                id="saft-start"
+                type="date"
+                value={period.start}
+                onChange={(e) => setPeriod({ ...period, start: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="saft-end">Até</Label>
+              <Input
+                id="saft-end"
+                type="date"
+                value={period.end}
+                onChange={(e) => setPeriod({ ...period, end: e.target.value })}
+              />
+            </div>
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending || !period.start || !period.end}
+          >
+            {exportMutation.isPending ? "Exportando..." : "Descarregar XML"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function AdminDashboard() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [location] = useLocation();
@@ -113,6 +252,8 @@ export default function AdminDashboard() {
     );
   }
 
+  const money = (value: number | undefined) => formatCurrency(value || 0, stats?.baseCurrency);
+
   const pieData = stats?.revenueByService
     ? [
         { name: "Sites", value: stats.revenueByService.site },
@@ -131,7 +272,7 @@ export default function AdminDashboard() {
       bgColor: "bg-blue-500/10",
     },
     {
-      title: "Orçamentos Pendentes",
+      title: "Orçamentos em Aberto",
       value: stats?.pendingQuotes || 0,
       icon: Clock,
       color: "text-yellow-500",
@@ -146,7 +287,7 @@ export default function AdminDashboard() {
     },
     {
       title: "Receita Total",
-      value: `€${(stats?.totalRevenue || 0).toFixed(2)}`,
+      value: money(stats?.totalRevenue),
       icon: TrendingUp,
       color: "text-primary",
       bgColor: "bg-primary/10",
@@ -240,6 +381,17 @@ export default function AdminDashboard() {
         </header>
 
         <main className="flex-1 p-4 sm:p-6 lg:p-8 overflow-auto">
+          {!!stats?.unconvertedCurrencies.length && (
+            <Card className="p-4 mb-6 border-yellow-500/50 bg-yellow-500/10 flex items-center justify-between gap-4 flex-wrap">
+              <p className="text-sm">
+                Sem taxa de câmbio para {stats.unconvertedCurrencies.join(", ")}: esses valores não entram nas
+                estatísticas.
+              </p>
+              <Link href="/admin/exchange-rates">
+                <Button size="sm" variant="outline">Definir taxas</Button>
+              </Link>
+            </Card>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
             {isLoading
               ? [1, 2, 3, 4].map((i) => (
@@ -297,7 +449,7 @@ export default function AdminDashboard() {
                         border: "1px solid hsl(var(--border))",
                         borderRadius: "8px",
                       }}
-                      formatter={(value: number) => [`€${value.toFixed(2)}`, "Receita"]}
+                      formatter={(value: number) => [money(value), "Receita"]}
                     />
                     <Bar dataKey="revenue" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
                   </BarChart>
@@ -331,7 +483,7 @@ export default function AdminDashboard() {
                         border: "1px solid hsl(var(--border))",
                         borderRadius: "8px",
                       }}
-                      formatter={(value: number) => [`€${value.toFixed(2)}`]}
+                      formatter={(value: number) => [money(value)]}
                     />
                     <Legend />
                   </PieChart>
@@ -351,13 +503,13 @@ export default function AdminDashboard() {
                 <div className="flex items-center justify-between">
                   <span className="text-muted-foreground">Receita Atual</span>
                   <span className="font-semibold text-primary">
-                    €{(stats?.currentMonthRevenue || 0).toFixed(2)}
+                    {money(stats?.currentMonthRevenue)}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-muted-foreground">Mês Anterior</span>
                   <span className="font-semibold">
-                    €{(stats?.lastMonthRevenue || 0).toFixed(2)}
+                    {money(stats?.lastMonthRevenue)}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
@@ -367,6 +519,12 @@ export default function AdminDashboard() {
                     {(stats?.revenueChange || 0).toFixed(1)}%
                   </span>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Reembolsos (total)</span>
+                  <span className="font-semibold text-red-500">
+                    -{money(stats?.totalRefunded)}
+                  </span>
+                </div>
               </div>
             </Card>
 
@@ -386,7 +544,21 @@ export default function AdminDashboard() {
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-muted-foreground">Orçamentos Pendentes</span>
+                  <span className="text-muted-foreground">Mensais / Anuais</span>
+                  <span className="font-semibold">
+                    {stats?.subscriptionsByInterval.month || 0} / {stats?.subscriptionsByInterval.year || 0}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">MRR</span>
+                  <span className="font-semibold text-primary">{money(stats?.mrr)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">ARR</span>
+                  <span className="font-semibold">{money(stats?.arr)}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Orçamentos em Aberto</span>
                   <span className="font-semibold">
                     {stats?.pendingQuotes || 0}
                   </span>
@@ -420,7 +592,7 @@ export default function AdminDashboard() {
             </Card>
           </div>
 
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <Card className="p-6 bg-card/80 backdrop-blur border-primary/10">
               <h3 className="font-semibold mb-4">Ações Rápidas</h3>
               <div className="grid grid-cols-2 gap-3">
@@ -448,6 +620,36 @@ export default function AdminDashboard() {
                     Moderar Avaliações
                   </Button>
                 </Link>
+                <SaftExportDialog />
+              </div>
+            </Card>
+
+            <Card className="p-6 bg-card/80 backdrop-blur border-primary/10">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold">Cupões</h3>
+                <Link href="/admin/coupons">
+                  <Button size="sm" variant="ghost">Gerir</Button>
+                </Link>
+              </div>
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Utilizações</span>
+                  <span className="font-semibold">{stats?.couponStats.redemptions || 0}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Desconto concedido</span>
+                  <span className="font-semibold text-red-500">
+                    -{money(stats?.couponStats.totalDiscount)}
+                  </span>
+                </div>
+                {stats?.couponStats.topCoupons.map((coupon) => (
+                  <div key={coupon.code} className="flex items-center justify-between text-sm">
+                    <span className="font-mono">{coupon.code}</span>
+                    <span className="text-muted-foreground">
+                      {coupon.redemptions}× · -{money(coupon.totalDiscount)}
+                    </span>
+                  </div>
+                ))}
               </div>
             </Card>
 
@@ -0,0 +1,463 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ArrowLeft, AlertCircle, Plus, Trash2, ScrollText, Download, Ban, Calendar } from "lucide-react";
+import { vatRates, vatExemptionReasons, formatCurrency, formatCurrencyTotals, type Invoice } from "@shared/schema";
+
+const emptyItem = { description: "", quantity: "1", unitPrice: "", vatRate: "23", vatExemptionCode: "" };
+
+const emptyForm = {
+  customerName: "",
+  customerEmail: "",
+  customerNif: "",
+  customerAddress: "",
+  customerPostalCode: "",
+  customerCity: "",
+  customerCountry: "PT",
+  items: [emptyItem],
+};
+
+type InvoiceForm = typeof emptyForm;
+type InvoiceFormItem = InvoiceForm["items"][number];
+
+function toPayload(form: InvoiceForm) {
+  return {
+    customerName: form.customerName,
+    customerEmail: form.customerEmail.trim() || null,
+    customerNif: form.customerNif.trim() || null,
+    customerAddress: form.customerAddress.trim() || null,
+    customerPostalCode: form.customerPostalCode.trim() || null,
+    customerCity: form.customerCity.trim() || null,
+    customerCountry: form.customerCountry.toUpperCase(),
+    items: form.items.map((item) => ({
+      description: item.description,
+      quantity: Number(item.quantity),
+      unitPrice: Number(item.unitPrice),
+      vatRate: Number(item.vatRate),
+      vatExemptionCode: item.vatRate === "0" ? item.vatExemptionCode : null,
+    })),
+  };
+}
+
+// Preview only; the server recalculates the totals when issuing
+function previewTotal(items: InvoiceFormItem[]) {
+  return items.reduce((acc, item) => {
+    const net = Math.round(Number(item.quantity) * Number(item.unitPrice) * 100) / 100;
+    return acc + net + Math.round(net * Number(item.vatRate)) / 100;
+  }, 0);
+}
+
+function CancelInvoiceDialog({ invoice }: { invoice: Invoice }) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/admin/invoices/${invoice.id}/cancel`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payments"] });
+      setIsOpen(false);
+      setReason("");
+      toast({ title: "Fatura anulada" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao anular fatura",
+        description: getApiErrorMessage(error, "Tente novamente mais tarde."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="text-destructive" data-testid={`button-cancel-invoice-${invoice.id}`}>
+          <Ban className="w-4 h-4 mr-2" />
+          Anular
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Anular {invoice.invoiceNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-4">
+          <p className="text-sm text-muted-foreground">
+            A fatura mantém o número e fica marcada como anulada.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Motivo *</Label>
+            <Textarea
+              id="cancel-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <Button
+            className="w-full"
+            variant="destructive"
+            onClick={() => cancelMutation.mutate()}
+            disabled={cancelMutation.isPending || reason.trim().length < 3}
+          >
+            {cancelMutation.isPending ? "Anulando..." : "Confirmar Anulação"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminInvoices() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<InvoiceForm>(emptyForm);
+
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: ["/api/admin/invoices"],
+    enabled: isAdmin,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InvoiceForm) => {
+      return apiRequest("POST", "/api/admin/invoices", toPayload(data));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+      setIsDialogOpen(false);
+      setFormData(emptyForm);
+      toast({ title: "Fatura emitida com sucesso!" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao emitir fatura",
+        description: getApiErrorMessage(error, "Verifique o NIF e as linhas da fatura."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateItem = (index: number, changes: Partial<InvoiceFormItem>) => {
+    setFormData({
+      ...formData,
+      items: formData.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+          <h1 className="font-serif text-2xl font-bold mb-2">Acesso Negado</h1>
+          <Link href="/">
+            <Button>Voltar ao Início</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const isFormValid =
+    formData.customerName.trim().length >= 2 &&
+    formData.items.every(
+      (item) =>
+        item.description.trim() &&
+        Number(item.quantity) > 0 &&
+        item.unitPrice !== "" &&
+        (item.vatRate !== "0" || item.vatExemptionCode),
+    );
+
+  const issuedTotal = formatCurrencyTotals(
+    invoices.filter((i) => i.status === "issued").map((i) => ({ amount: i.grossTotal, currency: i.currency })),
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border p-4">
+        <div className="max-w-7xl mx-auto flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-4 flex-wrap">
+            <Link href="/admin">
+              <Button size="icon" variant="ghost">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            </Link>
+            <h1 className="font-serif text-xl font-bold">Faturas</h1>
+            <Badge variant="secondary">{invoices.length} total</Badge>
+            <Badge className="bg-green-500">{issuedTotal} faturado</Badge>
+          </div>
+
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="bg-gradient-to-r from-primary to-secondary">
+                <Plus className="w-4 h-4 mr-2" />
+                Nova Fatura
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Emitir Fatura</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 pt-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="customerName">Nome / Empresa *</Label>
+                    <Input
+                      id="customerName"
+                      value={formData.customerName}
+                      onChange={(e) => setFormData({ ...formData, customerName: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="customerNif">NIF</Label>
+                    <Input
+                      id="customerNif"
+                      value={formData.customerNif}
+                      onChange={(e) => setFormData({ ...formData, customerNif: e.target.value.replace(/\D/g, "").slice(0, 9) })}
+                      placeholder="Consumidor final"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="customerEmail">Email</Label>
+                    <Input
+                      id="customerEmail"
+                      type="email"
+                      value={formData.customerEmail}
+                      onChange={(e) => setFormData({ ...formData, customerEmail: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="customerAddress">Morada</Label>
+                    <Input
+                      id="customerAddress"
+                      value={formData.customerAddress}
+                      onChange={(e) => setFormData({ ...formData, customerAddress: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="customerPostalCode">Código Postal</Label>
+                    <Input
+                      id="customerPostalCode"
+                      value={formData.customerPostalCode}
+                      onChange={(e) => setFormData({ ...formData, customerPostalCode: e.target.value })}
+                      placeholder="4700-000"
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="customerCity">Localidade</Label>
+                      <Input
+                        id="customerCity"
+                        value={formData.customerCity}
+                        onChange={(e) => setFormData({ ...formData, customerCity: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="customerCountry">País</Label>
+                      <Input
+                        id="customerCountry"
+                        maxLength={2}
+                        value={formData.customerCountry}
+                        onChange={(e) => setFormData({ ...formData, customerCountry: e.target.value.toUpperCase() })}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <Label>Linhas (preços sem IVA)</Label>
+                  {formData.items.map((item, index) => (
+                    <Card key={index} className="p-3 space-y-2">
+                      <div className="flex gap-2">
+                        <Input
+                          value={item.description}
+                          onChange={(e) => updateItem(index, { description: e.target.value })}
+                          placeholder="Descrição"
+                        />
+                        {formData.items.length > 1 && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setFormData({ ...formData, items: formData.items.filter((_, i) => i !== index) })}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={item.quantity}
+                          onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                          placeholder="Qtd."
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.unitPrice}
+                          onChange={(e) => updateItem(index, { unitPrice: e.target.value })}
+                          placeholder="Preço unit."
+                        />
+                        <Select value={item.vatRate} onValueChange={(value) => updateItem(index, { vatRate: value })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {vatRates.map((rate) => (
+                              <SelectItem key={rate} value={rate.toString()}>
+                                IVA {rate}%
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {item.vatRate === "0" && (
+                        <Select
+                          value={item.vatExemptionCode}
+                          onValueChange={(value) => updateItem(index, { vatExemptionCode: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Motivo de isenção" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(vatExemptionReasons).map(([code, label]) => (
+                              <SelectItem key={code} value={code}>
+                                {code} - {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </Card>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFormData({ ...formData, items: [...formData.items, emptyItem] })}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Adicionar Linha
+                  </Button>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Total c/ IVA</span>
+                  <span className="text-xl font-bold">{formatCurrency(previewTotal(formData.items))}</span>
+                </div>
+
+                <Button
+                  className="w-full"
+                  onClick={() => createMutation.mutate(formData)}
+                  disabled={createMutation.isPending || !isFormValid}
+                >
+                  {createMutation.isPending ? "Emitindo..." : "Emitir Fatura"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-24 rounded-xl" />
+            ))}
+          </div>
+        ) : invoices.length === 0 ? (
+          <Card className="p-8 text-center">
+            <ScrollText className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Nenhuma fatura emitida.</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {invoices.map((invoice) => (
+              <Card
+                key={invoice.id}
+                className="p-6 bg-card/80 backdrop-blur border-primary/10"
+                data-testid={`invoice-${invoice.id}`}
+              >
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2 mb-2 flex-wrap">
+                      <h3 className="font-semibold font-mono">{invoice.invoiceNumber}</h3>
+                      {invoice.status === "canceled" ? (
+                        <Badge variant="destructive">Anulada</Badge>
+                      ) : (
+                        <Badge className="bg-green-500">Emitida</Badge>
+                      )}
+                    </div>
+                    <p className="text-xl font-bold text-gradient-primary mb-2">
+                      {formatCurrency(invoice.grossTotal, invoice.currency)}
+                      <span className="text-sm font-normal text-muted-foreground ml-2">
+                        (IVA {formatCurrency(invoice.vatTotal, invoice.currency)})
+                      </span>
+                    </p>
+                    <div className="space-y-1 text-sm text-muted-foreground">
+                      <p><strong>Cliente:</strong> {invoice.customerName}</p>
+                      <p><strong>NIF:</strong> {invoice.customerNif || "Consumidor final"}</p>
+                      <p className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {new Date(invoice.issuedAt!).toLocaleDateString("pt-PT")}
+                      </p>
+                      {invoice.cancelReason && <p><strong>Motivo da anulação:</strong> {invoice.cancelReason}</p>}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 sm:justify-end">
+                    <a href={`/api/invoices/${invoice.id}/pdf`} target="_blank" rel="noreferrer">
+                      <Button size="sm" variant="outline">
+                        <Download className="w-4 h-4 mr-2" />
+                        PDF
+                      </Button>
+                    </a>
+                    {invoice.status === "issued" && <CancelInvoiceDialog invoice={invoice} />}
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
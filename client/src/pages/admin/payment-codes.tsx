@@ -7,6 +7,13 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -25,15 +32,60 @@ import {
   AlertCircle,
   Calendar,
   Trash2,
+  Clock,
+  Users,
+  Mail,
 } from "lucide-react";
-import type { PaymentCode } from "@shared/schema";
+import { currencies, formatCurrency, type PaymentCode } from "@shared/schema";
+
+const emptyForm = {
+  codeFormat: "numeric" as "numeric" | "alphanumeric",
+  amountType: "fixed" as "fixed" | "range",
+  amount: "",
+  minAmount: "",
+  maxAmount: "",
+  currency: "EUR",
+  description: "",
+  clientEmail: "",
+  expiresAt: "",
+  maxUses: "1",
+};
+
+type PaymentCodeForm = typeof emptyForm;
+
+// Range codes charge what the client picks, so the stored amount is the minimum
+function toPayload(form: PaymentCodeForm) {
+  const isRange = form.amountType === "range";
+  return {
+    codeFormat: form.codeFormat,
+    amountType: form.amountType,
+    amount: isRange ? form.minAmount : form.amount,
+    minAmount: isRange ? form.minAmount : null,
+    maxAmount: isRange ? form.maxAmount : null,
+    currency: form.currency,
+    description: form.description,
+    clientEmail: form.clientEmail.trim() || null,
+    expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).toISOString() : null,
+    maxUses: form.maxUses ? parseInt(form.maxUses) : null,
+  };
+}
+
+function isExpired(code: PaymentCode) {
+  return !!code.expiresAt && new Date(code.expiresAt).getTime() <= Date.now();
+}
+
+function formatCodeAmount(code: PaymentCode) {
+  if (code.amountType === "range") {
+    return `${formatCurrency(code.minAmount ?? code.amount, code.currency)} - ${formatCurrency(code.maxAmount ?? code.amount, code.currency)}`;
+  }
+  return formatCurrency(code.amount, code.currency);
+}
 
 export default function AdminPaymentCodes() {
   const { isAdmin, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [amount, setAmount] = useState("");
-  const [description, setDescription] = useState("");
+  const [formData, setFormData] = useState<PaymentCodeForm>(emptyForm);
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
 
   const { data: codes = [], isLoading } = useQuery<PaymentCode[]>({
@@ -42,16 +94,18 @@ export default function AdminPaymentCodes() {
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: { amount: string; description: string }) => {
-      return apiRequest("POST", "/api/payment-codes", data);
+    mutationFn: async (data: PaymentCodeForm) => {
+      return apiRequest("POST", "/api/payment-codes", toPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/payment-codes"] });
       setIsDialogOpen(false);
-      setAmount("");
-      setDescription("");
+      setFormData(emptyForm);
       toast({ title: "Código criado com sucesso!" });
     },
+    onError: () => {
+      toast({ title: "Erro ao criar código", description: "Verifique os valores indicados.", variant: "destructive" });
+    },
   });
 
   const deleteMutation = useMutation({
@@ -93,6 +147,11 @@ export default function AdminPaymentCodes() {
     );
   }
 
+  const isFormValid =
+    formData.amountType === "range"
+      ? !!formData.minAmount && !!formData.maxAmount && Number(formData.minAmount) <= Number(formData.maxAmount)
+      : !!formData.amount;
+
   const unusedCodes = codes.filter((c) => !c.isUsed);
   const usedCodes = codes.filter((c) => c.isUsed);
 
@@ -123,30 +182,146 @@ export default function AdminPaymentCodes() {
               </DialogHeader>
               <div className="space-y-4 pt-4">
                 <div className="space-y-2">
-                  <Label htmlFor="amount">Valor (EUR) *</Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={amount}
-                    onChange={(e) => setAmount(e.target.value)}
-                    placeholder="100.00"
-                  />
+                  <Label>Formato do Código</Label>
+                  <Select
+                    value={formData.codeFormat}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, codeFormat: value as PaymentCodeForm["codeFormat"] })
+                    }
+                  >
+                    <SelectTrigger data-testid="select-code-format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="numeric">Numérico (6 dígitos)</SelectItem>
+                      <SelectItem value="alphanumeric">Alfanumérico (10 caracteres, mais seguro)</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
+                <div className="space-y-2">
+                  <Label>Tipo de Valor</Label>
+                  <Select
+                    value={formData.amountType}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, amountType: value as PaymentCodeForm["amountType"] })
+                    }
+                  >
+                    <SelectTrigger data-testid="select-amount-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fixed">Valor fixo</SelectItem>
+                      <SelectItem value="range">Cliente escolhe o valor</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Moeda</Label>
+                  <Select
+                    value={formData.currency}
+                    onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                  >
+                    <SelectTrigger data-testid="select-currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {currencies.map((currency) => (
+                        <SelectItem key={currency} value={currency}>
+                          {currency}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {formData.currency !== "EUR" && (
+                    <p className="text-xs text-muted-foreground">Multibanco e MB WAY só estão disponíveis em euros.</p>
+                  )}
+                </div>
+                {formData.amountType === "fixed" ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="amount">Valor ({formData.currency}) *</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      placeholder="100.00"
+                    />
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="minAmount">Mínimo ({formData.currency}) *</Label>
+                      <Input
+                        id="minAmount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.minAmount}
+                        onChange={(e) => setFormData({ ...formData, minAmount: e.target.value })}
+                        placeholder="50.00"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxAmount">Máximo ({formData.currency}) *</Label>
+                      <Input
+                        id="maxAmount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.maxAmount}
+                        onChange={(e) => setFormData({ ...formData, maxAmount: e.target.value })}
+                        placeholder="500.00"
+                      />
+                    </div>
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="description">Descrição</Label>
                   <Input
                     id="description"
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                     placeholder="Ex: Pagamento final website"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="clientEmail">Email do Cliente</Label>
+                  <Input
+                    id="clientEmail"
+                    type="email"
+                    value={formData.clientEmail}
+                    onChange={(e) => setFormData({ ...formData, clientEmail: e.target.value })}
+                    placeholder="Opcional: apenas este cliente pode usar o código"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="expiresAt">Válido até</Label>
+                    <Input
+                      id="expiresAt"
+                      type="date"
+                      value={formData.expiresAt}
+                      onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="maxUses">Utilizações</Label>
+                    <Input
+                      id="maxUses"
+                      type="number"
+                      min="1"
+                      value={formData.maxUses}
+                      onChange={(e) => setFormData({ ...formData, maxUses: e.target.value })}
+                      placeholder="Ilimitadas"
+                    />
+                  </div>
+                </div>
                 <Button
                   className="w-full"
-                  onClick={() => createMutation.mutate({ amount, description })}
-                  disabled={createMutation.isPending || !amount}
+                  onClick={() => createMutation.mutate(formData)}
+                  disabled={createMutation.isPending || !isFormValid}
                 >
                   {createMutation.isPending ? "Criando..." : "Criar Código"}
                 </Button>
@@ -209,7 +384,7 @@ export default function AdminPaymentCodes() {
                             </Button>
                           </div>
                           <p className="text-xl font-semibold text-gradient-primary">
-                            €{code.amount}
+                            {formatCodeAmount(code)}
                           </p>
                           {code.description && (
                             <p className="text-sm text-muted-foreground mt-1">
@@ -217,13 +392,37 @@ export default function AdminPaymentCodes() {
                             </p>
                           )}
                         </div>
-                        <Badge variant="outline" className="text-green-500 border-green-500">
-                          Disponível
-                        </Badge>
+                        {isExpired(code) ? (
+                          <Badge variant="outline" className="text-destructive border-destructive">
+                            Expirado
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-green-500 border-green-500">
+                            Disponível
+                          </Badge>
+                        )}
                       </div>
-                      <div className="mt-4 text-xs text-muted-foreground flex items-center gap-1">
-                        <Calendar className="w-3 h-3" />
-                        Criado em {new Date(code.createdAt!).toLocaleDateString("pt-BR")}
+                      <div className="mt-4 text-xs text-muted-foreground space-y-1">
+                        <p className="flex items-center gap-1">
+                          <Calendar className="w-3 h-3" />
+                          Criado em {new Date(code.createdAt!).toLocaleDateString("pt-BR")}
+                        </p>
+                        {code.expiresAt && (
+                          <p className="flex items-center gap-1">
+                            <Clock className="w-3 h-3" />
+                            Válido até {new Date(code.expiresAt).toLocaleDateString("pt-BR")}
+                          </p>
+                        )}
+                        <p className="flex items-center gap-1">
+                          <Users className="w-3 h-3" />
+                          {code.maxUses ? `${code.useCount}/${code.maxUses} usos` : `${code.useCount} usos (ilimitado)`}
+                        </p>
+                        {code.clientEmail && (
+                          <p className="flex items-center gap-1">
+                            <Mail className="w-3 h-3" />
+                            {code.clientEmail}
+                          </p>
+                        )}
                       </div>
                     </Card>
                   ))}
@@ -247,7 +446,7 @@ export default function AdminPaymentCodes() {
                             {code.code}
                           </span>
                           <p className="text-xl font-semibold text-muted-foreground">
-                            €{code.amount}
+                            {formatCodeAmount(code)}
                           </p>
                           {code.description && (
                             <p className="text-sm text-muted-foreground mt-1">
@@ -258,6 +457,7 @@ export default function AdminPaymentCodes() {
                         <Badge variant="secondary">Utilizado</Badge>
                       </div>
                       <div className="mt-4 text-xs text-muted-foreground space-y-1">
+                        {code.maxUses !== 1 && <p>{code.useCount} usos</p>}
                         <p>Por: {code.usedByName}</p>
                         <p>{code.usedByEmail}</p>
                         {code.usedAt && (
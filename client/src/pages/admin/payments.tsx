@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RefundDialog, isRefundable, type AdminPayment } from "@/components/refund-dialog";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ArrowLeft, AlertCircle, Wallet, Calendar, Undo2, ScrollText } from "lucide-react";
+import { vatRates, vatExemptionReasons, formatCurrency, formatCurrencyTotals } from "@shared/schema";
+
+const statusColors: Record<string, string> = {
+  succeeded: "bg-green-500",
+  pending: "bg-yellow-500",
+  failed: "bg-red-500",
+  refunded: "bg-gray-500",
+  partially_refunded: "bg-orange-500",
+};
+
+const statusLabels: Record<string, string> = {
+  succeeded: "Pago",
+  pending: "Pendente",
+  failed: "Falhado",
+  refunded: "Reembolsado",
+  partially_refunded: "Reembolso Parcial",
+};
+
+const typeLabels: Record<string, string> = {
+  maintenance_site: "Manutenção Site",
+  maintenance_app: "Manutenção App",
+  code_payment: "Pagamento por Código",
+  custom: "Personalizado",
+};
+
+const methodLabels: Record<string, string> = {
+  card: "Cartão",
+  multibanco: "Multibanco",
+  mb_way: "MB WAY",
+};
+
+function IssueInvoiceDialog({ payment }: { payment: AdminPayment }) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [vatRate, setVatRate] = useState("23");
+  const [vatExemptionCode, setVatExemptionCode] = useState("");
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/admin/payments/${payment.id}/invoice`, {
+        vatRate: Number(vatRate),
+        vatExemptionCode: vatRate === "0" ? vatExemptionCode : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+      setIsOpen(false);
+      toast({ title: "Fatura emitida com sucesso!" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao emitir fatura",
+        description: getApiErrorMessage(error, "Verifique os dados de faturação do cliente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" data-testid={`button-invoice-${payment.id}`}>
+          <ScrollText className="w-4 h-4 mr-2" />
+          Emitir Fatura
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Emitir Fatura</DialogTitle>
+          <DialogDescription>
+            {formatCurrency(payment.amount, payment.currency || "EUR")} (IVA incluído) · {payment.user?.displayName || "cliente sem conta"}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 pt-4">
+          <div className="space-y-2">
+            <Label>Taxa de IVA</Label>
+            <Select value={vatRate} onValueChange={setVatRate}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {vatRates.map((rate) => (
+                  <SelectItem key={rate} value={rate.toString()}>
+                    {rate === 0 ? "Isento (0%)" : `${rate}%`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {vatRate === "0" && (
+            <div className="space-y-2">
+              <Label>Motivo de Isenção</Label>
+              <Select value={vatExemptionCode} onValueChange={setVatExemptionCode}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o motivo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(vatExemptionReasons).map(([code, label]) => (
+                    <SelectItem key={code} value={code}>
+                      {code} - {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            O NIF e a morada são os dados de faturação guardados pelo cliente no perfil.
+          </p>
+          <Button
+            className="w-full"
+            onClick={() => issueMutation.mutate()}
+            disabled={issueMutation.isPending || (vatRate === "0" && !vatExemptionCode)}
+          >
+            {issueMutation.isPending ? "Emitindo..." : "Emitir Fatura"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminPayments() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+
+  const { data: payments = [], isLoading } = useQuery<AdminPayment[]>({
+    queryKey: ["/api/admin/payments"],
+    enabled: isAdmin,
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+          <h1 className="font-serif text-2xl font-bold mb-2">Acesso Negado</h1>
+          <Link href="/">
+            <Button>Voltar ao Início</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const refundedPayments = payments.filter((p) => parseFloat(p.refundedAmount) > 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border p-4">
+        <div className="max-w-7xl mx-auto flex items-center gap-4 flex-wrap">
+          <Link href="/admin">
+            <Button size="icon" variant="ghost">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <h1 className="font-serif text-xl font-bold">Pagamentos</h1>
+          <Badge variant="secondary">{payments.length} total</Badge>
+          {refundedPayments.length > 0 && (
+            <Badge className="bg-orange-500">
+              {formatCurrencyTotals(refundedPayments.map((p) => ({ amount: p.refundedAmount, currency: p.currency })))}{" "}
+              reembolsado
+            </Badge>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-24 rounded-xl" />
+            ))}
+          </div>
+        ) : payments.length === 0 ? (
+          <Card className="p-8 text-center">
+            <Wallet className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Nenhum pagamento encontrado.</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {payments.map((payment) => (
+              <Card
+                key={payment.id}
+                className="p-6 bg-card/80 backdrop-blur border-primary/10"
+                data-testid={`payment-${payment.id}`}
+              >
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2 mb-2 flex-wrap">
+                      <h3 className="font-semibold">
+                        {typeLabels[payment.paymentType] || payment.paymentType}
+                      </h3>
+                      <Badge className={statusColors[payment.status]}>
+                        {statusLabels[payment.status] || payment.status}
+                      </Badge>
+                      <Badge variant="outline">
+                        {methodLabels[payment.paymentMethod] || payment.paymentMethod}
+                      </Badge>
+                    </div>
+                    <p className="text-xl font-bold text-gradient-primary mb-2">
+                      {formatCurrency(payment.amount, payment.currency || "EUR")}
+                      {parseFloat(payment.refundedAmount) > 0 && (
+                        <span className="text-sm font-normal text-muted-foreground ml-2">
+                          (-{formatCurrency(payment.refundedAmount, payment.currency || "EUR")})
+                        </span>
+                      )}
+                    </p>
+                    <div className="space-y-1 text-sm text-muted-foreground">
+                      <p><strong>Cliente:</strong> {payment.user?.displayName || "N/A"}</p>
+                      <p><strong>Email:</strong> {payment.user?.email || "N/A"}</p>
+                      {payment.status === "pending" && payment.multibancoReference && (
+                        <p>
+                          <strong>Referência:</strong> {payment.multibancoEntity} / {payment.multibancoReference}
+                          {payment.expiresAt && ` (até ${new Date(payment.expiresAt).toLocaleDateString("pt-BR")})`}
+                        </p>
+                      )}
+                      <p className="flex items-center gap-1">
+                        <Calendar className="w-3 h-3" />
+                        {new Date(payment.createdAt!).toLocaleDateString("pt-BR")}
+                      </p>
+                    </div>
+                    {payment.refunds.length > 0 && (
+                      <div className="mt-3 space-y-1 text-xs text-muted-foreground">
+                        {payment.refunds.map((refund) => (
+                          <p key={refund.id} className="flex items-center gap-1">
+                            <Undo2 className="w-3 h-3" />
+                            {formatCurrency(refund.amount, refund.currency || "EUR")} em {new Date(refund.createdAt!).toLocaleDateString("pt-BR")}
+                            {refund.reason && ` · ${refund.reason}`}
+                            {refund.status !== "succeeded" && ` (${refund.status})`}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2 sm:justify-end">
+                    {payment.invoice ? (
+                      <a href={`/api/invoices/${payment.invoice.id}/pdf`} target="_blank" rel="noreferrer">
+                        <Button size="sm" variant="ghost">
+                          <ScrollText className="w-4 h-4 mr-2" />
+                          {payment.invoice.invoiceNumber}
+                          {payment.invoice.status === "canceled" && " (anulada)"}
+                        </Button>
+                      </a>
+                    ) : (
+                      isRefundable(payment) && <IssueInvoiceDialog payment={payment} />
+                    )}
+                    {isRefundable(payment) && <RefundDialog payment={payment} />}
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
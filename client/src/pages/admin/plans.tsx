@@ -0,0 +1,462 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  AlertCircle,
+  Check,
+  Globe,
+  Smartphone,
+} from "lucide-react";
+import { currencies, formatCurrency, type Plan } from "@shared/schema";
+
+const emptyForm = {
+  slug: "",
+  name: "",
+  description: "",
+  serviceType: "website",
+  features: "",
+  monthlyPrice: "",
+  annualPrice: "",
+  currency: "EUR",
+  stripePriceId: "",
+  stripeAnnualPriceId: "",
+  isActive: true,
+  isPopular: false,
+  displayOrder: "0",
+};
+
+type PlanForm = typeof emptyForm;
+
+const toPayload = (form: PlanForm) => ({
+  slug: form.slug.trim(),
+  name: form.name.trim(),
+  description: form.description.trim() || null,
+  serviceType: form.serviceType,
+  features: form.features.split("\n").map((f) => f.trim()).filter(Boolean),
+  monthlyPrice: form.monthlyPrice,
+  annualPrice: form.annualPrice || null,
+  currency: form.currency,
+  stripePriceId: form.stripePriceId.trim() || null,
+  stripeAnnualPriceId: form.stripeAnnualPriceId.trim() || null,
+  isActive: form.isActive,
+  isPopular: form.isPopular,
+  displayOrder: parseInt(form.displayOrder) || 0,
+});
+
+export default function AdminPlans() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<Plan | null>(null);
+  const [formData, setFormData] = useState<PlanForm>(emptyForm);
+
+  const { data: plans = [], isLoading } = useQuery<Plan[]>({
+    queryKey: ["/api/admin/plans"],
+    enabled: isAdmin,
+  });
+
+  const invalidatePlans = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/plans"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/plans"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: PlanForm) => {
+      return apiRequest("POST", "/api/plans", toPayload(data));
+    },
+    onSuccess: () => {
+      invalidatePlans();
+      setIsDialogOpen(false);
+      resetForm();
+      toast({ title: "Plano criado com sucesso!" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao criar plano", variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: PlanForm }) => {
+      return apiRequest("PATCH", `/api/plans/${id}`, toPayload(data));
+    },
+    onSuccess: () => {
+      invalidatePlans();
+      setIsDialogOpen(false);
+      resetForm();
+      toast({ title: "Plano atualizado com sucesso!" });
+    },
+    onError: () => {
+      toast({ title: "Erro ao atualizar plano", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/plans/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePlans();
+      toast({ title: "Plano removido com sucesso!" });
+    },
+  });
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingPlan(null);
+  };
+
+  const handleEdit = (plan: Plan) => {
+    setEditingPlan(plan);
+    setFormData({
+      slug: plan.slug,
+      name: plan.name,
+      description: plan.description || "",
+      serviceType: plan.serviceType,
+      features: (plan.features || []).join("\n"),
+      monthlyPrice: plan.monthlyPrice,
+      annualPrice: plan.annualPrice || "",
+      currency: plan.currency,
+      stripePriceId: plan.stripePriceId || "",
+      stripeAnnualPriceId: plan.stripeAnnualPriceId || "",
+      isActive: plan.isActive ?? true,
+      isPopular: plan.isPopular ?? false,
+      displayOrder: String(plan.displayOrder ?? 0),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = () => {
+    if (!formData.slug || !formData.name || !formData.monthlyPrice) {
+      toast({
+        title: "Identificador, nome e preço mensal são obrigatórios",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (editingPlan) {
+      updateMutation.mutate({ id: editingPlan.id, data: formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+          <h1 className="font-serif text-2xl font-bold mb-2">Acesso Negado</h1>
+          <Link href="/">
+            <Button>Voltar ao Início</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border p-4">
+        <div className="max-w-7xl mx-auto flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link href="/admin">
+              <Button size="icon" variant="ghost">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            </Link>
+            <h1 className="font-serif text-xl font-bold">Planos de Manutenção</h1>
+            <Badge variant="secondary">{plans.length} planos</Badge>
+          </div>
+
+          <Dialog open={isDialogOpen} onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) resetForm();
+          }}>
+            <DialogTrigger asChild>
+              <Button className="bg-gradient-to-r from-primary to-secondary">
+                <Plus className="w-4 h-4 mr-2" />
+                Novo Plano
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingPlan ? "Editar Plano" : "Novo Plano"}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 pt-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Nome *</Label>
+                    <Input
+                      id="name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="Manutenção Site"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="slug">Identificador *</Label>
+                    <Input
+                      id="slug"
+                      value={formData.slug}
+                      onChange={(e) => setFormData({ ...formData, slug: e.target.value })}
+                      placeholder="site_maintenance"
+                      disabled={!!editingPlan}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Descrição</Label>
+                  <Input
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Tipo de Serviço</Label>
+                  <Select
+                    value={formData.serviceType}
+                    onValueChange={(value) => setFormData({ ...formData, serviceType: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="website">Website</SelectItem>
+                      <SelectItem value="app">Aplicativo</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="features">Funcionalidades (uma por linha)</Label>
+                  <Textarea
+                    id="features"
+                    value={formData.features}
+                    onChange={(e) => setFormData({ ...formData, features: e.target.value })}
+                    className="min-h-[120px]"
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="monthlyPrice">Preço Mensal *</Label>
+                    <Input
+                      id="monthlyPrice"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.monthlyPrice}
+                      onChange={(e) => setFormData({ ...formData, monthlyPrice: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="annualPrice">Preço Anual</Label>
+                    <Input
+                      id="annualPrice"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.annualPrice}
+                      onChange={(e) => setFormData({ ...formData, annualPrice: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Moeda</Label>
+                    <Select
+                      value={formData.currency}
+                      onValueChange={(value) => setFormData({ ...formData, currency: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {currencies.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="stripePriceId">Stripe Price ID (mensal)</Label>
+                    <Input
+                      id="stripePriceId"
+                      value={formData.stripePriceId}
+                      onChange={(e) => setFormData({ ...formData, stripePriceId: e.target.value })}
+                      placeholder="price_..."
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="stripeAnnualPriceId">Stripe Price ID (anual)</Label>
+                    <Input
+                      id="stripeAnnualPriceId"
+                      value={formData.stripeAnnualPriceId}
+                      onChange={(e) => setFormData({ ...formData, stripeAnnualPriceId: e.target.value })}
+                      placeholder="price_..."
+                      disabled={!formData.annualPrice}
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="displayOrder">Ordem</Label>
+                    <Input
+                      id="displayOrder"
+                      type="number"
+                      value={formData.displayOrder}
+                      onChange={(e) => setFormData({ ...formData, displayOrder: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="isPopular">Destacar como "Mais Popular"</Label>
+                  <Switch
+                    id="isPopular"
+                    checked={formData.isPopular}
+                    onCheckedChange={(checked) => setFormData({ ...formData, isPopular: checked })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="isActive">Plano Ativo</Label>
+                  <Switch
+                    id="isActive"
+                    checked={formData.isActive}
+                    onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                  />
+                </div>
+                <Button
+                  className="w-full"
+                  onClick={handleSubmit}
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                >
+                  {createMutation.isPending || updateMutation.isPending
+                    ? "Salvando..."
+                    : "Salvar"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-64 rounded-xl" />
+            ))}
+          </div>
+        ) : plans.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">Nenhum plano encontrado.</p>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {plans.map((plan) => (
+              <Card
+                key={plan.id}
+                className="p-6 bg-card/80 backdrop-blur border-primary/10"
+                data-testid={`plan-${plan.id}`}
+              >
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <div className="flex items-center gap-2 mb-1">
+                      {plan.serviceType === "app" ? (
+                        <Smartphone className="w-4 h-4 text-primary" />
+                      ) : (
+                        <Globe className="w-4 h-4 text-primary" />
+                      )}
+                      <h3 className="font-semibold">{plan.name}</h3>
+                    </div>
+                    <p className="text-xs font-mono text-muted-foreground">{plan.slug}</p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    {!plan.isActive && <Badge variant="secondary">Inativo</Badge>}
+                    {plan.isPopular && <Badge>Popular</Badge>}
+                  </div>
+                </div>
+                <p className="text-xl font-bold text-gradient-primary">
+                  {formatCurrency(plan.monthlyPrice, plan.currency)}/mês
+                </p>
+                {plan.annualPrice && (
+                  <p className="text-sm text-muted-foreground">
+                    {formatCurrency(plan.annualPrice, plan.currency)}/ano
+                  </p>
+                )}
+                <ul className="mt-4 space-y-1">
+                  {(plan.features || []).map((feature, index) => (
+                    <li key={index} className="flex items-start gap-2 text-sm text-muted-foreground">
+                      <Check className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+                      {feature}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2 mt-4">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleEdit(plan)}
+                    data-testid={`button-edit-plan-${plan.id}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => deleteMutation.mutate(plan.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-plan-${plan.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ArrowLeft, AlertCircle, Calculator } from "lucide-react";
+import {
+  businessSegments,
+  quoteAdditionalLabels,
+  type PricingRule,
+  type PricingRuleKind,
+} from "@shared/schema";
+
+// One field per rule; an empty field means the rule is not set
+const sections: Array<{
+  kind: PricingRuleKind;
+  title: string;
+  description: string;
+  unit: string;
+  fields: Array<{ key: string; label: string }>;
+}> = [
+  {
+    kind: "base",
+    title: "Preço base",
+    description: "Ponto de partida de cada tipo de serviço. Sem preço base não é mostrada estimativa.",
+    unit: "€",
+    fields: [
+      { key: "website", label: "Website" },
+      { key: "app", label: "Aplicativo" },
+    ],
+  },
+  {
+    kind: "segment",
+    title: "Multiplicador por segmento",
+    description: "Aplicado ao preço base. Segmentos sem valor contam como 1.",
+    unit: "×",
+    fields: businessSegments.map((segment) => ({ key: segment, label: segment })),
+  },
+  {
+    kind: "addon",
+    title: "Funcionalidades extras",
+    description: "Somadas ao preço depois do multiplicador.",
+    unit: "€",
+    fields: Object.keys(quoteAdditionalLabels).map((id) => ({ key: id, label: quoteAdditionalLabels[id] })),
+  },
+];
+
+const ruleId = (kind: string, key: string) => `${kind}:${key}`;
+
+export default function AdminPricing() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const { data: rules, isLoading } = useQuery<PricingRule[]>({
+    queryKey: ["/api/admin/pricing-rules"],
+    enabled: isAdmin,
+  });
+
+  useEffect(() => {
+    if (!rules) return;
+    const loaded: Record<string, string> = {};
+    for (const rule of rules) {
+      loaded[ruleId(rule.kind, rule.key)] = String(parseFloat(rule.value));
+    }
+    setValues(loaded);
+  }, [rules]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = sections.flatMap((section) =>
+        section.fields
+          .filter((field) => values[ruleId(section.kind, field.key)]?.trim())
+          .map((field) => ({
+            kind: section.kind,
+            key: field.key,
+            value: values[ruleId(section.kind, field.key)],
+          })),
+      );
+      return apiRequest("PUT", "/api/admin/pricing-rules", { rules: payload });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/pricing-rules"] });
+      toast({ title: "Regras de preço guardadas" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao guardar regras de preço",
+        description: getApiErrorMessage(error, "Verifique os valores indicados."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+          <h1 className="font-serif text-2xl font-bold mb-2">Acesso Negado</h1>
+          <Link href="/">
+            <Button>Voltar ao Início</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border p-4">
+        <div className="max-w-7xl mx-auto flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link href="/admin">
+              <Button size="icon" variant="ghost">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            </Link>
+            <h1 className="font-serif text-xl font-bold">Preços dos Orçamentos</h1>
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || isLoading}
+            className="bg-gradient-to-r from-primary to-secondary"
+            data-testid="button-save-pricing"
+          >
+            {saveMutation.isPending ? "Salvando..." : "Salvar"}
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8 space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Usados na estimativa mostrada no último passo do formulário de orçamento, com uma margem de 15% para
+          cima e para baixo.
+        </p>
+        {isLoading
+          ? sections.map((section) => <Skeleton key={section.kind} className="h-48 rounded-xl" />)
+          : sections.map((section) => (
+              <Card
+                key={section.kind}
+                className="p-6 bg-card/80 backdrop-blur border-primary/10"
+                data-testid={`pricing-${section.kind}`}
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <Calculator className="w-4 h-4 text-primary" />
+                  <h3 className="font-semibold">{section.title}</h3>
+                </div>
+                <p className="text-sm text-muted-foreground mb-4">{section.description}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {section.fields.map((field) => {
+                    const id = ruleId(section.kind, field.key);
+                    return (
+                      <div key={id} className="space-y-2">
+                        <Label htmlFor={id}>
+                          {field.label} ({section.unit})
+                        </Label>
+                        <Input
+                          id={id}
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={values[id] ?? ""}
+                          onChange={(e) => setValues({ ...values, [id]: e.target.value })}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            ))}
+      </main>
+    </div>
+  );
+}
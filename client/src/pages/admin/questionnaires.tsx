@@ -0,0 +1,446 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ArrowLeft, AlertCircle, ArrowDown, ArrowUp, ListChecks, Plus, Trash2 } from "lucide-react";
+import {
+  businessSegments,
+  maxQuestionFields,
+  questionFieldTypes,
+  questionFieldTypeLabels,
+  type QuestionField,
+  type QuestionFieldType,
+  type QuoteQuestionnaire,
+} from "@shared/schema";
+
+const serviceTypes = [
+  { value: "website", label: "Website" },
+  { value: "app", label: "Aplicativo" },
+];
+
+// A question as edited on the page: options one per line, limits as typed
+interface EditableField {
+  id: string;
+  label: string;
+  type: QuestionFieldType;
+  required: boolean;
+  helpText: string;
+  options: string;
+  min: string;
+  max: string;
+}
+
+const newField = (): EditableField => ({
+  id: "",
+  label: "",
+  type: "text",
+  required: false,
+  helpText: "",
+  options: "",
+  min: "",
+  max: "",
+});
+
+function toEditable(field: QuestionField): EditableField {
+  return {
+    id: field.id,
+    label: field.label,
+    type: field.type,
+    required: field.required,
+    helpText: field.helpText ?? "",
+    options: (field.options ?? []).join("\n"),
+    min: field.min === undefined ? "" : String(field.min),
+    max: field.max === undefined ? "" : String(field.max),
+  };
+}
+
+// Answers are stored under the id, so it is derived from the question only
+// when the admin leaves it blank
+function toFieldId(label: string): string {
+  return label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40);
+}
+
+function toQuestionField(field: EditableField): QuestionField {
+  const hasOptions = field.type === "select" || field.type === "multi_select";
+  return {
+    id: field.id.trim() || toFieldId(field.label),
+    label: field.label,
+    type: field.type,
+    required: field.required,
+    helpText: field.helpText.trim() || undefined,
+    options: hasOptions
+      ? field.options
+          .split("\n")
+          .map((option) => option.trim())
+          .filter(Boolean)
+      : undefined,
+    min: field.type === "number" && field.min !== "" ? Number(field.min) : undefined,
+    max: field.type === "number" && field.max !== "" ? Number(field.max) : undefined,
+  };
+}
+
+export default function AdminQuestionnaires() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [serviceType, setServiceType] = useState("website");
+  const [businessSegment, setBusinessSegment] = useState<string>(businessSegments[0]);
+  const [fields, setFields] = useState<EditableField[]>([]);
+
+  const { data: questionnaires = [], isLoading } = useQuery<QuoteQuestionnaire[]>({
+    queryKey: ["/api/admin/questionnaires"],
+    enabled: isAdmin,
+  });
+
+  const current = questionnaires.find(
+    (questionnaire) => questionnaire.serviceType === serviceType && questionnaire.businessSegment === businessSegment,
+  );
+
+  useEffect(() => {
+    setFields(current ? current.fields.map(toEditable) : []);
+  }, [current?.id, current?.updatedAt, serviceType, businessSegment]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PUT", "/api/admin/questionnaires", {
+        serviceType,
+        businessSegment,
+        fields: fields.map(toQuestionField),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/questionnaires"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quote-questionnaire"] });
+      toast({ title: "Questionário guardado" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao guardar questionário",
+        description: getApiErrorMessage(error, "Verifique as perguntas indicadas."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/admin/questionnaires/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/questionnaires"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quote-questionnaire"] });
+      toast({ title: "Questionário removido" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao remover questionário",
+        description: getApiErrorMessage(error, "Por favor, tente novamente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateField = (index: number, changes: Partial<EditableField>) => {
+    setFields(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const next = [...fields];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setFields(next);
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+          <h1 className="font-serif text-2xl font-bold mb-2">Acesso Negado</h1>
+          <Link href="/">
+            <Button>Voltar ao Início</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border p-4">
+        <div className="max-w-7xl mx-auto flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link href="/admin">
+              <Button size="icon" variant="ghost">
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            </Link>
+            <h1 className="font-serif text-xl font-bold">Questionários por Segmento</h1>
+          </div>
+          <div className="flex gap-2">
+            {current && (
+              <Button
+                variant="outline"
+                onClick={() => deleteMutation.mutate(current.id)}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-questionnaire"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remover
+              </Button>
+            )}
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || isLoading}
+              className="bg-gradient-to-r from-primary to-secondary"
+              data-testid="button-save-questionnaire"
+            >
+              {saveMutation.isPending ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8 space-y-6">
+        <p className="text-sm text-muted-foreground">
+          As perguntas aparecem num passo próprio do formulário de orçamento, depois da escolha do segmento. Sem
+          perguntas, o passo não é mostrado.
+        </p>
+
+        <Card className="p-6 bg-card/80 backdrop-blur border-primary/10 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo de serviço</Label>
+              <Select value={serviceType} onValueChange={setServiceType}>
+                <SelectTrigger data-testid="select-questionnaire-service">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {serviceTypes.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Segmento</Label>
+              <Select value={businessSegment} onValueChange={setBusinessSegment}>
+                <SelectTrigger data-testid="select-questionnaire-segment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {businessSegments.map((segment) => (
+                    <SelectItem key={segment} value={segment}>
+                      {segment}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {questionnaires.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {questionnaires.map((questionnaire) => (
+                <Badge
+                  key={questionnaire.id}
+                  variant={questionnaire.id === current?.id ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => {
+                    setServiceType(questionnaire.serviceType);
+                    setBusinessSegment(questionnaire.businessSegment);
+                  }}
+                >
+                  {questionnaire.serviceType === "website" ? "Website" : "Aplicativo"} · {questionnaire.businessSegment} (
+                  {questionnaire.fields.length})
+                </Badge>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {isLoading ? (
+          <Skeleton className="h-48 rounded-xl" />
+        ) : (
+          <>
+            {fields.length === 0 && (
+              <Card className="p-8 text-center">
+                <p className="text-muted-foreground">Sem perguntas para esta combinação.</p>
+              </Card>
+            )}
+
+            {fields.map((field, index) => (
+              <Card
+                key={index}
+                className="p-6 bg-card/80 backdrop-blur border-primary/10 space-y-4"
+                data-testid={`question-field-${index}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <ListChecks className="w-4 h-4 text-primary" />
+                    <h3 className="font-semibold">Pergunta {index + 1}</h3>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => moveField(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Mover para cima"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => moveField(index, 1)}
+                      disabled={index === fields.length - 1}
+                      aria-label="Mover para baixo"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                      aria-label="Remover pergunta"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Pergunta</Label>
+                    <Input
+                      value={field.label}
+                      onChange={(e) => updateField(index, { label: e.target.value })}
+                      maxLength={200}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Tipo</Label>
+                    <Select
+                      value={field.type}
+                      onValueChange={(type) => updateField(index, { type: type as QuestionFieldType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {questionFieldTypes.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {questionFieldTypeLabels[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Identificador</Label>
+                    <Input
+                      value={field.id}
+                      onChange={(e) => updateField(index, { id: e.target.value })}
+                      placeholder={toFieldId(field.label) || "gerado a partir da pergunta"}
+                      maxLength={40}
+                    />
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Ajuda (opcional)</Label>
+                    <Input
+                      value={field.helpText}
+                      onChange={(e) => updateField(index, { helpText: e.target.value })}
+                      maxLength={300}
+                    />
+                  </div>
+                  {(field.type === "select" || field.type === "multi_select") && (
+                    <div className="space-y-2 md:col-span-3">
+                      <Label>Opções (uma por linha)</Label>
+                      <Textarea
+                        value={field.options}
+                        onChange={(e) => updateField(index, { options: e.target.value })}
+                        className="min-h-[100px]"
+                      />
+                    </div>
+                  )}
+                  {field.type === "number" && (
+                    <>
+                      <div className="space-y-2">
+                        <Label>Mínimo</Label>
+                        <Input
+                          type="number"
+                          value={field.min}
+                          onChange={(e) => updateField(index, { min: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Máximo</Label>
+                        <Input
+                          type="number"
+                          value={field.max}
+                          onChange={(e) => updateField(index, { max: e.target.value })}
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`required-${index}`}
+                    checked={field.required}
+                    onCheckedChange={(required) => updateField(index, { required })}
+                  />
+                  <Label htmlFor={`required-${index}`}>Resposta obrigatória</Label>
+                </div>
+              </Card>
+            ))}
+
+            <Button
+              variant="outline"
+              className="border-primary/30"
+              onClick={() => setFields([...fields, newField()])}
+              disabled={fields.length >= maxQuestionFields}
+              data-testid="button-add-question"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar pergunta
+            </Button>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/lib/auth-context";
+import { ArrowLeft, AlertCircle, Clock, Mail, Phone, Send } from "lucide-react";
+
+// Titles of the quote form steps, as shown to the visitor
+const stepLabels: Record<number, string> = {
+  1: "Dados Pessoais",
+  2: "Tipo de Projeto",
+  3: "Segmento",
+  4: "Perguntas",
+  5: "Funcionalidades",
+  6: "Descrição",
+};
+
+// Shape returned by GET /api/admin/quote-drafts/abandoned
+interface AbandonedDraftReport {
+  abandonedAfterHours: number;
+  total: number;
+  byStep: Array<{ step: number; count: number }>;
+  drafts: Array<{
+    id: number;
+    step: number;
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    serviceType: string | null;
+    businessSegment: string | null;
+    resumeSentAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+}
+
+export default function AdminQuoteDrafts() {
+  const { isAdmin, isLoading: authLoading } = useAuth();
+
+  const { data: report, isLoading } = useQuery<AbandonedDraftReport>({
+    queryKey: ["/api/admin/quote-drafts/abandoned"],
+    enabled: isAdmin,
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center">
+          <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+          <h1 className="font-serif text-2xl font-bold mb-2">Acesso Negado</h1>
+          <Link href="/">
+            <Button>Voltar ao Início</Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
+  const withContact = report?.drafts.filter((draft) => draft.email).length ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-30 bg-background/95 backdrop-blur border-b border-border p-4">
+        <div className="max-w-7xl mx-auto flex flex-wrap items-center gap-4">
+          <Link href="/admin">
+            <Button size="icon" variant="ghost">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+          </Link>
+          <h1 className="font-serif text-xl font-bold">Rascunhos Abandonados</h1>
+          <Badge variant="secondary">{report?.total ?? 0} total</Badge>
+          <Badge variant="outline" className="text-primary border-primary">
+            {withContact} com email
+          </Badge>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8 space-y-6">
+        {isLoading || !report ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 rounded-xl" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <Card className="p-6 bg-card/80 backdrop-blur border-primary/10 space-y-4" data-testid="drafts-by-step">
+              <div>
+                <h3 className="font-semibold">Onde os visitantes desistem</h3>
+                <p className="text-sm text-muted-foreground">
+                  Pedidos por enviar sem atividade há mais de {report.abandonedAfterHours} horas, pelo passo em que
+                  ficaram.
+                </p>
+              </div>
+              {report.byStep.map(({ step, count }) => {
+                const share = report.total > 0 ? Math.round((count / report.total) * 100) : 0;
+                return (
+                  <div key={step} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>
+                        {step}. {stepLabels[step]}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {count} ({share}%)
+                      </span>
+                    </div>
+                    <Progress value={share} className="h-2" />
+                  </div>
+                );
+              })}
+            </Card>
+
+            {report.drafts.length === 0 ? (
+              <Card className="p-8 text-center">
+                <p className="text-muted-foreground">Nenhum rascunho abandonado.</p>
+              </Card>
+            ) : (
+              <div className="space-y-2">
+                {report.drafts.map((draft) => (
+                  <Card
+                    key={draft.id}
+                    className="p-4 bg-card/80 backdrop-blur border-primary/10 flex flex-wrap items-center gap-4"
+                    data-testid={`draft-${draft.id}`}
+                  >
+                    <span className="font-medium min-w-[10rem]">{draft.name || "Anónimo"}</span>
+                    <Badge variant="outline">
+                      Passo {draft.step} · {stepLabels[draft.step]}
+                    </Badge>
+                    {draft.serviceType && (
+                      <Badge variant="secondary">{draft.serviceType === "website" ? "Website" : "Aplicativo"}</Badge>
+                    )}
+                    {draft.businessSegment && (
+                      <span className="text-sm text-muted-foreground">{draft.businessSegment}</span>
+                    )}
+                    {draft.email && (
+                      <a
+                        href={`mailto:${draft.email}`}
+                        className="text-sm text-muted-foreground flex items-center gap-1 hover:text-primary"
+                      >
+                        <Mail className="w-3 h-3" />
+                        {draft.email}
+                      </a>
+                    )}
+                    {draft.phone && (
+                      <span className="text-sm text-muted-foreground flex items-center gap-1">
+                        <Phone className="w-3 h-3" />
+                        {draft.phone}
+                      </span>
+                    )}
+                    {draft.resumeSentAt && (
+                      <span
+                        className="text-sm text-muted-foreground flex items-center gap-1"
+                        title="Pediu o link para continuar mais tarde"
+                      >
+                        <Send className="w-3 h-3" />
+                        {new Date(draft.resumeSentAt).toLocaleDateString("pt-BR")}
+                      </span>
+                    )}
+                    <span className="text-sm text-muted-foreground flex items-center gap-1 ml-auto">
+                      <Clock className="w-3 h-3" />
+                      {new Date(draft.updatedAt).toLocaleString("pt-BR")}
+                    </span>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
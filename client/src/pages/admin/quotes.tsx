@@ -1,8 +1,10 @@
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Select,
@@ -13,7 +15,12 @@ import {
 } from "@/components/ui/select";
 import { useAuth } from "@/lib/auth-context";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { QuoteBoard } from "@/components/quote-board";
+import { PaymentScheduleDialog } from "@/components/payment-schedule-dialog";
+import { ProposalDialog } from "@/components/proposal-dialog";
+import { QuoteDetailDialog, getQuoteStatusInfo, isFollowUpOverdue } from "@/components/quote-detail-dialog";
+import { QuoteMergeDialog, type QuoteDuplicateGroup } from "@/components/quote-merge-dialog";
 import {
   ArrowLeft,
   Mail,
@@ -22,38 +29,128 @@ import {
   Smartphone,
   Calendar,
   AlertCircle,
+  BellRing,
+  Columns3,
+  Copy,
+  List,
+  ShieldAlert,
+  ShieldCheck,
+  Trash2,
 } from "lucide-react";
-import type { Quote } from "@shared/schema";
+import {
+  businessSegments,
+  formatCurrency,
+  quoteAdditionalLabels,
+  quoteDuplicateReasons,
+  quoteLostReasons,
+  quoteQuarantineReasons,
+  type Quote,
+  type QuoteView,
+} from "@shared/schema";
+
+interface QuoteFilters {
+  serviceType: string;
+  segment: string;
+  from: string;
+  to: string;
+}
 
-const statusOptions = [
-  { value: "pending", label: "Pendente", color: "bg-yellow-500" },
-  { value: "in_progress", label: "Em Andamento", color: "bg-blue-500" },
-  { value: "completed", label: "Concluído", color: "bg-green-500" },
-  { value: "rejected", label: "Rejeitado", color: "bg-red-500" },
-];
+const emptyFilters: QuoteFilters = { serviceType: "all", segment: "all", from: "", to: "" };
+
+// Dates are compared by day in the admin's timezone
+function matchesFilters(quote: Quote, filters: QuoteFilters): boolean {
+  if (filters.serviceType !== "all" && quote.serviceType !== filters.serviceType) return false;
+  if (filters.segment !== "all" && quote.businessSegment !== filters.segment) return false;
+  const created = new Date(quote.createdAt!).getTime();
+  if (filters.from && created < new Date(`${filters.from}T00:00:00`).getTime()) return false;
+  if (filters.to && created > new Date(`${filters.to}T23:59:59`).getTime()) return false;
+  return true;
+}
 
 export default function AdminQuotes() {
-  const { isAdmin, isLoading: authLoading } = useAuth();
+  const { user, isAdmin, isLoading: authLoading, refreshUser } = useAuth();
   const { toast } = useToast();
+  const [view, setView] = useState<QuoteView>("list");
+  const [filters, setFilters] = useState<QuoteFilters>(emptyFilters);
+  const [showQuarantine, setShowQuarantine] = useState(false);
 
   const { data: quotes = [], isLoading } = useQuery<Quote[]>({
     queryKey: ["/api/quotes"],
     enabled: isAdmin,
   });
 
-  const updateStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      return apiRequest("PATCH", `/api/quotes/${id}/status`, { status });
+  const { data: duplicateGroups = [] } = useQuery<QuoteDuplicateGroup[]>({
+    queryKey: ["/api/quotes/duplicates"],
+    enabled: isAdmin,
+  });
+
+  useEffect(() => {
+    if (user?.quotesView === "board" || user?.quotesView === "list") setView(user.quotesView);
+  }, [user?.quotesView]);
+
+  // Remembered on the admin's account, so it follows them across devices
+  const viewMutation = useMutation({
+    mutationFn: async (quotesView: QuoteView) => {
+      return apiRequest("PATCH", "/api/admin/preferences", { quotesView });
+    },
+    onMutate: (quotesView) => setView(quotesView),
+    onSuccess: () => refreshUser(),
+    onError: (error) => {
+      toast({
+        title: "Erro ao guardar preferência",
+        description: getApiErrorMessage(error, "Por favor, tente novamente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Quarantined quotes are reviewed apart and kept off the pipeline
+  const releaseMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/quotes/${id}/release`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({ title: "Orçamento libertado", description: "A notificação foi enviada." });
+    },
+    onError: (error) => {
       toast({
-        title: "Status atualizado",
-        description: "O status do orçamento foi atualizado com sucesso.",
+        title: "Erro ao libertar orçamento",
+        description: getApiErrorMessage(error, "Por favor, tente novamente."),
+        variant: "destructive",
       });
     },
   });
 
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("DELETE", `/api/quotes/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+      toast({ title: "Orçamento apagado" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao apagar orçamento",
+        description: getApiErrorMessage(error, "Por favor, tente novamente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Merged duplicates are only reachable through the lead they were folded into
+  const leads = quotes.filter((quote) => !quote.mergedIntoId);
+  const quarantinedCount = leads.filter((quote) => quote.quarantined).length;
+  const shownQuotes = leads.filter((quote) => quote.quarantined === showQuarantine);
+  const filteredQuotes = shownQuotes.filter((quote) => matchesFilters(quote, filters));
+  const showBoard = view === "board" && !showQuarantine;
+  const isFiltered =
+    filters.serviceType !== emptyFilters.serviceType ||
+    filters.segment !== emptyFilters.segment ||
+    !!filters.from ||
+    !!filters.to;
+
   if (authLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -88,26 +185,104 @@ export default function AdminQuotes() {
               <ArrowLeft className="w-5 h-5" />
             </Button>
           </Link>
-          <h1 className="font-serif text-xl font-bold">Orçamentos</h1>
-          <Badge variant="secondary">{quotes.length} total</Badge>
+          <h1 className="font-serif text-xl font-bold">{showQuarantine ? "Quarentena" : "Orçamentos"}</h1>
+          <Badge variant="secondary">
+            {isFiltered ? `${filteredQuotes.length} de ${shownQuotes.length}` : `${shownQuotes.length} total`}
+          </Badge>
+          <div className="ml-auto flex gap-1">
+            <Button
+              variant={showQuarantine ? "secondary" : "ghost"}
+              onClick={() => setShowQuarantine(!showQuarantine)}
+              data-testid="button-quarantine"
+            >
+              <ShieldAlert className="w-5 h-5 mr-2" />
+              Quarentena ({quarantinedCount})
+            </Button>
+            <Button
+              size="icon"
+              variant={view === "list" ? "secondary" : "ghost"}
+              onClick={() => viewMutation.mutate("list")}
+              aria-label="Lista"
+              data-testid="button-view-list"
+            >
+              <List className="w-5 h-5" />
+            </Button>
+            <Button
+              size="icon"
+              variant={view === "board" ? "secondary" : "ghost"}
+              onClick={() => viewMutation.mutate("board")}
+              aria-label="Quadro"
+              data-testid="button-view-board"
+            >
+              <Columns3 className="w-5 h-5" />
+            </Button>
+          </div>
         </div>
       </header>
 
-      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+      <main className={`${showBoard ? "max-w-[100rem]" : "max-w-7xl"} mx-auto p-4 sm:p-6 lg:p-8 space-y-4`}>
+        <div className="flex flex-wrap items-end gap-3" data-testid="quote-filters">
+          <Select value={filters.serviceType} onValueChange={(serviceType) => setFilters({ ...filters, serviceType })}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os tipos</SelectItem>
+              <SelectItem value="website">Website</SelectItem>
+              <SelectItem value="app">Aplicativo</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={filters.segment} onValueChange={(segment) => setFilters({ ...filters, segment })}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os segmentos</SelectItem>
+              {businessSegments.map((segment) => (
+                <SelectItem key={segment} value={segment}>
+                  {segment}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className="w-40"
+            aria-label="Desde"
+          />
+          <Input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className="w-40"
+            aria-label="Até"
+          />
+          {isFiltered && (
+            <Button variant="ghost" size="sm" onClick={() => setFilters(emptyFilters)}>
+              Limpar filtros
+            </Button>
+          )}
+        </div>
+
         {isLoading ? (
           <div className="space-y-4">
             {[1, 2, 3].map((i) => (
               <Skeleton key={i} className="h-48 rounded-xl" />
             ))}
           </div>
-        ) : quotes.length === 0 ? (
+        ) : showBoard ? (
+          <QuoteBoard quotes={filteredQuotes} />
+        ) : filteredQuotes.length === 0 ? (
           <Card className="p-8 text-center">
             <p className="text-muted-foreground">Nenhum orçamento encontrado.</p>
           </Card>
         ) : (
           <div className="space-y-4">
-            {quotes.map((quote) => {
-              const statusInfo = statusOptions.find((s) => s.value === quote.status);
+            {filteredQuotes.map((quote) => {
+              const statusInfo = getQuoteStatusInfo(quote.status);
+              const duplicateGroup = duplicateGroups.find((group) => group.quoteIds.includes(quote.id));
               return (
                 <Card
                   key={quote.id}
@@ -120,8 +295,10 @@ export default function AdminQuotes() {
                         <h3 className="font-semibold text-lg">
                           {quote.firstName} {quote.lastName}
                         </h3>
-                        <Badge className={statusInfo?.color}>
-                          {statusInfo?.label}
+                        <Badge className={statusInfo.color}>
+                          {statusInfo.label}
+                          {quote.status === "lost" && quote.lostReason &&
+                            ` · ${quoteLostReasons[quote.lostReason] ?? quote.lostReason}`}
                         </Badge>
                         <Badge variant="outline">
                           {quote.serviceType === "website" ? (
@@ -136,6 +313,33 @@ export default function AdminQuotes() {
                             </>
                           )}
                         </Badge>
+                        {quote.quarantined &&
+                          (quote.quarantineReasons ?? []).map((reason) => (
+                            <Badge key={reason} variant="destructive">
+                              {quoteQuarantineReasons[reason] ?? reason}
+                            </Badge>
+                          ))}
+                        {duplicateGroup && (
+                          <Badge
+                            variant="outline"
+                            className="text-yellow-500 border-yellow-500"
+                            data-testid={`duplicate-${quote.id}`}
+                          >
+                            <Copy className="w-3 h-3 mr-1" />
+                            Possível duplicado ·{" "}
+                            {duplicateGroup.reasons.map((reason) => quoteDuplicateReasons[reason] ?? reason).join(", ")}
+                          </Badge>
+                        )}
+                        {quote.price ? (
+                          <Badge variant="outline">{formatCurrency(quote.price, quote.currency)}</Badge>
+                        ) : (
+                          quote.estimateMin &&
+                          quote.estimateMax && (
+                            <Badge variant="secondary" title="Estimativa automática">
+                              {formatCurrency(quote.estimateMin)} – {formatCurrency(quote.estimateMax)}
+                            </Badge>
+                          )
+                        )}
                       </div>
 
                       <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
@@ -157,6 +361,15 @@ export default function AdminQuotes() {
                           <Calendar className="w-4 h-4" />
                           {new Date(quote.createdAt!).toLocaleDateString("pt-BR")}
                         </span>
+                        {quote.followUpAt && (
+                          <span
+                            className={`flex items-center gap-1 ${isFollowUpOverdue(quote) ? "text-destructive font-medium" : ""}`}
+                            data-testid={`follow-up-${quote.id}`}
+                          >
+                            <BellRing className="w-4 h-4" />
+                            Follow-up {new Date(quote.followUpAt).toLocaleDateString("pt-BR")}
+                          </span>
+                        )}
                       </div>
 
                       <div className="space-y-1">
@@ -167,7 +380,7 @@ export default function AdminQuotes() {
                         {quote.additionals && quote.additionals.length > 0 && (
                           <p className="text-sm">
                             <span className="text-muted-foreground">Extras:</span>{" "}
-                            {quote.additionals.join(", ")}
+                            {quote.additionals.map((a) => quoteAdditionalLabels[a] ?? a).join(", ")}
                           </p>
                         )}
                         {quote.projectDescription && (
@@ -180,23 +393,37 @@ export default function AdminQuotes() {
                     </div>
 
                     <div className="flex flex-row lg:flex-col gap-2">
-                      <Select
-                        value={quote.status}
-                        onValueChange={(value) =>
-                          updateStatusMutation.mutate({ id: quote.id, status: value })
-                        }
-                      >
-                        <SelectTrigger className="w-[160px]">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {statusOptions.map((option) => (
-                            <SelectItem key={option.value} value={option.value}>
-                              {option.label}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <QuoteDetailDialog quote={quote} />
+                      {quote.quarantined ? (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => releaseMutation.mutate(quote.id)}
+                            disabled={releaseMutation.isPending}
+                            data-testid={`button-release-${quote.id}`}
+                          >
+                            <ShieldCheck className="w-4 h-4 mr-2" />
+                            Não é spam
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => deleteMutation.mutate(quote.id)}
+                            disabled={deleteMutation.isPending || quote.status !== "new"}
+                            data-testid={`button-delete-quote-${quote.id}`}
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Apagar
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <ProposalDialog quote={quote} />
+                          <PaymentScheduleDialog quote={quote} />
+                          {duplicateGroup && <QuoteMergeDialog quote={quote} group={duplicateGroup} quotes={quotes} />}
+                        </>
+                      )}
 
                       <Button
                         variant="outline"
@@ -1,22 +1,31 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/lib/auth-context";
-import { ArrowLeft, Calendar, AlertCircle, CreditCard, Download, FileText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ArrowLeft, Calendar, AlertCircle, CreditCard, Download, FileText, Mail, RefreshCw } from "lucide-react";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
-import type { Subscription, User } from "@shared/schema";
+import { formatCurrency, type DunningEvent, type Subscription, type User } from "@shared/schema";
 
 type SubscriptionWithUser = Subscription & { user?: User };
 
+interface DunningOverview {
+  reminderDays: number[];
+  graceDays: number;
+  events: DunningEvent[];
+}
+
 const statusColors: Record<string, string> = {
   active: "bg-green-500",
   past_due: "bg-yellow-500",
   canceled: "bg-red-500",
   unpaid: "bg-red-500",
+  suspended: "bg-gray-500",
 };
 
 const statusLabels: Record<string, string> = {
@@ -24,6 +33,14 @@ const statusLabels: Record<string, string> = {
   past_due: "Atrasada",
   canceled: "Cancelada",
   unpaid: "Não Paga",
+  suspended: "Suspensa",
+};
+
+const dunningActionLabels: Record<string, string> = {
+  admin_notified: "Administrador avisado",
+  reminder: "Lembrete",
+  suspended: "Suspensa",
+  resolved: "Regularizada",
 };
 
 const planLabels: Record<string, string> = {
@@ -41,6 +58,40 @@ export default function AdminSubscriptions() {
     enabled: isAdmin,
   });
 
+  const { toast } = useToast();
+
+  const { data: dunning } = useQuery<DunningOverview>({
+    queryKey: ["/api/admin/dunning"],
+    enabled: isAdmin,
+  });
+
+  const runDunningMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/dunning/run");
+      return response.json();
+    },
+    onSuccess: (result: { subscriptions: number; actions: number; failures: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/subscriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/dunning"] });
+      toast({
+        title: "Cobrança processada",
+        description: `${result.subscriptions} em atraso · ${result.actions} ações · ${result.failures} falhas`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao processar cobrança",
+        description: getApiErrorMessage(error, "Tente novamente mais tarde."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getDunningEvents = (subscriptionId: number) =>
+    (dunning?.events ?? [])
+      .filter((event) => event.subscriptionId === subscriptionId)
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+
   const exportToPDF = (subscription: SubscriptionWithUser) => {
     const doc = new jsPDF();
     
@@ -54,7 +105,7 @@ export default function AdminSubscriptions() {
       ["Cliente", subscription.user?.displayName || "N/A"],
       ["Email", subscription.user?.email || "N/A"],
       ["Plano", planLabels[subscription.planType] || subscription.planType],
-      ["Valor Mensal", `€${subscription.amount}`],
+      ["Valor", `${formatCurrency(subscription.amount, subscription.currency)}/${subscription.billingInterval === "year" ? "ano" : "mês"}`],
       ["Status", statusLabels[subscription.status] || subscription.status],
       ["Início do Período", subscription.currentPeriodStart 
         ? new Date(subscription.currentPeriodStart).toLocaleDateString("pt-BR") 
@@ -92,7 +143,7 @@ export default function AdminSubscriptions() {
       sub.user?.displayName || "N/A",
       sub.user?.email || "N/A",
       planLabels[sub.planType] || sub.planType,
-      `€${sub.amount}`,
+      formatCurrency(sub.amount, sub.currency),
       statusLabels[sub.status] || sub.status,
       sub.createdAt ? new Date(sub.createdAt).toLocaleDateString("pt-BR") : "N/A",
     ]);
@@ -130,6 +181,7 @@ export default function AdminSubscriptions() {
   }
 
   const activeCount = subscriptions.filter((s) => s.status === "active").length;
+  const pastDueCount = subscriptions.filter((s) => s.pastDueSince && s.status !== "canceled").length;
 
   return (
     <div className="min-h-screen bg-background">
@@ -144,17 +196,35 @@ export default function AdminSubscriptions() {
             <h1 className="font-serif text-xl font-bold">Assinaturas</h1>
             <Badge variant="secondary">{subscriptions.length} total</Badge>
             <Badge className="bg-green-500">{activeCount} ativas</Badge>
+            {pastDueCount > 0 && <Badge className="bg-yellow-500">{pastDueCount} em atraso</Badge>}
           </div>
-          {subscriptions.length > 0 && (
-            <Button onClick={exportAllToPDF} variant="outline" data-testid="button-export-all">
-              <Download className="w-4 h-4 mr-2" />
-              Exportar Todos
+          <div className="flex items-center gap-2 flex-wrap">
+            <Button
+              onClick={() => runDunningMutation.mutate()}
+              variant="outline"
+              disabled={runDunningMutation.isPending}
+              data-testid="button-run-dunning"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${runDunningMutation.isPending ? "animate-spin" : ""}`} />
+              Processar Atrasos
             </Button>
-          )}
+            {subscriptions.length > 0 && (
+              <Button onClick={exportAllToPDF} variant="outline" data-testid="button-export-all">
+                <Download className="w-4 h-4 mr-2" />
+                Exportar Todos
+              </Button>
+            )}
+          </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        {dunning && (
+          <p className="text-sm text-muted-foreground mb-4">
+            Lembretes ao cliente nos dias {dunning.reminderDays.join(", ")} de atraso; suspensão ao fim de{" "}
+            {dunning.graceDays} dias.
+          </p>
+        )}
         {isLoading ? (
           <div className="space-y-4">
             {[1, 2, 3].map((i) => (
@@ -192,9 +262,14 @@ export default function AdminSubscriptions() {
                       <Badge className={statusColors[subscription.status]}>
                         {statusLabels[subscription.status]}
                       </Badge>
+                      {subscription.pastDueSince && (
+                        <span className="text-xs text-muted-foreground">
+                          em atraso desde {new Date(subscription.pastDueSince).toLocaleDateString("pt-BR")}
+                        </span>
+                      )}
                     </div>
                     <p className="text-xl font-bold text-gradient-primary mb-2">
-                      €{subscription.amount}/mês
+                      {formatCurrency(subscription.amount, subscription.currency)}/{subscription.billingInterval === "year" ? "ano" : "mês"}
                     </p>
                     <div className="space-y-1 text-sm text-muted-foreground mb-3">
                       <p><strong>Cliente:</strong> {subscription.user?.displayName || "N/A"}</p>
@@ -214,6 +289,21 @@ export default function AdminSubscriptions() {
                           : "N/A"}
                       </span>
                     </div>
+                    {getDunningEvents(subscription.id).length > 0 && (
+                      <div className="mt-4 space-y-1 text-xs text-muted-foreground border-l-2 border-primary/20 pl-3">
+                        {getDunningEvents(subscription.id).map((event) => (
+                          <p key={event.id} className="flex items-center gap-1" data-testid={`dunning-event-${event.id}`}>
+                            <Mail className="w-3 h-3" />
+                            {new Date(event.createdAt!).toLocaleString("pt-BR")} ·{" "}
+                            <strong>
+                              {dunningActionLabels[event.action] || event.action}
+                              {event.reminderDay !== null && ` (dia ${event.reminderDay})`}
+                            </strong>
+                            {event.detail && ` · ${event.detail}`}
+                          </p>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="text-sm text-muted-foreground">
                     <p>ID: {subscription.stripeSubscriptionId?.slice(0, 20)}...</p>
@@ -1,10 +1,13 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Navbar } from "@/components/navbar";
 import { Footer } from "@/components/footer";
 import { Chatbot } from "@/components/chatbot";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
 import { useAuth } from "@/lib/auth-context";
 import { useToast } from "@/hooks/use-toast";
 import { ParticlesBackground } from "@/components/particles-background";
@@ -18,42 +21,21 @@ import {
   RefreshCw,
   Star,
   Loader2,
+  TicketPercent,
+  X,
 } from "lucide-react";
+import {
+  calculateCouponDiscount,
+  formatCurrency,
+  getAnnualSavings,
+  getCurrencySymbol,
+  getPlanPrice,
+  type BillingInterval,
+  type Coupon,
+  type Plan,
+} from "@shared/schema";
 
-const plans = [
-  {
-    id: "site",
-    title: "Manutenção Site",
-    price: "15",
-    period: "/mês",
-    icon: Globe,
-    popular: false,
-    features: [
-      "Atualizações de segurança",
-      "Correção de bugs",
-      "Backup semanal",
-      "Suporte por email e WhatsApp",
-      "Pequenas alterações de conteúdo",
-      "Monitoramento de uptime",
-    ],
-  },
-  {
-    id: "app",
-    title: "Manutenção App",
-    price: "20",
-    period: "/mês",
-    icon: Smartphone,
-    popular: true,
-    features: [
-      "Tudo do plano Site",
-      "Atualizações nas lojas (App Store / Play Store)",
-      "Monitoramento de performance",
-      "Suporte prioritário",
-      "Correções urgentes em 24h",
-      "Relatórios mensais de uso",
-    ],
-  },
-];
+type CouponPreview = Pick<Coupon, "code" | "discountType" | "discountValue">;
 
 const benefits = [
   {
@@ -82,6 +64,63 @@ export default function MaintenancePage() {
   const { isAuthenticated, login } = useAuth();
   const { toast } = useToast();
   const [loadingPlan, setLoadingPlan] = useState<string | null>(null);
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("month");
+  const [couponCode, setCouponCode] = useState("");
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  // Discount per plan slug; plans the coupon does not cover are left out
+  const [couponPreviews, setCouponPreviews] = useState<Record<string, CouponPreview>>({});
+
+  const { data: plans = [], isLoading: plansLoading } = useQuery<Plan[]>({
+    queryKey: ["/api/plans"],
+  });
+
+  const hasAnnualPlans = plans.some((plan) => plan.annualPrice);
+  const bestAnnualSavings = Math.max(0, ...plans.map(getAnnualSavings));
+
+  const validateCoupon = async (planType: string): Promise<CouponPreview | { error: string }> => {
+    const response = await fetch("/api/coupons/validate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ couponCode, planType }),
+    });
+    const data = await response.json();
+    return response.ok ? data : { error: data.error || "Cupão inválido" };
+  };
+
+  const handleApplyCoupon = async () => {
+    if (!couponCode.trim()) return;
+    setIsApplyingCoupon(true);
+
+    try {
+      const results = await Promise.all(plans.map(async (plan) => [plan.slug, await validateCoupon(plan.slug)] as const));
+      const previews: Record<string, CouponPreview> = {};
+      for (const [slug, result] of results) {
+        if (!("error" in result)) previews[slug] = result;
+      }
+
+      if (Object.keys(previews).length === 0) {
+        const firstError = results.find(([, result]) => "error" in result)?.[1];
+        throw new Error(firstError && "error" in firstError ? firstError.error : "Cupão inválido");
+      }
+
+      setCouponPreviews(previews);
+      toast({ title: "Cupão aplicado!", description: "O desconto é aplicado ao primeiro pagamento." });
+    } catch (error) {
+      setCouponPreviews({});
+      toast({
+        title: "Cupão inválido",
+        description: error instanceof Error ? error.message : "Verifique o código e tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  const clearCoupon = () => {
+    setCouponCode("");
+    setCouponPreviews({});
+  };
 
   const handleSubscribe = async (planId: string) => {
     if (!isAuthenticated) {
@@ -100,7 +139,11 @@ export default function MaintenancePage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
-        body: JSON.stringify({ planType: planId }),
+        body: JSON.stringify({
+          planType: planId,
+          billingInterval,
+          couponCode: couponPreviews[planId]?.code,
+        }),
       });
       
       const data = await response.json();
@@ -136,7 +179,7 @@ export default function MaintenancePage() {
         <div className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="text-center mb-16">
             <Badge className="mb-4" variant="outline">
-              <Star className="w-3 h-3 mr-1" /> Planos Mensais
+              <Star className="w-3 h-3 mr-1" /> {hasAnnualPlans ? "Planos Mensais e Anuais" : "Planos Mensais"}
             </Badge>
             <h1 className="font-serif text-4xl sm:text-5xl font-bold mb-4">
               <span className="text-foreground">Planos de </span>
@@ -147,65 +190,157 @@ export default function MaintenancePage() {
             </p>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-8 max-w-4xl mx-auto mb-24">
-            {plans.map((plan) => (
-              <Card
-                key={plan.id}
-                className={`relative p-8 bg-card/80 backdrop-blur border-primary/20 ${
-                  plan.popular ? "ring-2 ring-primary" : ""
-                }`}
-                data-testid={`plan-${plan.id}`}
-              >
-                {plan.popular && (
-                  <div className="absolute -top-3 left-1/2 -translate-x-1/2">
-                    <Badge className="bg-gradient-to-r from-primary to-secondary text-primary-foreground">
-                      Mais Popular
-                    </Badge>
-                  </div>
-                )}
-
-                <div className="text-center mb-6">
-                  <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-primary/20 to-secondary/20 flex items-center justify-center mx-auto mb-4">
-                    <plan.icon className="w-8 h-8 text-primary" />
-                  </div>
-                  <h3 className="font-serif text-2xl font-bold mb-2">{plan.title}</h3>
-                  <div className="flex items-baseline justify-center gap-1">
-                    <span className="text-4xl font-bold text-gradient-primary">€{plan.price}</span>
-                    <span className="text-muted-foreground">{plan.period}</span>
-                  </div>
-                </div>
-
-                <ul className="space-y-3 mb-8">
-                  {plan.features.map((feature, index) => (
-                    <li key={index} className="flex items-start gap-3">
-                      <Check className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
-                      <span className="text-sm text-muted-foreground">{feature}</span>
-                    </li>
-                  ))}
-                </ul>
-
+          {hasAnnualPlans && (
+            <div className="flex justify-center mb-6">
+              <div className="inline-flex rounded-full border border-border p-1 bg-card/80 backdrop-blur">
                 <Button
-                  className={`w-full ${
-                    plan.popular
-                      ? "bg-gradient-to-r from-primary to-secondary"
-                      : ""
-                  }`}
-                  variant={plan.popular ? "default" : "outline"}
-                  onClick={() => handleSubscribe(plan.id)}
-                  disabled={loadingPlan !== null}
-                  data-testid={`button-subscribe-${plan.id}`}
+                  size="sm"
+                  variant={billingInterval === "month" ? "default" : "ghost"}
+                  className="rounded-full"
+                  onClick={() => setBillingInterval("month")}
+                  data-testid="button-interval-month"
+                >
+                  Mensal
+                </Button>
+                <Button
+                  size="sm"
+                  variant={billingInterval === "year" ? "default" : "ghost"}
+                  className="rounded-full"
+                  onClick={() => setBillingInterval("year")}
+                  data-testid="button-interval-year"
                 >
-                  {loadingPlan === plan.id ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Processando...
-                    </>
-                  ) : (
-                    "Assinar Plano"
+                  Anual
+                  {bestAnnualSavings > 0 && (
+                    <Badge variant="secondary" className="ml-2">até -{bestAnnualSavings}%</Badge>
                   )}
                 </Button>
-              </Card>
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 max-w-sm mx-auto mb-10">
+            <div className="relative flex-1">
+              <TicketPercent className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={couponCode}
+                onChange={(e) => {
+                  setCouponCode(e.target.value.toUpperCase());
+                  setCouponPreviews({});
+                }}
+                onKeyDown={(e) => e.key === "Enter" && handleApplyCoupon()}
+                placeholder="Cupão de desconto"
+                className="pl-9 font-mono"
+                maxLength={32}
+                data-testid="input-coupon"
+              />
+            </div>
+            {Object.keys(couponPreviews).length > 0 ? (
+              <Button variant="outline" size="icon" onClick={clearCoupon} data-testid="button-clear-coupon">
+                <X className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={handleApplyCoupon}
+                disabled={!couponCode.trim() || isApplyingCoupon || plans.length === 0}
+                data-testid="button-apply-coupon"
+              >
+                {isApplyingCoupon ? <Loader2 className="w-4 h-4 animate-spin" /> : "Aplicar"}
+              </Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8 max-w-4xl mx-auto mb-24">
+            {plansLoading && [1, 2].map((i) => (
+              <Skeleton key={i} className="h-[480px] rounded-xl" />
             ))}
+            {plans.map((plan) => {
+              const PlanIcon = plan.serviceType === "app" ? Smartphone : Globe;
+              const couponPreview = couponPreviews[plan.slug];
+              const price = getPlanPrice(plan, billingInterval);
+              const annualSavings = getAnnualSavings(plan);
+              return (
+                <Card
+                  key={plan.id}
+                  className={`relative p-8 bg-card/80 backdrop-blur border-primary/20 ${
+                    plan.isPopular ? "ring-2 ring-primary" : ""
+                  }`}
+                  data-testid={`plan-${plan.slug}`}
+                >
+                  {plan.isPopular && (
+                    <div className="absolute -top-3 left-1/2 -translate-x-1/2">
+                      <Badge className="bg-gradient-to-r from-primary to-secondary text-primary-foreground">
+                        Mais Popular
+                      </Badge>
+                    </div>
+                  )}
+
+                  <div className="text-center mb-6">
+                    <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-primary/20 to-secondary/20 flex items-center justify-center mx-auto mb-4">
+                      <PlanIcon className="w-8 h-8 text-primary" />
+                    </div>
+                    <h3 className="font-serif text-2xl font-bold mb-2">{plan.name}</h3>
+                    {price === null ? (
+                      <div className="flex items-baseline justify-center gap-1">
+                        <span className="text-4xl font-bold text-gradient-primary">{getCurrencySymbol(plan.currency)}{Number(plan.monthlyPrice)}</span>
+                        <span className="text-muted-foreground">/mês</span>
+                      </div>
+                    ) : (
+                      <div className="flex items-baseline justify-center gap-1">
+                        <span className="text-4xl font-bold text-gradient-primary">{getCurrencySymbol(plan.currency)}{price}</span>
+                        <span className="text-muted-foreground">{billingInterval === "year" ? "/ano" : "/mês"}</span>
+                      </div>
+                    )}
+                    {price === null ? (
+                      <p className="text-sm text-muted-foreground mt-1">Disponível apenas com pagamento mensal</p>
+                    ) : billingInterval === "year" && annualSavings > 0 ? (
+                      <p className="text-sm text-green-500 mt-1">
+                        Poupa {annualSavings}% face ao pagamento mensal
+                      </p>
+                    ) : null}
+                    {couponPreview && price !== null && (
+                      <p className="text-sm text-green-500 mt-1">
+                        {billingInterval === "year" ? "1.º ano" : "1.º mês"}:{" "}
+                        {formatCurrency(price - calculateCouponDiscount(couponPreview, price), plan.currency)} com {couponPreview.code}
+                      </p>
+                    )}
+                    {plan.description && (
+                      <p className="text-sm text-muted-foreground mt-2">{plan.description}</p>
+                    )}
+                  </div>
+
+                  <ul className="space-y-3 mb-8">
+                    {(plan.features || []).map((feature, index) => (
+                      <li key={index} className="flex items-start gap-3">
+                        <Check className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
+                        <span className="text-sm text-muted-foreground">{feature}</span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <Button
+                    className={`w-full ${
+                      plan.isPopular
+                        ? "bg-gradient-to-r from-primary to-secondary"
+                        : ""
+                    }`}
+                    variant={plan.isPopular ? "default" : "outline"}
+                    onClick={() => handleSubscribe(plan.slug)}
+                    disabled={loadingPlan !== null || price === null}
+                    data-testid={`button-subscribe-${plan.slug}`}
+                  >
+                    {loadingPlan === plan.slug ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Processando...
+                      </>
+                    ) : (
+                      "Assinar Plano"
+                    )}
+                  </Button>
+                </Card>
+              );
+            })}
           </div>
 
           <div className="text-center mb-12">
@@ -7,26 +7,71 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { ParticlesBackground } from "@/components/particles-background";
-import { CreditCard, Lock, ShieldCheck, Check } from "lucide-react";
+import { CreditCard, Lock, ShieldCheck, Check, Landmark, Smartphone, Clock, TicketPercent, X } from "lucide-react";
+import { calculateCouponDiscount, formatCurrency, type Coupon, type PaymentMethod } from "@shared/schema";
 
 interface PaymentCodeInfo {
   id: number;
   code: string;
   amount: string;
+  amountType: "fixed" | "range";
+  minAmount: string | null;
+  maxAmount: string | null;
+  currency: string;
   description: string | null;
+  expiresAt: string | null;
+  requiresEmail: boolean;
+}
+
+interface MultibancoDetails {
+  entity: string;
+  reference: string;
+  amount: string;
+  expiresAt: string | null;
+  voucherUrl: string | null;
+}
+
+type AppliedCoupon = Pick<Coupon, "code" | "discountType" | "discountValue">;
+
+const paymentMethodOptions: { value: PaymentMethod; label: string; description: string; icon: typeof CreditCard }[] = [
+  { value: "card", label: "Cartão", description: "Crédito ou débito", icon: CreditCard },
+  { value: "multibanco", label: "Multibanco", description: "Referência para ATM ou homebanking", icon: Landmark },
+  { value: "mb_way", label: "MB WAY", description: "Confirmação na app", icon: Smartphone },
+];
+
+// Multibanco references are shown in groups of three digits, as on an ATM
+function formatReference(reference: string) {
+  return reference.replace(/(\d{3})(?=\d)/g, "$1 ");
 }
 
 export default function PaymentCodePage() {
-  const [step, setStep] = useState<"code" | "details" | "success">("code");
-  const [code, setCode] = useState("");
+  const [step, setStep] = useState<"code" | "details" | "reference" | "success">("code");
+  // Links from the profile (quote milestones) arrive with ?code=
+  const [code, setCode] = useState(() =>
+    (new URLSearchParams(window.location.search).get("code") ?? "").replace(/[^0-9a-z]/gi, "").toUpperCase().slice(0, 12),
+  );
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
+  const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("card");
+  const [multibanco, setMultibanco] = useState<MultibancoDetails | null>(null);
   const [codeInfo, setCodeInfo] = useState<PaymentCodeInfo | null>(null);
+  const [couponCode, setCouponCode] = useState("");
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null);
   const { toast } = useToast();
 
+  // Recomputed as the client changes a range amount; the server checks it again
+  const baseAmount = Number(amount || codeInfo?.amount || 0);
+  const discount = coupon ? calculateCouponDiscount(coupon, baseAmount) : 0;
+  const totalAmount = (baseAmount - discount).toFixed(2);
+  const currency = codeInfo?.currency ?? "EUR";
+  // Multibanco and MB WAY only take EUR
+  const availableMethods = paymentMethodOptions.filter((option) => currency === "EUR" || option.value === "card");
+
   const verifyCodeMutation = useMutation({
     mutationFn: async (code: string) => {
       const response = await apiRequest("POST", "/api/payment-codes/verify", {
@@ -36,19 +81,51 @@ export default function PaymentCodePage() {
     },
     onSuccess: (data: PaymentCodeInfo) => {
       setCodeInfo(data);
+      setAmount(data.amountType === "range" ? data.minAmount ?? data.amount : data.amount);
+      setPaymentMethod("card");
       setStep("details");
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Código inválido",
-        description: "Verifique o código e tente novamente.",
+        description: getApiErrorMessage(error, "Verifique o código e tente novamente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyCouponMutation = useMutation({
+    mutationFn: async (couponCode: string) => {
+      const response = await apiRequest("POST", "/api/coupons/validate", {
+        couponCode,
+        paymentCode: code,
+        amount,
+      });
+      return response.json();
+    },
+    onSuccess: (data: AppliedCoupon) => {
+      setCoupon(data);
+      toast({ title: "Cupão aplicado!" });
+    },
+    onError: (error) => {
+      setCoupon(null);
+      toast({
+        title: "Cupão inválido",
+        description: getApiErrorMessage(error, "Verifique o cupão e tente novamente."),
         variant: "destructive",
       });
     },
   });
 
   const processPaymentMutation = useMutation({
-    mutationFn: async (data: { code: string; name: string; email: string }) => {
+    mutationFn: async (data: {
+      code: string;
+      name: string;
+      email: string;
+      amount: string;
+      paymentMethod: PaymentMethod;
+      couponCode?: string;
+    }) => {
       const response = await apiRequest(
         "POST",
         "/api/payment-codes/process",
@@ -56,27 +133,30 @@ export default function PaymentCodePage() {
       );
       return response.json();
     },
-    onSuccess: (data: { checkoutUrl?: string }) => {
+    onSuccess: (data: { checkoutUrl?: string; multibanco?: MultibancoDetails }) => {
       if (data.checkoutUrl) {
         window.location.href = data.checkoutUrl;
+      } else if (data.multibanco) {
+        setMultibanco(data.multibanco);
+        setStep("reference");
       } else {
         setStep("success");
       }
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Erro ao processar pagamento",
-        description: "Tente novamente mais tarde.",
+        description: getApiErrorMessage(error, "Tente novamente mais tarde."),
         variant: "destructive",
       });
     },
   });
 
   const handleVerifyCode = () => {
-    if (code.length !== 6) {
+    if (code.length < 6) {
       toast({
         title: "Código inválido",
-        description: "O código deve ter 6 dígitos.",
+        description: "O código deve ter pelo menos 6 caracteres.",
         variant: "destructive",
       });
       return;
@@ -101,7 +181,18 @@ export default function PaymentCodePage() {
       });
       return;
     }
-    processPaymentMutation.mutate({ code, name, email });
+    if (codeInfo?.amountType === "range") {
+      const value = Number(amount);
+      if (!amount || value < Number(codeInfo.minAmount) || value > Number(codeInfo.maxAmount)) {
+        toast({
+          title: "Valor inválido",
+          description: `O valor deve estar entre ${formatCurrency(codeInfo.minAmount ?? 0, currency)} e ${formatCurrency(codeInfo.maxAmount ?? 0, currency)}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    processPaymentMutation.mutate({ code, name, email, amount, paymentMethod, couponCode: coupon?.code });
   };
 
   return (
@@ -126,7 +217,7 @@ export default function PaymentCodePage() {
                   Pagamento por Código
                 </h1>
                 <p className="text-muted-foreground">
-                  Insira o código de 6 dígitos fornecido pela BragaWork.
+                  Insira o código fornecido pela BragaWork.
                 </p>
               </div>
 
@@ -138,10 +229,10 @@ export default function PaymentCodePage() {
                     placeholder="000000"
                     value={code}
                     onChange={(e) =>
-                      setCode(e.target.value.replace(/\D/g, "").slice(0, 6))
+                      setCode(e.target.value.replace(/[^0-9a-z]/gi, "").toUpperCase().slice(0, 12))
                     }
-                    className="text-center text-2xl tracking-[0.5em] font-mono"
-                    maxLength={6}
+                    className="text-center text-2xl tracking-[0.3em] font-mono"
+                    maxLength={12}
                     data-testid="input-code"
                   />
                 </div>
@@ -149,7 +240,7 @@ export default function PaymentCodePage() {
                 <Button
                   className="w-full bg-gradient-to-r from-primary to-secondary"
                   onClick={handleVerifyCode}
-                  disabled={verifyCodeMutation.isPending || code.length !== 6}
+                  disabled={verifyCodeMutation.isPending || code.length < 6}
                   data-testid="button-verify"
                 >
                   {verifyCodeMutation.isPending
@@ -187,18 +278,45 @@ export default function PaymentCodePage() {
                   <p className="text-sm text-muted-foreground mb-1">
                     Valor a pagar
                   </p>
-                  <p className="text-3xl font-bold text-gradient-primary">
-                    €{codeInfo.amount}
-                  </p>
+                  {codeInfo.amountType === "range" ? (
+                    <p className="text-xl font-bold text-gradient-primary">
+                      {formatCurrency(codeInfo.minAmount ?? 0, currency)} - {formatCurrency(codeInfo.maxAmount ?? 0, currency)}
+                    </p>
+                  ) : (
+                    <p className="text-3xl font-bold text-gradient-primary">
+                      {formatCurrency(codeInfo.amount, currency)}
+                    </p>
+                  )}
                   {codeInfo.description && (
                     <p className="text-sm text-muted-foreground mt-2">
                       {codeInfo.description}
                     </p>
                   )}
+                  {codeInfo.expiresAt && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Válido até {new Date(codeInfo.expiresAt).toLocaleDateString("pt-PT")}
+                    </p>
+                  )}
                 </div>
               </Card>
 
               <div className="space-y-4">
+                {codeInfo.amountType === "range" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="amount">Valor a pagar ({currency})</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      min={codeInfo.minAmount ?? undefined}
+                      max={codeInfo.maxAmount ?? undefined}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      data-testid="input-amount"
+                    />
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="name">Nome Completo</Label>
                   <Input
@@ -211,7 +329,9 @@ export default function PaymentCodePage() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
+                  <Label htmlFor="email">
+                    {codeInfo.requiresEmail ? "Email (o mesmo indicado à BragaWork)" : "Email"}
+                  </Label>
                   <Input
                     id="email"
                     type="email"
@@ -222,6 +342,80 @@ export default function PaymentCodePage() {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="coupon">Cupão de desconto</Label>
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <TicketPercent className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                      <Input
+                        id="coupon"
+                        value={couponCode}
+                        onChange={(e) => {
+                          setCouponCode(e.target.value.toUpperCase());
+                          setCoupon(null);
+                        }}
+                        className="pl-9 font-mono"
+                        maxLength={32}
+                        data-testid="input-coupon"
+                      />
+                    </div>
+                    {coupon ? (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => {
+                          setCouponCode("");
+                          setCoupon(null);
+                        }}
+                        data-testid="button-clear-coupon"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        onClick={() => applyCouponMutation.mutate(couponCode)}
+                        disabled={!couponCode.trim() || applyCouponMutation.isPending}
+                        data-testid="button-apply-coupon"
+                      >
+                        Aplicar
+                      </Button>
+                    )}
+                  </div>
+                  {coupon && (
+                    <p className="text-sm text-green-500" data-testid="text-coupon-discount">
+                      Desconto {coupon.code}: -{formatCurrency(discount, currency)}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Método de Pagamento</Label>
+                  <RadioGroup
+                    value={paymentMethod}
+                    onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
+                    className={`grid grid-cols-1 gap-3 ${availableMethods.length > 1 ? "sm:grid-cols-3" : ""}`}
+                  >
+                    {availableMethods.map((option) => (
+                      <Label
+                        key={option.value}
+                        htmlFor={`method-${option.value}`}
+                        className={`flex flex-col items-center gap-2 p-4 rounded-xl border-2 cursor-pointer transition-all text-center ${
+                          paymentMethod === option.value
+                            ? "border-primary bg-primary/10"
+                            : "border-border hover:border-primary/50"
+                        }`}
+                        data-testid={`option-method-${option.value}`}
+                      >
+                        <RadioGroupItem value={option.value} id={`method-${option.value}`} className="sr-only" />
+                        <option.icon className="w-6 h-6 text-primary" />
+                        <span className="font-semibold">{option.label}</span>
+                        <span className="text-xs text-muted-foreground font-normal">{option.description}</span>
+                      </Label>
+                    ))}
+                  </RadioGroup>
+                </div>
+
                 <Button
                   className="w-full bg-gradient-to-r from-primary to-secondary"
                   onClick={handleProcessPayment}
@@ -230,7 +424,7 @@ export default function PaymentCodePage() {
                 >
                   {processPaymentMutation.isPending
                     ? "Processando..."
-                    : `Pagar €${codeInfo.amount}`}
+                    : `Pagar ${formatCurrency(totalAmount, currency)}`}
                 </Button>
 
                 <Button
@@ -240,6 +434,8 @@ export default function PaymentCodePage() {
                     setStep("code");
                     setCode("");
                     setCodeInfo(null);
+                    setCouponCode("");
+                    setCoupon(null);
                   }}
                 >
                   Usar outro código
@@ -248,6 +444,71 @@ export default function PaymentCodePage() {
             </Card>
           )}
 
+          {step === "reference" && multibanco && (
+            <Card
+              className="p-8 bg-card/80 backdrop-blur border-primary/20"
+              data-testid="card-multibanco"
+            >
+              <div className="text-center mb-8">
+                <div className="w-16 h-16 rounded-full bg-gradient-to-br from-primary to-secondary flex items-center justify-center mx-auto mb-4 glow-primary">
+                  <Landmark className="w-8 h-8 text-primary-foreground" />
+                </div>
+                <h2 className="font-serif text-2xl font-bold mb-2">
+                  Pagamento por Multibanco
+                </h2>
+                <p className="text-muted-foreground">
+                  Pague num ATM ou no homebanking em "Pagamentos de Serviços".
+                </p>
+              </div>
+
+              <Card className="p-6 bg-primary/5 border-primary/20 mb-6 space-y-4 font-mono">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground font-sans">Entidade</span>
+                  <span className="text-xl font-bold" data-testid="text-mb-entity">{multibanco.entity}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground font-sans">Referência</span>
+                  <span className="text-xl font-bold" data-testid="text-mb-reference">
+                    {formatReference(multibanco.reference)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground font-sans">Montante</span>
+                  <span className="text-xl font-bold text-gradient-primary" data-testid="text-mb-amount">
+                    {formatCurrency(multibanco.amount)}
+                  </span>
+                </div>
+              </Card>
+
+              {multibanco.expiresAt && (
+                <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground mb-4">
+                  <Clock className="w-4 h-4" />
+                  Válida até {new Date(multibanco.expiresAt).toLocaleDateString("pt-PT")}
+                </p>
+              )}
+              <p className="text-sm text-muted-foreground text-center mb-6">
+                O pagamento é confirmado automaticamente assim que for recebido. Enviaremos
+                a confirmação para {email}.
+              </p>
+
+              <div className="space-y-3">
+                {multibanco.voucherUrl && (
+                  <Button variant="outline" className="w-full" asChild>
+                    <a href={multibanco.voucherUrl} target="_blank" rel="noopener noreferrer">
+                      Ver comprovativo da referência
+                    </a>
+                  </Button>
+                )}
+                <Button
+                  onClick={() => (window.location.href = "/")}
+                  className="w-full bg-gradient-to-r from-primary to-secondary"
+                >
+                  Voltar ao Início
+                </Button>
+              </div>
+            </Card>
+          )}
+
           {step === "success" && (
             <Card
               className="p-8 bg-card/80 backdrop-blur border-primary/20 text-center"
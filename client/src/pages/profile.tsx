@@ -1,14 +1,38 @@
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import type { Quote, Subscription, Review, Payment } from "@shared/schema";
+import { milestoneStatusLabels, type PaymentSchedule } from "@/components/payment-schedule-dialog";
+import { isValidNif, formatCurrency, getPlanPrice, type BillingInterval, type Quote, type Subscription, type Review, type Payment, type Plan, type Invoice, type BillingDetails } from "@shared/schema";
 import {
   User,
   FileText,
@@ -20,12 +44,148 @@ import {
   ArrowLeft,
   Receipt,
   Calendar,
+  Download,
+  ExternalLink,
+  RotateCcw,
+  XCircle,
+  ScrollText,
+  Building2,
 } from "lucide-react";
 
+interface BillingInvoice {
+  id: string;
+  number: string | null;
+  amount: string;
+  currency: string;
+  status: string | null;
+  createdAt: string;
+  hostedInvoiceUrl: string | null;
+  invoicePdf: string | null;
+}
+
+const emptyBillingDetails = {
+  nif: "",
+  billingAddress: "",
+  billingPostalCode: "",
+  billingCity: "",
+  billingCountry: "PT",
+};
+
+function BillingDetailsCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyBillingDetails);
+
+  const { data: details } = useQuery<BillingDetails>({
+    queryKey: ["/api/profile/billing-details"],
+  });
+
+  useEffect(() => {
+    if (details) {
+      setForm({
+        nif: details.nif ?? "",
+        billingAddress: details.billingAddress ?? "",
+        billingPostalCode: details.billingPostalCode ?? "",
+        billingCity: details.billingCity ?? "",
+        billingCountry: details.billingCountry ?? "PT",
+      });
+    }
+  }, [details]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", "/api/profile/billing-details", {
+        nif: form.nif.trim() || null,
+        billingAddress: form.billingAddress.trim() || null,
+        billingPostalCode: form.billingPostalCode.trim() || null,
+        billingCity: form.billingCity.trim() || null,
+        billingCountry: form.billingCountry.toUpperCase(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/billing-details"] });
+      toast({ title: "Dados de faturação guardados!" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao guardar",
+        description: getApiErrorMessage(error, "Verifique os dados e tente novamente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const nifError = form.nif && !isValidNif(form.nif) ? "NIF inválido" : null;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="billing-nif">NIF</Label>
+          <Input
+            id="billing-nif"
+            value={form.nif}
+            onChange={(e) => setForm({ ...form, nif: e.target.value.replace(/\D/g, "").slice(0, 9) })}
+            placeholder="Consumidor final"
+            data-testid="input-billing-nif"
+          />
+          {nifError && <p className="text-xs text-destructive">{nifError}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="billing-address">Morada</Label>
+          <Input
+            id="billing-address"
+            value={form.billingAddress}
+            onChange={(e) => setForm({ ...form, billingAddress: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="billing-postal-code">Código Postal</Label>
+          <Input
+            id="billing-postal-code"
+            value={form.billingPostalCode}
+            onChange={(e) => setForm({ ...form, billingPostalCode: e.target.value })}
+            placeholder="4700-000"
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="billing-city">Localidade</Label>
+            <Input
+              id="billing-city"
+              value={form.billingCity}
+              onChange={(e) => setForm({ ...form, billingCity: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="billing-country">País</Label>
+            <Input
+              id="billing-country"
+              maxLength={2}
+              value={form.billingCountry}
+              onChange={(e) => setForm({ ...form, billingCountry: e.target.value.toUpperCase() })}
+            />
+          </div>
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending || !!nifError}
+          data-testid="button-save-billing"
+        >
+          {saveMutation.isPending ? "Guardando..." : "Guardar"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
 export default function ProfilePage() {
   const { user, isLoading: authLoading, isAuthenticated, login } = useAuth();
+  const { toast } = useToast();
 
-  const { data: quotes, isLoading: quotesLoading } = useQuery<Quote[]>({
+  const { data: quotes, isLoading: quotesLoading } = useQuery<(Quote & { paymentSchedule: PaymentSchedule | null })[]>({
     queryKey: ["/api/profile/quotes"],
     enabled: isAuthenticated,
   });
@@ -35,6 +195,77 @@ export default function ProfilePage() {
     enabled: isAuthenticated,
   });
 
+  const { data: plans = [] } = useQuery<Plan[]>({
+    queryKey: ["/api/plans"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: invoices } = useQuery<BillingInvoice[]>({
+    queryKey: ["/api/profile/billing/invoices"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: fiscalInvoices } = useQuery<Invoice[]>({
+    queryKey: ["/api/profile/invoices"],
+    enabled: isAuthenticated,
+  });
+
+  const onBillingError = () => {
+    toast({
+      title: "Erro na faturação",
+      description: "Tente novamente mais tarde.",
+      variant: "destructive",
+    });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/profile/billing/subscriptions/${id}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/subscriptions"] });
+      toast({ title: "Assinatura será cancelada no fim do período" });
+    },
+    onError: onBillingError,
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest("POST", `/api/profile/billing/subscriptions/${id}/resume`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/subscriptions"] });
+      toast({ title: "Assinatura retomada com sucesso!" });
+    },
+    onError: onBillingError,
+  });
+
+  const changePlanMutation = useMutation({
+    mutationFn: async ({ id, planType }: { id: number; planType: string }) => {
+      return apiRequest("POST", `/api/profile/billing/subscriptions/${id}/change-plan`, { planType });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/subscriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/billing/invoices"] });
+      toast({
+        title: "Plano alterado com sucesso!",
+        description: "A diferença será ajustada proporcionalmente na próxima fatura.",
+      });
+    },
+    onError: onBillingError,
+  });
+
+  const portalMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/profile/billing/portal");
+      return response.json();
+    },
+    onSuccess: (data: { url: string }) => {
+      window.location.href = data.url;
+    },
+    onError: onBillingError,
+  });
+
   const { data: reviews, isLoading: reviewsLoading } = useQuery<Review[]>({
     queryKey: ["/api/profile/reviews"],
     enabled: isAuthenticated,
@@ -70,6 +301,24 @@ export default function ProfilePage() {
     );
   }
 
+  // Clients see where their quote stands, not the internal pipeline
+  const getQuoteStatusBadge = (status: string) => {
+    switch (status) {
+      case "new":
+      case "contacted":
+        return <Badge variant="secondary"><Clock className="w-3 h-3 mr-1" />Em Análise</Badge>;
+      case "proposal_sent":
+      case "negotiating":
+        return <Badge className="bg-blue-500/10 text-blue-500 border-blue-500/20"><Clock className="w-3 h-3 mr-1" />Proposta Enviada</Badge>;
+      case "won":
+        return <Badge className="bg-green-500/10 text-green-500 border-green-500/20"><CheckCircle className="w-3 h-3 mr-1" />Aceite</Badge>;
+      case "lost":
+        return <Badge variant="secondary">Encerrado</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case "pending":
@@ -82,10 +331,16 @@ export default function ProfilePage() {
         return <Badge className="bg-green-500/10 text-green-500 border-green-500/20"><CheckCircle className="w-3 h-3 mr-1" />Ativa</Badge>;
       case "past_due":
         return <Badge className="bg-yellow-500/10 text-yellow-500 border-yellow-500/20"><AlertCircle className="w-3 h-3 mr-1" />Atrasada</Badge>;
+      case "suspended":
+        return <Badge variant="destructive"><AlertCircle className="w-3 h-3 mr-1" />Suspensa</Badge>;
       case "canceled":
         return <Badge variant="destructive">Cancelada</Badge>;
       case "succeeded":
         return <Badge className="bg-green-500/10 text-green-500 border-green-500/20"><CheckCircle className="w-3 h-3 mr-1" />Pago</Badge>;
+      case "refunded":
+        return <Badge variant="secondary">Reembolsado</Badge>;
+      case "partially_refunded":
+        return <Badge className="bg-orange-500/10 text-orange-500 border-orange-500/20">Reembolso Parcial</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -152,9 +407,23 @@ export default function ProfilePage() {
 
         <div className="grid gap-8">
           <section>
-            <div className="flex items-center gap-2 mb-4">
-              <Receipt className="w-5 h-5 text-primary" />
-              <h3 className="font-serif text-xl font-semibold">Minhas Assinaturas</h3>
+            <div className="flex items-center justify-between gap-2 mb-4 flex-wrap">
+              <div className="flex items-center gap-2">
+                <Receipt className="w-5 h-5 text-primary" />
+                <h3 className="font-serif text-xl font-semibold">Minhas Assinaturas</h3>
+              </div>
+              {subscriptions && subscriptions.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => portalMutation.mutate()}
+                  disabled={portalMutation.isPending}
+                  data-testid="button-update-card"
+                >
+                  <CreditCard className="w-4 h-4 mr-2" />
+                  Atualizar Cartão
+                </Button>
+              )}
             </div>
             {subscriptionsLoading ? (
               <div className="space-y-3">
@@ -169,16 +438,85 @@ export default function ProfilePage() {
                       <div>
                         <p className="font-medium">{getPlanName(sub.planType)}</p>
                         <p className="text-sm text-muted-foreground">
-                          Próximo pagamento: {formatDate(sub.currentPeriodEnd)}
+                          {sub.cancelAtPeriodEnd
+                            ? `Termina em ${formatDate(sub.currentPeriodEnd)}`
+                            : `Próximo pagamento: ${formatDate(sub.currentPeriodEnd)}`}
                         </p>
                       </div>
                       <div className="flex items-center gap-3">
                         <span className="font-semibold text-primary">
-                          {Number(sub.amount).toFixed(2)}
+                          {formatCurrency(sub.amount, sub.currency)}/{sub.billingInterval === "year" ? "ano" : "mês"}
                         </span>
                         {getStatusBadge(sub.status)}
                       </div>
                     </div>
+                    {sub.status !== "canceled" && (
+                      <div className="flex items-center gap-2 mt-4 flex-wrap">
+                        <Select
+                          value={sub.planType}
+                          onValueChange={(planType) => changePlanMutation.mutate({ id: sub.id, planType })}
+                          disabled={changePlanMutation.isPending || !!sub.cancelAtPeriodEnd}
+                        >
+                          <SelectTrigger className="w-[220px]" data-testid={`select-plan-${sub.id}`}>
+                            <SelectValue placeholder="Alterar plano" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {plans.filter((plan) => plan.currency === sub.currency).map((plan) => {
+                              // Plan changes keep the interval and currency the customer subscribed with
+                              const price = getPlanPrice(plan, sub.billingInterval as BillingInterval);
+                              return (
+                                <SelectItem key={plan.id} value={plan.slug} disabled={price === null}>
+                                  {plan.name} - {price === null
+                                    ? "só mensal"
+                                    : `${formatCurrency(price, plan.currency)}/${sub.billingInterval === "year" ? "ano" : "mês"}`}
+                                </SelectItem>
+                              );
+                            })}
+                          </SelectContent>
+                        </Select>
+                        {sub.cancelAtPeriodEnd ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => resumeMutation.mutate(sub.id)}
+                            disabled={resumeMutation.isPending}
+                            data-testid={`button-resume-${sub.id}`}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Retomar
+                          </Button>
+                        ) : (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive"
+                                data-testid={`button-cancel-${sub.id}`}
+                              >
+                                <XCircle className="w-4 h-4 mr-2" />
+                                Cancelar
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Cancelar assinatura?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  O plano continua ativo até {formatDate(sub.currentPeriodEnd)} e não será renovado.
+                                  Pode retomá-lo a qualquer momento antes dessa data.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Manter</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => cancelMutation.mutate(sub.id)}>
+                                  Cancelar no fim do período
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </div>
+                    )}
                   </Card>
                 ))}
               </div>
@@ -195,6 +533,90 @@ export default function ProfilePage() {
             )}
           </section>
 
+          {invoices && invoices.length > 0 && (
+            <section>
+              <div className="flex items-center gap-2 mb-4">
+                <Download className="w-5 h-5 text-primary" />
+                <h3 className="font-serif text-xl font-semibold">Recibos de Assinatura</h3>
+              </div>
+              <div className="space-y-3">
+                {invoices.map((invoice) => (
+                  <Card key={invoice.id} className="p-4" data-testid={`card-invoice-${invoice.id}`}>
+                    <div className="flex items-center justify-between gap-4 flex-wrap">
+                      <div>
+                        <p className="font-medium">{invoice.number || invoice.id}</p>
+                        <p className="text-sm text-muted-foreground">{formatDate(invoice.createdAt)}</p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold">
+                          {formatCurrency(invoice.amount, invoice.currency)}
+                        </span>
+                        {invoice.hostedInvoiceUrl && (
+                          <Button size="icon" variant="ghost" asChild>
+                            <a href={invoice.hostedInvoiceUrl} target="_blank" rel="noopener noreferrer">
+                              <ExternalLink className="w-4 h-4" />
+                            </a>
+                          </Button>
+                        )}
+                        {invoice.invoicePdf && (
+                          <Button size="icon" variant="ghost" asChild>
+                            <a href={invoice.invoicePdf} target="_blank" rel="noopener noreferrer" data-testid={`link-invoice-pdf-${invoice.id}`}>
+                              <Download className="w-4 h-4" />
+                            </a>
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {fiscalInvoices && fiscalInvoices.length > 0 && (
+            <section>
+              <div className="flex items-center gap-2 mb-4">
+                <ScrollText className="w-5 h-5 text-primary" />
+                <h3 className="font-serif text-xl font-semibold">Minhas Faturas</h3>
+              </div>
+              <div className="space-y-3">
+                {fiscalInvoices.map((invoice) => (
+                  <Card key={invoice.id} className="p-4" data-testid={`card-fiscal-invoice-${invoice.id}`}>
+                    <div className="flex items-center justify-between gap-4 flex-wrap">
+                      <div>
+                        <p className="font-medium">
+                          {invoice.invoiceNumber}
+                          {invoice.status === "canceled" && (
+                            <Badge variant="destructive" className="ml-2">Anulada</Badge>
+                          )}
+                        </p>
+                        <p className="text-sm text-muted-foreground">{formatDate(invoice.issuedAt)}</p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold">
+                          {formatCurrency(invoice.grossTotal, invoice.currency)}
+                        </span>
+                        <Button size="icon" variant="ghost" asChild>
+                          <a href={`/api/invoices/${invoice.id}/pdf`} target="_blank" rel="noopener noreferrer" data-testid={`link-fiscal-invoice-pdf-${invoice.id}`}>
+                            <Download className="w-4 h-4" />
+                          </a>
+                        </Button>
+                      </div>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <section>
+            <div className="flex items-center gap-2 mb-4">
+              <Building2 className="w-5 h-5 text-primary" />
+              <h3 className="font-serif text-xl font-semibold">Dados de Faturação</h3>
+            </div>
+            <BillingDetailsCard />
+          </section>
+
           <section>
             <div className="flex items-center gap-2 mb-4">
               <FileText className="w-5 h-5 text-primary" />
@@ -216,8 +638,54 @@ export default function ProfilePage() {
                           Solicitado em {formatDate(quote.createdAt)}
                         </p>
                       </div>
-                      {getStatusBadge(quote.status)}
+                      {getQuoteStatusBadge(quote.status)}
                     </div>
+                    {quote.paymentSchedule && (
+                      <div className="mt-4 pt-4 border-t border-border space-y-3">
+                        <div className="grid grid-cols-3 gap-2 text-center">
+                          <div>
+                            <p className="text-xs text-muted-foreground">Valor do projeto</p>
+                            <p className="font-semibold">{formatCurrency(quote.paymentSchedule.price, quote.currency)}</p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-muted-foreground">Pago</p>
+                            <p className="font-semibold text-green-500">{formatCurrency(quote.paymentSchedule.paid, quote.currency)}</p>
+                          </div>
+                          <div>
+                            <p className="text-xs text-muted-foreground">Saldo em falta</p>
+                            <p className="font-semibold text-primary" data-testid={`text-quote-balance-${quote.id}`}>
+                              {formatCurrency(quote.paymentSchedule.balance, quote.currency)}
+                            </p>
+                          </div>
+                        </div>
+                        {quote.paymentSchedule.milestones.map((milestone) => {
+                          const statusInfo = milestoneStatusLabels[milestone.status];
+                          return (
+                            <div key={milestone.id} className="flex items-center justify-between gap-3 text-sm flex-wrap">
+                              <div>
+                                <p className="font-medium">
+                                  {milestone.label} ({parseFloat(milestone.percentage)}%)
+                                </p>
+                                {milestone.dueDate && milestone.status !== "paid" && (
+                                  <p className="text-xs text-muted-foreground">Até {formatDate(milestone.dueDate)}</p>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <span className="font-semibold">{formatCurrency(milestone.amount, quote.currency)}</span>
+                                <Badge className={statusInfo?.color}>{statusInfo?.label}</Badge>
+                                {milestone.status === "open" && (
+                                  <Link href={`/payment/code?code=${milestone.code}`}>
+                                    <Button size="sm" variant="outline" data-testid={`button-pay-milestone-${milestone.id}`}>
+                                      Pagar
+                                    </Button>
+                                  </Link>
+                                )}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
                   </Card>
                 ))}
               </div>
@@ -254,10 +722,16 @@ export default function ProfilePage() {
                         <p className="text-sm text-muted-foreground">
                           {formatDate(payment.createdAt)}
                         </p>
+                        {payment.status === "pending" && payment.multibancoReference && (
+                          <p className="text-sm text-muted-foreground font-mono" data-testid={`text-payment-reference-${payment.id}`}>
+                            Multibanco · Ent. {payment.multibancoEntity} · Ref. {payment.multibancoReference}
+                            {payment.expiresAt && ` · até ${formatDate(payment.expiresAt)}`}
+                          </p>
+                        )}
                       </div>
                       <div className="flex items-center gap-3">
                         <span className="font-semibold">
-                          {payment.currency} {Number(payment.amount).toFixed(2)}
+                          {formatCurrency(payment.amount, payment.currency || "EUR")}
                         </span>
                         {getStatusBadge(payment.status)}
                       </div>
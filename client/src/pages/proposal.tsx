@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Navbar } from "@/components/navbar";
+import { Footer } from "@/components/footer";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { proposalStatusLabels } from "@/components/proposal-dialog";
+import { SignaturePad } from "@/components/signature-pad";
+import { AlertCircle, CheckCircle, Download, FileSignature, PenLine, XCircle } from "lucide-react";
+import { formatCurrency, type QuoteProposal } from "@shared/schema";
+
+// Shape returned by GET /api/proposals/:token
+type PublicProposal = Omit<QuoteProposal, "createdBy"> & {
+  expired: boolean;
+  signature: { signerName: string; signedAt: string } | null;
+  quote: { id: number; firstName: string; lastName: string; serviceType: string };
+};
+
+export default function ProposalPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"view" | "sign" | "decline">("view");
+  const [reason, setReason] = useState("");
+  const [signerName, setSignerName] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+  const [acceptTerms, setAcceptTerms] = useState(false);
+
+  const queryKey = [`/api/proposals/${token}`];
+  const { data: proposal, isLoading, error } = useQuery<PublicProposal>({ queryKey });
+
+  const respondMutation = useMutation({
+    mutationFn: async (answer: "accept" | "decline") => {
+      return apiRequest(
+        "POST",
+        `/api/proposals/${token}/${answer}`,
+        answer === "decline" ? { reason: reason || null } : { signerName, signature, acceptTerms },
+      );
+    },
+    onSuccess: (_, answer) => {
+      queryClient.invalidateQueries({ queryKey });
+      setMode("view");
+      toast({
+        title: answer === "accept" ? "Proposta aceite!" : "Proposta recusada",
+        description:
+          answer === "accept"
+            ? "Obrigado! Entraremos em contacto para os próximos passos."
+            : "Obrigado pela resposta.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Não foi possível registar a resposta",
+        description: getApiErrorMessage(error, "Por favor, tente novamente."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isOpen = proposal?.status === "sent" && !proposal.expired;
+  const statusInfo = proposal && proposalStatusLabels[proposal.expired ? "expired" : proposal.status];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <section className="pt-24 pb-12">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          {isLoading ? (
+            <Skeleton className="h-96 rounded-xl" />
+          ) : error || !proposal ? (
+            <Card className="p-8 text-center">
+              <AlertCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+              <h1 className="font-serif text-2xl font-bold mb-2">Proposta não encontrada</h1>
+              <p className="text-muted-foreground">Verifique se o link está completo.</p>
+            </Card>
+          ) : (
+            <Card className="p-6 sm:p-8 bg-card/80 backdrop-blur border-primary/20 space-y-6" data-testid="card-proposal">
+              <div className="flex items-start justify-between gap-4 flex-wrap">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <FileSignature className="w-5 h-5 text-primary" />
+                    <h1 className="font-serif text-2xl font-bold">
+                      <span className="text-gradient-primary">Proposta #{proposal.quote.id}</span>
+                    </h1>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Para {proposal.quote.firstName} {proposal.quote.lastName} · versão {proposal.version} · válida até{" "}
+                    {new Date(proposal.validUntil).toLocaleDateString("pt-PT")}
+                  </p>
+                </div>
+                <Badge className={statusInfo?.color}>{statusInfo?.label}</Badge>
+              </div>
+
+              <div>
+                <h2 className="font-semibold mb-2">Âmbito do projeto</h2>
+                <p className="text-sm text-muted-foreground whitespace-pre-line">{proposal.scope}</p>
+              </div>
+
+              <div className="space-y-2">
+                {proposal.items.map((item, index) => (
+                  <div key={index} className="flex justify-between gap-4 text-sm border-b border-border pb-2">
+                    <span>
+                      {item.description}
+                      {item.quantity !== 1 && <span className="text-muted-foreground"> × {item.quantity}</span>}
+                    </span>
+                    <span>{formatCurrency(item.quantity * item.unitPrice, proposal.currency)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between gap-4 font-semibold text-lg pt-2">
+                  <span>Total</span>
+                  <span>{formatCurrency(proposal.total, proposal.currency)}</span>
+                </div>
+              </div>
+
+              {proposal.timeline && (
+                <div>
+                  <h2 className="font-semibold mb-2">Prazos</h2>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{proposal.timeline}</p>
+                </div>
+              )}
+
+              {proposal.terms && (
+                <div>
+                  <h2 className="font-semibold mb-2">Termos e condições</h2>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{proposal.terms}</p>
+                </div>
+              )}
+
+              <div className="flex flex-col sm:flex-row gap-3 pt-2">
+                <Button variant="outline" className="border-primary/30" asChild>
+                  <a href={`/api/proposals/${token}/pdf`} target="_blank" rel="noopener noreferrer">
+                    <Download className="w-4 h-4 mr-2" />
+                    Descarregar PDF
+                  </a>
+                </Button>
+                {isOpen && mode === "view" && (
+                  <>
+                    <Button
+                      className="bg-gradient-to-r from-primary to-secondary sm:ml-auto"
+                      onClick={() => setMode("sign")}
+                      data-testid="button-accept-proposal"
+                    >
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      Aceitar Proposta
+                    </Button>
+                    <Button variant="ghost" onClick={() => setMode("decline")}>
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Recusar
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              {isOpen && mode === "sign" && (
+                <div className="space-y-4 rounded-lg border border-primary/20 p-4">
+                  <div className="flex items-center gap-2">
+                    <PenLine className="w-5 h-5 text-primary" />
+                    <h2 className="font-semibold">Assinatura</h2>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="signer-name">Nome completo *</Label>
+                    <Input
+                      id="signer-name"
+                      value={signerName}
+                      onChange={(e) => setSignerName(e.target.value)}
+                      maxLength={100}
+                      data-testid="input-signer-name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Desenhe a sua assinatura *</Label>
+                    <SignaturePad onChange={setSignature} />
+                  </div>
+                  <Label htmlFor="accept-terms" className="flex items-start gap-3 cursor-pointer font-normal">
+                    <Checkbox
+                      id="accept-terms"
+                      checked={acceptTerms}
+                      onCheckedChange={(checked) => setAcceptTerms(checked === true)}
+                      className="mt-0.5"
+                      data-testid="checkbox-accept-terms"
+                    />
+                    <span className="text-sm">
+                      Li e aceito a proposta, incluindo o âmbito, o valor de{" "}
+                      {formatCurrency(proposal.total, proposal.currency)} e os termos e condições.
+                    </span>
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Ao assinar ficam registados o seu IP, o navegador, a data e hora e uma impressão digital (SHA-256)
+                    do PDF assinado.
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      className="bg-gradient-to-r from-primary to-secondary"
+                      onClick={() => respondMutation.mutate("accept")}
+                      disabled={
+                        respondMutation.isPending || signerName.trim().length < 3 || !signature || !acceptTerms
+                      }
+                      data-testid="button-sign-proposal"
+                    >
+                      {respondMutation.isPending ? "Assinando..." : "Assinar e Aceitar"}
+                    </Button>
+                    <Button variant="ghost" onClick={() => setMode("view")}>
+                      Cancelar
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {proposal.signature && (
+                <p className="text-sm text-muted-foreground">
+                  Assinada eletronicamente por {proposal.signature.signerName} em{" "}
+                  {new Date(proposal.signature.signedAt).toLocaleString("pt-PT")}.
+                </p>
+              )}
+
+              {isOpen && mode === "decline" && (
+                <div className="space-y-3">
+                  <Label htmlFor="decline-reason">Pode dizer-nos porquê? (opcional)</Label>
+                  <Textarea
+                    id="decline-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    maxLength={500}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      variant="destructive"
+                      onClick={() => respondMutation.mutate("decline")}
+                      disabled={respondMutation.isPending}
+                    >
+                      Confirmar Recusa
+                    </Button>
+                    <Button variant="ghost" onClick={() => setMode("view")}>
+                      Cancelar
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {proposal.status === "superseded" && (
+                <p className="text-sm text-muted-foreground">
+                  Esta versão foi substituída. Consulte o email com a proposta mais recente.
+                </p>
+              )}
+              {proposal.expired && (
+                <p className="text-sm text-muted-foreground">
+                  O prazo desta proposta terminou. Contacte-nos para receber uma proposta atualizada.
+                </p>
+              )}
+            </Card>
+          )}
+        </div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+}
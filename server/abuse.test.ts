@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { rateLimit } from "./abuse";
+
+function send(limiter: ReturnType<typeof rateLimit>, ip: string, email: string) {
+  const req = { ip, body: { email } } as Request;
+  let status = 200;
+  const res = {
+    set: () => res,
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res,
+  } as unknown as Response;
+  let passed = false;
+  limiter(req, res, () => {
+    passed = true;
+  });
+  return { passed, status, spamReasons: req.spamReasons };
+}
+
+describe("rateLimit", () => {
+  it("refuses an IP over the limit", () => {
+    const limiter = rateLimit({ name: "test-ip", limit: 2, windowMinutes: 1 });
+
+    send(limiter, "198.51.100.1", "a@example.com");
+    send(limiter, "198.51.100.1", "b@example.com");
+    const third = send(limiter, "198.51.100.1", "c@example.com");
+
+    assert.equal(third.passed, false);
+    assert.equal(third.status, 429);
+  });
+
+  it("only flags an email used too often from other IPs", () => {
+    const limiter = rateLimit({ name: "test-email", limit: 2, windowMinutes: 1, flagByEmail: true });
+
+    send(limiter, "198.51.100.2", "victim@example.com");
+    send(limiter, "198.51.100.3", "Victim@example.com");
+    const third = send(limiter, "198.51.100.4", "victim@example.com ");
+
+    assert.equal(third.passed, true);
+    assert.deepEqual(third.spamReasons, ["email_rate_limit"]);
+  });
+});
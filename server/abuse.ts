@@ -0,0 +1,203 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { disposableEmailDomains } from "./disposable-domains";
+import { formHoneypotField } from "@shared/schema";
+
+// Public forms protected by the proof-of-work challenge
+export const challengeForms = ["quote"] as const;
+export type ChallengeForm = (typeof challengeForms)[number];
+
+// Leading zero bits the solution hash needs: about 65k hashes, a second or
+// two in a browser, which adds up quickly for a bot sending thousands
+const challengeDifficulty = 16;
+
+// A challenge is fetched when the form opens, so it has to outlive a slow visitor
+const challengeMaxAgeMs = 24 * 60 * 60 * 1000;
+
+// Submitting faster than this after the form opened is not a person typing
+const minSubmitSeconds: Record<ChallengeForm, number> = {
+  quote: 5,
+};
+
+// Without a configured secret, challenges are only valid until the next restart
+const challengeSecret =
+  process.env.FORM_CHALLENGE_SECRET || process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by rateLimit and checkPublicForm: why the submission looks
+      // automated, if it does
+      spamReasons?: string[];
+    }
+  }
+}
+
+// Counters and used challenges live in memory: the app runs as a single
+// process, and losing them on a restart only gives a bot one fresh window.
+const hits = new Map<string, { count: number; resetAt: number }>();
+const usedChallenges = new Map<string, number>();
+let lastPruneAt = 0;
+
+function prune(now: number) {
+  if (now - lastPruneAt < 60 * 1000) return;
+  lastPruneAt = now;
+  hits.forEach((hit, key) => {
+    if (hit.resetAt <= now) hits.delete(key);
+  });
+  usedChallenges.forEach((expiresAt, nonce) => {
+    if (expiresAt <= now) usedChallenges.delete(nonce);
+  });
+}
+
+function getClientKeys(req: Request): string[] {
+  const keys = [`ip:${req.ip || "unknown"}`];
+  if (req.user) keys.push(`user:${req.user.id}`);
+  return keys;
+}
+
+function getEmailKey(req: Request): string | undefined {
+  if (typeof req.body?.email !== "string" || !req.body.email.trim()) return undefined;
+  return `email:${req.body.email.trim().toLowerCase()}`;
+}
+
+// Counts one hit on the key; milliseconds until its window resets when it is
+// over the limit, 0 otherwise
+function hit(key: string, limit: number, windowMs: number, now: number): number {
+  const current = hits.get(key);
+  if (!current || current.resetAt <= now) {
+    hits.set(key, { count: 1, resetAt: now + windowMs });
+    return 0;
+  }
+  return ++current.count > limit ? current.resetAt - now : 0;
+}
+
+// Fixed-window limit per IP and per signed-in user. Every key counts, so
+// rotating one of them does not help. With flagByEmail the email in the body
+// is counted too, but going over only flags the request in req.spamReasons:
+// anyone can type someone else's email, so it must not lock its owner out.
+export function rateLimit(options: { name: string; limit: number; windowMinutes: number; flagByEmail?: boolean }) {
+  const windowMs = options.windowMinutes * 60 * 1000;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    prune(now);
+
+    let retryAfterMs = 0;
+    for (const clientKey of getClientKeys(req)) {
+      retryAfterMs = Math.max(retryAfterMs, hit(`${options.name}:${clientKey}`, options.limit, windowMs, now));
+    }
+
+    if (retryAfterMs > 0) {
+      const retryAfter = Math.ceil(retryAfterMs / 1000);
+      res.set("Retry-After", retryAfter.toString());
+      return res.status(429).json({
+        error: `Demasiados pedidos. Tente novamente dentro de ${Math.ceil(retryAfter / 60)} minuto(s).`,
+        retryAfter,
+      });
+    }
+
+    const emailKey = options.flagByEmail ? getEmailKey(req) : undefined;
+    if (emailKey && hit(`${options.name}:${emailKey}`, options.limit, windowMs, now) > 0) {
+      req.spamReasons = [...(req.spamReasons ?? []), "email_rate_limit"];
+    }
+    next();
+  };
+}
+
+// The same fixed window for a key that does not come from the request, such
+// as the address an email is sent to. True once the key is over the limit.
+export function isOverLimit(name: string, key: string, options: { limit: number; windowMinutes: number }): boolean {
+  const now = Date.now();
+  prune(now);
+  return hit(`${name}:${key}`, options.limit, options.windowMinutes * 60 * 1000, now) > 0;
+}
+
+export function isDisposableEmail(email: string): boolean {
+  const domain = email.trim().toLowerCase().split("@").pop() ?? "";
+  return disposableEmailDomains.some((blocked) => domain === blocked || domain.endsWith(`.${blocked}`));
+}
+
+interface ChallengePayload {
+  form: ChallengeForm;
+  nonce: string;
+  issuedAt: number;
+  difficulty: number;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", challengeSecret).update(data).digest("base64url");
+}
+
+export function issueChallenge(form: ChallengeForm): { challenge: string; difficulty: number } {
+  const payload: ChallengePayload = {
+    form,
+    nonce: randomBytes(16).toString("hex"),
+    issuedAt: Date.now(),
+    difficulty: challengeDifficulty,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return { challenge: `${data}.${sign(data)}`, difficulty: challengeDifficulty };
+}
+
+function countLeadingZeroBits(hash: Buffer): number {
+  let bits = 0;
+  for (let i = 0; i < hash.length; i++) {
+    if (hash[i] !== 0) return bits + Math.clz32(hash[i]) - 24;
+    bits += 8;
+  }
+  return bits;
+}
+
+// The signed payload when the challenge is ours, unused, recent and solved
+function verifyChallenge(form: ChallengeForm, challenge: unknown, solution: unknown): ChallengePayload | null {
+  if (typeof challenge !== "string" || typeof solution !== "string" || solution.length > 20) return null;
+
+  const [data, signature] = challenge.split(".");
+  if (!data || !signature) return null;
+  const expected = Buffer.from(sign(data));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  let payload: ChallengePayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, "base64url").toString());
+  } catch {
+    return null;
+  }
+  const now = Date.now();
+  if (payload.form !== form || now - payload.issuedAt > challengeMaxAgeMs) return null;
+  if (usedChallenges.has(payload.nonce)) return null;
+
+  const hash = createHash("sha256").update(`${challenge}:${solution}`).digest();
+  if (countLeadingZeroBits(hash) < payload.difficulty) return null;
+
+  usedChallenges.set(payload.nonce, payload.issuedAt + challengeMaxAgeMs);
+  return payload;
+}
+
+// Rejects submissions without a solved challenge. Other signs of a bot (the
+// honeypot, an instant submit, a throwaway email) are left in req.spamReasons
+// for the route to quarantine, so the bot is not told what gave it away.
+export function checkPublicForm(form: ChallengeForm) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const payload = verifyChallenge(form, req.body?.challenge, req.body?.challengeSolution);
+    if (!payload) {
+      return res.status(400).json({ error: "A verificação anti-spam falhou. Recarregue a página e tente novamente." });
+    }
+
+    const reasons: string[] = [];
+    const honeypot = req.body[formHoneypotField];
+    if (honeypot !== undefined && honeypot !== "") {
+      reasons.push("honeypot");
+    }
+    if (Date.now() - payload.issuedAt < minSubmitSeconds[form] * 1000) {
+      reasons.push("too_fast");
+    }
+    if (typeof req.body.email === "string" && isDisposableEmail(req.body.email)) {
+      reasons.push("disposable_email");
+    }
+    req.spamReasons = [...(req.spamReasons ?? []), ...reasons];
+    next();
+  };
+}
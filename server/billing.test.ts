@@ -0,0 +1,235 @@
+import "./test-env";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type Stripe from "stripe";
+import { storage } from "./storage";
+import { createStripeStub } from "./stripe-stub";
+import {
+  changeSubscriptionPlan,
+  createPortalSession,
+  listInvoices,
+  setCancelAtPeriodEnd,
+  withoutOutdatedPriceIds,
+} from "./billing";
+import type { Plan, Subscription } from "@shared/schema";
+
+const subscription: Subscription = {
+  id: 7,
+  userId: 1,
+  stripeSubscriptionId: "sub_stub",
+  stripeCustomerId: "cus_stub",
+  planType: "site_maintenance",
+  amount: "15.00",
+  billingInterval: "month",
+  currency: "EUR",
+  status: "active",
+  cancelAtPeriodEnd: false,
+  currentPeriodStart: null,
+  currentPeriodEnd: null,
+  pastDueSince: null,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+const appPlan: Plan = {
+  id: 2,
+  slug: "app_maintenance",
+  name: "Manutenção App",
+  description: null,
+  serviceType: "app",
+  features: [],
+  monthlyPrice: "20.00",
+  annualPrice: "200.00",
+  currency: "EUR",
+  stripePriceId: null,
+  stripeAnnualPriceId: null,
+  isActive: true,
+  isPopular: true,
+  displayOrder: 1,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+let subscriptionUpdates: Partial<Subscription>[];
+let planUpdates: { id: number; changes: Partial<Plan> }[];
+
+beforeEach(() => {
+  subscriptionUpdates = [];
+  planUpdates = [];
+  mock.method(storage, "updateSubscription", async (id: number, changes: Partial<Subscription>) => {
+    subscriptionUpdates.push(changes);
+    return { ...subscription, id, ...changes };
+  });
+  mock.method(storage, "updatePlan", async (id: number, changes: Partial<Plan>) => {
+    planUpdates.push({ id, changes });
+    return { ...appPlan, id, ...changes };
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("setCancelAtPeriodEnd", () => {
+  it("schedules the cancellation in Stripe and stores what Stripe returns", async () => {
+    const stripe = createStripeStub();
+
+    const updated = await setCancelAtPeriodEnd(stripe.client, subscription, true);
+
+    assert.deepEqual(stripe.calls, [
+      { method: "subscriptions.update", args: ["sub_stub", { cancel_at_period_end: true }] },
+    ]);
+    assert.deepEqual(subscriptionUpdates, [{ cancelAtPeriodEnd: true, status: "active", pastDueSince: null }]);
+    assert.equal(updated?.cancelAtPeriodEnd, true);
+  });
+
+  it("resumes a subscription set to cancel", async () => {
+    const stripe = createStripeStub({ subscription: { cancel_at_period_end: true } });
+
+    await setCancelAtPeriodEnd(stripe.client, { ...subscription, cancelAtPeriodEnd: true }, false);
+
+    assert.equal(stripe.subscription.cancel_at_period_end, false);
+    assert.deepEqual(subscriptionUpdates, [{ cancelAtPeriodEnd: false, status: "active", pastDueSince: null }]);
+  });
+
+  it("keeps a subscription suspended by dunning suspended", async () => {
+    const stripe = createStripeStub({ subscription: { status: "past_due" } });
+    const pastDueSince = new Date("2026-02-01T00:00:00Z");
+
+    await setCancelAtPeriodEnd(stripe.client, { ...subscription, status: "suspended", pastDueSince }, true);
+
+    assert.deepEqual(subscriptionUpdates, [{ cancelAtPeriodEnd: true, status: "suspended", pastDueSince }]);
+  });
+});
+
+describe("changeSubscriptionPlan", () => {
+  it("swaps the item to the plan's price with proration", async () => {
+    const stripe = createStripeStub({ prices: { price_app_month: 2000 } });
+
+    const updated = await changeSubscriptionPlan(stripe.client, subscription, { ...appPlan, stripePriceId: "price_app_month" });
+
+    const update = stripe.calls.find((call) => call.method === "subscriptions.update");
+    assert.deepEqual(update?.args[1], {
+      items: [{ id: "si_stub", price: "price_app_month" }],
+      proration_behavior: "create_prorations",
+      metadata: { userId: "1", planType: "app_maintenance" },
+    });
+    assert.equal(stripe.calls.filter((call) => call.method === "prices.create").length, 0);
+    assert.deepEqual(subscriptionUpdates, [
+      { planType: "app_maintenance", amount: "20.00", status: "active", pastDueSince: null },
+    ]);
+    assert.equal(updated?.planType, "app_maintenance");
+  });
+
+  it("creates the missing Stripe price once and saves it on the plan", async () => {
+    const stripe = createStripeStub();
+
+    await changeSubscriptionPlan(stripe.client, subscription, appPlan);
+
+    const created = stripe.calls.filter((call) => call.method === "prices.create");
+    assert.equal(created.length, 1);
+    assert.deepEqual(created[0].args[0], {
+      currency: "eur",
+      unit_amount: 2000,
+      recurring: { interval: "month" },
+      product_data: { name: "Manutenção App - Mensal" },
+    });
+    assert.deepEqual(planUpdates, [{ id: 2, changes: { stripePriceId: "price_stub_1" } }]);
+    assert.deepEqual(subscriptionUpdates[0].amount, "20.00");
+  });
+
+  it("keeps the yearly interval and saves the annual price", async () => {
+    const stripe = createStripeStub();
+
+    await changeSubscriptionPlan(stripe.client, { ...subscription, billingInterval: "year" }, appPlan);
+
+    const created = stripe.calls.find((call) => call.method === "prices.create");
+    assert.deepEqual((created?.args[0] as Stripe.PriceCreateParams).recurring, { interval: "year" });
+    assert.deepEqual(planUpdates, [{ id: 2, changes: { stripeAnnualPriceId: "price_stub_1" } }]);
+  });
+
+  it("refuses a plan that is not sold on the subscription's interval", async () => {
+    const stripe = createStripeStub();
+
+    await assert.rejects(
+      changeSubscriptionPlan(stripe.client, { ...subscription, billingInterval: "year" }, { ...appPlan, annualPrice: null }),
+      /has no year price/,
+    );
+    assert.equal(stripe.calls.filter((call) => call.method === "subscriptions.update").length, 0);
+    assert.deepEqual(subscriptionUpdates, []);
+  });
+});
+
+describe("listInvoices", () => {
+  it("lists the customer's invoices with amounts in major units", async () => {
+    const stripe = createStripeStub({
+      invoices: [
+        {
+          id: "in_1",
+          number: "BW-0001",
+          total: 1845,
+          currency: "eur",
+          status: "paid",
+          created: 1767225600,
+          hosted_invoice_url: "https://invoice.stripe.test/in_1",
+          invoice_pdf: null,
+        },
+      ],
+    });
+
+    const invoices = await listInvoices(stripe.client, "cus_stub");
+
+    assert.deepEqual(stripe.calls, [{ method: "invoices.list", args: [{ customer: "cus_stub", limit: 24 }] }]);
+    assert.deepEqual(invoices, [
+      {
+        id: "in_1",
+        number: "BW-0001",
+        amount: "18.45",
+        currency: "EUR",
+        status: "paid",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        hostedInvoiceUrl: "https://invoice.stripe.test/in_1",
+        invoicePdf: null,
+      },
+    ]);
+  });
+});
+
+describe("createPortalSession", () => {
+  it("opens the portal for the stored customer", async () => {
+    const stripe = createStripeStub();
+
+    const url = await createPortalSession(stripe.client, "cus_stub", "https://bragawork.test/profile");
+
+    assert.equal(url, "https://billing.stripe.test/p/session/cus_stub");
+    assert.deepEqual(stripe.calls[0].args[0], { customer: "cus_stub", return_url: "https://bragawork.test/profile" });
+  });
+});
+
+describe("withoutOutdatedPriceIds", () => {
+  const plan = { ...appPlan, stripePriceId: "price_app_month", stripeAnnualPriceId: "price_app_year" };
+
+  it("drops the saved price when the amount changes", () => {
+    assert.deepEqual(withoutOutdatedPriceIds(plan, { monthlyPrice: "25.00", stripePriceId: "price_app_month" }), {
+      monthlyPrice: "25.00",
+      stripePriceId: null,
+    });
+  });
+
+  it("drops both prices when the currency changes", () => {
+    assert.deepEqual(withoutOutdatedPriceIds(plan, { currency: "GBP" }), {
+      currency: "GBP",
+      stripePriceId: null,
+      stripeAnnualPriceId: null,
+    });
+  });
+
+  it("keeps prices the update sets or does not affect", () => {
+    assert.deepEqual(withoutOutdatedPriceIds(plan, { monthlyPrice: "25.00", stripePriceId: "price_new" }), {
+      monthlyPrice: "25.00",
+      stripePriceId: "price_new",
+    });
+    assert.deepEqual(withoutOutdatedPriceIds(plan, { monthlyPrice: "20", name: "App" }), {
+      monthlyPrice: "20",
+      name: "App",
+    });
+  });
+});
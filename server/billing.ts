@@ -0,0 +1,164 @@
+import type Stripe from "stripe";
+import { storage } from "./storage";
+import { updateSubscriptionFromStripe } from "./dunning";
+import {
+  billingIntervals,
+  getPlanPrice,
+  type BillingInterval,
+  type InsertPlan,
+  type Plan,
+  type Subscription,
+} from "@shared/schema";
+
+// The subset of the Stripe client used for self-service billing, so a stub
+// can be passed in place of the real client.
+export type BillingStripeClient = Pick<Stripe, "subscriptions" | "billingPortal" | "invoices" | "prices">;
+
+export interface BillingInvoice {
+  id: string;
+  number: string | null;
+  amount: string;
+  currency: string;
+  status: string | null;
+  createdAt: string;
+  hostedInvoiceUrl: string | null;
+  invoicePdf: string | null;
+}
+
+export function isBillingInterval(value: unknown): value is BillingInterval {
+  return typeof value === "string" && (billingIntervals as readonly string[]).includes(value);
+}
+
+export const billingIntervalNames: Record<BillingInterval, string> = {
+  month: "Mensal",
+  year: "Anual",
+};
+
+// Inline price data for plans without a Stripe price for this interval.
+// Returns undefined when the plan is not sold on that interval.
+export function getPlanPriceData(plan: Plan, interval: BillingInterval) {
+  const amount = getPlanPrice(plan, interval);
+  if (amount === null) return undefined;
+
+  return {
+    currency: plan.currency.toLowerCase(),
+    unit_amount: Math.round(amount * 100),
+    recurring: { interval },
+  };
+}
+
+export function getStripePriceId(plan: Plan, interval: BillingInterval): string | null {
+  return interval === "year" ? plan.stripeAnnualPriceId : plan.stripePriceId;
+}
+
+// Stripe prices cannot change, so a saved price id stops matching once the
+// plan's amount or currency changes. Drops it unless the update sets a new one.
+export function withoutOutdatedPriceIds(plan: Plan, changes: Partial<InsertPlan>): Partial<InsertPlan> {
+  const result = { ...changes };
+  const currencyChanged = changes.currency !== undefined && changes.currency !== plan.currency;
+  const amountChanged = (value: string | null | undefined, current: string | null) =>
+    value !== undefined && (value === null || current === null || parseFloat(value) !== parseFloat(current));
+  const keepsPriceId = (value: string | null | undefined, current: string | null) =>
+    value === undefined || value === current;
+
+  if (
+    (currencyChanged || amountChanged(changes.monthlyPrice, plan.monthlyPrice)) &&
+    keepsPriceId(changes.stripePriceId, plan.stripePriceId)
+  ) {
+    result.stripePriceId = null;
+  }
+  if (
+    (currencyChanged || amountChanged(changes.annualPrice, plan.annualPrice)) &&
+    keepsPriceId(changes.stripeAnnualPriceId, plan.stripeAnnualPriceId)
+  ) {
+    result.stripeAnnualPriceId = null;
+  }
+  return result;
+}
+
+// The plan's Stripe price for the interval, created and saved on the plan
+// the first time it is needed
+async function resolvePlanPrice(client: BillingStripeClient, plan: Plan, interval: BillingInterval): Promise<string> {
+  const stripePriceId = getStripePriceId(plan, interval);
+  if (stripePriceId) return stripePriceId;
+
+  const priceData = getPlanPriceData(plan, interval);
+  if (!priceData) {
+    throw new Error(`Plan ${plan.slug} has no ${interval} price`);
+  }
+
+  const price = await client.prices.create({
+    ...priceData,
+    product_data: { name: `${plan.name} - ${billingIntervalNames[interval]}` },
+  });
+  await storage.updatePlan(plan.id, interval === "year" ? { stripeAnnualPriceId: price.id } : { stripePriceId: price.id });
+  return price.id;
+}
+
+export async function setCancelAtPeriodEnd(
+  client: BillingStripeClient,
+  subscription: Subscription,
+  cancelAtPeriodEnd: boolean,
+): Promise<Subscription | undefined> {
+  const stripeSubscription = await client.subscriptions.update(subscription.stripeSubscriptionId, {
+    cancel_at_period_end: cancelAtPeriodEnd,
+  });
+
+  // Through the dunning rules, so a suspended subscription stays suspended
+  return updateSubscriptionFromStripe(subscription, stripeSubscription.status, {
+    cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+  });
+}
+
+export async function changeSubscriptionPlan(
+  client: BillingStripeClient,
+  subscription: Subscription,
+  plan: Plan,
+): Promise<Subscription | undefined> {
+  const stripeSubscription = await client.subscriptions.retrieve(subscription.stripeSubscriptionId);
+  const item = stripeSubscription.items.data[0];
+  if (!item) {
+    throw new Error(`Subscription ${subscription.stripeSubscriptionId} has no items`);
+  }
+
+  // The customer keeps the interval they subscribed with
+  const interval = subscription.billingInterval as BillingInterval;
+  const price = await resolvePlanPrice(client, plan, interval);
+  const updated = await client.subscriptions.update(subscription.stripeSubscriptionId, {
+    items: [{ id: item.id, price }],
+    proration_behavior: "create_prorations",
+    metadata: { ...stripeSubscription.metadata, planType: plan.slug },
+  });
+
+  return updateSubscriptionFromStripe(subscription, updated.status, {
+    planType: plan.slug,
+    amount: ((updated.items.data[0]?.price.unit_amount ?? 0) / 100).toFixed(2),
+  });
+}
+
+export async function createPortalSession(
+  client: BillingStripeClient,
+  stripeCustomerId: string,
+  returnUrl: string,
+): Promise<string> {
+  const session = await client.billingPortal.sessions.create({
+    customer: stripeCustomerId,
+    return_url: returnUrl,
+  });
+  return session.url;
+}
+
+export async function listInvoices(client: BillingStripeClient, stripeCustomerId: string): Promise<BillingInvoice[]> {
+  const invoices = await client.invoices.list({ customer: stripeCustomerId, limit: 24 });
+
+  return invoices.data.map((invoice) => ({
+    id: invoice.id!,
+    number: invoice.number,
+    amount: (invoice.total / 100).toFixed(2),
+    currency: invoice.currency.toUpperCase(),
+    status: invoice.status,
+    createdAt: new Date(invoice.created * 1000).toISOString(),
+    hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+    invoicePdf: invoice.invoice_pdf ?? null,
+  }));
+}
@@ -0,0 +1,125 @@
+import type Stripe from "stripe";
+import { storage } from "./storage";
+import { calculateCouponDiscount, formatCurrency, type Coupon } from "@shared/schema";
+
+// The subset of the Stripe client needed to mirror a coupon for subscriptions
+export type CouponStripeClient = Pick<Stripe, "coupons">;
+
+export type CouponTarget =
+  | { type: "subscription"; planSlug: string }
+  | { type: "payment_code"; paymentCodeId: number };
+
+// Same message whether the coupon is unknown, expired or used up
+export const invalidCouponError = "Cupão inválido ou expirado";
+
+// Stripe does not charge less than this (in EUR; the other currencies we take
+// have the same or a lower minimum)
+const MIN_CHARGE = 0.5;
+
+export function normalizeCouponCode(code: unknown): string {
+  return typeof code === "string" ? code.trim().toUpperCase() : "";
+}
+
+function isCouponAvailable(coupon: Coupon, now: Date): boolean {
+  if (!coupon.isActive) return false;
+  if (coupon.validFrom && coupon.validFrom > now) return false;
+  if (coupon.validUntil && coupon.validUntil < now) return false;
+  if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) return false;
+  return true;
+}
+
+function appliesToTarget(coupon: Coupon, target: CouponTarget): boolean {
+  if (target.type === "subscription") {
+    if (coupon.appliesTo === "payment_codes") return false;
+    return !coupon.planSlugs?.length || coupon.planSlugs.includes(target.planSlug);
+  }
+  if (coupon.appliesTo === "subscriptions") return false;
+  return !coupon.paymentCodeIds?.length || coupon.paymentCodeIds.includes(target.paymentCodeId);
+}
+
+export interface AppliedCoupon {
+  coupon: Coupon;
+  currency: string;
+  originalAmount: number;
+  discount: number;
+  finalAmount: number;
+}
+
+// Looks up and checks a coupon for `amount` in `currency` on a plan or payment
+// code. Problems come back as a message for the customer.
+export async function applyCoupon(
+  rawCode: unknown,
+  target: CouponTarget,
+  amount: number,
+  currency: string,
+  now = new Date(),
+): Promise<AppliedCoupon | { error: string }> {
+  const code = normalizeCouponCode(rawCode);
+  const coupon = code ? await storage.getCouponByCode(code) : undefined;
+  if (!coupon || !isCouponAvailable(coupon, now)) {
+    return { error: invalidCouponError };
+  }
+
+  // Fixed discounts are set in EUR
+  if (!appliesToTarget(coupon, target) || (coupon.discountType === "fixed" && currency !== "EUR")) {
+    return { error: "Este cupão não é válido para este pagamento" };
+  }
+
+  const discount = calculateCouponDiscount(coupon, amount);
+  const finalAmount = Math.round((amount - discount) * 100) / 100;
+  if (finalAmount < MIN_CHARGE) {
+    return { error: `O valor com desconto tem de ser pelo menos ${formatCurrency(MIN_CHARGE, currency)}` };
+  }
+
+  return { coupon, currency, originalAmount: amount, discount, finalAmount };
+}
+
+// Checkout metadata that lets the webhook record the redemption
+export function getCouponMetadata(applied: AppliedCoupon): Record<string, string> {
+  return {
+    couponId: applied.coupon.id.toString(),
+    couponOriginalAmount: applied.originalAmount.toFixed(2),
+    couponDiscount: applied.discount.toFixed(2),
+    couponCurrency: applied.currency,
+  };
+}
+
+// Subscriptions are discounted through a Stripe coupon on the first invoice.
+// It is created on first use and reused afterwards.
+export async function getStripeCouponId(client: CouponStripeClient, coupon: Coupon): Promise<string> {
+  if (coupon.stripeCouponId) return coupon.stripeCouponId;
+
+  const value = parseFloat(coupon.discountValue);
+  const stripeCoupon = await client.coupons.create({
+    name: coupon.code,
+    duration: "once",
+    ...(coupon.discountType === "percent"
+      ? { percent_off: value }
+      : { amount_off: Math.round(value * 100), currency: "eur" }),
+    metadata: { couponId: coupon.id.toString() },
+  });
+
+  await storage.updateCoupon(coupon.id, { stripeCouponId: stripeCoupon.id });
+  return stripeCoupon.id;
+}
+
+// False when the coupon ran out of redemptions since it was applied
+export async function recordCouponRedemption(
+  metadata: Stripe.Metadata | null | undefined,
+  redemption: { stripeReference: string; target: CouponTarget["type"]; userId?: number | null; email?: string | null },
+): Promise<boolean> {
+  const couponId = parseInt(metadata?.couponId ?? "");
+  if (!couponId) return true;
+
+  const redeemed = await storage.redeemCoupon({
+    couponId,
+    userId: redemption.userId ?? null,
+    email: redemption.email ?? null,
+    target: redemption.target,
+    stripeReference: redemption.stripeReference,
+    originalAmount: metadata?.couponOriginalAmount ?? "0",
+    discountAmount: metadata?.couponDiscount ?? "0",
+    currency: metadata?.couponCurrency ?? "EUR",
+  });
+  return !!redeemed;
+}
@@ -0,0 +1,204 @@
+import { storage } from "./storage";
+import { sendEmail, adminEmail } from "./mailer";
+import { formatCurrency, type DunningEvent, type InsertSubscription, type Subscription, type User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+function parseDays(value: string | undefined, fallback: number[]): number[] {
+  const days = (value ?? "")
+    .split(",")
+    .map((day) => parseInt(day.trim()))
+    .filter((day) => Number.isInteger(day) && day >= 0);
+  return days.length > 0 ? Array.from(new Set(days)).sort((a, b) => a - b) : fallback;
+}
+
+// Days after falling past due on which the customer gets a reminder
+export const reminderDays = parseDays(process.env.DUNNING_REMINDER_DAYS, [1, 3, 7]);
+
+// Days past due after which the subscription is suspended
+export const graceDays = parseInt(process.env.DUNNING_GRACE_DAYS || "") || 14;
+
+const appUrl = process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000";
+
+// Stripe statuses that open (or keep open) a dunning cycle
+const dunningStatuses = ["past_due", "unpaid"];
+
+export function isDunningStatus(status: string): boolean {
+  return dunningStatuses.includes(status);
+}
+
+export type DunningAction =
+  | { action: "admin_notified" }
+  | { action: "reminder"; day: number }
+  | { action: "suspended" };
+
+// What is still due for a cycle that is `daysPastDue` old. If the job missed
+// some days only the latest reminder is sent, never a burst of them.
+export function getDueDunningActions(daysPastDue: number, done: DunningEvent[], status: string): DunningAction[] {
+  const actions: DunningAction[] = [];
+
+  if (!done.some((event) => event.action === "admin_notified")) {
+    actions.push({ action: "admin_notified" });
+  }
+
+  if (daysPastDue >= graceDays) {
+    if (status !== "suspended") actions.push({ action: "suspended" });
+    return actions;
+  }
+
+  const dueDays = reminderDays.filter((day) => day <= daysPastDue);
+  const latestDue = dueDays[dueDays.length - 1];
+  const latestSent = Math.max(-1, ...done.filter((e) => e.action === "reminder").map((e) => e.reminderDay ?? -1));
+  if (latestDue !== undefined && latestDue > latestSent) {
+    actions.push({ action: "reminder", day: latestDue });
+  }
+
+  return actions;
+}
+
+// Applies a status reported by Stripe, opening or closing the dunning cycle.
+// A suspension is local, so it holds while Stripe still reports past_due.
+export async function updateSubscriptionFromStripe(
+  subscription: Subscription,
+  stripeStatus: string,
+  data: Partial<InsertSubscription> = {},
+): Promise<Subscription | undefined> {
+  if (isDunningStatus(stripeStatus)) {
+    return storage.updateSubscription(subscription.id, {
+      ...data,
+      status: subscription.status === "suspended" ? "suspended" : stripeStatus,
+      pastDueSince: subscription.pastDueSince ?? new Date(),
+    });
+  }
+
+  const updated = await storage.updateSubscription(subscription.id, { ...data, status: stripeStatus, pastDueSince: null });
+  if (subscription.pastDueSince) {
+    await storage.createDunningEvent({
+      subscriptionId: subscription.id,
+      cycleStartedAt: subscription.pastDueSince,
+      action: "resolved",
+      detail: `Estado na Stripe: ${stripeStatus}`,
+    });
+  }
+  return updated;
+}
+
+async function performAction(
+  subscription: Subscription & { user?: User },
+  cycleStartedAt: Date,
+  daysPastDue: number,
+  due: DunningAction,
+): Promise<void> {
+  const plan = await storage.getPlanBySlug(subscription.planType);
+  const planName = plan?.name ?? subscription.planType;
+  const customer = subscription.user;
+  const period = subscription.billingInterval === "year" ? "ano" : "mês";
+  const customerLabel = customer ? `${customer.displayName} <${customer.email}>` : `utilizador #${subscription.userId}`;
+
+  if (due.action === "admin_notified") {
+    await sendEmail({
+      to: adminEmail,
+      subject: `Assinatura em atraso: ${customer?.displayName ?? subscription.userId}`,
+      text:
+        `A assinatura ${planName} (${formatCurrency(subscription.amount, subscription.currency)}/${period}) de ${customerLabel} está em atraso ` +
+        `desde ${cycleStartedAt.toLocaleDateString("pt-PT")}.\n\n` +
+        `Lembretes nos dias ${reminderDays.join(", ")}; suspensão ao fim de ${graceDays} dias.\n` +
+        `${appUrl}/admin/subscriptions`,
+    });
+  } else if (due.action === "reminder") {
+    if (!customer) throw new Error(`Subscription ${subscription.id} has no user to remind`);
+    await sendEmail({
+      to: customer.email,
+      subject: `Pagamento em atraso - ${planName}`,
+      text:
+        `Olá ${customer.displayName},\n\n` +
+        `Não conseguimos cobrar o pagamento de ${formatCurrency(subscription.amount, subscription.currency)} da sua assinatura ${planName}.\n` +
+        `Atualize o método de pagamento na sua área de cliente: ${appUrl}/profile\n\n` +
+        `Se o pagamento não for regularizado nos próximos ${graceDays - daysPastDue} dias, ` +
+        `o serviço de manutenção será suspenso.\n\nBragaWork`,
+    });
+  } else {
+    await storage.updateSubscriptionStatus(subscription.id, "suspended");
+    if (customer) {
+      await sendEmail({
+        to: customer.email,
+        subject: `Assinatura suspensa - ${planName}`,
+        text:
+          `Olá ${customer.displayName},\n\n` +
+          `Como o pagamento continua em falta há ${daysPastDue} dias, a sua assinatura ${planName} foi suspensa.\n` +
+          `Assim que o pagamento for regularizado em ${appUrl}/profile, o serviço é retomado.\n\nBragaWork`,
+      });
+    }
+    await sendEmail({
+      to: adminEmail,
+      subject: `Assinatura suspensa: ${customer?.displayName ?? subscription.userId}`,
+      text: `A assinatura ${planName} de ${customerLabel} foi suspensa após ${daysPastDue} dias em atraso.`,
+    });
+  }
+
+  await storage.createDunningEvent({
+    subscriptionId: subscription.id,
+    cycleStartedAt,
+    action: due.action,
+    reminderDay: due.action === "reminder" ? due.day : null,
+    detail:
+      due.action === "admin_notified"
+        ? `Aviso enviado para ${adminEmail}`
+        : due.action === "reminder"
+          ? `Lembrete enviado para ${customer?.email}`
+          : `Suspensa após ${daysPastDue} dias em atraso`,
+  });
+}
+
+export interface DunningRunResult {
+  subscriptions: number;
+  actions: number;
+  failures: number;
+}
+
+let isRunning = false;
+
+// Works through every past-due subscription. An action is only logged once it
+// went through, so anything that failed is retried on the next run.
+export async function runDunning(now = new Date()): Promise<DunningRunResult> {
+  const result: DunningRunResult = { subscriptions: 0, actions: 0, failures: 0 };
+  if (isRunning) return result;
+  isRunning = true;
+
+  try {
+    const pastDue = await storage.getSubscriptionsWithUsersByStatus(dunningStatuses);
+    for (const subscription of pastDue) {
+      result.subscriptions++;
+      try {
+        let cycleStartedAt = subscription.pastDueSince;
+        if (!cycleStartedAt) {
+          cycleStartedAt = now;
+          await storage.updateSubscription(subscription.id, { pastDueSince: now });
+        }
+
+        const daysPastDue = Math.floor((now.getTime() - cycleStartedAt.getTime()) / DAY_MS);
+        const done = await storage.getDunningEventsForCycle(subscription.id, cycleStartedAt);
+        for (const due of getDueDunningActions(daysPastDue, done, subscription.status)) {
+          await performAction(subscription, cycleStartedAt, daysPastDue, due);
+          result.actions++;
+        }
+      } catch (error) {
+        result.failures++;
+        console.error(`Dunning error for subscription ${subscription.id}:`, error);
+      }
+    }
+  } finally {
+    isRunning = false;
+  }
+
+  return result;
+}
+
+export function startDunningScheduler(): void {
+  const run = () => {
+    runDunning().catch((error) => console.error("Dunning run failed:", error));
+  };
+  run();
+  setInterval(run, RUN_INTERVAL_MS).unref();
+}
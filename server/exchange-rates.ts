@@ -0,0 +1,35 @@
+import { storage } from "./storage";
+import { baseCurrency } from "@shared/schema";
+
+// Units of each currency per 1 unit of the base currency
+export type ExchangeRateTable = Record<string, number>;
+
+export async function getExchangeRateTable(): Promise<ExchangeRateTable> {
+  const table: ExchangeRateTable = { [baseCurrency]: 1 };
+  for (const exchangeRate of await storage.getAllExchangeRates()) {
+    table[exchangeRate.currency] = parseFloat(exchangeRate.rate);
+  }
+  return table;
+}
+
+// Rate of `currency` right now. Payments keep the rate they were made at, so
+// changing a rate later does not rewrite past revenue. Null without a rate.
+export async function getExchangeRate(currency: string | null): Promise<string | null> {
+  const code = (currency || baseCurrency).toUpperCase();
+  if (code === baseCurrency) return "1";
+  const exchangeRate = (await storage.getAllExchangeRates()).find((r) => r.currency === code);
+  return exchangeRate?.rate ?? null;
+}
+
+// Amount in the base currency, at the rate stored with it when there is one
+// and otherwise the current one. Null when there is no rate for `currency`.
+export function toBaseCurrency(
+  amount: number,
+  currency: string | null,
+  table: ExchangeRateTable,
+  storedRate?: string | null,
+): number | null {
+  const rate = storedRate ? parseFloat(storedRate) : table[(currency || baseCurrency).toUpperCase()];
+  if (!rate) return null;
+  return amount / rate;
+}
@@ -1,11 +1,15 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startDunningScheduler } from "./dunning";
 import { createServer } from "http";
 
 const app = express();
 const httpServer = createServer(app);
 
+// Deployed behind a single reverse proxy; needed for req.ip to be the client address
+app.set("trust proxy", 1);
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -93,6 +97,7 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      startDunningScheduler();
     },
   );
 })();
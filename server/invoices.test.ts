@@ -0,0 +1,86 @@
+import "./test-env";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { issueInvoiceForPayment } from "./invoices";
+import type { Invoice, Payment, Subscription, User } from "@shared/schema";
+
+const payment: Payment = {
+  id: 9,
+  userId: 1,
+  stripePaymentId: "pi_renewal",
+  amount: "150.00",
+  currency: "EUR",
+  exchangeRate: "1",
+  status: "succeeded",
+  paymentType: "maintenance_site",
+  paymentMethod: "card",
+  paymentCodeId: null,
+  multibancoEntity: null,
+  multibancoReference: null,
+  expiresAt: null,
+  createdAt: new Date("2026-03-02T10:00:00Z"),
+};
+
+function makeSubscription(overrides: Partial<Subscription>): Subscription {
+  return {
+    id: 7,
+    userId: 1,
+    stripeSubscriptionId: "sub_1",
+    stripeCustomerId: "cus_1",
+    planType: "site_maintenance",
+    amount: "150.00",
+    billingInterval: "year",
+    currency: "EUR",
+    status: "active",
+    cancelAtPeriodEnd: false,
+    currentPeriodStart: null,
+    currentPeriodEnd: null,
+    pastDueSince: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+let subscriptions: Subscription[];
+
+beforeEach(() => {
+  subscriptions = [];
+  mock.method(storage, "getInvoiceByPayment", async () => undefined);
+  mock.method(storage, "getUser", async () => ({ id: 1, displayName: "Ana Costa", email: "ana@example.com" }) as User);
+  mock.method(storage, "getSubscriptionsByUser", async () => subscriptions);
+  mock.method(storage, "issueInvoice", async (_series: string, invoice: Invoice) => invoice);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+async function invoicedDescription(): Promise<string> {
+  const result = await issueInvoiceForPayment(payment, { vatRate: 23, createdBy: 1 });
+  assert.ok("invoice" in result);
+  return result.invoice.items[0].description;
+}
+
+describe("issueInvoiceForPayment", () => {
+  it("describes an annual plan payment as a yearly fee", async () => {
+    subscriptions = [makeSubscription({})];
+
+    assert.equal(await invoicedDescription(), "Manutenção de Site - anuidade");
+  });
+
+  it("uses the subscription the payment came from", async () => {
+    subscriptions = [
+      // Started after the payment, on another interval
+      makeSubscription({ id: 8, billingInterval: "month", createdAt: new Date("2026-04-01T00:00:00Z") }),
+      makeSubscription({ id: 6, planType: "app_maintenance", billingInterval: "month" }),
+      makeSubscription({}),
+    ];
+
+    assert.equal(await invoicedDescription(), "Manutenção de Site - anuidade");
+  });
+
+  it("falls back to a monthly fee without a subscription", async () => {
+    assert.equal(await invoicedDescription(), "Manutenção de Site - mensalidade");
+  });
+});
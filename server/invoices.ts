@@ -0,0 +1,259 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { storage } from "./storage";
+import { getExchangeRate } from "./exchange-rates";
+import {
+  vatExemptionReasons,
+  type BillingInterval,
+  type Invoice,
+  type InvoiceItem,
+  type InvoiceRequest,
+  type Payment,
+} from "@shared/schema";
+
+export const invoiceSeries = process.env.INVOICE_SERIES || "FT";
+
+export const seller = {
+  name: process.env.INVOICE_SELLER_NAME || "BragaWork",
+  nif: process.env.INVOICE_SELLER_NIF || "",
+  address: process.env.INVOICE_SELLER_ADDRESS || "Braga",
+  postalCode: process.env.INVOICE_SELLER_POSTAL_CODE || "",
+  city: process.env.INVOICE_SELLER_CITY || "Braga",
+  email: process.env.INVOICE_SELLER_EMAIL || "bragawork01@gmail.com",
+};
+
+const paymentDescriptions: Record<string, string> = {
+  code_payment: "Serviços de desenvolvimento",
+  custom: "Serviços de desenvolvimento",
+};
+
+// Subscription payment types -> the plan they pay for and its description
+const maintenancePayments: Record<string, { planType: string; description: string }> = {
+  maintenance_site: { planType: "site_maintenance", description: "Manutenção de Site" },
+  maintenance_app: { planType: "app_maintenance", description: "Manutenção de App" },
+};
+
+const billingIntervalFees: Record<BillingInterval, string> = {
+  month: "mensalidade",
+  year: "anuidade",
+};
+
+// Maintenance payments are named after the interval of the subscription they
+// came from: the client's latest one for that plan started before the payment.
+async function getPaymentDescription(payment: Payment): Promise<string> {
+  const maintenance = maintenancePayments[payment.paymentType];
+  if (!maintenance) {
+    return paymentDescriptions[payment.paymentType] || "Serviços";
+  }
+
+  const subscriptions = payment.userId ? await storage.getSubscriptionsByUser(payment.userId) : [];
+  const paidAt = payment.createdAt ?? new Date();
+  const subscription = subscriptions.find(
+    (candidate) => candidate.planType === maintenance.planType && (!candidate.createdAt || candidate.createdAt <= paidAt),
+  );
+  const interval = subscription?.billingInterval === "year" ? "year" : "month";
+  return `${maintenance.description} - ${billingIntervalFees[interval]}`;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function calculateLine(item: InvoiceItem) {
+  const net = round2(item.quantity * item.unitPrice);
+  const vat = round2((net * item.vatRate) / 100);
+  return { net, vat, gross: round2(net + vat) };
+}
+
+export function calculateInvoiceTotals(items: InvoiceItem[]) {
+  const lines = items.map(calculateLine);
+  const netTotal = round2(lines.reduce((acc, l) => acc + l.net, 0));
+  const vatTotal = round2(lines.reduce((acc, l) => acc + l.vat, 0));
+  return { netTotal, vatTotal, grossTotal: round2(netTotal + vatTotal) };
+}
+
+// Net price whose IVA adds back up to exactly `gross` (payments are charged
+// with IVA included). Falls back to the plain division when no cent matches.
+function netFromGross(gross: number, vatRate: number): number {
+  const estimate = round2(gross / (1 + vatRate / 100));
+  for (const offset of [0, -0.01, 0.01, -0.02, 0.02]) {
+    const net = round2(estimate + offset);
+    if (round2(net + round2((net * vatRate) / 100)) === gross) return net;
+  }
+  return estimate;
+}
+
+export async function issueInvoice(
+  request: InvoiceRequest,
+  options: { paymentId?: number; currency?: string; exchangeRate?: string | null; createdBy: number },
+): Promise<Invoice> {
+  const items: InvoiceItem[] = request.items.map((item) => ({
+    ...item,
+    vatExemptionCode: item.vatRate === 0 ? item.vatExemptionCode ?? null : null,
+  }));
+  const totals = calculateInvoiceTotals(items);
+  const currency = options.currency ?? "EUR";
+
+  return storage.issueInvoice(invoiceSeries, {
+    userId: request.userId ?? null,
+    paymentId: options.paymentId ?? null,
+    customerName: request.customerName,
+    customerEmail: request.customerEmail ?? null,
+    customerNif: request.customerNif || null,
+    customerAddress: request.customerAddress ?? null,
+    customerPostalCode: request.customerPostalCode ?? null,
+    customerCity: request.customerCity ?? null,
+    customerCountry: request.customerCountry,
+    items,
+    netTotal: totals.netTotal.toFixed(2),
+    vatTotal: totals.vatTotal.toFixed(2),
+    grossTotal: totals.grossTotal.toFixed(2),
+    currency,
+    // The SAF-T reports every amount in EUR, converted at this rate
+    exchangeRate: options.exchangeRate ?? (await getExchangeRate(currency)),
+    createdBy: options.createdBy,
+  });
+}
+
+// Issues the invoice for a payment already received, using the customer's
+// saved billing details. Problems come back as a message for the admin.
+export async function issueInvoiceForPayment(
+  payment: Payment,
+  options: { vatRate: number; vatExemptionCode?: string | null; createdBy: number },
+): Promise<{ invoice: Invoice } | { error: string }> {
+  if (payment.status !== "succeeded" && payment.status !== "partially_refunded") {
+    return { error: "Só é possível faturar pagamentos concluídos" };
+  }
+
+  if (await storage.getInvoiceByPayment(payment.id)) {
+    return { error: "Este pagamento já foi faturado" };
+  }
+
+  const user = payment.userId ? await storage.getUser(payment.userId) : undefined;
+  const paymentCode = payment.paymentCodeId ? await storage.getPaymentCode(payment.paymentCodeId) : undefined;
+
+  const customerName = user?.displayName || paymentCode?.usedByName;
+  if (!customerName) {
+    return { error: "Pagamento sem cliente associado" };
+  }
+
+  const gross = parseFloat(payment.amount);
+  const invoice = await issueInvoice(
+    {
+      userId: user?.id ?? null,
+      customerName,
+      customerEmail: user?.email || paymentCode?.usedByEmail || null,
+      customerNif: user?.nif ?? null,
+      customerAddress: user?.billingAddress ?? null,
+      customerPostalCode: user?.billingPostalCode ?? null,
+      customerCity: user?.billingCity ?? null,
+      customerCountry: user?.billingCountry || "PT",
+      items: [
+        {
+          description: paymentCode?.description || (await getPaymentDescription(payment)),
+          quantity: 1,
+          unitPrice: netFromGross(gross, options.vatRate),
+          vatRate: options.vatRate,
+          vatExemptionCode: options.vatExemptionCode ?? null,
+        },
+      ],
+    },
+    {
+      paymentId: payment.id,
+      currency: payment.currency || "EUR",
+      // The rate the money came in at, rather than today's
+      exchangeRate: payment.exchangeRate,
+      createdBy: options.createdBy,
+    },
+  );
+
+  return { invoice };
+}
+
+function formatMoney(value: number | string, currency: string): string {
+  return `${Number(value).toFixed(2)} ${currency === "EUR" ? "€" : currency}`;
+}
+
+export function renderInvoicePdf(invoice: Invoice): Buffer {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+
+  doc.setFontSize(20);
+  doc.text("Fatura", 20, 20);
+  doc.setFontSize(12);
+  doc.text(invoice.invoiceNumber, pageWidth - 20, 20, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(`Data: ${new Date(invoice.issuedAt!).toLocaleDateString("pt-PT")}`, pageWidth - 20, 27, { align: "right" });
+
+  if (invoice.status === "canceled") {
+    doc.setTextColor(200, 0, 0);
+    doc.setFontSize(14);
+    doc.text("ANULADA", pageWidth - 20, 36, { align: "right" });
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(10);
+  }
+
+  const sellerLines = [
+    seller.name,
+    seller.nif ? `NIF: ${seller.nif}` : "",
+    seller.address,
+    [seller.postalCode, seller.city].filter(Boolean).join(" "),
+    seller.email,
+  ].filter(Boolean);
+  doc.text(sellerLines, 20, 40);
+
+  const customerLines = [
+    invoice.customerName,
+    `NIF: ${invoice.customerNif || "Consumidor final"}`,
+    invoice.customerAddress ?? "",
+    [invoice.customerPostalCode, invoice.customerCity].filter(Boolean).join(" "),
+    invoice.customerCountry !== "PT" ? invoice.customerCountry : "",
+    invoice.customerEmail ?? "",
+  ].filter(Boolean);
+  doc.text("Cliente", 115, 40);
+  doc.text(customerLines, 115, 46);
+
+  let finalY = 90;
+  autoTable(doc, {
+    startY: 80,
+    head: [["Descrição", "Qtd.", "Preço Unit.", "IVA", "Total s/ IVA"]],
+    body: invoice.items.map((item) => [
+      item.vatExemptionCode ? `${item.description} (${item.vatExemptionCode})` : item.description,
+      item.quantity.toString(),
+      formatMoney(item.unitPrice, invoice.currency),
+      `${item.vatRate}%`,
+      formatMoney(calculateLine(item).net, invoice.currency),
+    ]),
+    foot: [
+      ["", "", "", "Total s/ IVA", formatMoney(invoice.netTotal, invoice.currency)],
+      ["", "", "", "IVA", formatMoney(invoice.vatTotal, invoice.currency)],
+      ["", "", "", "Total", formatMoney(invoice.grossTotal, invoice.currency)],
+    ],
+    theme: "striped",
+    didDrawPage: (data) => {
+      finalY = data.cursor?.y ?? finalY;
+    },
+  });
+
+  const exemptionCodes = Array.from(
+    new Set(invoice.items.map((item) => item.vatExemptionCode).filter((code): code is string => !!code)),
+  );
+  if (exemptionCodes.length > 0) {
+    doc.setFontSize(9);
+    doc.text(
+      exemptionCodes.map((code) => `${code}: ${vatExemptionReasons[code] ?? code}`),
+      20,
+      finalY + 10,
+    );
+  }
+
+  if (invoice.status === "canceled" && invoice.cancelReason) {
+    doc.setFontSize(9);
+    doc.text(`Motivo da anulação: ${invoice.cancelReason}`, 20, finalY + 25);
+  }
+
+  doc.setFontSize(8);
+  doc.text(`${seller.name} - ${invoice.invoiceNumber}`, 20, doc.internal.pageSize.height - 15);
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -0,0 +1,33 @@
+// Transactional email through the Resend HTTP API. Without RESEND_API_KEY
+// (local development) messages are only written to the log.
+
+export const adminEmail = process.env.ADMIN_EMAIL || "bragawork01@gmail.com";
+
+const fromAddress = process.env.MAIL_FROM || "BragaWork <no-reply@bragawork.pt>";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    console.log(`[mailer] ${message.to}: ${message.subject}`);
+    return;
+  }
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ from: fromAddress, ...message }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Email to ${message.to} failed: ${response.status} ${await response.text()}`);
+  }
+}
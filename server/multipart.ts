@@ -0,0 +1,58 @@
+// Minimal multipart/form-data reader for uploads already buffered by
+// express.raw (so the size limit is enforced before parsing). Returns null
+// when the body is not valid multipart.
+
+export interface MultipartFile {
+  fieldName: string;
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface MultipartBody {
+  fields: Record<string, string>;
+  files: MultipartFile[];
+}
+
+export function parseMultipart(body: Buffer, contentType: string | undefined): MultipartBody | null {
+  const match = contentType?.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  if (!match) return null;
+
+  const boundary = Buffer.from(`--${match[1] ?? match[2]}`);
+  const result: MultipartBody = { fields: {}, files: [] };
+
+  let position = body.indexOf(boundary);
+  if (position === -1) return null;
+
+  for (;;) {
+    position += boundary.length;
+    // "--" right after a boundary closes the body
+    if (body.subarray(position, position + 2).toString() === "--") return result;
+    position += 2; // CRLF
+
+    const headerEnd = body.indexOf("\r\n\r\n", position);
+    if (headerEnd === -1) return null;
+    const next = body.indexOf(boundary, headerEnd + 4);
+    if (next === -1) return null;
+
+    const headers = body.subarray(position, headerEnd).toString("utf8");
+    const data = body.subarray(headerEnd + 4, next - 2); // each part ends with CRLF
+    const disposition = headers.match(/content-disposition:[^\r\n]*/i)?.[0] ?? "";
+    const name = disposition.match(/\bname="([^"]*)"/i)?.[1];
+    const fileName = disposition.match(/\bfilename="([^"]*)"/i)?.[1];
+
+    if (name !== undefined) {
+      if (fileName === undefined) {
+        result.fields[name] = data.toString("utf8");
+      } else if (fileName) {
+        result.files.push({
+          fieldName: name,
+          fileName,
+          contentType: headers.match(/content-type:\s*([^\r\n;]+)/i)?.[1].trim() ?? "application/octet-stream",
+          data,
+        });
+      }
+    }
+    position = next;
+  }
+}
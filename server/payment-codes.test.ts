@@ -0,0 +1,73 @@
+import "./test-env";
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { getLockoutDuration, startCodeAttempt } from "./payment-codes";
+import type { CodeVerificationAttempt } from "@shared/schema";
+
+const client = { ipAddress: "203.0.113.7", sessionId: "sess_1" };
+
+function failure(id: number, secondsAgo: number): CodeVerificationAttempt {
+  return {
+    id,
+    ipAddress: client.ipAddress,
+    sessionId: client.sessionId,
+    code: "000000",
+    outcome: "not_found",
+    createdAt: new Date(Date.now() - secondsAgo * 1000),
+  };
+}
+
+function stubRecentFailures(recentFailures: CodeVerificationAttempt[][]) {
+  const calls: unknown[][] = [];
+  mock.method(storage, "startCodeVerificationAttempt", async (...args: unknown[]) => {
+    calls.push(args);
+    return { attempt: { ...failure(99, 0), outcome: "pending" }, recentFailures };
+  });
+  return calls;
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("getLockoutDuration", () => {
+  it("doubles after the free attempts, up to a day", () => {
+    assert.equal(getLockoutDuration(4), 0);
+    assert.equal(getLockoutDuration(5), 60 * 1000);
+    assert.equal(getLockoutDuration(7), 4 * 60 * 1000);
+    assert.equal(getLockoutDuration(100), 24 * 60 * 60 * 1000);
+  });
+});
+
+describe("startCodeAttempt", () => {
+  it("logs the guess for the IP and session over the last day", async () => {
+    const calls = stubRecentFailures([[], []]);
+
+    const { attempt, lockoutRemaining } = await startCodeAttempt(client, "123456789012345");
+
+    assert.equal(lockoutRemaining, 0);
+    assert.equal(attempt.outcome, "pending");
+    const [logged, failedSince] = calls[0] as [object, Date];
+    assert.deepEqual(logged, { ipAddress: client.ipAddress, sessionId: client.sessionId, code: "123456789012" });
+    assert.ok(Math.abs(Date.now() - failedSince.getTime() - 24 * 60 * 60 * 1000) < 1000);
+  });
+
+  it("allows guesses below the free attempts", async () => {
+    stubRecentFailures([[failure(4, 1), failure(3, 2), failure(2, 3), failure(1, 4)], []]);
+
+    const { lockoutRemaining } = await startCodeAttempt(client, "000000");
+
+    assert.equal(lockoutRemaining, 0);
+  });
+
+  it("locks out from the last failure of either key", async () => {
+    const failures = [5, 4, 3, 2, 1].map((id) => failure(id, 20 - id));
+    stubRecentFailures([[], failures]);
+
+    const { lockoutRemaining } = await startCodeAttempt(client, "000000");
+
+    // Five failures lock for a minute from the newest one, 15s ago
+    assert.ok(lockoutRemaining > 44 * 1000 && lockoutRemaining <= 45 * 1000);
+  });
+});
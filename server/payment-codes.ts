@@ -0,0 +1,116 @@
+import { randomInt } from "crypto";
+import { storage } from "./storage";
+import { formatCurrency, type CodeVerificationAttempt, type PaymentCode } from "@shared/schema";
+
+export type PaymentCodeFormat = "numeric" | "alphanumeric";
+
+// Without 0/O and 1/I/L so codes can be read out over the phone
+const ALPHANUMERIC_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const ALPHANUMERIC_CODE_LENGTH = 10;
+
+// Failed guesses allowed before the first lockout; every further failure
+// doubles it, up to a day.
+const FREE_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+const ATTEMPT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface CodeClient {
+  ipAddress: string;
+  sessionId?: string;
+}
+
+export function generatePaymentCode(format: PaymentCodeFormat): string {
+  if (format === "numeric") {
+    return randomInt(100000, 1000000).toString();
+  }
+
+  let code = "";
+  for (let i = 0; i < ALPHANUMERIC_CODE_LENGTH; i++) {
+    code += ALPHANUMERIC_ALPHABET[randomInt(ALPHANUMERIC_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function normalizePaymentCode(code: unknown): string {
+  return typeof code === "string" ? code.trim().toUpperCase() : "";
+}
+
+// Expired and exhausted codes are reported exactly like unknown ones, so
+// guessing cannot tell which codes exist.
+export function isPaymentCodeRedeemable(paymentCode: PaymentCode): boolean {
+  if (paymentCode.expiresAt && paymentCode.expiresAt.getTime() <= Date.now()) {
+    return false;
+  }
+  if (paymentCode.isUsed) {
+    return false;
+  }
+  return paymentCode.maxUses === null || paymentCode.useCount < paymentCode.maxUses;
+}
+
+// Codes bound to a client only work with that client's email
+export function matchesCodeClient(paymentCode: PaymentCode, email: unknown): boolean {
+  if (!paymentCode.clientEmail) return true;
+  return typeof email === "string" && paymentCode.clientEmail.toLowerCase() === email.trim().toLowerCase();
+}
+
+// Amount to charge for a code. Range codes take the amount chosen by the
+// client, which must fall inside the configured limits.
+export function resolvePaymentCodeAmount(
+  paymentCode: PaymentCode,
+  requestedAmount: unknown,
+): { amount: number } | { error: string } {
+  if (paymentCode.amountType !== "range") {
+    return { amount: parseFloat(paymentCode.amount) };
+  }
+
+  const min = parseFloat(paymentCode.minAmount ?? paymentCode.amount);
+  const max = parseFloat(paymentCode.maxAmount ?? paymentCode.amount);
+  const amount = Math.round(Number(requestedAmount) * 100) / 100;
+
+  if (!Number.isFinite(amount) || amount < min || amount > max) {
+    return { error: `O valor deve estar entre ${formatCurrency(min, paymentCode.currency)} e ${formatCurrency(max, paymentCode.currency)}` };
+  }
+
+  return { amount };
+}
+
+export function getLockoutDuration(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_LOCKOUT_MS);
+}
+
+// Failed guesses in the window, successful ones in between do not reset it.
+// Attempts still in progress count as failed until they finish; attempts
+// rejected while locked out do not extend the lockout.
+function getLockedUntil(failures: CodeVerificationAttempt[]): number {
+  const lastFailureAt = failures[0]?.createdAt;
+  if (!lastFailureAt) return 0;
+  return lastFailureAt.getTime() + getLockoutDuration(failures.length);
+}
+
+export type CodeAttemptOutcome = "success" | "not_found" | "unavailable" | "wrong_client" | "locked";
+
+// Logs a guess by this IP and session and tells how long they are still
+// locked out (0 when the guess may go ahead). The check and the log entry are
+// atomic, so parallel guesses cannot all slip under the limit.
+export async function startCodeAttempt(
+  client: CodeClient,
+  code: string,
+): Promise<{ attempt: CodeVerificationAttempt; lockoutRemaining: number }> {
+  const { attempt, recentFailures } = await storage.startCodeVerificationAttempt(
+    {
+      ipAddress: client.ipAddress,
+      sessionId: client.sessionId ?? null,
+      code: code.slice(0, 12),
+    },
+    new Date(Date.now() - ATTEMPT_WINDOW_MS),
+  );
+
+  const lockedUntil = Math.max(...recentFailures.map(getLockedUntil));
+  return { attempt, lockoutRemaining: Math.max(lockedUntil - Date.now(), 0) };
+}
+
+export async function recordCodeAttempt(attempt: CodeVerificationAttempt, outcome: CodeAttemptOutcome): Promise<void> {
+  await storage.setCodeVerificationOutcome(attempt.id, outcome);
+}
@@ -0,0 +1,112 @@
+import type Stripe from "stripe";
+import { paymentMethods, type PaymentMethod } from "@shared/schema";
+
+// The subset of the Stripe client needed to start a one-off payment
+export type PaymentStripeClient = Pick<Stripe, "checkout" | "paymentIntents">;
+
+export interface OneOffPayment {
+  method: PaymentMethod;
+  amount: number;
+  currency: string; // Multibanco and MB WAY only take EUR
+  description: string;
+  email: string;
+  name: string;
+  metadata: Record<string, string>;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface MultibancoDetails {
+  entity: string;
+  reference: string;
+  amount: string;
+  expiresAt: Date | null;
+  voucherUrl: string | null;
+}
+
+// Card and MB WAY go through Stripe Checkout; Multibanco returns a reference
+// that the client pays later at an ATM or homebanking.
+export type PaymentStart =
+  | { type: "redirect"; url: string }
+  | { type: "multibanco"; stripePaymentId: string; multibanco: MultibancoDetails };
+
+export function isPaymentMethod(value: unknown): value is PaymentMethod {
+  return typeof value === "string" && (paymentMethods as readonly string[]).includes(value);
+}
+
+export function isPaymentMethodAvailable(method: PaymentMethod, currency: string): boolean {
+  return method === "card" || currency.toUpperCase() === "EUR";
+}
+
+async function startCheckoutPayment(client: PaymentStripeClient, payment: OneOffPayment): Promise<PaymentStart> {
+  const metadata = { ...payment.metadata, paymentMethod: payment.method };
+  const session = await client.checkout.sessions.create({
+    payment_method_types: [payment.method === "mb_way" ? "mb_way" : "card"],
+    line_items: [
+      {
+        price_data: {
+          currency: payment.currency.toLowerCase(),
+          product_data: {
+            name: payment.description,
+          },
+          unit_amount: Math.round(payment.amount * 100),
+        },
+        quantity: 1,
+      },
+    ],
+    mode: "payment",
+    // The checkout holds a use of the code until it expires, so it expires
+    // after Stripe's minimum of 30 minutes rather than a day
+    expires_at: Math.floor(Date.now() / 1000) + 30 * 60,
+    success_url: payment.successUrl,
+    cancel_url: payment.cancelUrl,
+    customer_email: payment.email,
+    metadata,
+    payment_intent_data: { metadata },
+  });
+
+  if (!session.url) {
+    throw new Error("Checkout session without URL");
+  }
+  return { type: "redirect", url: session.url };
+}
+
+async function startMultibancoPayment(client: PaymentStripeClient, payment: OneOffPayment): Promise<PaymentStart> {
+  const paymentIntent = await client.paymentIntents.create({
+    amount: Math.round(payment.amount * 100),
+    currency: payment.currency.toLowerCase(),
+    payment_method_types: ["multibanco"],
+    payment_method_data: {
+      type: "multibanco",
+      billing_details: { name: payment.name, email: payment.email },
+    },
+    confirm: true,
+    description: payment.description,
+    receipt_email: payment.email,
+    metadata: { ...payment.metadata, paymentMethod: payment.method },
+  });
+
+  const details = paymentIntent.next_action?.multibanco_display_details;
+  if (!details?.entity || !details.reference) {
+    throw new Error(`PaymentIntent ${paymentIntent.id} has no Multibanco reference`);
+  }
+
+  return {
+    type: "multibanco",
+    stripePaymentId: paymentIntent.id,
+    multibanco: {
+      entity: details.entity,
+      reference: details.reference,
+      amount: (paymentIntent.amount / 100).toFixed(2),
+      expiresAt: details.expires_at ? new Date(details.expires_at * 1000) : null,
+      voucherUrl: details.hosted_voucher_url,
+    },
+  };
+}
+
+export async function startPayment(client: PaymentStripeClient, payment: OneOffPayment): Promise<PaymentStart> {
+  if (payment.method === "multibanco") {
+    return startMultibancoPayment(client, payment);
+  }
+  return startCheckoutPayment(client, payment);
+}
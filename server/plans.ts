@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import type { InsertPlan } from "@shared/schema";
+
+// Catalog used when the plans table is still empty. Prices match what the
+// checkout charged before plans were stored in the database.
+const defaultPlans: InsertPlan[] = [
+  {
+    slug: "site_maintenance",
+    name: "Manutenção Site",
+    serviceType: "website",
+    monthlyPrice: "15.00",
+    annualPrice: "150.00",
+    currency: "EUR",
+    isPopular: false,
+    displayOrder: 0,
+    features: [
+      "Atualizações de segurança",
+      "Correção de bugs",
+      "Backup semanal",
+      "Suporte por email e WhatsApp",
+      "Pequenas alterações de conteúdo",
+      "Monitoramento de uptime",
+    ],
+  },
+  {
+    slug: "app_maintenance",
+    name: "Manutenção App",
+    serviceType: "app",
+    monthlyPrice: "20.00",
+    annualPrice: "200.00",
+    currency: "EUR",
+    isPopular: true,
+    displayOrder: 1,
+    features: [
+      "Tudo do plano Site",
+      "Atualizações nas lojas (App Store / Play Store)",
+      "Monitoramento de performance",
+      "Suporte prioritário",
+      "Correções urgentes em 24h",
+      "Relatórios mensais de uso",
+    ],
+  },
+];
+
+export async function seedDefaultPlans(): Promise<void> {
+  const existing = await storage.getAllPlans();
+  if (existing.length > 0) return;
+
+  for (const plan of defaultPlans) {
+    await storage.createPlan(plan);
+  }
+}
@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+import type { InsertPricingRule, PricingRule } from "@shared/schema";
+
+// The estimate is shown as a range around the computed price
+const ESTIMATE_SPREAD = 0.15;
+
+// Rules used when the pricing table is still empty
+const defaultPricingRules: InsertPricingRule[] = [
+  { kind: "base", key: "website", value: "800.00" },
+  { kind: "base", key: "app", value: "2500.00" },
+  { kind: "segment", key: "Loja / E-commerce", value: "1.30" },
+  { kind: "segment", key: "Saúde / Medicina", value: "1.15" },
+  { kind: "segment", key: "Imobiliária / Construção", value: "1.10" },
+  { kind: "segment", key: "Tecnologia / Startup", value: "1.20" },
+  { kind: "addon", key: "payment_online", value: "400.00" },
+  { kind: "addon", key: "scheduling", value: "350.00" },
+  { kind: "addon", key: "admin_panel", value: "600.00" },
+  { kind: "addon", key: "chat", value: "300.00" },
+];
+
+// What the estimate looks at, from the estimate request or a submitted quote
+export interface QuoteEstimateInput {
+  serviceType: string;
+  businessSegment?: string | null;
+  additionals?: string[] | null;
+}
+
+export interface QuoteEstimate {
+  min: number;
+  max: number;
+  currency: string;
+  base: number;
+  multiplier: number;
+  addons: Array<{ id: string; price: number }>;
+}
+
+export async function seedDefaultPricingRules(): Promise<void> {
+  const existing = await storage.getAllPricingRules();
+  if (existing.length > 0) return;
+
+  await storage.replacePricingRules(defaultPricingRules);
+}
+
+function findRule(rules: PricingRule[], kind: PricingRule["kind"], key: string | null | undefined) {
+  return key ? rules.find((rule) => rule.kind === kind && rule.key === key) : undefined;
+}
+
+// Rounded to tens so the range does not look more precise than it is
+function roundEstimate(value: number): number {
+  return Math.round(value / 10) * 10;
+}
+
+// Segments without a rule are priced as-is and add-ons without one add
+// nothing. Returns null when the service type has no base price.
+export function calculateQuoteEstimate(rules: PricingRule[], request: QuoteEstimateInput): QuoteEstimate | null {
+  const baseRule = findRule(rules, "base", request.serviceType);
+  if (!baseRule) return null;
+
+  const base = parseFloat(baseRule.value);
+  const segmentRule = findRule(rules, "segment", request.businessSegment);
+  const multiplier = segmentRule ? parseFloat(segmentRule.value) : 1;
+  const addons = (request.additionals ?? []).map((id) => {
+    const addonRule = findRule(rules, "addon", id);
+    return { id, price: addonRule ? parseFloat(addonRule.value) : 0 };
+  });
+
+  const total = base * multiplier + addons.reduce((acc, addon) => acc + addon.price, 0);
+  return {
+    min: roundEstimate(total * (1 - ESTIMATE_SPREAD)),
+    max: roundEstimate(total * (1 + ESTIMATE_SPREAD)),
+    currency: "EUR",
+    base,
+    multiplier,
+    addons,
+  };
+}
+
+export async function estimateQuote(request: QuoteEstimateInput): Promise<QuoteEstimate | null> {
+  return calculateQuoteEstimate(await storage.getAllPricingRules(), request);
+}
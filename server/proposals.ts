@@ -0,0 +1,296 @@
+import { createHash, randomBytes } from "crypto";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { storage } from "./storage";
+import { sendEmail, adminEmail } from "./mailer";
+import { seller } from "./invoices";
+import {
+  calculateProposalTotal,
+  formatCurrency,
+  type ProposalRequest,
+  type ProposalSignature,
+  type ProposalSignatureInput,
+  type Quote,
+  type QuoteProposal,
+} from "@shared/schema";
+
+const appUrl = process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000";
+
+// Brand colours of the site (primary cyan, secondary violet)
+const PRIMARY_RGB: [number, number, number] = [0, 191, 255];
+const SECONDARY_RGB: [number, number, number] = [124, 58, 237];
+
+export function getProposalUrl(proposal: Pick<QuoteProposal, "token">): string {
+  return `${appUrl}/proposal/${proposal.token}`;
+}
+
+export function isProposalExpired(proposal: QuoteProposal, now = new Date()): boolean {
+  return proposal.status === "sent" && proposal.validUntil.getTime() < now.getTime();
+}
+
+async function notifyCustomer(quote: Quote, proposal: QuoteProposal): Promise<void> {
+  await sendEmail({
+    to: quote.email,
+    subject: `Proposta para o orçamento #${quote.id}` + (proposal.version > 1 ? ` (versão ${proposal.version})` : ""),
+    text:
+      `Olá ${quote.firstName},\n\n` +
+      `Preparámos a proposta para o seu projeto, no valor de ${formatCurrency(proposal.total, proposal.currency)}.\n\n` +
+      `Consulte-a, descarregue o PDF e aceite ou recuse em: ${getProposalUrl(proposal)}\n\n` +
+      `A proposta é válida até ${proposal.validUntil.toLocaleDateString("pt-PT")}.\n\nBragaWork`,
+  });
+}
+
+// Writes and sends a new version of the proposal for a quote. Problems come
+// back as a message for the admin.
+export async function createQuoteProposal(
+  quote: Quote,
+  input: ProposalRequest,
+  createdBy: number,
+): Promise<{ proposal: QuoteProposal } | { error: string }> {
+  if (quote.status === "lost") {
+    return { error: "Não é possível enviar proposta para um orçamento perdido" };
+  }
+  if (quote.price) {
+    return { error: "Este orçamento já foi aceite" };
+  }
+  const previous = await storage.getQuoteProposals(quote.id);
+  if (previous.some((proposal) => proposal.status === "accepted")) {
+    return { error: "O cliente já aceitou uma proposta para este orçamento" };
+  }
+
+  const validUntil = new Date(`${input.validUntil}T23:59:59`);
+  if (validUntil.getTime() < Date.now()) {
+    return { error: "A data de validade já passou" };
+  }
+
+  const total = calculateProposalTotal(input.items);
+  if (total <= 0) {
+    return { error: "O total da proposta tem de ser superior a zero" };
+  }
+
+  const proposal = await storage.createQuoteProposal({
+    quoteId: quote.id,
+    token: randomBytes(24).toString("hex"),
+    items: input.items,
+    total: total.toFixed(2),
+    currency: input.currency,
+    scope: input.scope,
+    timeline: input.timeline || null,
+    terms: input.terms || null,
+    validUntil,
+    createdBy,
+  });
+
+  try {
+    await notifyCustomer(quote, proposal);
+  } catch (error) {
+    console.error(`Proposal email for quote ${quote.id} failed:`, error);
+  }
+  return { proposal };
+}
+
+export interface SigningClient {
+  ipAddress: string;
+  userAgent: string | null;
+}
+
+// The part of the signature printed on the signed PDF
+type SignatureStamp = Pick<ProposalSignature, "signerName" | "signatureImage" | "ipAddress" | "signedAt">;
+
+function getAnswerError(proposal: QuoteProposal): string | null {
+  if (proposal.status === "superseded") return "Esta proposta foi substituída por uma versão mais recente";
+  if (proposal.status !== "sent") return "Esta proposta já foi respondida";
+  if (isProposalExpired(proposal)) return "Esta proposta já expirou";
+  return null;
+}
+
+async function notifyAdmin(proposal: QuoteProposal, quote: Quote, detail: string): Promise<void> {
+  const accepted = proposal.status === "accepted";
+  try {
+    await sendEmail({
+      to: adminEmail,
+      subject: `Proposta #${proposal.quoteId} v${proposal.version} ${accepted ? "aceite" : "recusada"}`,
+      text:
+        `${quote.firstName} ${quote.lastName} ${accepted ? "aceitou" : "recusou"} a proposta de ` +
+        `${formatCurrency(proposal.total, proposal.currency)}.` +
+        (detail ? `\n\n${detail}` : ""),
+    });
+  } catch (error) {
+    console.error(`Proposal answer email for quote ${proposal.quoteId} failed:`, error);
+  }
+}
+
+// Signs the proposal: the PDF is rendered once with the signature on it and
+// stored with its SHA-256, so the hash can be checked against what the
+// client downloads later.
+export async function acceptProposal(
+  proposal: QuoteProposal,
+  quote: Quote,
+  input: ProposalSignatureInput,
+  client: SigningClient,
+): Promise<{ proposal: QuoteProposal } | { error: string }> {
+  const answerError = getAnswerError(proposal);
+  if (answerError) return { error: answerError };
+
+  const stamp: SignatureStamp = {
+    signerName: input.signerName,
+    signatureImage: input.signature,
+    ipAddress: client.ipAddress,
+    signedAt: new Date(),
+  };
+  const pdf = renderProposalPdf({ ...proposal, status: "accepted" }, quote, stamp);
+  const documentHash = createHash("sha256").update(pdf).digest("hex");
+
+  const updated = await storage.acceptQuoteProposal(proposal.id, {
+    ...stamp,
+    proposalId: proposal.id,
+    quoteId: proposal.quoteId,
+    termsAccepted: input.acceptTerms,
+    userAgent: client.userAgent,
+    signedPdf: pdf.toString("base64"),
+    documentHash,
+  });
+  if (!updated) {
+    return { error: "Esta proposta já foi respondida" };
+  }
+
+  await notifyAdmin(updated, quote, `Assinada por ${stamp.signerName} (IP ${stamp.ipAddress}).\nSHA-256: ${documentHash}`);
+  return { proposal: updated };
+}
+
+export async function declineProposal(
+  proposal: QuoteProposal,
+  quote: Quote,
+  reason?: string | null,
+): Promise<{ proposal: QuoteProposal } | { error: string }> {
+  const answerError = getAnswerError(proposal);
+  if (answerError) return { error: answerError };
+
+  const updated = await storage.declineQuoteProposal(proposal.id, reason || null);
+  if (!updated) {
+    return { error: "Esta proposta já foi respondida" };
+  }
+
+  await notifyAdmin(updated, quote, reason ? `Motivo: ${reason}` : "");
+  return { proposal: updated };
+}
+
+export function renderProposalPdf(proposal: QuoteProposal, quote: Quote, signature?: SignatureStamp): Buffer {
+  const doc = new jsPDF();
+  if (signature) doc.setCreationDate(signature.signedAt);
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const textWidth = pageWidth - 40;
+
+  doc.setFillColor(...PRIMARY_RGB);
+  doc.rect(0, 0, pageWidth, 28, "F");
+  doc.setFillColor(...SECONDARY_RGB);
+  doc.rect(0, 28, pageWidth, 2, "F");
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(20);
+  doc.text(seller.name, 20, 18);
+  doc.setFontSize(12);
+  doc.text(`Proposta #${quote.id} · v${proposal.version}`, pageWidth - 20, 18, { align: "right" });
+  doc.setTextColor(0, 0, 0);
+
+  doc.setFontSize(10);
+  doc.text(
+    [
+      `Data: ${new Date(proposal.createdAt!).toLocaleDateString("pt-PT")}`,
+      `Válida até: ${proposal.validUntil.toLocaleDateString("pt-PT")}`,
+    ],
+    pageWidth - 20,
+    42,
+    { align: "right" },
+  );
+  doc.text("Cliente", 20, 42);
+  doc.text([`${quote.firstName} ${quote.lastName}`, quote.email, `${quote.countryCode} ${quote.phone}`], 20, 48);
+
+  if (proposal.status === "superseded" || isProposalExpired(proposal)) {
+    doc.setTextColor(200, 0, 0);
+    doc.setFontSize(14);
+    doc.text(proposal.status === "superseded" ? "SUBSTITUÍDA" : "EXPIRADA", pageWidth - 20, 58, { align: "right" });
+    doc.setTextColor(0, 0, 0);
+  }
+
+  let y = 72;
+  const section = (title: string, body: string) => {
+    const lines: string[] = doc.splitTextToSize(body, textWidth);
+    if (y + 14 > pageHeight - 20) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.setFontSize(12);
+    doc.setTextColor(...SECONDARY_RGB);
+    doc.text(title, 20, y);
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(10);
+    y += 6;
+    for (const line of lines) {
+      if (y > pageHeight - 20) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.text(line, 20, y);
+      y += 5;
+    }
+    y += 6;
+  };
+
+  section("Âmbito do projeto", proposal.scope);
+
+  autoTable(doc, {
+    startY: y,
+    head: [["Descrição", "Qtd.", "Preço Unit.", "Total"]],
+    body: proposal.items.map((item) => [
+      item.description,
+      item.quantity.toString(),
+      formatCurrency(item.unitPrice, proposal.currency),
+      formatCurrency(item.quantity * item.unitPrice, proposal.currency),
+    ]),
+    foot: [["", "", "Total", formatCurrency(proposal.total, proposal.currency)]],
+    theme: "striped",
+    headStyles: { fillColor: PRIMARY_RGB },
+    footStyles: { fillColor: SECONDARY_RGB },
+    didDrawPage: (data) => {
+      y = (data.cursor?.y ?? y) + 10;
+    },
+  });
+
+  if (proposal.timeline) section("Prazos", proposal.timeline);
+  if (proposal.terms) section("Termos e condições", proposal.terms);
+
+  if (signature) {
+    if (y + 60 > pageHeight - 20) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.setFontSize(12);
+    doc.setTextColor(...SECONDARY_RGB);
+    doc.text("Aceitação", 20, y);
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(10);
+    doc.text("O cliente leu e aceitou a proposta e os respetivos termos.", 20, y + 6);
+    doc.addImage(signature.signatureImage, "PNG", 20, y + 10, 70, 25);
+    doc.line(20, y + 36, 90, y + 36);
+    doc.text(
+      [
+        signature.signerName,
+        `Assinado eletronicamente em ${signature.signedAt.toLocaleString("pt-PT")}`,
+        `IP: ${signature.ipAddress}`,
+      ],
+      20,
+      y + 41,
+    );
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.text(`${seller.name} - ${seller.email}`, 20, pageHeight - 10);
+    doc.text(`${page}/${pageCount}`, pageWidth - 20, pageHeight - 10, { align: "right" });
+  }
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -0,0 +1,36 @@
+import { storage } from "./storage";
+import { buildQuestionnaireSchema, type QuestionAnswerValue, type QuestionField, type QuoteAnswer } from "@shared/schema";
+
+export async function getQuestionnaireFields(serviceType: string, businessSegment: string): Promise<QuestionField[]> {
+  const questionnaire = await storage.getQuoteQuestionnaire(serviceType, businessSegment);
+  return questionnaire?.fields ?? [];
+}
+
+function isAnswered(value: QuestionAnswerValue | undefined): value is QuestionAnswerValue {
+  if (value === undefined) return false;
+  if (typeof value === "string") return value.trim() !== "";
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+// Checks the answers against the questionnaire of the quote's service type and
+// segment and keeps them with the questions as asked. Throws a ZodError on
+// invalid answers; null when there is no questionnaire.
+export async function parseQuoteAnswers(
+  serviceType: string,
+  businessSegment: string,
+  answers: unknown,
+): Promise<QuoteAnswer[] | null> {
+  const fields = await getQuestionnaireFields(serviceType, businessSegment);
+  if (fields.length === 0) return null;
+
+  const parsed: Record<string, QuestionAnswerValue | undefined> = buildQuestionnaireSchema(fields).parse(answers ?? {});
+  const result: QuoteAnswer[] = [];
+  for (const field of fields) {
+    const value = parsed[field.id];
+    if (isAnswered(value)) {
+      result.push({ fieldId: field.id, label: field.label, type: field.type, value });
+    }
+  }
+  return result;
+}
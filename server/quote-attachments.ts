@@ -0,0 +1,150 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { fileStorage } from "./file-storage";
+import { scanFile } from "./virus-scan";
+import type { MultipartFile } from "./multipart";
+import {
+  maxQuoteAttachments,
+  maxQuoteAttachmentSize,
+  type QuoteAttachment,
+  type QuoteAttachmentInfo,
+  type QuoteDraft,
+} from "@shared/schema";
+
+// Largest upload request: every file at the limit plus the multipart framing
+export const maxAttachmentRequestSize = maxQuoteAttachments * maxQuoteAttachmentSize + 64 * 1024;
+
+// Accepted extensions and the content type they are stored and served with
+const allowedTypes: Record<string, string> = {
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  txt: "text/plain",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  zip: "application/zip",
+};
+
+// First bytes of binary formats, so a renamed executable is not accepted as
+// a PDF or an image. Text formats (txt, svg) are not checked.
+const signatures: Record<string, string[]> = {
+  pdf: ["25504446"],
+  png: ["89504e47"],
+  jpg: ["ffd8ff"],
+  jpeg: ["ffd8ff"],
+  gif: ["47494638"],
+  webp: ["52494646"],
+  doc: ["d0cf11e0"],
+  docx: ["504b0304"],
+  pptx: ["504b0304"],
+  zip: ["504b0304"],
+};
+
+export function toAttachmentInfo(attachment: QuoteAttachment): QuoteAttachmentInfo {
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    createdAt: attachment.createdAt,
+  };
+}
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot === -1 ? "" : fileName.slice(dot + 1).toLowerCase();
+}
+
+// Keeps names printable and short; the original is only shown, never used as a path
+function cleanFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? "";
+  return base.replace(/[\x00-\x1f"]/g, "").slice(-120) || "ficheiro";
+}
+
+function getFileError(file: MultipartFile): string | null {
+  const extension = getExtension(file.fileName);
+  if (!Object.keys(allowedTypes).includes(extension)) {
+    return `Tipo de ficheiro não aceite: ${file.fileName}`;
+  }
+  if (file.data.length === 0) {
+    return `O ficheiro ${file.fileName} está vazio`;
+  }
+  if (file.data.length > maxQuoteAttachmentSize) {
+    return `O ficheiro ${file.fileName} tem mais de ${maxQuoteAttachmentSize / 1024 / 1024} MB`;
+  }
+  const expected = signatures[extension];
+  const head = file.data.subarray(0, 4).toString("hex");
+  if (expected && !expected.some((signature) => head.startsWith(signature))) {
+    return `O conteúdo de ${file.fileName} não corresponde ao tipo de ficheiro`;
+  }
+  return null;
+}
+
+// Checks every file before storing any, so an upload is all or nothing.
+// Problems come back as a message for the visitor.
+export async function addDraftAttachments(
+  draft: QuoteDraft,
+  files: MultipartFile[],
+): Promise<{ attachments: QuoteAttachment[] } | { error: string }> {
+  if (files.length === 0) {
+    return { error: "Nenhum ficheiro enviado" };
+  }
+
+  const existing = await storage.getQuoteAttachmentsByDraft(draft.id);
+  if (existing.length + files.length > maxQuoteAttachments) {
+    return { error: `Pode anexar até ${maxQuoteAttachments} ficheiros` };
+  }
+
+  for (const file of files) {
+    const fileError = getFileError(file);
+    if (fileError) return { error: fileError };
+  }
+
+  for (const file of files) {
+    const result = await scanFile({ fileName: file.fileName, data: file.data });
+    if (!result.clean) {
+      console.error(`Upload ${file.fileName} for draft ${draft.id} blocked: ${result.threat}`);
+      return { error: `O ficheiro ${file.fileName} foi bloqueado pela verificação de segurança` };
+    }
+  }
+
+  const attachments: QuoteAttachment[] = [];
+  for (const file of files) {
+    const extension = getExtension(file.fileName);
+    const storageKey = `quote-drafts/${draft.id}/${randomBytes(16).toString("hex")}.${extension}`;
+    await fileStorage.put(storageKey, file.data);
+    attachments.push(
+      await storage.createQuoteAttachment({
+        draftId: draft.id,
+        quoteId: draft.quoteId,
+        fileName: cleanFileName(file.fileName),
+        contentType: allowedTypes[extension],
+        size: file.data.length,
+        storageKey,
+        sha256: createHash("sha256").update(file.data).digest("hex"),
+      }),
+    );
+  }
+  return { attachments };
+}
+
+export async function removeQuoteAttachment(attachment: QuoteAttachment): Promise<void> {
+  await storage.deleteQuoteAttachment(attachment.id);
+  await fileStorage.delete(attachment.storageKey);
+}
+
+// For attachments whose rows are already gone, e.g. with a deleted quote
+export async function removeAttachmentFiles(attachments: QuoteAttachment[]): Promise<void> {
+  for (const attachment of attachments) {
+    await fileStorage.delete(attachment.storageKey);
+  }
+}
+
+export function readQuoteAttachment(attachment: QuoteAttachment): Promise<Buffer | null> {
+  return fileStorage.get(attachment.storageKey);
+}
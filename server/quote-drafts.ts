@@ -0,0 +1,160 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { sendEmail } from "./mailer";
+import { isOverLimit } from "./abuse";
+import type { QuoteDraft, QuoteDraftSave } from "@shared/schema";
+
+const appUrl = process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000";
+
+// Drafts untouched for this long count as abandoned in the report
+export const abandonedAfterHours = 24;
+
+// One resume email per draft in this window, and a few a day per address
+// whatever the draft, so the form cannot be used to flood someone's inbox
+const resumeLinkCooldownMinutes = 10;
+const resumeLinksPerAddress = { limit: 3, windowMinutes: 24 * 60 };
+
+// What the browser gets back: enough to refill the form, nothing else
+export interface QuoteDraftResponse {
+  token: string;
+  step: number;
+  data: QuoteDraft["data"];
+  updatedAt: Date | null;
+}
+
+export function toQuoteDraftResponse(draft: QuoteDraft): QuoteDraftResponse {
+  return { token: draft.token, step: draft.step, data: draft.data, updatedAt: draft.updatedAt };
+}
+
+export function getQuoteDraftUrl(draft: Pick<QuoteDraft, "token">): string {
+  return `${appUrl}/quote?draft=${draft.token}`;
+}
+
+// A draft started while signed in stays with that account
+export function canUseQuoteDraft(draft: QuoteDraft, userId: number | null): boolean {
+  return !draft.quoteId && (!draft.userId || draft.userId === userId);
+}
+
+function getValidEmail(email?: string): string | null {
+  const trimmed = email?.trim();
+  return trimmed && z.string().email().safeParse(trimmed).success ? trimmed.toLowerCase() : null;
+}
+
+// Creates the draft on the first save (no token yet) and updates it after.
+// Problems come back as a message for the visitor.
+export async function saveQuoteDraft(
+  token: string | null,
+  input: QuoteDraftSave,
+  userId: number | null,
+): Promise<{ draft: QuoteDraft } | { error: string }> {
+  const email = getValidEmail(input.data.email);
+
+  if (!token) {
+    const draft = await storage.createQuoteDraft({
+      token: randomBytes(24).toString("hex"),
+      userId,
+      data: input.data,
+      step: input.step,
+      email,
+    });
+    return { draft };
+  }
+
+  const existing = await storage.getQuoteDraftByToken(token);
+  if (!existing || !canUseQuoteDraft(existing, userId)) {
+    return { error: "Rascunho não encontrado" };
+  }
+
+  const draft = await storage.updateQuoteDraft(existing.id, {
+    data: input.data,
+    step: input.step,
+    email,
+    userId: existing.userId ?? userId,
+  });
+  if (!draft) {
+    return { error: "Este orçamento já foi enviado" };
+  }
+  return { draft };
+}
+
+export async function sendQuoteDraftResumeLink(draft: QuoteDraft): Promise<{ sent: true } | { error: string }> {
+  if (!draft.email) {
+    return { error: "Indique um email válido no primeiro passo" };
+  }
+  if (draft.resumeSentAt && Date.now() - draft.resumeSentAt.getTime() < resumeLinkCooldownMinutes * 60 * 1000) {
+    return { error: "Já enviámos o link há pouco. Verifique a sua caixa de correio." };
+  }
+  if (isOverLimit("resume-emails", draft.email, resumeLinksPerAddress)) {
+    return { error: "Já enviámos vários links para este email hoje. Verifique a sua caixa de correio." };
+  }
+
+  // The address is not verified, so nothing the visitor typed goes in the
+  // email besides it
+  await sendEmail({
+    to: draft.email,
+    subject: "Continue o seu pedido de orçamento",
+    text:
+      `Olá,\n\n` +
+      `Guardámos o seu pedido de orçamento tal como o deixou.\n\n` +
+      `Continue onde ficou em: ${getQuoteDraftUrl(draft)}\n\nBragaWork`,
+  });
+  await storage.updateQuoteDraft(draft.id, { resumeSentAt: new Date() });
+  return { sent: true };
+}
+
+// Called once the quote is created, also linking the draft's attachments.
+// A missing or foreign token is ignored.
+export async function completeQuoteDraft(token: string, quoteId: number, userId: number | null): Promise<void> {
+  const draft = await storage.getQuoteDraftByToken(token);
+  if (!draft || !canUseQuoteDraft(draft, userId)) return;
+  await storage.completeQuoteDraft(draft.id, quoteId);
+}
+
+export interface AbandonedDraftReport {
+  abandonedAfterHours: number;
+  total: number;
+  byStep: Array<{ step: number; count: number }>;
+  drafts: Array<{
+    id: number;
+    step: number;
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    serviceType: string | null;
+    businessSegment: string | null;
+    resumeSentAt: Date | null;
+    createdAt: Date | null;
+    updatedAt: Date | null;
+  }>;
+}
+
+// Unsubmitted drafts grouped by the step where the visitor stopped
+export async function getAbandonedDraftReport(now = new Date()): Promise<AbandonedDraftReport> {
+  const drafts = await storage.getAbandonedQuoteDrafts(
+    new Date(now.getTime() - abandonedAfterHours * 60 * 60 * 1000),
+  );
+
+  const byStep = [1, 2, 3, 4, 5, 6].map((step) => ({
+    step,
+    count: drafts.filter((draft) => draft.step === step).length,
+  }));
+
+  return {
+    abandonedAfterHours,
+    total: drafts.length,
+    byStep,
+    drafts: drafts.map((draft) => ({
+      id: draft.id,
+      step: draft.step,
+      name: [draft.data.firstName, draft.data.lastName].filter(Boolean).join(" ") || null,
+      email: draft.email,
+      phone: draft.data.phone ? `${draft.data.countryCode ?? ""} ${draft.data.phone}`.trim() : null,
+      serviceType: draft.data.serviceType || null,
+      businessSegment: draft.data.businessSegment || null,
+      resumeSentAt: draft.resumeSentAt,
+      createdAt: draft.createdAt,
+      updatedAt: draft.updatedAt,
+    })),
+  };
+}
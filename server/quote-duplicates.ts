@@ -0,0 +1,189 @@
+import { storage } from "./storage";
+import type { Quote, QuoteDuplicateReason } from "@shared/schema";
+
+// Names at least this similar (0..1) count as the same person
+const nameSimilarityThreshold = 0.85;
+
+// Similar names alone only count when the quotes are this close in time
+const nameMatchWindowDays = 30;
+
+// Phones shorter than this are typos or placeholders, not a way to match people
+const minPhoneDigits = 6;
+
+const gmailDomains = ["gmail.com", "googlemail.com"];
+
+// Lowercased, without a +tag, and for Gmail without the dots it ignores
+export function normalizeEmail(email: string): string {
+  const [local, domain] = email.trim().toLowerCase().split("@");
+  if (!domain) return local;
+  const name = local.split("+")[0];
+  if (gmailDomains.includes(domain)) {
+    return `${name.replace(/\./g, "")}@gmail.com`;
+  }
+  return `${name}@${domain}`;
+}
+
+// Country code and national number as digits only. Clients often type the
+// country code again, or a leading 0, into the phone field.
+export function normalizePhone(countryCode: string, phone: string): string | null {
+  const code = countryCode.replace(/\D/g, "");
+  let national = phone.replace(/\D/g, "").replace(/^00/, "");
+  if (code && national.startsWith(code) && national.length - code.length >= minPhoneDigits + 2) {
+    national = national.slice(code.length);
+  }
+  national = national.replace(/^0+/, "");
+  if (national.length < minPhoneDigits) return null;
+  return `${code}${national}`;
+}
+
+export function normalizeName(firstName: string, lastName: string): string {
+  return `${firstName} ${lastName}`
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+// Also compares the words sorted, so "Silva Ana" matches "Ana Silva"
+export function nameSimilarity(a: string, b: string): number {
+  const sorted = (name: string) => name.split(" ").sort().join(" ");
+  return Math.max(similarity(a, b), similarity(sorted(a), sorted(b)));
+}
+
+export interface DuplicateGroup {
+  quoteIds: number[]; // oldest first
+  reasons: QuoteDuplicateReason[];
+}
+
+// Groups open leads that look like the same client: same email, same phone or
+// a near-identical name within a short time. Matches chain, so A~B and B~C
+// put all three in one group. Quarantined and merged quotes are left out.
+export function findDuplicateGroups(quotes: Quote[]): DuplicateGroup[] {
+  const candidates = quotes
+    .filter((quote) => !quote.quarantined && !quote.mergedIntoId)
+    .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasonsByRoot = new Map<number, Set<QuoteDuplicateReason>>();
+  const pairReasons: Array<[number, number, QuoteDuplicateReason]> = [];
+
+  const byEmail = new Map<string, number>();
+  const byPhone = new Map<string, number>();
+  candidates.forEach((quote, i) => {
+    const email = normalizeEmail(quote.email);
+    const seenEmail = byEmail.get(email);
+    if (seenEmail !== undefined) pairReasons.push([seenEmail, i, "email"]);
+    else byEmail.set(email, i);
+
+    const phone = normalizePhone(quote.countryCode, quote.phone);
+    if (phone) {
+      const seenPhone = byPhone.get(phone);
+      if (seenPhone !== undefined) pairReasons.push([seenPhone, i, "phone"]);
+      else byPhone.set(phone, i);
+    }
+  });
+
+  const windowMs = nameMatchWindowDays * 24 * 60 * 60 * 1000;
+  const names = candidates.map((quote) => normalizeName(quote.firstName, quote.lastName));
+  const times = candidates.map((quote) => new Date(quote.createdAt!).getTime());
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length && times[j] - times[i] <= windowMs; j++) {
+      if (names[i] && nameSimilarity(names[i], names[j]) >= nameSimilarityThreshold) {
+        pairReasons.push([i, j, "name"]);
+      }
+    }
+  }
+
+  for (const [a, b] of pairReasons) {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  }
+  for (const [a, , reason] of pairReasons) {
+    const root = find(a);
+    if (!reasonsByRoot.has(root)) reasonsByRoot.set(root, new Set());
+    reasonsByRoot.get(root)!.add(reason);
+  }
+
+  const groups: DuplicateGroup[] = [];
+  reasonsByRoot.forEach((reasons, root) => {
+    const quoteIds = candidates.filter((_, i) => find(i) === root).map((quote) => quote.id);
+    groups.push({ quoteIds, reasons: Array.from(reasons) });
+  });
+  return groups;
+}
+
+export async function getDuplicateGroups(): Promise<DuplicateGroup[]> {
+  return findDuplicateGroups(await storage.getAllQuotes());
+}
+
+// Folds the duplicates into the primary lead. The primary keeps its own data
+// and only takes over what it is missing: the client account, the project
+// description and the questionnaire answers.
+export async function mergeQuotes(
+  primary: Quote,
+  duplicateIds: number[],
+  userId: number,
+): Promise<{ error: string } | { quote: Quote }> {
+  const ids = Array.from(new Set(duplicateIds)).filter((id) => id !== primary.id);
+  if (ids.length === 0) {
+    return { error: "Escolha pelo menos um duplicado" };
+  }
+  if (primary.mergedIntoId) {
+    return { error: "Este orçamento já foi fundido noutro" };
+  }
+
+  const duplicates: Quote[] = [];
+  for (const id of ids) {
+    const duplicate = await storage.getQuote(id);
+    if (!duplicate) {
+      return { error: `Orçamento #${id} não encontrado` };
+    }
+    if (duplicate.mergedIntoId) {
+      return { error: `O orçamento #${id} já foi fundido noutro` };
+    }
+    if (duplicate.status === "won") {
+      return { error: `O orçamento #${id} já foi ganho e não pode ser fundido` };
+    }
+    duplicates.push(duplicate);
+  }
+
+  const changes: Partial<Pick<Quote, "userId" | "projectDescription" | "answers">> = {};
+  for (const duplicate of duplicates) {
+    if (!primary.userId && !changes.userId && duplicate.userId) {
+      changes.userId = duplicate.userId;
+    }
+    if (!primary.projectDescription?.trim() && !changes.projectDescription && duplicate.projectDescription?.trim()) {
+      changes.projectDescription = duplicate.projectDescription;
+    }
+    if (!primary.answers?.length && !changes.answers && duplicate.answers?.length) {
+      changes.answers = duplicate.answers;
+    }
+  }
+
+  const quote = await storage.mergeQuotes(primary.id, duplicates, changes, userId);
+  if (!quote) {
+    return { error: "Um dos orçamentos foi fundido entretanto. Atualize e tente novamente." };
+  }
+  return { quote };
+}
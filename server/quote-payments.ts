@@ -0,0 +1,171 @@
+import { storage, type NewQuoteMilestone } from "./storage";
+import { generatePaymentCode } from "./payment-codes";
+import { getRefundedAmount } from "./refunds";
+import { sendEmail } from "./mailer";
+import { formatCurrency, splitScheduleAmounts, type PaymentScheduleInput, type Quote } from "@shared/schema";
+
+const appUrl = process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000";
+
+// Payments that settled a milestone (later refunds are subtracted from what was paid)
+const settledPaymentStatuses = ["succeeded", "partially_refunded", "refunded"];
+
+// 'open' milestones still wait for the customer; 'processing' ones have a
+// Multibanco or MB WAY payment on its way
+export type MilestoneStatus = "open" | "processing" | "paid";
+
+export interface MilestoneSummary {
+  id: number;
+  position: number;
+  label: string;
+  percentage: string;
+  amount: string;
+  dueDate: Date | null;
+  code: string;
+  status: MilestoneStatus;
+  paid: string;
+  paidAt: Date | null;
+}
+
+export interface QuotePaymentSummary {
+  price: string;
+  currency: string;
+  paid: string;
+  balance: string;
+  milestones: MilestoneSummary[];
+}
+
+async function generateUniqueCode(taken: Set<string>): Promise<string> {
+  let code = generatePaymentCode("numeric");
+  while (taken.has(code) || (await storage.getPaymentCodeByCode(code))) {
+    code = generatePaymentCode("numeric");
+  }
+  taken.add(code);
+  return code;
+}
+
+export async function getQuotePaymentSummary(quote: Quote): Promise<QuotePaymentSummary | null> {
+  if (!quote.price) return null;
+
+  const milestones = await storage.getQuoteMilestones(quote.id);
+  const payments = await storage.getPaymentsByPaymentCodes(milestones.map((m) => m.paymentCodeId));
+
+  let paidTotal = 0;
+  let balance = 0;
+  const summaries: MilestoneSummary[] = [];
+
+  for (const milestone of milestones) {
+    const milestonePayments = payments.filter((p) => p.paymentCodeId === milestone.paymentCodeId);
+    const settled = milestonePayments.filter((p) => settledPaymentStatuses.includes(p.status));
+
+    let paid = 0;
+    for (const payment of settled) {
+      paid += parseFloat(payment.amount) - getRefundedAmount(await storage.getRefundsByPayment(payment.id));
+    }
+
+    const status: MilestoneStatus =
+      settled.length > 0 ? "paid" : milestonePayments.some((p) => p.status === "pending") ? "processing" : "open";
+
+    paidTotal += paid;
+    if (status !== "paid") balance += parseFloat(milestone.amount);
+
+    summaries.push({
+      id: milestone.id,
+      position: milestone.position,
+      label: milestone.label,
+      percentage: milestone.percentage,
+      amount: milestone.amount,
+      dueDate: milestone.dueDate,
+      code: milestone.paymentCode.code,
+      status,
+      paid: paid.toFixed(2),
+      paidAt: settled[0]?.createdAt ?? null,
+    });
+  }
+
+  return {
+    price: quote.price,
+    currency: quote.currency,
+    paid: paidTotal.toFixed(2),
+    balance: balance.toFixed(2),
+    milestones: summaries,
+  };
+}
+
+async function notifyCustomer(quote: Quote, summary: QuotePaymentSummary): Promise<void> {
+  const lines = summary.milestones.map(
+    (m) =>
+      `• ${m.label} (${parseFloat(m.percentage)}%): ${formatCurrency(m.amount, summary.currency)}` +
+      (m.dueDate ? ` até ${m.dueDate.toLocaleDateString("pt-PT")}` : "") +
+      ` - código ${m.code}`,
+  );
+
+  await sendEmail({
+    to: quote.email,
+    subject: `Orçamento #${quote.id} aceite - plano de pagamentos`,
+    text:
+      `Olá ${quote.firstName},\n\n` +
+      `O seu projeto foi aceite pelo valor de ${formatCurrency(summary.price, summary.currency)}, a pagar nas seguintes prestações:\n\n` +
+      `${lines.join("\n")}\n\n` +
+      `Pague cada prestação com o respetivo código em ${appUrl}/payment/code ` +
+      `e acompanhe o saldo na sua área de cliente: ${appUrl}/profile\n\nBragaWork`,
+  });
+}
+
+const scheduleExistsError = "Este orçamento já tem um plano de pagamentos";
+
+// Accepts a quote with its agreed price and creates one payment code per
+// milestone, bound to the customer's email. Problems come back as a message
+// for the admin.
+export async function createQuotePaymentSchedule(
+  quote: Quote,
+  input: PaymentScheduleInput,
+  userId: number,
+): Promise<{ summary: QuotePaymentSummary } | { error: string }> {
+  if (quote.price) {
+    return { error: scheduleExistsError };
+  }
+  if (quote.status === "lost") {
+    return { error: "Não é possível aceitar um orçamento perdido" };
+  }
+
+  const amounts = splitScheduleAmounts(input.price, input.milestones.map((m) => m.percentage));
+  if (amounts.some((amount) => parseFloat(amount) < 0.5)) {
+    return { error: `Cada prestação tem de ser de pelo menos ${formatCurrency(0.5, input.currency)}` };
+  }
+
+  const taken = new Set<string>();
+  const milestones: NewQuoteMilestone[] = [];
+  for (let index = 0; index < input.milestones.length; index++) {
+    const milestone = input.milestones[index];
+    milestones.push({
+      position: index + 1,
+      label: milestone.label,
+      percentage: milestone.percentage.toFixed(2),
+      amount: amounts[index],
+      dueDate: milestone.dueDate ? new Date(`${milestone.dueDate}T23:59:59`) : null,
+      paymentCode: {
+        code: await generateUniqueCode(taken),
+        amount: amounts[index],
+        amountType: "fixed",
+        currency: input.currency,
+        description: `Orçamento #${quote.id} - ${milestone.label}`,
+        clientEmail: quote.email,
+        maxUses: 1,
+      },
+    });
+  }
+
+  const created = await storage.createPaymentSchedule(quote.id, input.price.toFixed(2), input.currency, milestones, userId);
+  if (!created) {
+    return { error: scheduleExistsError };
+  }
+
+  const accepted = (await storage.getQuote(quote.id))!;
+  const summary = (await getQuotePaymentSummary(accepted))!;
+  try {
+    await notifyCustomer(accepted, summary);
+  } catch (error) {
+    console.error(`Payment schedule email for quote ${quote.id} failed:`, error);
+  }
+  return { summary };
+}
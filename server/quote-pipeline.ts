@@ -0,0 +1,40 @@
+import { storage } from "./storage";
+import {
+  canChangeQuoteStatus,
+  quoteLostReasons,
+  quoteStatusLabels,
+  type Quote,
+  type QuoteStatus,
+  type QuoteStatusChange,
+} from "@shared/schema";
+
+// Moves a quote through the pipeline on behalf of an admin, recording the
+// change on its timeline. Problems come back as a message for the admin.
+export async function changeQuoteStatus(
+  quote: Quote,
+  input: QuoteStatusChange,
+  userId: number,
+): Promise<{ quote: Quote } | { error: string }> {
+  if (quote.status === input.status) {
+    return { error: "O orçamento já está neste estado" };
+  }
+  if (!canChangeQuoteStatus(quote.status, input.status)) {
+    const from = quoteStatusLabels[quote.status as QuoteStatus] ?? quote.status;
+    return { error: `Não é possível passar de "${from}" para "${quoteStatusLabels[input.status]}"` };
+  }
+
+  // The reason goes on the timeline too, as the quote only keeps the latest one
+  const lostReason = input.status === "lost" ? input.lostReason ?? null : null;
+  const note = [lostReason && `Motivo: ${quoteLostReasons[lostReason]}`, input.note].filter(Boolean).join("\n");
+
+  const updated = await storage.changeQuoteStatus(
+    quote.id,
+    quote.status,
+    { status: input.status, lostReason },
+    { note: note || null, userId },
+  );
+  if (!updated) {
+    return { error: "O orçamento foi alterado entretanto. Atualize a página." };
+  }
+  return { quote: updated };
+}
@@ -0,0 +1,114 @@
+import type Stripe from "stripe";
+import { storage } from "./storage";
+import { formatCurrency, type Payment, type Refund } from "@shared/schema";
+
+// The subset of the Stripe client needed to issue refunds, so a stub can be
+// passed in place of the real client.
+export type RefundStripeClient = Pick<Stripe, "refunds">;
+
+const refundablePaymentStatuses = ["succeeded", "partially_refunded"];
+
+// Refunds that have been, or are about to be, returned to the customer
+export function isActiveRefund(refund: Refund): boolean {
+  return refund.status !== "failed" && refund.status !== "canceled";
+}
+
+export function getRefundedAmount(refunds: Refund[]): number {
+  return refunds.filter(isActiveRefund).reduce((acc, r) => acc + parseFloat(r.amount), 0);
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100);
+}
+
+async function updatePaymentRefundStatus(payment: Payment): Promise<void> {
+  const refunded = toCents(getRefundedAmount(await storage.getRefundsByPayment(payment.id)));
+  const total = toCents(parseFloat(payment.amount));
+
+  // Back to succeeded when every refund failed or was canceled
+  const status = refunded === 0 ? "succeeded" : refunded >= total ? "refunded" : "partially_refunded";
+  if (status !== payment.status) {
+    await storage.updatePaymentStatus(payment.id, status);
+  }
+}
+
+// Refunds `amount` (or everything still refundable) through Stripe and
+// records it. Validation problems come back as a message for the admin.
+export async function refundPayment(
+  client: RefundStripeClient,
+  payment: Payment,
+  options: { amount?: number; reason?: string; adminId: number },
+): Promise<{ refund: Refund } | { error: string }> {
+  if (!refundablePaymentStatuses.includes(payment.status)) {
+    return { error: "Este pagamento não pode ser reembolsado" };
+  }
+
+  if (!payment.stripePaymentId.startsWith("pi_")) {
+    return { error: "Pagamento sem PaymentIntent do Stripe associado" };
+  }
+
+  const existing = await storage.getRefundsByPayment(payment.id);
+  const refundable = toCents(parseFloat(payment.amount)) - toCents(getRefundedAmount(existing));
+  const amount = options.amount === undefined ? refundable : toCents(options.amount);
+
+  if (!Number.isFinite(amount) || amount <= 0 || amount > refundable) {
+    const currency = payment.currency || "EUR";
+    return { error: `O valor do reembolso deve estar entre ${formatCurrency(0.01, currency)} e ${formatCurrency(refundable / 100, currency)}` };
+  }
+
+  const stripeRefund = await client.refunds.create({
+    payment_intent: payment.stripePaymentId,
+    amount,
+    reason: "requested_by_customer",
+    metadata: { paymentId: payment.id.toString(), reason: options.reason ?? "" },
+  });
+
+  // The charge.refunded webhook may have recorded it already
+  const refund =
+    (await storage.getRefundByStripeId(stripeRefund.id)) ??
+    (await storage.createRefund({
+      paymentId: payment.id,
+      paymentCodeId: payment.paymentCodeId,
+      stripeRefundId: stripeRefund.id,
+      amount: (amount / 100).toFixed(2),
+      currency: payment.currency,
+      reason: options.reason || null,
+      status: stripeRefund.status ?? "pending",
+      createdBy: options.adminId,
+    }));
+
+  await updatePaymentRefundStatus(payment);
+  return { refund };
+}
+
+// Mirrors a Stripe refund locally, including ones issued from the Stripe
+// dashboard, and keeps the payment status in line with it.
+export async function syncStripeRefund(stripeRefund: Stripe.Refund): Promise<void> {
+  const paymentIntentId =
+    typeof stripeRefund.payment_intent === "string" ? stripeRefund.payment_intent : stripeRefund.payment_intent?.id;
+  if (!paymentIntentId) return;
+
+  const payment = await storage.getPaymentByStripePaymentId(paymentIntentId);
+  if (!payment) return;
+
+  const status = stripeRefund.status ?? "pending";
+  const existing = await storage.getRefundByStripeId(stripeRefund.id);
+  if (existing) {
+    if (existing.status !== status) {
+      await storage.updateRefundStatus(existing.id, status);
+    }
+  } else {
+    await storage.createRefund({
+      paymentId: payment.id,
+      paymentCodeId: payment.paymentCodeId,
+      stripeRefundId: stripeRefund.id,
+      amount: (stripeRefund.amount / 100).toFixed(2),
+      currency: stripeRefund.currency.toUpperCase(),
+      reason: stripeRefund.metadata?.reason || stripeRefund.reason,
+      status,
+      createdBy: null,
+    });
+  }
+
+  await updatePaymentRefundStatus(payment);
+}
@@ -1,11 +1,111 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import type { Server } from "http";
 import session from "express-session";
 import passport from "passport";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
-import Stripe from "stripe";
 import { storage } from "./storage";
-import { insertQuoteSchema, insertProjectSchema, insertReviewSchema, insertPaymentCodeSchema } from "@shared/schema";
+import { stripe } from "./stripe";
+import { handleStripeWebhook } from "./stripe-webhooks";
+import { seedDefaultPlans } from "./plans";
+import {
+  setCancelAtPeriodEnd,
+  changeSubscriptionPlan,
+  createPortalSession,
+  listInvoices,
+  isBillingInterval,
+  billingIntervalNames,
+  getPlanPriceData,
+  getStripePriceId,
+  withoutOutdatedPriceIds,
+} from "./billing";
+import {
+  generatePaymentCode,
+  normalizePaymentCode,
+  isPaymentCodeRedeemable,
+  matchesCodeClient,
+  resolvePaymentCodeAmount,
+  startCodeAttempt,
+  recordCodeAttempt,
+  type CodeClient,
+} from "./payment-codes";
+import { refundPayment, getRefundedAmount, isActiveRefund } from "./refunds";
+import { issueInvoice, issueInvoiceForPayment, renderInvoicePdf } from "./invoices";
+import { buildSaftFile } from "./saft";
+import { startPayment, isPaymentMethod, isPaymentMethodAvailable, type PaymentStart } from "./payment-methods";
+import { runDunning, reminderDays, graceDays } from "./dunning";
+import { createQuotePaymentSchedule, getQuotePaymentSummary } from "./quote-payments";
+import { getExchangeRate, getExchangeRateTable, toBaseCurrency } from "./exchange-rates";
+import { estimateQuote, seedDefaultPricingRules } from "./pricing";
+import { changeQuoteStatus } from "./quote-pipeline";
+import { getQuestionnaireFields, parseQuoteAnswers } from "./questionnaires";
+import {
+  saveQuoteDraft,
+  sendQuoteDraftResumeLink,
+  completeQuoteDraft,
+  canUseQuoteDraft,
+  toQuoteDraftResponse,
+  getAbandonedDraftReport,
+} from "./quote-drafts";
+import {
+  addDraftAttachments,
+  removeQuoteAttachment,
+  removeAttachmentFiles,
+  readQuoteAttachment,
+  toAttachmentInfo,
+  maxAttachmentRequestSize,
+} from "./quote-attachments";
+import { parseMultipart } from "./multipart";
+import { rateLimit, checkPublicForm, issueChallenge, challengeForms, type ChallengeForm } from "./abuse";
+import { getDuplicateGroups, mergeQuotes } from "./quote-duplicates";
+import {
+  acceptProposal,
+  createQuoteProposal,
+  declineProposal,
+  isProposalExpired,
+  renderProposalPdf,
+} from "./proposals";
+import {
+  applyCoupon,
+  getCouponMetadata,
+  getStripeCouponId,
+  recordCouponRedemption,
+  invalidCouponError,
+  type AppliedCoupon,
+  type CouponTarget,
+} from "./coupons";
+import {
+  insertQuoteSchema,
+  insertProjectSchema,
+  insertReviewSchema,
+  insertPaymentCodeSchema,
+  insertPlanSchema,
+  insertCouponSchema,
+  insertExchangeRateSchema,
+  insertPricingRuleSchema,
+  quoteQuestionnaireSaveSchema,
+  quoteEstimateRequestSchema,
+  baseCurrency,
+  getPlanPrice,
+  getMonthlyRecurringAmount,
+  refundRequestSchema,
+  billingDetailsSchema,
+  invoiceRequestSchema,
+  invoiceItemSchema,
+  saftExportSchema,
+  paymentScheduleSchema,
+  proposalRequestSchema,
+  proposalDeclineSchema,
+  proposalSignatureSchema,
+  quoteStatusChangeSchema,
+  quoteNoteSchema,
+  quoteFollowUpSchema,
+  isQuoteOpen,
+  adminPreferencesSchema,
+  quoteMergeSchema,
+  quoteDraftSaveSchema,
+  codePaymentPayerSchema,
+  type Quote,
+} from "@shared/schema";
 import { z } from "zod";
 
 // WhatsApp notification via CallMeBot
@@ -33,13 +133,43 @@ async function sendWhatsAppNotification(message: string): Promise<void> {
   }
 }
 
-const stripe = process.env.STRIPE_SECRET_KEY 
-  ? new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: "2025-01-27.acacia" })
-  : null;
+function notifyNewQuote(quote: Quote): void {
+  const serviceTypeLabel = quote.serviceType === "website" ? "Website" : "Aplicativo";
+  const additionalsLabel = quote.additionals && quote.additionals.length > 0
+    ? quote.additionals.join(", ")
+    : "Nenhuma";
+  const estimateLabel = quote.estimateMin && quote.estimateMax
+    ? `${parseFloat(quote.estimateMin)} - ${parseFloat(quote.estimateMax)} EUR`
+    : "Sem estimativa";
+  const answersLabel = (quote.answers ?? [])
+    .map((answer) => {
+      const value = Array.isArray(answer.value)
+        ? answer.value.join(", ")
+        : typeof answer.value === "boolean"
+          ? answer.value ? "Sim" : "Nao"
+          : answer.value;
+      return `\n*${answer.label}:* ${value}`;
+    })
+    .join("");
+
+  const message = `*Novo Orcamento Recebido!*
+
+*Nome:* ${quote.firstName} ${quote.lastName}
+*Email:* ${quote.email}
+*Telefone:* ${quote.countryCode} ${quote.phone}
+*Tipo:* ${serviceTypeLabel}
+*Segmento:* ${quote.businessSegment}
+*Extras:* ${additionalsLabel}
+*Estimativa:* ${estimateLabel}
+*Descricao:* ${quote.projectDescription || "Nao informada"}${answersLabel}`;
+
+  sendWhatsAppNotification(message);
+}
 
 declare module "express-session" {
   interface SessionData {
     userId?: number;
+    codeAttemptsStartedAt?: number;
   }
 }
 
@@ -56,6 +186,24 @@ declare global {
 }
 
 export async function registerRoutes(httpServer: Server, app: Express): Promise<void> {
+  try {
+    await seedDefaultPlans();
+  } catch (error) {
+    console.error("Error seeding maintenance plans:", error);
+  }
+
+  try {
+    await seedDefaultPricingRules();
+  } catch (error) {
+    console.error("Error seeding pricing rules:", error);
+  }
+
+  try {
+    await storage.migrateLegacyQuoteStatuses();
+  } catch (error) {
+    console.error("Error migrating quote statuses:", error);
+  }
+
   // Session configuration
   app.use(
     session({
@@ -103,6 +251,17 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
               }
             }
 
+            // Quotes sent before having an account become theirs, but only
+            // when Google vouches for the address
+            const googleEmail = profile.emails?.[0];
+            if (user && googleEmail?.verified) {
+              try {
+                await storage.linkAnonymousQuotes(user.id, googleEmail.value);
+              } catch (error) {
+                console.error("Error linking quotes to user:", error);
+              }
+            }
+
             return done(null, user!);
           } catch (error) {
             return done(error as Error);
@@ -133,13 +292,26 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     res.status(401).json({ error: "Não autorizado" });
   };
 
+  const isAdminUser = (user?: Express.User) => user?.email === "bragawork01@gmail.com" || !!user?.isAdmin;
+
   const requireAdmin = (req: any, res: any, next: any) => {
-    if (req.isAuthenticated() && (req.user?.email === "bragawork01@gmail.com" || req.user?.isAdmin)) {
+    if (req.isAuthenticated() && isAdminUser(req.user)) {
       return next();
     }
     res.status(403).json({ error: "Acesso negado" });
   };
 
+  // Limits on the public and lightly guarded endpoints, per IP and user.
+  // Quotes from an email used too often are quarantined rather than refused.
+  const limitChallenges = rateLimit({ name: "challenges", limit: 30, windowMinutes: 10 });
+  const limitQuotes = rateLimit({ name: "quotes", limit: 5, windowMinutes: 60, flagByEmail: true });
+  const limitDraftSaves = rateLimit({ name: "quote-drafts", limit: 120, windowMinutes: 60 });
+  const limitResumeLinks = rateLimit({ name: "resume-links", limit: 5, windowMinutes: 60 });
+  const limitUploads = rateLimit({ name: "uploads", limit: 20, windowMinutes: 60 });
+  const limitReviews = rateLimit({ name: "reviews", limit: 5, windowMinutes: 60 });
+  const limitPaymentCodes = rateLimit({ name: "payment-codes", limit: 30, windowMinutes: 10 });
+  const limitCoupons = rateLimit({ name: "coupons", limit: 30, windowMinutes: 10 });
+
   // Auth routes
   if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
     app.get("/api/auth/google", passport.authenticate("google", { scope: ["profile", "email"] }));
@@ -178,8 +350,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   // Profile routes (user's own data)
   app.get("/api/profile/quotes", requireAuth, async (req, res) => {
     try {
-      const quotes = await storage.getQuotesByUser(req.user!.id);
-      res.json(quotes);
+      // Merged duplicates live on in the lead they were folded into
+      const quotes = (await storage.getQuotesByUser(req.user!.id)).filter((quote) => !quote.mergedIntoId);
+      const withSchedules = await Promise.all(
+        quotes.map(async (quote) => ({ ...quote, paymentSchedule: await getQuotePaymentSummary(quote) })),
+      );
+      res.json(withSchedules);
     } catch (error) {
       res.status(500).json({ error: "Erro ao buscar orçamentos" });
     }
@@ -212,337 +388,1409 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  // Quotes routes
-  app.post("/api/quotes", async (req, res) => {
-    try {
-      const data = insertQuoteSchema.parse({
-        ...req.body,
-        userId: req.user?.id || null,
-        status: "pending",
-      });
-      const quote = await storage.createQuote(data);
+  // Self-service billing (profile)
+  const findOwnSubscription = async (userId: number, id: number) => {
+    const subscription = await storage.getSubscription(id);
+    return subscription?.userId === userId ? subscription : undefined;
+  };
 
-      // Send WhatsApp notification
-      const serviceTypeLabel = req.body.serviceType === "website" ? "Website" : "Aplicativo";
-      const additionalsLabel = req.body.additionals?.length > 0 
-        ? req.body.additionals.join(", ") 
-        : "Nenhuma";
-      
-      const message = `*Novo Orcamento Recebido!*
+  const findStripeCustomerId = async (userId: number) => {
+    const [latest] = await storage.getSubscriptionsByUser(userId);
+    return latest?.stripeCustomerId;
+  };
 
-*Nome:* ${req.body.firstName} ${req.body.lastName}
-*Email:* ${req.body.email}
-*Telefone:* ${req.body.countryCode} ${req.body.phone}
-*Tipo:* ${serviceTypeLabel}
-*Segmento:* ${req.body.businessSegment}
-*Extras:* ${additionalsLabel}
-*Descricao:* ${req.body.projectDescription || "Nao informada"}`;
+  app.post("/api/profile/billing/subscriptions/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      if (!stripe) {
+        return res.status(500).json({ error: "Stripe não configurado" });
+      }
 
-      sendWhatsAppNotification(message);
+      const subscription = await findOwnSubscription(req.user!.id, parseInt(req.params.id));
+      if (!subscription || subscription.status === "canceled") {
+        return res.status(404).json({ error: "Assinatura não encontrada" });
+      }
 
-      res.status(201).json(quote);
+      const updated = await setCancelAtPeriodEnd(stripe, subscription, true);
+      res.json(updated);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ error: error.errors });
-      } else {
-        res.status(500).json({ error: "Erro ao criar orçamento" });
+      console.error("Stripe billing error:", error);
+      res.status(500).json({ error: "Erro ao cancelar assinatura" });
+    }
+  });
+
+  app.post("/api/profile/billing/subscriptions/:id/resume", requireAuth, async (req, res) => {
+    try {
+      if (!stripe) {
+        return res.status(500).json({ error: "Stripe não configurado" });
       }
+
+      const subscription = await findOwnSubscription(req.user!.id, parseInt(req.params.id));
+      if (!subscription || subscription.status === "canceled") {
+        return res.status(404).json({ error: "Assinatura não encontrada" });
+      }
+
+      const updated = await setCancelAtPeriodEnd(stripe, subscription, false);
+      res.json(updated);
+    } catch (error) {
+      console.error("Stripe billing error:", error);
+      res.status(500).json({ error: "Erro ao retomar assinatura" });
     }
   });
 
-  app.get("/api/quotes", requireAdmin, async (req, res) => {
+  app.post("/api/profile/billing/subscriptions/:id/change-plan", requireAuth, async (req, res) => {
     try {
-      const quotes = await storage.getAllQuotes();
-      res.json(quotes);
+      if (!stripe) {
+        return res.status(500).json({ error: "Stripe não configurado" });
+      }
+
+      const subscription = await findOwnSubscription(req.user!.id, parseInt(req.params.id));
+      if (!subscription || subscription.status === "canceled") {
+        return res.status(404).json({ error: "Assinatura não encontrada" });
+      }
+
+      const { planType } = req.body;
+      const plan = typeof planType === "string" ? await storage.getPlanBySlug(planType) : undefined;
+      if (!plan || !plan.isActive) {
+        return res.status(400).json({ error: "Plano inválido" });
+      }
+      if (plan.slug === subscription.planType) {
+        return res.status(400).json({ error: "A assinatura já está neste plano" });
+      }
+      if (subscription.billingInterval === "year" && !getPlanPrice(plan, "year")) {
+        return res.status(400).json({ error: "Este plano não tem pagamento anual" });
+      }
+      // Stripe keeps a subscription in the currency it started with
+      if (plan.currency !== subscription.currency) {
+        return res.status(400).json({ error: "Este plano é cobrado noutra moeda" });
+      }
+
+      const updated = await changeSubscriptionPlan(stripe, subscription, plan);
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ error: "Erro ao buscar orçamentos" });
+      console.error("Stripe billing error:", error);
+      res.status(500).json({ error: "Erro ao alterar plano" });
     }
   });
 
-  app.patch("/api/quotes/:id/status", requireAdmin, async (req, res) => {
+  app.post("/api/profile/billing/portal", requireAuth, async (req, res) => {
     try {
-      const { status } = req.body;
-      const quote = await storage.updateQuoteStatus(parseInt(req.params.id), status);
-      res.json(quote);
+      if (!stripe) {
+        return res.status(500).json({ error: "Stripe não configurado" });
+      }
+
+      const stripeCustomerId = await findStripeCustomerId(req.user!.id);
+      if (!stripeCustomerId) {
+        return res.status(404).json({ error: "Nenhum dado de faturação encontrado" });
+      }
+
+      const url = await createPortalSession(
+        stripe,
+        stripeCustomerId,
+        `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000"}/profile`,
+      );
+      res.json({ url });
     } catch (error) {
-      res.status(500).json({ error: "Erro ao atualizar orçamento" });
+      console.error("Stripe billing error:", error);
+      res.status(500).json({ error: "Erro ao abrir portal de faturação" });
     }
   });
 
-  // Projects routes
-  app.get("/api/projects", async (req, res) => {
+  app.get("/api/profile/billing/invoices", requireAuth, async (req, res) => {
     try {
-      const projects = await storage.getAllProjects();
-      res.json(projects);
+      const stripeCustomerId = await findStripeCustomerId(req.user!.id);
+      if (!stripe || !stripeCustomerId) {
+        return res.json([]);
+      }
+
+      const invoices = await listInvoices(stripe, stripeCustomerId);
+      res.json(invoices);
     } catch (error) {
-      res.status(500).json({ error: "Erro ao buscar projetos" });
+      console.error("Stripe billing error:", error);
+      res.status(500).json({ error: "Erro ao buscar faturas" });
     }
   });
 
-  app.get("/api/projects/active", async (req, res) => {
+  app.get("/api/profile/billing-details", requireAuth, async (req, res) => {
     try {
-      const projects = await storage.getActiveProjects();
-      res.json(projects);
+      const user = await storage.getUser(req.user!.id);
+      res.json({
+        nif: user?.nif ?? null,
+        billingAddress: user?.billingAddress ?? null,
+        billingPostalCode: user?.billingPostalCode ?? null,
+        billingCity: user?.billingCity ?? null,
+        billingCountry: user?.billingCountry ?? "PT",
+      });
     } catch (error) {
-      res.status(500).json({ error: "Erro ao buscar projetos" });
+      res.status(500).json({ error: "Erro ao buscar dados de faturação" });
     }
   });
 
-  app.post("/api/projects", requireAdmin, async (req, res) => {
+  app.patch("/api/profile/billing-details", requireAuth, async (req, res) => {
     try {
-      const data = insertProjectSchema.parse(req.body);
-      const project = await storage.createProject(data);
-      res.status(201).json(project);
+      const data = billingDetailsSchema.parse(req.body);
+      const user = await storage.updateUser(req.user!.id, { ...data, nif: data.nif || null });
+      res.json({
+        nif: user?.nif ?? null,
+        billingAddress: user?.billingAddress ?? null,
+        billingPostalCode: user?.billingPostalCode ?? null,
+        billingCity: user?.billingCity ?? null,
+        billingCountry: user?.billingCountry ?? "PT",
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: error.errors });
       } else {
-        res.status(500).json({ error: "Erro ao criar projeto" });
+        res.status(500).json({ error: "Erro ao guardar dados de faturação" });
       }
     }
   });
 
-  app.patch("/api/projects/:id", requireAdmin, async (req, res) => {
+  app.get("/api/profile/invoices", requireAuth, async (req, res) => {
     try {
-      const project = await storage.updateProject(parseInt(req.params.id), req.body);
-      res.json(project);
+      const invoices = await storage.getInvoicesByUser(req.user!.id);
+      res.json(invoices);
     } catch (error) {
-      res.status(500).json({ error: "Erro ao atualizar projeto" });
+      res.status(500).json({ error: "Erro ao buscar faturas" });
     }
   });
 
-  app.delete("/api/projects/:id", requireAdmin, async (req, res) => {
+  // Invoice PDF, available to admins and to the invoiced customer
+  app.get("/api/invoices/:id/pdf", requireAuth, async (req, res) => {
     try {
-      await storage.deleteProject(parseInt(req.params.id));
-      res.json({ success: true });
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice || (invoice.userId !== req.user!.id && !isAdminUser(req.user))) {
+        return res.status(404).json({ error: "Fatura não encontrada" });
+      }
+
+      const pdf = renderInvoicePdf(invoice);
+      const filename = `fatura-${invoice.invoiceNumber.replace(/[^\w-]+/g, "-")}.pdf`;
+      res.set({
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${filename}"`,
+      });
+      res.send(pdf);
     } catch (error) {
-      res.status(500).json({ error: "Erro ao deletar projeto" });
+      console.error("Invoice PDF error:", error);
+      res.status(500).json({ error: "Erro ao gerar PDF da fatura" });
     }
   });
 
-  // Reviews routes
-  app.get("/api/reviews/approved", async (req, res) => {
+  // Quotes routes
+  app.post("/api/quotes/estimate", async (req, res) => {
     try {
-      const reviews = await storage.getApprovedReviews();
-      res.json(reviews);
+      const data = quoteEstimateRequestSchema.parse(req.body);
+      const estimate = await estimateQuote(data);
+      if (!estimate) {
+        return res.status(404).json({ error: "Sem preços definidos para este tipo de serviço" });
+      }
+      res.json(estimate);
     } catch (error) {
-      res.status(500).json({ error: "Erro ao buscar avaliações" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao calcular estimativa" });
+      }
     }
   });
 
-  app.get("/api/reviews", requireAdmin, async (req, res) => {
+  // Extra questions of the quote form for the chosen service type and segment
+  app.get("/api/quote-questionnaire", async (req, res) => {
     try {
-      const reviews = await storage.getAllReviews();
-      res.json(reviews);
+      const { serviceType, businessSegment } = req.query;
+      if (typeof serviceType !== "string" || typeof businessSegment !== "string") {
+        return res.status(400).json({ error: "Indique o tipo de serviço e o segmento" });
+      }
+      const fields = await getQuestionnaireFields(serviceType, businessSegment);
+      res.json(fields);
     } catch (error) {
-      res.status(500).json({ error: "Erro ao buscar avaliações" });
+      res.status(500).json({ error: "Erro ao buscar questionário" });
     }
   });
 
-  app.post("/api/reviews", requireAuth, async (req, res) => {
+  // Proof-of-work challenge for the public forms, solved in the browser
+  app.get("/api/form-challenge", limitChallenges, (req, res) => {
+    const form = req.query.form;
+    if (!challengeForms.some((name) => name === form)) {
+      return res.status(400).json({ error: "Formulário desconhecido" });
+    }
+    res.json(issueChallenge(form as ChallengeForm));
+  });
+
+  // Suspicious quotes are saved in quarantine without notifying anyone and
+  // answered like any other, so a bot cannot tell
+  app.post("/api/quotes", limitQuotes, checkPublicForm("quote"), async (req, res) => {
     try {
-      const data = insertReviewSchema.parse({
+      const data = insertQuoteSchema.parse({
         ...req.body,
-        userId: req.user!.id,
+        userId: req.user?.id || null,
+        status: "new",
       });
-      const review = await storage.createReview(data);
-      res.status(201).json(review);
+      const spamReasons = req.spamReasons ?? [];
+      const answers = await parseQuoteAnswers(data.serviceType, data.businessSegment, req.body.answers);
+      const estimate = await estimateQuote(data);
+      const quote = await storage.createQuote({
+        ...data,
+        answers,
+        quarantined: spamReasons.length > 0,
+        quarantineReasons: spamReasons.length > 0 ? spamReasons : null,
+        estimateMin: estimate ? estimate.min.toFixed(2) : null,
+        estimateMax: estimate ? estimate.max.toFixed(2) : null,
+      });
+
+      if (quote.quarantined) {
+        console.log(`Quote ${quote.id} quarantined: ${spamReasons.join(", ")}`);
+      } else {
+        notifyNewQuote(quote);
+      }
+
+      if (typeof req.body.draftToken === "string") {
+        try {
+          await completeQuoteDraft(req.body.draftToken, quote.id, req.user?.id ?? null);
+        } catch (error) {
+          console.error(`Completing draft for quote ${quote.id} failed:`, error);
+        }
+      }
+
+      const { quarantined, quarantineReasons, ...created } = quote;
+      res.status(201).json(created);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: error.errors });
       } else {
-        res.status(500).json({ error: "Erro ao criar avaliação" });
+        res.status(500).json({ error: "Erro ao criar orçamento" });
       }
     }
   });
 
-  app.patch("/api/reviews/:id/approve", requireAdmin, async (req, res) => {
+  // Quote drafts: the form is saved as the visitor moves between steps and
+  // can be resumed from the same browser, the account or an emailed link
+  app.post("/api/quote-drafts", limitDraftSaves, async (req, res) => {
     try {
-      const review = await storage.approveReview(parseInt(req.params.id));
-      res.json(review);
+      const data = quoteDraftSaveSchema.parse(req.body);
+      const result = await saveQuoteDraft(null, data, req.user?.id ?? null);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.status(201).json(toQuoteDraftResponse(result.draft));
     } catch (error) {
-      res.status(500).json({ error: "Erro ao aprovar avaliação" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao guardar rascunho" });
+      }
     }
   });
 
-  app.delete("/api/reviews/:id", requireAdmin, async (req, res) => {
+  app.get("/api/quote-drafts/mine", requireAuth, async (req, res) => {
     try {
-      await storage.deleteReview(parseInt(req.params.id));
-      res.json({ success: true });
+      const draft = await storage.getLatestQuoteDraftByUser(req.user!.id);
+      if (!draft) {
+        return res.status(404).json({ error: "Rascunho não encontrado" });
+      }
+      res.json(toQuoteDraftResponse(draft));
     } catch (error) {
-      res.status(500).json({ error: "Erro ao deletar avaliação" });
+      res.status(500).json({ error: "Erro ao buscar rascunho" });
     }
   });
 
-  // Payment Codes routes
-  app.post("/api/payment-codes/verify", async (req, res) => {
+  app.get("/api/quote-drafts/:token", async (req, res) => {
     try {
-      const { code } = req.body;
-      const paymentCode = await storage.getPaymentCodeByCode(code);
-
-      if (!paymentCode) {
-        return res.status(404).json({ error: "Código não encontrado" });
+      const draft = await storage.getQuoteDraftByToken(req.params.token);
+      if (!draft || !canUseQuoteDraft(draft, req.user?.id ?? null)) {
+        return res.status(404).json({ error: "Rascunho não encontrado" });
       }
+      res.json(toQuoteDraftResponse(draft));
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar rascunho" });
+    }
+  });
 
-      if (paymentCode.isUsed) {
-        return res.status(400).json({ error: "Código já utilizado" });
+  app.put("/api/quote-drafts/:token", limitDraftSaves, async (req, res) => {
+    try {
+      const data = quoteDraftSaveSchema.parse(req.body);
+      const result = await saveQuoteDraft(req.params.token, data, req.user?.id ?? null);
+      if ("error" in result) {
+        return res.status(404).json({ error: result.error });
       }
-
-      res.json({
-        id: paymentCode.id,
-        code: paymentCode.code,
-        amount: paymentCode.amount,
-        description: paymentCode.description,
-      });
+      res.json(toQuoteDraftResponse(result.draft));
     } catch (error) {
-      res.status(500).json({ error: "Erro ao verificar código" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao guardar rascunho" });
+      }
     }
   });
 
-  app.post("/api/payment-codes/process", async (req, res) => {
+  app.post("/api/quote-drafts/:token/resume-link", limitResumeLinks, async (req, res) => {
     try {
-      const { code, name, email } = req.body;
-      const paymentCode = await storage.getPaymentCodeByCode(code);
-
-      if (!paymentCode || paymentCode.isUsed) {
-        return res.status(400).json({ error: "Código inválido ou já utilizado" });
+      const draft = await storage.getQuoteDraftByToken(req.params.token);
+      if (!draft || !canUseQuoteDraft(draft, req.user?.id ?? null)) {
+        return res.status(404).json({ error: "Rascunho não encontrado" });
       }
 
-      if (!stripe) {
-        return res.status(500).json({ error: "Stripe não configurado" });
+      const result = await sendQuoteDraftResumeLink(draft);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
       }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao enviar link" });
+    }
+  });
 
-      const session = await stripe.checkout.sessions.create({
-        payment_method_types: ["card"],
-        line_items: [
-          {
-            price_data: {
-              currency: "eur",
-              product_data: {
-                name: paymentCode.description || `Pagamento BragaWork - Código ${code}`,
-              },
-              unit_amount: Math.round(parseFloat(paymentCode.amount) * 100),
-            },
-            quantity: 1,
-          },
-        ],
-        mode: "payment",
-        success_url: `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000"}/payment/success?code=${code}`,
-        cancel_url: `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000"}/payment/code`,
-        customer_email: email,
-        metadata: {
-          code,
-          name,
-          email,
-        },
-      });
+  // Attachments are uploaded to the draft and follow it to the quote on submit
+  const attachmentBody = express.raw({ type: "multipart/form-data", limit: maxAttachmentRequestSize });
+  const readAttachmentUpload = (req: Request, res: Response, next: NextFunction) => {
+    attachmentBody(req, res, (error?: unknown) => {
+      if (!error) return next();
+      const status = (error as { status?: number }).status ?? 400;
+      res.status(status).json({ error: status === 413 ? "Ficheiros demasiado grandes" : "Envio inválido" });
+    });
+  };
 
-      res.json({ success: true, checkoutUrl: session.url });
+  app.get("/api/quote-drafts/:token/attachments", async (req, res) => {
+    try {
+      const draft = await storage.getQuoteDraftByToken(req.params.token);
+      if (!draft || !canUseQuoteDraft(draft, req.user?.id ?? null)) {
+        return res.status(404).json({ error: "Rascunho não encontrado" });
+      }
+      const attachments = await storage.getQuoteAttachmentsByDraft(draft.id);
+      res.json(attachments.map(toAttachmentInfo));
     } catch (error) {
-      console.error("Stripe error:", error);
-      res.status(500).json({ error: "Erro ao processar pagamento" });
+      res.status(500).json({ error: "Erro ao buscar anexos" });
     }
   });
 
-  // Stripe webhook for payment confirmation
-  app.post("/api/stripe/webhook", async (req, res) => {
+  app.post("/api/quote-drafts/:token/attachments", limitUploads, readAttachmentUpload, async (req, res) => {
     try {
-      const event = req.body;
-
-      if (event.type === "checkout.session.completed") {
-        const session = event.data.object;
-        const { code, name, email } = session.metadata || {};
+      const draft = await storage.getQuoteDraftByToken(req.params.token);
+      if (!draft || !canUseQuoteDraft(draft, req.user?.id ?? null)) {
+        return res.status(404).json({ error: "Rascunho não encontrado" });
+      }
 
-        if (code) {
-          await storage.markPaymentCodeAsUsed(code, email, name, session.payment_intent);
-        }
+      const body = Buffer.isBuffer(req.body) ? parseMultipart(req.body, req.get("content-type")) : null;
+      if (!body) {
+        return res.status(400).json({ error: "Envio inválido" });
       }
 
-      res.json({ received: true });
+      const result = await addDraftAttachments(draft, body.files);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.status(201).json(result.attachments.map(toAttachmentInfo));
     } catch (error) {
-      res.status(400).json({ error: "Webhook error" });
+      console.error("Attachment upload error:", error);
+      res.status(500).json({ error: "Erro ao enviar anexos" });
     }
   });
 
-  // Create subscription checkout session
-  app.post("/api/subscriptions/create-checkout", requireAuth, async (req, res) => {
+  app.delete("/api/quote-drafts/:token/attachments/:id", async (req, res) => {
     try {
-      const { planType } = req.body;
-      
-      if (!stripe) {
-        return res.status(500).json({ error: "Stripe não configurado" });
-      }
-
-      const prices: Record<string, { amount: number; name: string }> = {
-        site: { amount: 1500, name: "Manutenção de Site - Mensal" },
-        app: { amount: 2000, name: "Manutenção de Aplicativo - Mensal" },
-      };
-
-      const plan = prices[planType];
-      if (!plan) {
-        return res.status(400).json({ error: "Plano inválido" });
+      const draft = await storage.getQuoteDraftByToken(req.params.token);
+      const attachment = await storage.getQuoteAttachment(parseInt(req.params.id));
+      if (!draft || !canUseQuoteDraft(draft, req.user?.id ?? null) || attachment?.draftId !== draft.id) {
+        return res.status(404).json({ error: "Anexo não encontrado" });
       }
+      await removeQuoteAttachment(attachment);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao remover anexo" });
+    }
+  });
 
-      const session = await stripe.checkout.sessions.create({
-        payment_method_types: ["card"],
-        line_items: [
-          {
-            price_data: {
-              currency: "eur",
-              product_data: {
-                name: plan.name,
-              },
-              unit_amount: plan.amount,
-              recurring: {
-                interval: "month",
-              },
-            },
-            quantity: 1,
-          },
-        ],
-        mode: "subscription",
-        success_url: `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000"}/maintenance?success=true`,
-        cancel_url: `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000"}/maintenance`,
-        customer_email: req.user?.email,
-        metadata: {
-          userId: req.user?.id.toString(),
-          planType,
-        },
-      });
+  app.get("/api/admin/quote-drafts/abandoned", requireAdmin, async (req, res) => {
+    try {
+      res.json(await getAbandonedDraftReport());
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar rascunhos abandonados" });
+    }
+  });
 
-      res.json({ checkoutUrl: session.url });
+  app.get("/api/quotes", requireAdmin, async (req, res) => {
+    try {
+      const quotes = await storage.getAllQuotes();
+      res.json(quotes);
     } catch (error) {
-      console.error("Stripe subscription error:", error);
-      res.status(500).json({ error: "Erro ao criar assinatura" });
+      res.status(500).json({ error: "Erro ao buscar orçamentos" });
     }
   });
 
-  app.get("/api/payment-codes", requireAdmin, async (req, res) => {
+  // Leads that look like the same client, for the admin to merge
+  app.get("/api/quotes/duplicates", requireAdmin, async (req, res) => {
     try {
-      const codes = await storage.getAllPaymentCodes();
-      res.json(codes);
+      res.json(await getDuplicateGroups());
     } catch (error) {
-      res.status(500).json({ error: "Erro ao buscar códigos" });
+      res.status(500).json({ error: "Erro ao procurar duplicados" });
     }
   });
 
-  app.post("/api/payment-codes", requireAdmin, async (req, res) => {
+  app.post("/api/quotes/:id/merge", requireAdmin, async (req, res) => {
     try {
-      const generateCode = () => {
-        return Math.floor(100000 + Math.random() * 900000).toString();
-      };
+      const { duplicateIds } = quoteMergeSchema.parse(req.body);
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+      const result = await mergeQuotes(quote, duplicateIds, req.user!.id);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.json(result.quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao fundir orçamentos" });
+      }
+    }
+  });
+
+  // Quarantine review: a released quote is notified as if it had just arrived
+  app.post("/api/quotes/:id/release", requireAdmin, async (req, res) => {
+    try {
+      const quote = await storage.releaseQuarantinedQuote(parseInt(req.params.id), req.user!.id);
+      if (!quote) {
+        return res.status(404).json({ error: "Orçamento não está em quarentena" });
+      }
+      notifyNewQuote(quote);
+      res.json(quote);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao libertar orçamento" });
+    }
+  });
+
+  app.delete("/api/quotes/:id", requireAdmin, async (req, res) => {
+    try {
+      const attachments = await storage.deleteQuarantinedQuote(parseInt(req.params.id));
+      if (!attachments) {
+        return res.status(400).json({ error: "Só é possível apagar orçamentos novos em quarentena" });
+      }
+      await removeAttachmentFiles(attachments);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao apagar orçamento" });
+    }
+  });
+
+  app.patch("/api/quotes/:id/status", requireAdmin, async (req, res) => {
+    try {
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+
+      const data = quoteStatusChangeSchema.parse(req.body);
+      const result = await changeQuoteStatus(quote, data, req.user!.id);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.json(result.quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao atualizar orçamento" });
+      }
+    }
+  });
+
+  // Timeline of a quote: status changes, internal notes, follow-ups, proposals
+  app.get("/api/quotes/:id/events", requireAdmin, async (req, res) => {
+    try {
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+      res.json(await storage.getQuoteEvents(quote.id));
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar histórico do orçamento" });
+    }
+  });
+
+  app.post("/api/quotes/:id/notes", requireAdmin, async (req, res) => {
+    try {
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+
+      const { note } = quoteNoteSchema.parse(req.body);
+      const event = await storage.createQuoteEvent({ quoteId: quote.id, type: "note", note, userId: req.user!.id });
+      res.status(201).json(event);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao adicionar nota" });
+      }
+    }
+  });
+
+  app.put("/api/quotes/:id/follow-up", requireAdmin, async (req, res) => {
+    try {
+      const { followUpAt } = quoteFollowUpSchema.parse(req.body);
+      const quote = await storage.setQuoteFollowUp(
+        parseInt(req.params.id),
+        followUpAt ? new Date(`${followUpAt}T09:00:00`) : null,
+        req.user!.id,
+      );
+      if (!quote) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao agendar follow-up" });
+      }
+    }
+  });
+
+  app.get("/api/quotes/:id/attachments", requireAdmin, async (req, res) => {
+    try {
+      const attachments = await storage.getQuoteAttachmentsByQuote(parseInt(req.params.id));
+      res.json(attachments.map(toAttachmentInfo));
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar anexos" });
+    }
+  });
+
+  // Always served as a download, so uploaded SVG or HTML never runs on our origin
+  app.get("/api/quote-attachments/:id/download", requireAdmin, async (req, res) => {
+    try {
+      const attachment = await storage.getQuoteAttachment(parseInt(req.params.id));
+      const data = attachment && (await readQuoteAttachment(attachment));
+      if (!attachment || !data) {
+        return res.status(404).json({ error: "Anexo não encontrado" });
+      }
+
+      const asciiName = attachment.fileName.replace(/[^\w.-]+/g, "_");
+      res.set({
+        "Content-Type": attachment.contentType,
+        "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        "X-Content-Type-Options": "nosniff",
+      });
+      res.send(data);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao descarregar anexo" });
+    }
+  });
+
+  app.get("/api/quotes/:id/payment-schedule", requireAdmin, async (req, res) => {
+    try {
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+      res.json(await getQuotePaymentSummary(quote));
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar plano de pagamentos" });
+    }
+  });
+
+  // Accepting a quote sets its price and generates a payment code per milestone
+  app.post("/api/quotes/:id/payment-schedule", requireAdmin, async (req, res) => {
+    try {
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+
+      const data = paymentScheduleSchema.parse(req.body);
+      const result = await createQuotePaymentSchedule(quote, data, req.user!.id);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.status(201).json(result.summary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao criar plano de pagamentos" });
+      }
+    }
+  });
+
+  // Proposals: versions written by the admin, answered by the client via a public link
+  app.get("/api/quotes/:id/proposals", requireAdmin, async (req, res) => {
+    try {
+      const quoteId = parseInt(req.params.id);
+      const [proposals, signatures] = await Promise.all([
+        storage.getQuoteProposals(quoteId),
+        storage.getProposalSignaturesByQuote(quoteId),
+      ]);
+      res.json(
+        proposals.map((proposal) => {
+          const signature = signatures.find((s) => s.proposalId === proposal.id);
+          return {
+            ...proposal,
+            signature: signature
+              ? {
+                  signerName: signature.signerName,
+                  signatureImage: signature.signatureImage,
+                  ipAddress: signature.ipAddress,
+                  userAgent: signature.userAgent,
+                  documentHash: signature.documentHash,
+                  signedAt: signature.signedAt,
+                }
+              : null,
+          };
+        }),
+      );
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar propostas" });
+    }
+  });
+
+  app.post("/api/quotes/:id/proposals", requireAdmin, async (req, res) => {
+    try {
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+
+      const data = proposalRequestSchema.parse(req.body);
+      const result = await createQuoteProposal(quote, data, req.user!.id);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.status(201).json(result.proposal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao enviar proposta" });
+      }
+    }
+  });
+
+  app.get("/api/proposals/:token", async (req, res) => {
+    try {
+      const proposal = await storage.getQuoteProposalByToken(req.params.token);
+      const quote = proposal && (await storage.getQuote(proposal.quoteId));
+      if (!proposal || !quote) {
+        return res.status(404).json({ error: "Proposta não encontrada" });
+      }
+
+      // Admins checking the link do not count as the client opening it
+      if (!proposal.viewedAt && !isAdminUser(req.user)) {
+        await storage.markQuoteProposalViewed(proposal.id);
+      }
+
+      const signature = await storage.getProposalSignature(proposal.id);
+      const { createdBy, ...publicProposal } = proposal;
+      res.json({
+        ...publicProposal,
+        expired: isProposalExpired(proposal),
+        signature: signature ? { signerName: signature.signerName, signedAt: signature.signedAt } : null,
+        quote: {
+          id: quote.id,
+          firstName: quote.firstName,
+          lastName: quote.lastName,
+          serviceType: quote.serviceType,
+        },
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar proposta" });
+    }
+  });
+
+  app.get("/api/proposals/:token/pdf", async (req, res) => {
+    try {
+      const proposal = await storage.getQuoteProposalByToken(req.params.token);
+      const quote = proposal && (await storage.getQuote(proposal.quoteId));
+      if (!proposal || !quote) {
+        return res.status(404).json({ error: "Proposta não encontrada" });
+      }
+
+      // Signed proposals are served exactly as hashed at signing time
+      const signature = await storage.getProposalSignature(proposal.id);
+      const pdf = signature ? Buffer.from(signature.signedPdf, "base64") : renderProposalPdf(proposal, quote);
+      res.set({
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="proposta-${quote.id}-v${proposal.version}${signature ? "-assinada" : ""}.pdf"`,
+        ...(signature ? { "X-Document-SHA256": signature.documentHash } : {}),
+      });
+      res.send(pdf);
+    } catch (error) {
+      console.error("Proposal PDF error:", error);
+      res.status(500).json({ error: "Erro ao gerar PDF da proposta" });
+    }
+  });
+
+  app.post("/api/proposals/:token/accept", async (req, res) => {
+    try {
+      const proposal = await storage.getQuoteProposalByToken(req.params.token);
+      const quote = proposal && (await storage.getQuote(proposal.quoteId));
+      if (!proposal || !quote) {
+        return res.status(404).json({ error: "Proposta não encontrada" });
+      }
+
+      const data = proposalSignatureSchema.parse(req.body);
+      const result = await acceptProposal(proposal, quote, data, {
+        ipAddress: req.ip || "unknown",
+        userAgent: req.get("user-agent") ?? null,
+      });
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.json({ status: result.proposal.status });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        console.error("Proposal signing error:", error);
+        res.status(500).json({ error: "Erro ao aceitar proposta" });
+      }
+    }
+  });
+
+  app.post("/api/proposals/:token/decline", async (req, res) => {
+    try {
+      const proposal = await storage.getQuoteProposalByToken(req.params.token);
+      const quote = proposal && (await storage.getQuote(proposal.quoteId));
+      if (!proposal || !quote) {
+        return res.status(404).json({ error: "Proposta não encontrada" });
+      }
+
+      const { reason } = proposalDeclineSchema.parse(req.body);
+      const result = await declineProposal(proposal, quote, reason);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.json({ status: result.proposal.status });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao recusar proposta" });
+      }
+    }
+  });
+
+  // Projects routes
+  app.get("/api/projects", async (req, res) => {
+    try {
+      const projects = await storage.getAllProjects();
+      res.json(projects);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar projetos" });
+    }
+  });
+
+  app.get("/api/projects/active", async (req, res) => {
+    try {
+      const projects = await storage.getActiveProjects();
+      res.json(projects);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar projetos" });
+    }
+  });
+
+  app.post("/api/projects", requireAdmin, async (req, res) => {
+    try {
+      const data = insertProjectSchema.parse(req.body);
+      const project = await storage.createProject(data);
+      res.status(201).json(project);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao criar projeto" });
+      }
+    }
+  });
+
+  app.patch("/api/projects/:id", requireAdmin, async (req, res) => {
+    try {
+      const project = await storage.updateProject(parseInt(req.params.id), req.body);
+      res.json(project);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao atualizar projeto" });
+    }
+  });
+
+  app.delete("/api/projects/:id", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteProject(parseInt(req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao deletar projeto" });
+    }
+  });
+
+  // Reviews routes
+  app.get("/api/reviews/approved", async (req, res) => {
+    try {
+      const reviews = await storage.getApprovedReviews();
+      res.json(reviews);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar avaliações" });
+    }
+  });
+
+  app.get("/api/reviews", requireAdmin, async (req, res) => {
+    try {
+      const reviews = await storage.getAllReviews();
+      res.json(reviews);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar avaliações" });
+    }
+  });
+
+  app.post("/api/reviews", requireAuth, limitReviews, async (req, res) => {
+    try {
+      const data = insertReviewSchema.parse({
+        ...req.body,
+        userId: req.user!.id,
+      });
+      const review = await storage.createReview(data);
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao criar avaliação" });
+      }
+    }
+  });
+
+  app.patch("/api/reviews/:id/approve", requireAdmin, async (req, res) => {
+    try {
+      const review = await storage.approveReview(parseInt(req.params.id));
+      res.json(review);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao aprovar avaliação" });
+    }
+  });
+
+  app.delete("/api/reviews/:id", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteReview(parseInt(req.params.id));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao deletar avaliação" });
+    }
+  });
+
+  // Payment Codes routes
+  const invalidCodeError = "Código inválido ou indisponível";
+  const invalidCodeForEmailError = "Código inválido ou indisponível para este email";
+
+  // Anonymous sessions are only persisted once written to, so mark the
+  // session to keep the same id across guesses.
+  const getCodeClient = (req: Request): CodeClient => {
+    req.session.codeAttemptsStartedAt ??= Date.now();
+    return { ipAddress: req.ip || "unknown", sessionId: req.sessionID };
+  };
+
+  // Logs the guess; while the client is locked out it responds 429 and
+  // returns undefined
+  const startCodeGuess = async (client: CodeClient, code: string, res: Response) => {
+    const { attempt, lockoutRemaining } = await startCodeAttempt(client, code);
+    if (lockoutRemaining <= 0) return attempt;
+
+    await recordCodeAttempt(attempt, "locked");
+    const retryAfter = Math.ceil(lockoutRemaining / 1000);
+    res.set("Retry-After", retryAfter.toString());
+    res.status(429).json({
+      error: `Demasiadas tentativas. Tente novamente dentro de ${Math.ceil(retryAfter / 60)} minuto(s).`,
+      retryAfter,
+    });
+    return undefined;
+  };
+
+  app.post("/api/payment-codes/verify", limitPaymentCodes, async (req, res) => {
+    try {
+      const code = normalizePaymentCode(req.body.code);
+      const client = getCodeClient(req);
+
+      const attempt = await startCodeGuess(client, code, res);
+      if (!attempt) return;
+
+      const paymentCode = code ? await storage.getPaymentCodeByCode(code) : undefined;
+
+      if (!paymentCode || !isPaymentCodeRedeemable(paymentCode)) {
+        await recordCodeAttempt(attempt, paymentCode ? "unavailable" : "not_found");
+        return res.status(400).json({ error: invalidCodeError });
+      }
+
+      await recordCodeAttempt(attempt, "success");
+
+      res.json({
+        id: paymentCode.id,
+        code: paymentCode.code,
+        amount: paymentCode.amount,
+        amountType: paymentCode.amountType,
+        minAmount: paymentCode.minAmount,
+        maxAmount: paymentCode.maxAmount,
+        currency: paymentCode.currency,
+        description: paymentCode.description,
+        expiresAt: paymentCode.expiresAt,
+        requiresEmail: !!paymentCode.clientEmail,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao verificar código" });
+    }
+  });
+
+  app.post("/api/payment-codes/process", limitPaymentCodes, async (req, res) => {
+    try {
+      const { name, email } = codePaymentPayerSchema.parse(req.body);
+      const requestedAmount = req.body.amount;
+      const paymentMethod = req.body.paymentMethod ?? "card";
+      const code = normalizePaymentCode(req.body.code);
+      const client = getCodeClient(req);
+
+      const attempt = await startCodeGuess(client, code, res);
+      if (!attempt) return;
+
+      const paymentCode = code ? await storage.getPaymentCodeByCode(code) : undefined;
+
+      if (!paymentCode || !isPaymentCodeRedeemable(paymentCode)) {
+        await recordCodeAttempt(attempt, paymentCode ? "unavailable" : "not_found");
+        return res.status(400).json({ error: invalidCodeError });
+      }
+
+      // Answered like an unknown code, so the email cannot be used to probe codes
+      if (!matchesCodeClient(paymentCode, email)) {
+        await recordCodeAttempt(attempt, "wrong_client");
+        return res.status(400).json({ error: invalidCodeForEmailError });
+      }
+      await recordCodeAttempt(attempt, "success");
+
+      const resolved = resolvePaymentCodeAmount(paymentCode, requestedAmount);
+      if ("error" in resolved) {
+        return res.status(400).json({ error: resolved.error });
+      }
+
+      if (!isPaymentMethod(paymentMethod)) {
+        return res.status(400).json({ error: "Método de pagamento inválido" });
+      }
+      if (!isPaymentMethodAvailable(paymentMethod, paymentCode.currency)) {
+        return res.status(400).json({ error: "Multibanco e MB WAY só aceitam pagamentos em euros" });
+      }
+
+      let coupon: AppliedCoupon | undefined;
+      if (req.body.couponCode) {
+        const applied = await applyCoupon(
+          req.body.couponCode,
+          { type: "payment_code", paymentCodeId: paymentCode.id },
+          resolved.amount,
+          paymentCode.currency,
+        );
+        if ("error" in applied) {
+          return res.status(400).json({ error: applied.error });
+        }
+        coupon = applied;
+      }
+
+      if (!stripe) {
+        return res.status(500).json({ error: "Stripe não configurado" });
+      }
+
+      // The use of the code is taken before any payment starts, so parallel
+      // requests for a single-use code cannot both be paid. It is given back
+      // when the Multibanco reference or the checkout expires unpaid.
+      const reserved = await storage.markPaymentCodeAsUsed(code, email, name);
+      if (!reserved) {
+        await recordCodeAttempt(attempt, "unavailable");
+        return res.status(400).json({ error: invalidCodeError });
+      }
+
+      let started: PaymentStart;
+      try {
+        started = await startPayment(stripe, {
+          method: paymentMethod,
+          amount: coupon ? coupon.finalAmount : resolved.amount,
+          currency: paymentCode.currency,
+          description: paymentCode.description || `Pagamento BragaWork - Código ${code}`,
+          email,
+          name,
+          metadata: {
+            code,
+            paymentCodeId: reserved.id.toString(),
+            name,
+            email,
+            amount: resolved.amount.toFixed(2),
+            ...(coupon ? getCouponMetadata(coupon) : {}),
+          },
+          successUrl: `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000"}/payment/success?code=${code}`,
+          cancelUrl: `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000"}/payment/code`,
+        });
+      } catch (error) {
+        await storage.releasePaymentCode(reserved.id);
+        throw error;
+      }
+
+      if (started.type === "redirect") {
+        return res.json({ success: true, checkoutUrl: started.url });
+      }
+
+      const user = await storage.getUserByEmail(email);
+      // Counted now so the reference holds its redemption; released if it
+      // expires. A coupon used up in the meantime withdraws the reference.
+      if (coupon) {
+        const redeemed = await recordCouponRedemption(getCouponMetadata(coupon), {
+          stripeReference: started.stripePaymentId,
+          target: "payment_code",
+          userId: user?.id,
+          email,
+        });
+        if (!redeemed) {
+          await stripe.paymentIntents.cancel(started.stripePaymentId);
+          await storage.releasePaymentCode(reserved.id);
+          return res.status(400).json({ error: invalidCouponError });
+        }
+      }
+
+      await storage.createPayment({
+        userId: user?.id ?? null,
+        stripePaymentId: started.stripePaymentId,
+        amount: started.multibanco.amount,
+        currency: reserved.currency,
+        exchangeRate: await getExchangeRate(reserved.currency),
+        status: "pending",
+        paymentType: "code_payment",
+        paymentMethod,
+        paymentCodeId: reserved.id,
+        multibancoEntity: started.multibanco.entity,
+        multibancoReference: started.multibanco.reference,
+        expiresAt: started.multibanco.expiresAt,
+      });
+
+      res.json({ success: true, multibanco: started.multibanco });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0].message });
+      }
+      console.error("Stripe error:", error);
+      res.status(500).json({ error: "Erro ao processar pagamento" });
+    }
+  });
+
+  // Stripe webhook (signed, processed at most once per event)
+  app.post("/api/stripe/webhook", handleStripeWebhook);
+
+  // Maintenance plans
+  app.get("/api/plans", async (req, res) => {
+    try {
+      const plans = await storage.getActivePlans();
+      res.json(plans);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar planos" });
+    }
+  });
+
+  app.get("/api/admin/plans", requireAdmin, async (req, res) => {
+    try {
+      const plans = await storage.getAllPlans();
+      res.json(plans);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar planos" });
+    }
+  });
+
+  app.post("/api/plans", requireAdmin, async (req, res) => {
+    try {
+      const data = insertPlanSchema.parse(req.body);
+      const plan = await storage.createPlan(data);
+      res.status(201).json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao criar plano" });
+      }
+    }
+  });
+
+  app.patch("/api/plans/:id", requireAdmin, async (req, res) => {
+    try {
+      const data = insertPlanSchema.partial().parse(req.body);
+      const current = await storage.getPlan(parseInt(req.params.id));
+      if (!current) {
+        return res.status(404).json({ error: "Plano não encontrado" });
+      }
+      const plan = await storage.updatePlan(current.id, withoutOutdatedPriceIds(current, data));
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao atualizar plano" });
+      }
+    }
+  });
+
+  app.delete("/api/plans/:id", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deletePlan(parseInt(req.params.id));
+      if (deleted) {
+        res.json({ success: true });
+      } else {
+        res.status(404).json({ error: "Plano não encontrado" });
+      }
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao deletar plano" });
+    }
+  });
+
+  // Coupons
+  app.get("/api/admin/coupons", requireAdmin, async (req, res) => {
+    try {
+      const [coupons, redemptions] = await Promise.all([storage.getAllCoupons(), storage.getAllCouponRedemptions()]);
+      res.json(
+        coupons.map((coupon) => ({
+          ...coupon,
+          redemptions: redemptions.filter((r) => r.couponId === coupon.id),
+        })),
+      );
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar cupões" });
+    }
+  });
+
+  app.post("/api/coupons", requireAdmin, async (req, res) => {
+    try {
+      const data = insertCouponSchema.parse(req.body);
+      if (await storage.getCouponByCode(data.code)) {
+        return res.status(400).json({ error: "Já existe um cupão com este código" });
+      }
+      const coupon = await storage.createCoupon(data);
+      res.status(201).json(coupon);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao criar cupão" });
+      }
+    }
+  });
+
+  app.patch("/api/coupons/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getCoupon(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Cupão não encontrado" });
+      }
+
+      const data = insertCouponSchema.parse({ ...existing, ...req.body });
+      const sameCode = await storage.getCouponByCode(data.code);
+      if (sameCode && sameCode.id !== id) {
+        return res.status(400).json({ error: "Já existe um cupão com este código" });
+      }
+
+      // Stripe coupons cannot change their discount, so a new one is made on next use
+      const discountChanged =
+        data.discountType !== existing.discountType || data.discountValue !== existing.discountValue;
+      const coupon = await storage.updateCoupon(id, {
+        ...data,
+        ...(discountChanged ? { stripeCouponId: null } : {}),
+      });
+      res.json(coupon);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao atualizar cupão" });
+      }
+    }
+  });
+
+  app.delete("/api/coupons/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const coupon = await storage.getCoupon(id);
+      if (!coupon) {
+        return res.status(404).json({ error: "Cupão não encontrado" });
+      }
+      // Redemptions are kept for reporting
+      if (coupon.redemptionCount > 0) {
+        return res.status(400).json({ error: "Este cupão já foi utilizado. Desative-o em vez de o eliminar." });
+      }
+      await storage.deleteCoupon(id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao deletar cupão" });
+    }
+  });
+
+  // Previews the discount before checkout; the checkout routes check again
+  app.post("/api/coupons/validate", limitCoupons, async (req, res) => {
+    try {
+      let target: CouponTarget;
+      let amount: number;
+      let currency: string;
+
+      if (req.body.planType) {
+        const billingInterval = req.body.billingInterval ?? "month";
+        const plan = typeof req.body.planType === "string" ? await storage.getPlanBySlug(req.body.planType) : undefined;
+        const price = plan && isBillingInterval(billingInterval) ? getPlanPrice(plan, billingInterval) : null;
+        if (!plan || !plan.isActive || price === null) {
+          return res.status(400).json({ error: "Plano inválido" });
+        }
+        target = { type: "subscription", planSlug: plan.slug };
+        amount = price;
+        currency = plan.currency;
+      } else {
+        // Looks the code up like /api/payment-codes/verify, so it goes through
+        // the same lockout
+        const code = normalizePaymentCode(req.body.paymentCode);
+        const attempt = await startCodeGuess(getCodeClient(req), code, res);
+        if (!attempt) return;
+
+        const paymentCode = code ? await storage.getPaymentCodeByCode(code) : undefined;
+        if (!paymentCode || !isPaymentCodeRedeemable(paymentCode)) {
+          await recordCodeAttempt(attempt, paymentCode ? "unavailable" : "not_found");
+          return res.status(400).json({ error: invalidCodeError });
+        }
+        await recordCodeAttempt(attempt, "success");
+
+        const resolved = resolvePaymentCodeAmount(paymentCode, req.body.amount);
+        if ("error" in resolved) {
+          return res.status(400).json({ error: resolved.error });
+        }
+        target = { type: "payment_code", paymentCodeId: paymentCode.id };
+        amount = resolved.amount;
+        currency = paymentCode.currency;
+      }
+
+      const applied = await applyCoupon(req.body.couponCode, target, amount, currency);
+      if ("error" in applied) {
+        return res.status(400).json({ error: applied.error });
+      }
+
+      res.json({
+        code: applied.coupon.code,
+        description: applied.coupon.description,
+        discountType: applied.coupon.discountType,
+        discountValue: applied.coupon.discountValue,
+        originalAmount: applied.originalAmount,
+        discount: applied.discount,
+        finalAmount: applied.finalAmount,
+        currency: applied.currency,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao validar cupão" });
+    }
+  });
+
+  // Create subscription checkout session
+  app.post("/api/subscriptions/create-checkout", requireAuth, async (req, res) => {
+    try {
+      const { planType } = req.body;
+      const billingInterval = req.body.billingInterval ?? "month";
+      
+      if (!stripe) {
+        return res.status(500).json({ error: "Stripe não configurado" });
+      }
+
+      const plan = typeof planType === "string" ? await storage.getPlanBySlug(planType) : undefined;
+      if (!plan || !plan.isActive) {
+        return res.status(400).json({ error: "Plano inválido" });
+      }
+
+      if (!isBillingInterval(billingInterval)) {
+        return res.status(400).json({ error: "Periodicidade inválida" });
+      }
+
+      const priceData = getPlanPriceData(plan, billingInterval);
+      if (!priceData) {
+        return res.status(400).json({ error: "Este plano não tem pagamento anual" });
+      }
+
+      let coupon: AppliedCoupon | undefined;
+      if (req.body.couponCode) {
+        const applied = await applyCoupon(
+          req.body.couponCode,
+          { type: "subscription", planSlug: plan.slug },
+          priceData.unit_amount / 100,
+          plan.currency,
+        );
+        if ("error" in applied) {
+          return res.status(400).json({ error: applied.error });
+        }
+        coupon = applied;
+      }
+
+      const stripePriceId = getStripePriceId(plan, billingInterval);
+      const lineItem = stripePriceId
+        ? { price: stripePriceId, quantity: 1 }
+        : {
+            price_data: {
+              ...priceData,
+              product_data: {
+                name: `${plan.name} - ${billingIntervalNames[billingInterval]}`,
+              },
+            },
+            quantity: 1,
+          };
+
+      const session = await stripe.checkout.sessions.create({
+        payment_method_types: ["card"],
+        line_items: [lineItem],
+        mode: "subscription",
+        success_url: `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000"}/maintenance?success=true`,
+        cancel_url: `${process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}` : "http://localhost:5000"}/maintenance`,
+        customer_email: req.user!.email,
+        // The coupon discounts the first invoice only
+        ...(coupon ? { discounts: [{ coupon: await getStripeCouponId(stripe, coupon.coupon) }] } : {}),
+        metadata: {
+          userId: req.user!.id.toString(),
+          planType: plan.slug,
+          ...(coupon ? getCouponMetadata(coupon) : {}),
+        },
+        subscription_data: {
+          metadata: {
+            userId: req.user!.id.toString(),
+            planType: plan.slug,
+            billingInterval,
+          },
+        },
+      });
+
+      res.json({ checkoutUrl: session.url });
+    } catch (error) {
+      console.error("Stripe subscription error:", error);
+      res.status(500).json({ error: "Erro ao criar assinatura" });
+    }
+  });
+
+  app.get("/api/payment-codes", requireAdmin, async (req, res) => {
+    try {
+      const codes = await storage.getAllPaymentCodes();
+      res.json(codes);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar códigos" });
+    }
+  });
+
+  app.post("/api/payment-codes", requireAdmin, async (req, res) => {
+    try {
+      const format = req.body.codeFormat === "alphanumeric" ? "alphanumeric" : "numeric";
 
-      let code = generateCode();
+      let code = generatePaymentCode(format);
       let existing = await storage.getPaymentCodeByCode(code);
       while (existing) {
-        code = generateCode();
+        code = generatePaymentCode(format);
         existing = await storage.getPaymentCodeByCode(code);
       }
 
       const data = insertPaymentCodeSchema.parse({
         code,
         amount: req.body.amount,
+        amountType: req.body.amountType,
+        minAmount: req.body.minAmount,
+        maxAmount: req.body.maxAmount,
+        currency: req.body.currency,
         description: req.body.description,
+        clientEmail: req.body.clientEmail || null,
+        expiresAt: req.body.expiresAt || null,
+        maxUses: req.body.maxUses,
       });
 
       const paymentCode = await storage.createPaymentCode(data);
@@ -570,21 +1818,172 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // Pricing rules behind the instant quote estimate
+  app.get("/api/admin/pricing-rules", requireAdmin, async (req, res) => {
+    try {
+      const rules = await storage.getAllPricingRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar regras de preço" });
+    }
+  });
+
+  app.put("/api/admin/pricing-rules", requireAdmin, async (req, res) => {
+    try {
+      const rules = z.array(insertPricingRuleSchema).parse(req.body.rules);
+      const keys = new Set(rules.map((rule) => `${rule.kind}:${rule.key}`));
+      if (keys.size !== rules.length) {
+        return res.status(400).json({ error: "Existem regras de preço repetidas" });
+      }
+      const saved = await storage.replacePricingRules(rules);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao guardar regras de preço" });
+      }
+    }
+  });
+
+  // Segment questionnaires of the quote form
+  app.get("/api/admin/questionnaires", requireAdmin, async (req, res) => {
+    try {
+      const questionnaires = await storage.getAllQuoteQuestionnaires();
+      res.json(questionnaires);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar questionários" });
+    }
+  });
+
+  app.put("/api/admin/questionnaires", requireAdmin, async (req, res) => {
+    try {
+      const data = quoteQuestionnaireSaveSchema.parse(req.body);
+      const questionnaire = await storage.saveQuoteQuestionnaire({ ...data, updatedBy: req.user!.id });
+      res.json(questionnaire);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao guardar questionário" });
+      }
+    }
+  });
+
+  app.delete("/api/admin/questionnaires/:id", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteQuoteQuestionnaire(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: "Questionário não encontrado" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao apagar questionário" });
+    }
+  });
+
+  // Exchange rates used to report revenue in the base currency
+  app.get("/api/admin/exchange-rates", requireAdmin, async (req, res) => {
+    try {
+      const rates = await storage.getAllExchangeRates();
+      res.json(rates);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar taxas de câmbio" });
+    }
+  });
+
+  app.put("/api/admin/exchange-rates/:currency", requireAdmin, async (req, res) => {
+    try {
+      const data = insertExchangeRateSchema.parse({
+        currency: req.params.currency.toUpperCase(),
+        rate: req.body.rate,
+        updatedBy: req.user!.id,
+      });
+      if (data.currency === baseCurrency) {
+        return res.status(400).json({ error: "A moeda base não precisa de taxa de câmbio" });
+      }
+      const rate = await storage.setExchangeRate(data);
+      res.json(rate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao guardar taxa de câmbio" });
+      }
+    }
+  });
+
+  app.delete("/api/admin/exchange-rates/:currency", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteExchangeRate(req.params.currency.toUpperCase());
+      if (deleted) {
+        res.json({ success: true });
+      } else {
+        res.status(404).json({ error: "Taxa de câmbio não encontrada" });
+      }
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao deletar taxa de câmbio" });
+    }
+  });
+
+  // Per-admin settings of the back office, e.g. list or board for quotes
+  app.patch("/api/admin/preferences", requireAdmin, async (req, res) => {
+    try {
+      const data = adminPreferencesSchema.parse(req.body);
+      const user = await storage.updateUser(req.user!.id, data);
+      res.json({ quotesView: user?.quotesView ?? data.quotesView });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        res.status(500).json({ error: "Erro ao guardar preferências" });
+      }
+    }
+  });
+
   // Admin Dashboard Stats
   app.get("/api/admin/stats", requireAdmin, async (req, res) => {
     try {
-      const [users, quotes, payments, subscriptions, reviews] = await Promise.all([
+      const [users, quotes, payments, subscriptions, reviews, refunds, coupons, couponRedemptions, rates] = await Promise.all([
         storage.getAllUsers(),
         storage.getAllQuotes(),
         storage.getAllPayments(),
         storage.getAllSubscriptions(),
         storage.getAllReviews(),
+        storage.getAllRefunds(),
+        storage.getAllCoupons(),
+        storage.getAllCouponRedemptions(),
+        getExchangeRateTable(),
       ]);
 
+      // Amounts are reported in the base currency, payments at the rate they
+      // were made at; currencies without a rate are left out and listed so
+      // the admin can add the missing rate
+      const unconvertedCurrencies = new Set<string>();
+      const convert = (amount: number, currency: string | null, storedRate?: string | null) => {
+        const converted = toBaseCurrency(amount, currency, rates, storedRate);
+        if (converted === null) {
+          unconvertedCurrencies.add((currency || baseCurrency).toUpperCase());
+          return 0;
+        }
+        return converted;
+      };
+
       const activeSubscriptions = subscriptions.filter((s) => s.status === "active");
       const pastDueSubscriptions = subscriptions.filter((s) => s.status === "past_due");
-      const pendingQuotes = quotes.filter((q) => q.status === "pending");
-      const completedQuotes = quotes.filter((q) => q.status === "completed");
+
+      // Past-due subscriptions are still billed, so they count until suspended
+      const recurringSubscriptions = [...activeSubscriptions, ...pastDueSubscriptions];
+      const mrr = recurringSubscriptions.reduce((acc, s) => acc + convert(getMonthlyRecurringAmount(s), s.currency), 0);
+      const arr = mrr * 12;
+      const subscriptionsByInterval = {
+        month: recurringSubscriptions.filter((s) => s.billingInterval !== "year").length,
+        year: recurringSubscriptions.filter((s) => s.billingInterval === "year").length,
+      };
+      // Quarantined quotes are most likely spam and stay out of the numbers
+      const leads = quotes.filter((q) => !q.quarantined && !q.mergedIntoId);
+      const pendingQuotes = leads.filter(isQuoteOpen);
+      const completedQuotes = leads.filter((q) => q.status === "won");
       
       const now = new Date();
       const currentMonth = now.getMonth();
@@ -592,62 +1991,104 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       const lastMonth = currentMonth === 0 ? 11 : currentMonth - 1;
       const lastMonthYear = currentMonth === 0 ? currentYear - 1 : currentYear;
 
-      const currentMonthPayments = payments.filter((p) => {
-        const date = new Date(p.createdAt!);
-        return date.getMonth() === currentMonth && date.getFullYear() === currentYear && p.status === "succeeded";
-      });
-
-      const lastMonthPayments = payments.filter((p) => {
-        const date = new Date(p.createdAt!);
-        return date.getMonth() === lastMonth && date.getFullYear() === lastMonthYear && p.status === "succeeded";
-      });
-
-      const totalRevenue = payments
-        .filter((p) => p.status === "succeeded")
-        .reduce((acc, p) => acc + parseFloat(p.amount), 0);
-
-      const currentMonthRevenue = currentMonthPayments.reduce((acc, p) => acc + parseFloat(p.amount), 0);
-      const lastMonthRevenue = lastMonthPayments.reduce((acc, p) => acc + parseFloat(p.amount), 0);
+      // Refunded payments still count; their refunds are subtracted below
+      const revenuePaymentStatuses = ["succeeded", "partially_refunded", "refunded"];
+
+      // Payments count on the day they were made and refunds are subtracted
+      // on the day they were issued, under the same service
+      const paymentsById = new Map(payments.map((p) => [p.id, p]));
+      const revenueEntries = [
+        ...payments
+          .filter((p) => revenuePaymentStatuses.includes(p.status))
+          .map((p) => ({
+            amount: convert(parseFloat(p.amount), p.currency, p.exchangeRate),
+            date: new Date(p.createdAt!),
+            paymentType: p.paymentType,
+            userId: p.userId,
+          })),
+        ...refunds
+          .filter((r) => isActiveRefund(r) && paymentsById.has(r.paymentId))
+          .map((r) => {
+            const payment = paymentsById.get(r.paymentId)!;
+            return {
+              amount: -convert(parseFloat(r.amount), r.currency ?? payment.currency, payment.exchangeRate),
+              date: new Date(r.createdAt!),
+              paymentType: payment.paymentType,
+              userId: payment.userId,
+            };
+          }),
+      ];
+      const sumRevenue = (entries: typeof revenueEntries) => entries.reduce((acc, e) => acc + e.amount, 0);
+      const inMonth = (month: number, year: number) =>
+        revenueEntries.filter((e) => e.date.getMonth() === month && e.date.getFullYear() === year);
+
+      const totalRevenue = sumRevenue(revenueEntries);
+      const currentMonthRevenue = sumRevenue(inMonth(currentMonth, currentYear));
+      const lastMonthRevenue = sumRevenue(inMonth(lastMonth, lastMonthYear));
       const revenueChange = lastMonthRevenue > 0 ? ((currentMonthRevenue - lastMonthRevenue) / lastMonthRevenue) * 100 : 0;
+      const totalRefunded = -sumRevenue(revenueEntries.filter((e) => e.amount < 0));
 
       const revenueByService = {
-        site: payments.filter((p) => p.paymentType === "maintenance_site" && p.status === "succeeded").reduce((acc, p) => acc + parseFloat(p.amount), 0),
-        app: payments.filter((p) => p.paymentType === "maintenance_app" && p.status === "succeeded").reduce((acc, p) => acc + parseFloat(p.amount), 0),
-        code: payments.filter((p) => p.paymentType === "code_payment" && p.status === "succeeded").reduce((acc, p) => acc + parseFloat(p.amount), 0),
-        custom: payments.filter((p) => p.paymentType === "custom" && p.status === "succeeded").reduce((acc, p) => acc + parseFloat(p.amount), 0),
+        site: sumRevenue(revenueEntries.filter((e) => e.paymentType === "maintenance_site")),
+        app: sumRevenue(revenueEntries.filter((e) => e.paymentType === "maintenance_app")),
+        code: sumRevenue(revenueEntries.filter((e) => e.paymentType === "code_payment")),
+        custom: sumRevenue(revenueEntries.filter((e) => e.paymentType === "custom")),
       };
 
       const monthlyData = [];
       for (let i = 5; i >= 0; i--) {
         const month = new Date(currentYear, currentMonth - i, 1);
-        const monthPayments = payments.filter((p) => {
-          const date = new Date(p.createdAt!);
-          return date.getMonth() === month.getMonth() && date.getFullYear() === month.getFullYear() && p.status === "succeeded";
-        });
+        const monthEntries = inMonth(month.getMonth(), month.getFullYear());
         monthlyData.push({
           month: month.toLocaleDateString("pt-BR", { month: "short" }),
-          revenue: monthPayments.reduce((acc, p) => acc + parseFloat(p.amount), 0),
-          clients: new Set(monthPayments.map((p) => p.userId)).size,
+          revenue: sumRevenue(monthEntries),
+          clients: new Set(monthEntries.filter((e) => e.amount > 0).map((e) => e.userId)).size,
         });
       }
 
+      const sumDiscounts = (redemptions: typeof couponRedemptions) =>
+        redemptions.reduce((acc, r) => acc + convert(parseFloat(r.discountAmount), r.currency), 0);
+      const couponStats = {
+        redemptions: couponRedemptions.length,
+        totalDiscount: sumDiscounts(couponRedemptions),
+        topCoupons: coupons
+          .map((coupon) => {
+            const used = couponRedemptions.filter((r) => r.couponId === coupon.id);
+            return {
+              code: coupon.code,
+              redemptions: used.length,
+              totalDiscount: sumDiscounts(used),
+            };
+          })
+          .filter((c) => c.redemptions > 0)
+          .sort((a, b) => b.redemptions - a.redemptions)
+          .slice(0, 5),
+      };
+
       const averageRating = reviews.length > 0
         ? reviews.reduce((acc, r) => acc + r.rating, 0) / reviews.length
         : 0;
 
       res.json({
         totalUsers: users.length,
-        totalQuotes: quotes.length,
+        totalQuotes: leads.length,
         pendingQuotes: pendingQuotes.length,
         completedQuotes: completedQuotes.length,
         activeSubscriptions: activeSubscriptions.length,
         pastDueSubscriptions: pastDueSubscriptions.length,
+        baseCurrency,
+        unconvertedCurrencies: Array.from(unconvertedCurrencies),
+        mrr,
+        arr,
+        subscriptionsByInterval,
         totalRevenue,
         currentMonthRevenue,
         lastMonthRevenue,
         revenueChange,
+        totalRefunded,
         revenueByService,
         monthlyData,
+        couponStats,
         averageRating,
         totalReviews: reviews.length,
         approvedReviews: reviews.filter((r) => r.isApproved).length,
@@ -700,6 +2141,34 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  app.get("/api/admin/dunning", requireAdmin, async (req, res) => {
+    try {
+      const events = await storage.getAllDunningEvents();
+      res.json({ reminderDays, graceDays, events });
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar histórico de cobrança" });
+    }
+  });
+
+  app.post("/api/admin/dunning/run", requireAdmin, async (req, res) => {
+    try {
+      const result = await runDunning();
+      res.json(result);
+    } catch (error) {
+      console.error("Dunning error:", error);
+      res.status(500).json({ error: "Erro ao processar cobranças em atraso" });
+    }
+  });
+
+  app.get("/api/admin/code-attempts", requireAdmin, async (req, res) => {
+    try {
+      const attempts = await storage.getAllCodeVerificationAttempts();
+      res.json(attempts);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar tentativas de verificação" });
+    }
+  });
+
   app.get("/api/admin/payment-codes/used", requireAdmin, async (req, res) => {
     try {
       const codes = await storage.getUsedPaymentCodes();
@@ -711,10 +2180,146 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.get("/api/admin/payments", requireAdmin, async (req, res) => {
     try {
-      const payments = await storage.getAllPayments();
-      res.json(payments);
+      const [payments, refunds, invoices] = await Promise.all([
+        storage.getAllPaymentsWithUsers(),
+        storage.getAllRefunds(),
+        storage.getAllInvoices(),
+      ]);
+
+      res.json(payments.map((payment) => {
+        const paymentRefunds = refunds.filter((r) => r.paymentId === payment.id);
+        const invoice = invoices.find((i) => i.paymentId === payment.id);
+        return {
+          ...payment,
+          refunds: paymentRefunds,
+          refundedAmount: getRefundedAmount(paymentRefunds).toFixed(2),
+          invoice: invoice ? { id: invoice.id, invoiceNumber: invoice.invoiceNumber, status: invoice.status } : null,
+        };
+      }));
     } catch (error) {
       res.status(500).json({ error: "Erro ao buscar pagamentos" });
     }
   });
+
+  app.post("/api/admin/payments/:id/invoice", requireAdmin, async (req, res) => {
+    try {
+      const payment = await storage.getPayment(parseInt(req.params.id));
+      if (!payment) {
+        return res.status(404).json({ error: "Pagamento não encontrado" });
+      }
+
+      const { vatRate, vatExemptionCode } = invoiceItemSchema.parse({
+        description: "-",
+        quantity: 1,
+        unitPrice: 0,
+        vatRate: req.body.vatRate ?? 23,
+        vatExemptionCode: req.body.vatExemptionCode,
+      });
+      const result = await issueInvoiceForPayment(payment, { vatRate, vatExemptionCode, createdBy: req.user!.id });
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      res.status(201).json(result.invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        console.error("Invoice error:", error);
+        res.status(500).json({ error: "Erro ao emitir fatura" });
+      }
+    }
+  });
+
+  app.get("/api/admin/invoices", requireAdmin, async (req, res) => {
+    try {
+      const invoices = await storage.getAllInvoices();
+      res.json(invoices);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao buscar faturas" });
+    }
+  });
+
+  app.post("/api/admin/invoices", requireAdmin, async (req, res) => {
+    try {
+      const data = invoiceRequestSchema.parse(req.body);
+      const invoice = await issueInvoice(data, { createdBy: req.user!.id });
+      res.status(201).json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        console.error("Invoice error:", error);
+        res.status(500).json({ error: "Erro ao emitir fatura" });
+      }
+    }
+  });
+
+  app.post("/api/admin/invoices/:id/cancel", requireAdmin, async (req, res) => {
+    try {
+      const reason = typeof req.body.reason === "string" ? req.body.reason.trim() : "";
+      if (reason.length < 3) {
+        return res.status(400).json({ error: "Indique o motivo da anulação" });
+      }
+
+      const invoice = await storage.cancelInvoice(parseInt(req.params.id), reason);
+      if (!invoice) {
+        return res.status(404).json({ error: "Fatura não encontrada ou já anulada" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      res.status(500).json({ error: "Erro ao anular fatura" });
+    }
+  });
+
+  app.get("/api/admin/saft", requireAdmin, async (req, res) => {
+    try {
+      const period = saftExportSchema.parse(req.query);
+      const result = await buildSaftFile(period);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      res.set({
+        "Content-Type": "application/xml; charset=windows-1252",
+        "Content-Disposition": `attachment; filename="${result.filename}"`,
+      });
+      res.send(result.content);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        console.error("SAF-T export error:", error);
+        res.status(500).json({ error: "Erro ao exportar SAF-T" });
+      }
+    }
+  });
+
+  app.post("/api/admin/payments/:id/refund", requireAdmin, async (req, res) => {
+    try {
+      if (!stripe) {
+        return res.status(500).json({ error: "Stripe não configurado" });
+      }
+
+      const payment = await storage.getPayment(parseInt(req.params.id));
+      if (!payment) {
+        return res.status(404).json({ error: "Pagamento não encontrado" });
+      }
+
+      const { amount, reason } = refundRequestSchema.parse(req.body);
+      const result = await refundPayment(stripe, payment, { amount, reason, adminId: req.user!.id });
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      res.status(201).json(result.refund);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors });
+      } else {
+        console.error("Stripe refund error:", error);
+        res.status(500).json({ error: "Erro ao processar reembolso" });
+      }
+    }
+  });
 }
@@ -0,0 +1,176 @@
+import "./test-env";
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { validateXML } from "xmllint-wasm";
+import { storage } from "./storage";
+import { seller } from "./invoices";
+import { buildSaftFile, renderSaftXml } from "./saft";
+import type { Invoice, Payment } from "@shared/schema";
+
+const nif = "509999990";
+const period = { start: "2026-03-01", end: "2026-03-31" };
+
+function makePayment(overrides: Partial<Payment>): Payment {
+  return {
+    id: 1,
+    userId: null,
+    stripePaymentId: "pi_1",
+    amount: "123.00",
+    currency: "EUR",
+    exchangeRate: "1",
+    status: "succeeded",
+    paymentType: "code_payment",
+    paymentMethod: "card",
+    paymentCodeId: null,
+    multibancoEntity: null,
+    multibancoReference: null,
+    expiresAt: null,
+    createdAt: new Date("2026-03-02T10:00:00"),
+    ...overrides,
+  };
+}
+
+function makeInvoice(overrides: Partial<Invoice>): Invoice {
+  return {
+    id: 1,
+    series: "FT",
+    year: 2026,
+    number: 1,
+    invoiceNumber: "FT 2026/1",
+    userId: null,
+    paymentId: null,
+    customerName: "Consumidor",
+    customerEmail: null,
+    customerNif: null,
+    customerAddress: null,
+    customerPostalCode: null,
+    customerCity: null,
+    customerCountry: "PT",
+    items: [{ description: "Site institucional", quantity: 1, unitPrice: 100, vatRate: 23, vatExemptionCode: null }],
+    netTotal: "100.00",
+    vatTotal: "23.00",
+    grossTotal: "123.00",
+    currency: "EUR",
+    exchangeRate: "1",
+    status: "issued",
+    cancelReason: null,
+    createdBy: null,
+    issuedAt: new Date("2026-03-02T10:00:00"),
+    ...overrides,
+  };
+}
+
+const paidInvoice = { ...makeInvoice({ paymentId: 1 }), payment: makePayment({}) };
+
+// A foreign customer, exempt under the small business regime
+const exemptInvoice = makeInvoice({
+  id: 2,
+  number: 2,
+  invoiceNumber: "FT 2026/2",
+  customerName: "Acme Ltd",
+  customerNif: "123456789",
+  customerAddress: "1 High Street",
+  customerPostalCode: "SW1A 1AA",
+  customerCity: "London",
+  customerCountry: "GB",
+  items: [
+    { description: "App móvel", quantity: 2, unitPrice: 75, vatRate: 0, vatExemptionCode: "M10" },
+    { description: "Alojamento", quantity: 1, unitPrice: 50, vatRate: 0, vatExemptionCode: "M10" },
+  ],
+  netTotal: "200.00",
+  vatTotal: "0.00",
+  grossTotal: "200.00",
+});
+
+// 200 GBP at 0.8 GBP per EUR
+const gbpInvoice = {
+  ...makeInvoice({
+    ...exemptInvoice,
+    id: 4,
+    number: 4,
+    invoiceNumber: "FT 2026/4",
+    paymentId: 2,
+    currency: "GBP",
+    exchangeRate: "0.800000",
+  }),
+  payment: makePayment({ id: 2, stripePaymentId: "pi_2", amount: "200.00", currency: "GBP", exchangeRate: "0.800000", paymentMethod: "multibanco" }),
+};
+
+const canceledInvoice = makeInvoice({
+  id: 3,
+  number: 3,
+  invoiceNumber: "FT 2026/3",
+  status: "canceled",
+  cancelReason: "Emitida por engano",
+});
+
+function getElements(xml: string, name: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${name}>([^<]*)</${name}>`, "g")), (match) => match[1]);
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("renderSaftXml", () => {
+  it("produces a file that validates against the SAF-T (PT) 1.04_01 schema", async () => {
+    const xml = renderSaftXml(period, [paidInvoice, exemptInvoice, gbpInvoice, canceledInvoice], nif);
+    const schema = await readFile(new URL("./SAFTPT1.04_01.xsd", import.meta.url), "utf8");
+
+    // The WebAssembly xmllint has no Windows-1252 decoder; the text is the same
+    const result = await validateXML({
+      xml: [{ fileName: "saft.xml", contents: xml.replace('encoding="Windows-1252"', 'encoding="UTF-8"') }],
+      schema: [{ fileName: "SAFTPT1.04_01.xsd", contents: schema }],
+    });
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.valid, true);
+  });
+
+  it("leaves canceled invoices out of the totals and issues receipts for paid ones", () => {
+    const xml = renderSaftXml(period, [paidInvoice, exemptInvoice, canceledInvoice], nif);
+
+    assert.deepEqual(getElements(xml, "NumberOfEntries"), ["3", "1"]);
+    assert.deepEqual(getElements(xml, "TotalCredit"), ["300.00", "100.00"]);
+    assert.deepEqual(getElements(xml, "PaymentAmount"), ["123.00"]);
+  });
+
+  it("reports a foreign currency invoice in EUR with its original amount", () => {
+    const xml = renderSaftXml(period, [gbpInvoice], nif);
+
+    assert.deepEqual(getElements(xml, "UnitPrice"), ["93.75", "62.50"]);
+    assert.deepEqual(getElements(xml, "CreditAmount"), ["187.50", "62.50", "250.00"]);
+    assert.deepEqual(getElements(xml, "GrossTotal"), ["250.00", "250.00"]);
+    assert.deepEqual(getElements(xml, "PaymentAmount"), ["250.00"]);
+    assert.deepEqual(getElements(xml, "CurrencyCode"), ["EUR", "GBP", "GBP"]);
+    assert.deepEqual(getElements(xml, "CurrencyAmount"), ["200.00", "200.00"]);
+    assert.deepEqual(getElements(xml, "ExchangeRate"), ["1.250000", "1.250000"]);
+  });
+
+  it("leaves EUR invoices without a currency block", () => {
+    const xml = renderSaftXml(period, [paidInvoice], nif);
+
+    assert.equal(xml.includes("<Currency>"), false);
+    assert.deepEqual(getElements(xml, "GrossTotal"), ["123.00", "123.00"]);
+  });
+});
+
+describe("buildSaftFile", () => {
+  it("refuses foreign currency invoices without an exchange rate", async () => {
+    const configuredNif = seller.nif;
+    seller.nif = nif;
+    mock.method(storage, "getInvoicesWithPaymentsBetween", async () => [
+      paidInvoice,
+      { ...gbpInvoice, exchangeRate: null, payment: { ...gbpInvoice.payment, exchangeRate: null } },
+    ]);
+
+    const result = await buildSaftFile(period).finally(() => {
+      seller.nif = configuredNif;
+    });
+
+    assert.deepEqual(result, {
+      error: "Sem taxa de câmbio registada para FT 2026/4: o SAF-T só aceita valores em EUR",
+    });
+  });
+});
@@ -0,0 +1,451 @@
+import { storage } from "./storage";
+import { calculateLine, seller } from "./invoices";
+import {
+  vatExemptionReasons,
+  type Invoice,
+  type InvoiceItem,
+  type Payment,
+  type SaftExportPeriod,
+} from "@shared/schema";
+
+// SAF-T (PT) 1.04_01 "Faturação" export of the invoices issued in a period,
+// with the matching receipts for invoices that were paid online. Amounts are
+// in EUR; invoices in another currency also carry their own total.
+//
+// The invoicing here is not certified by the AT: documents are not signed
+// and the series have no AT validation code. The file therefore carries the
+// values the schema allows for uncertified programs: certificate number 0,
+// Hash and HashControl "0" and ATCUD "0".
+
+const auditFileVersion = "1.04_01";
+const productId = "BragaWork/BragaWork";
+const productVersion = "1.0.0";
+
+// Generic customer the AT expects for sales without a NIF
+const finalConsumer = {
+  id: "CF",
+  taxId: "999999990",
+  name: "Consumidor final",
+};
+
+const taxCodes: Record<number, { code: string; description: string }> = {
+  23: { code: "NOR", description: "Taxa Normal" },
+  13: { code: "INT", description: "Taxa Intermédia" },
+  6: { code: "RED", description: "Taxa Reduzida" },
+  0: { code: "ISE", description: "Isento" },
+};
+
+// payments.paymentMethod -> SAF-T PaymentMechanism
+const paymentMechanisms: Record<string, string> = {
+  card: "CC",
+  multibanco: "MB",
+  mb_way: "DE",
+};
+
+const receiptStatuses = ["succeeded", "partially_refunded", "refunded"];
+
+type SaftInvoice = Invoice & { payment?: Payment };
+
+// Amounts as reported in the file, which is always in EUR
+interface EuroAmounts {
+  lines: { unitPrice: number; net: number }[];
+  netTotal: number;
+  vatTotal: number;
+  grossTotal: number;
+  // Units of the invoice currency per EUR; null for EUR invoices
+  rate: number | null;
+}
+
+type SaftEntry = SaftInvoice & { euro: EuroAmounts };
+
+interface XmlNode {
+  name: string;
+  children: (XmlNode | null)[] | string | number;
+}
+
+function node(name: string, children: XmlNode["children"]): XmlNode {
+  return { name, children };
+}
+
+// The AT requires Windows-1252: anything outside Latin-1 becomes a character reference
+function escapeXml(value: string): string {
+  const escaped = value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+  return Array.from(escaped, (char) => {
+    const codePoint = char.codePointAt(0)!;
+    return codePoint > 0xff ? `&#${codePoint};` : char;
+  }).join("");
+}
+
+function renderNode(xmlNode: XmlNode, indent: string): string {
+  if (!Array.isArray(xmlNode.children)) {
+    return `${indent}<${xmlNode.name}>${escapeXml(String(xmlNode.children))}</${xmlNode.name}>`;
+  }
+  const children = xmlNode.children
+    .filter((child): child is XmlNode => child !== null)
+    .map((child) => renderNode(child, `${indent}  `));
+  return [`${indent}<${xmlNode.name}>`, ...children, `${indent}</${xmlNode.name}>`].join("\n");
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatDateTime(date: Date): string {
+  return `${formatDate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function formatAmount(value: number | string): string {
+  return Number(value).toFixed(2);
+}
+
+function text(value: string | null | undefined, maxLength: number, fallback = "Desconhecido"): string {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, maxLength) : fallback;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Rate the invoice was issued at, or that its payment came in at
+function getExchangeRate(invoice: SaftInvoice): number | null {
+  const rate = parseFloat(invoice.exchangeRate ?? invoice.payment?.exchangeRate ?? "");
+  return rate > 0 ? rate : null;
+}
+
+function isExportable(invoice: SaftInvoice): boolean {
+  return invoice.currency === "EUR" || getExchangeRate(invoice) !== null;
+}
+
+// Invoices in another currency are converted line by line, so the totals
+// still add up to the lines in the file
+function getEuroAmounts(invoice: SaftInvoice): EuroAmounts {
+  if (invoice.currency === "EUR") {
+    return {
+      lines: invoice.items.map((item) => ({ unitPrice: item.unitPrice, net: calculateLine(item).net })),
+      netTotal: Number(invoice.netTotal),
+      vatTotal: Number(invoice.vatTotal),
+      grossTotal: Number(invoice.grossTotal),
+      rate: null,
+    };
+  }
+
+  const rate = getExchangeRate(invoice);
+  if (rate === null) {
+    throw new Error(`Invoice ${invoice.invoiceNumber} in ${invoice.currency} has no exchange rate`);
+  }
+  const lines = invoice.items.map((item) => ({
+    unitPrice: round2(item.unitPrice / rate),
+    net: round2(calculateLine(item).net / rate),
+  }));
+  const netTotal = round2(lines.reduce((acc, line) => acc + line.net, 0));
+  const vatTotal = round2(
+    lines.reduce((acc, line, index) => acc + round2((line.net * invoice.items[index].vatRate) / 100), 0),
+  );
+  return { lines, netTotal, vatTotal, grossTotal: round2(netTotal + vatTotal), rate };
+}
+
+function getCustomerId(invoice: Invoice): string {
+  return invoice.customerNif || finalConsumer.id;
+}
+
+// Invoice lines carry free-text descriptions, so each distinct description is one service
+function getProductCode(item: InvoiceItem, products: Map<string, string>): string {
+  const key = item.description.trim();
+  let code = products.get(key);
+  if (!code) {
+    code = `SERV${(products.size + 1).toString().padStart(3, "0")}`;
+    products.set(key, code);
+  }
+  return code;
+}
+
+function buildHeader(period: SaftExportPeriod, nif: string): XmlNode {
+  return node("Header", [
+    node("AuditFileVersion", auditFileVersion),
+    node("CompanyID", nif),
+    node("TaxRegistrationNumber", nif),
+    node("TaxAccountingBasis", "F"),
+    node("CompanyName", text(seller.name, 100)),
+    node("CompanyAddress", [
+      node("AddressDetail", text(seller.address, 100)),
+      node("City", text(seller.city, 50)),
+      node("PostalCode", /^\d{4}-\d{3}$/.test(seller.postalCode) ? seller.postalCode : "0000-000"),
+      node("Country", "PT"),
+    ]),
+    node("FiscalYear", period.start.slice(0, 4)),
+    node("StartDate", period.start),
+    node("EndDate", period.end),
+    node("CurrencyCode", "EUR"),
+    node("DateCreated", formatDate(new Date())),
+    node("TaxEntity", "Global"),
+    node("ProductCompanyTaxID", nif),
+    node("SoftwareCertificateNumber", 0),
+    node("ProductID", productId),
+    node("ProductVersion", productVersion),
+    seller.email ? node("Email", seller.email) : null,
+  ]);
+}
+
+function buildCustomers(invoices: SaftInvoice[]): XmlNode[] {
+  const customers = new Map<string, XmlNode>();
+
+  for (const invoice of invoices) {
+    const id = getCustomerId(invoice);
+    if (customers.has(id)) continue;
+
+    const isFinalConsumer = id === finalConsumer.id;
+    customers.set(
+      id,
+      node("Customer", [
+        node("CustomerID", id),
+        node("AccountID", "Desconhecido"),
+        node("CustomerTaxID", isFinalConsumer ? finalConsumer.taxId : id),
+        node("CompanyName", isFinalConsumer ? finalConsumer.name : text(invoice.customerName, 100)),
+        node("BillingAddress", [
+          node("AddressDetail", isFinalConsumer ? "Desconhecido" : text(invoice.customerAddress, 100)),
+          node("City", isFinalConsumer ? "Desconhecido" : text(invoice.customerCity, 50)),
+          node("PostalCode", isFinalConsumer ? "Desconhecido" : text(invoice.customerPostalCode, 20)),
+          node("Country", isFinalConsumer ? "Desconhecido" : invoice.customerCountry),
+        ]),
+        !isFinalConsumer && invoice.customerEmail ? node("Email", invoice.customerEmail.slice(0, 254)) : null,
+        node("SelfBillingIndicator", 0),
+      ]),
+    );
+  }
+
+  return Array.from(customers.values());
+}
+
+function buildProducts(products: Map<string, string>): XmlNode[] {
+  return Array.from(products.entries()).map(([description, code]) =>
+    node("Product", [
+      node("ProductType", "S"),
+      node("ProductCode", code),
+      node("ProductDescription", text(description, 200)),
+      node("ProductNumberCode", code),
+    ]),
+  );
+}
+
+function buildTaxTable(invoices: SaftInvoice[]): XmlNode {
+  const rates = new Set(invoices.flatMap((invoice) => invoice.items.map((item) => item.vatRate)));
+  return node(
+    "TaxTable",
+    Array.from(rates)
+      .sort((a, b) => b - a)
+      .map((rate) =>
+        node("TaxTableEntry", [
+          node("TaxType", "IVA"),
+          node("TaxCountryRegion", "PT"),
+          node("TaxCode", taxCodes[rate].code),
+          node("Description", taxCodes[rate].description),
+          node("TaxPercentage", rate),
+        ]),
+      ),
+  );
+}
+
+function buildTax(item: InvoiceItem): XmlNode[] {
+  const tax = node("Tax", [
+    node("TaxType", "IVA"),
+    node("TaxCountryRegion", "PT"),
+    node("TaxCode", taxCodes[item.vatRate].code),
+    node("TaxPercentage", item.vatRate),
+  ]);
+  if (!item.vatExemptionCode) return [tax];
+
+  return [
+    tax,
+    node("TaxExemptionReason", text(vatExemptionReasons[item.vatExemptionCode], 60)),
+    node("TaxExemptionCode", item.vatExemptionCode),
+  ];
+}
+
+function getSourceId(invoice: Invoice): string {
+  return invoice.createdBy ? invoice.createdBy.toString() : "Sistema";
+}
+
+function buildDocumentTotals(invoice: SaftEntry): XmlNode[] {
+  return [
+    node("TaxPayable", formatAmount(invoice.euro.vatTotal)),
+    node("NetTotal", formatAmount(invoice.euro.netTotal)),
+    node("GrossTotal", formatAmount(invoice.euro.grossTotal)),
+  ];
+}
+
+// The amount in the invoice's own currency, with the EUR value of one unit of it
+function buildCurrency(invoice: SaftEntry): XmlNode | null {
+  if (invoice.euro.rate === null) return null;
+  return node("Currency", [
+    node("CurrencyCode", invoice.currency),
+    node("CurrencyAmount", formatAmount(invoice.grossTotal)),
+    node("ExchangeRate", (1 / invoice.euro.rate).toFixed(6)),
+  ]);
+}
+
+function buildInvoice(invoice: SaftEntry, products: Map<string, string>): XmlNode {
+  const issuedAt = new Date(invoice.issuedAt!);
+  const isCanceled = invoice.status === "canceled";
+
+  return node("Invoice", [
+    node("InvoiceNo", invoice.invoiceNumber),
+    // No AT validation code for the series (uncertified, see above)
+    node("ATCUD", "0"),
+    node("DocumentStatus", [
+      node("InvoiceStatus", isCanceled ? "A" : "N"),
+      node("InvoiceStatusDate", formatDateTime(issuedAt)),
+      isCanceled && invoice.cancelReason ? node("Reason", invoice.cancelReason.slice(0, 50)) : null,
+      node("SourceID", getSourceId(invoice)),
+      node("SourceBilling", "P"),
+    ]),
+    // Not a certified program: no signature chain (see above)
+    node("Hash", "0"),
+    node("HashControl", "0"),
+    node("Period", issuedAt.getMonth() + 1),
+    node("InvoiceDate", formatDate(issuedAt)),
+    node("InvoiceType", "FT"),
+    node("SpecialRegimes", [
+      node("SelfBillingIndicator", 0),
+      node("CashVATSchemeIndicator", 0),
+      node("ThirdPartiesBillingIndicator", 0),
+    ]),
+    node("SourceID", getSourceId(invoice)),
+    node("SystemEntryDate", formatDateTime(issuedAt)),
+    node("CustomerID", getCustomerId(invoice)),
+    ...invoice.items.map((item, index) =>
+      node("Line", [
+        node("LineNumber", index + 1),
+        node("ProductCode", getProductCode(item, products)),
+        node("ProductDescription", text(item.description, 200)),
+        node("Quantity", item.quantity),
+        node("UnitOfMeasure", "UN"),
+        node("UnitPrice", formatAmount(invoice.euro.lines[index].unitPrice)),
+        node("TaxPointDate", formatDate(issuedAt)),
+        node("Description", text(item.description, 200)),
+        node("CreditAmount", formatAmount(invoice.euro.lines[index].net)),
+        ...buildTax(item),
+      ]),
+    ),
+    node("DocumentTotals", [...buildDocumentTotals(invoice), buildCurrency(invoice)]),
+  ]);
+}
+
+// Receipt for an invoice settled by an online payment (numbered after the invoice)
+function buildPayment(invoice: SaftEntry & { payment: Payment }): XmlNode {
+  const paidAt = new Date(invoice.payment.createdAt!);
+  const issuedAt = new Date(invoice.issuedAt!);
+  const entryDate = paidAt > issuedAt ? paidAt : issuedAt;
+
+  return node("Payment", [
+    node("PaymentRefNo", `RG ${invoice.series}${invoice.year}/${invoice.number}`),
+    // No AT validation code for the series (uncertified, see above)
+    node("ATCUD", "0"),
+    node("Period", entryDate.getMonth() + 1),
+    node("TransactionDate", formatDate(paidAt)),
+    node("PaymentType", "RG"),
+    node("DocumentStatus", [
+      node("PaymentStatus", "N"),
+      node("PaymentStatusDate", formatDateTime(entryDate)),
+      node("SourceID", getSourceId(invoice)),
+      node("SourcePayment", "P"),
+    ]),
+    node("PaymentMethod", [
+      node("PaymentMechanism", paymentMechanisms[invoice.payment.paymentMethod] ?? "OU"),
+      node("PaymentAmount", formatAmount(invoice.euro.grossTotal)),
+      node("PaymentDate", formatDate(paidAt)),
+    ]),
+    node("SourceID", getSourceId(invoice)),
+    node("SystemEntryDate", formatDateTime(entryDate)),
+    node("CustomerID", getCustomerId(invoice)),
+    node("Line", [
+      node("LineNumber", 1),
+      node("SourceDocumentID", [
+        node("OriginatingON", invoice.invoiceNumber),
+        node("InvoiceDate", formatDate(issuedAt)),
+      ]),
+      node("CreditAmount", formatAmount(invoice.euro.netTotal)),
+    ]),
+    node("DocumentTotals", [...buildDocumentTotals(invoice), buildCurrency(invoice)]),
+  ]);
+}
+
+function sumAmounts(values: (number | string)[]): string {
+  return formatAmount(values.reduce<number>((acc, value) => acc + Number(value), 0));
+}
+
+export function renderSaftXml(period: SaftExportPeriod, saftInvoices: SaftInvoice[], nif: string): string {
+  const invoices: SaftEntry[] = saftInvoices.map((invoice) => ({ ...invoice, euro: getEuroAmounts(invoice) }));
+  const products = new Map<string, string>();
+  const invoiceNodes = invoices.map((invoice) => buildInvoice(invoice, products));
+  const activeInvoices = invoices.filter((invoice) => invoice.status !== "canceled");
+  const paidInvoices = activeInvoices.filter(
+    (invoice): invoice is SaftEntry & { payment: Payment } =>
+      !!invoice.payment && receiptStatuses.includes(invoice.payment.status),
+  );
+
+  const auditFile = node("AuditFile", [
+    buildHeader(period, nif),
+    node("MasterFiles", [
+      ...buildCustomers(invoices),
+      ...buildProducts(products),
+      invoices.length > 0 ? buildTaxTable(invoices) : null,
+    ]),
+    node("SourceDocuments", [
+      node("SalesInvoices", [
+        node("NumberOfEntries", invoices.length),
+        node("TotalDebit", "0.00"),
+        node("TotalCredit", sumAmounts(activeInvoices.map((invoice) => invoice.euro.netTotal))),
+        ...invoiceNodes,
+      ]),
+      node("Payments", [
+        node("NumberOfEntries", paidInvoices.length),
+        node("TotalDebit", "0.00"),
+        node("TotalCredit", sumAmounts(paidInvoices.map((invoice) => invoice.euro.netTotal))),
+        ...paidInvoices.map(buildPayment),
+      ]),
+    ]),
+  ]);
+
+  const body = renderNode(auditFile, "").replace(
+    "<AuditFile>",
+    '<AuditFile xmlns="urn:OECD:StandardAuditFile-Tax:PT_1.04_01">',
+  );
+  return `<?xml version="1.0" encoding="Windows-1252"?>\n${body}\n`;
+}
+
+export async function buildSaftFile(
+  period: SaftExportPeriod,
+): Promise<{ filename: string; content: Buffer } | { error: string }> {
+  if (!/^\d{9}$/.test(seller.nif)) {
+    return { error: "Configure o NIF da empresa (INVOICE_SELLER_NIF) antes de exportar o SAF-T" };
+  }
+
+  const start = new Date(`${period.start}T00:00:00`);
+  const end = new Date(`${period.end}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+
+  const invoices = await storage.getInvoicesWithPaymentsBetween(start, end);
+  const withoutRate = invoices.filter((invoice) => !isExportable(invoice));
+  if (withoutRate.length > 0) {
+    return {
+      error: `Sem taxa de câmbio registada para ${withoutRate.map((invoice) => invoice.invoiceNumber).join(", ")}: o SAF-T só aceita valores em EUR`,
+    };
+  }
+
+  const xml = renderSaftXml(period, invoices, seller.nif);
+
+  return {
+    filename: `SAFT-PT_${seller.nif}_${period.start}_${period.end}.xml`,
+    content: Buffer.from(xml, "latin1"),
+  };
+}
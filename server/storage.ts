@@ -1,18 +1,55 @@
 import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, asc, and, or, gt, gte, lt, inArray, isNull, sql } from "drizzle-orm";
 import {
-  users, quotes, projects, reviews, payments, paymentCodes, subscriptions, monthlyReports, chatMessages,
-  type User, type InsertUser,
+  users, quotes, quoteMilestones, quoteEvents, quoteDrafts, quoteAttachments, quoteProposals, proposalSignatures, projects, reviews, payments, paymentCodes, codeVerificationAttempts, refunds, invoices, invoiceSequences, subscriptions, dunningEvents, coupons, couponRedemptions, plans, pricingRules, quoteQuestionnaires, exchangeRates, monthlyReports, chatMessages, stripeEvents,
+  type User, type InsertUser, type PublicUser,
   type Quote, type InsertQuote,
+  type QuoteMilestone, type InsertQuoteMilestone,
+  type QuoteEvent, type InsertQuoteEvent,
+  type QuoteDraft, type InsertQuoteDraft,
+  type QuoteAttachment, type InsertQuoteAttachment,
+  type QuoteProposal, type InsertQuoteProposal,
+  type ProposalSignature, type InsertProposalSignature,
   type Project, type InsertProject,
   type Review, type InsertReview,
   type Payment, type InsertPayment,
+  type Refund, type InsertRefund,
+  type Invoice, type InsertInvoice,
   type PaymentCode, type InsertPaymentCode,
+  type CodeVerificationAttempt, type InsertCodeVerificationAttempt,
   type Subscription, type InsertSubscription,
+  type DunningEvent, type InsertDunningEvent,
+  type Coupon, type InsertCoupon,
+  type CouponRedemption, type InsertCouponRedemption,
+  type Plan, type InsertPlan,
+  type PricingRule, type InsertPricingRule,
+  type QuoteQuestionnaire, type InsertQuoteQuestionnaire,
+  type ExchangeRate, type InsertExchangeRate,
   type MonthlyReport, type InsertMonthlyReport,
   type ChatMessage, type InsertChatMessage,
+  type StripeEvent, type InsertStripeEvent,
+  canChangeQuoteStatus,
+  type QuoteStatus,
 } from "@shared/schema";
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A submitted quote with the estimate worked out by the server
+export type NewQuote = InsertQuote &
+  Partial<Pick<Quote, "estimateMin" | "estimateMax" | "answers" | "quarantined" | "quarantineReasons">>;
+
+// A timeline entry with the name of the admin who made it
+export type QuoteEventWithUser = QuoteEvent & { userName: string | null };
+
+// A milestone to create together with the payment code that collects it
+export type NewQuoteMilestone = Omit<InsertQuoteMilestone, "quoteId" | "paymentCodeId"> & { paymentCode: InsertPaymentCode };
+
+// Proposal data before its version number is allocated
+export type NewQuoteProposal = Omit<InsertQuoteProposal, "version" | "status">;
+
+// Invoice data before a number is allocated
+export type NewInvoice = Omit<InsertInvoice, "series" | "year" | "number" | "invoiceNumber">;
+
 export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
@@ -23,11 +60,58 @@ export interface IStorage {
   getAllUsers(): Promise<User[]>;
 
   // Quotes
-  createQuote(quote: InsertQuote): Promise<Quote>;
+  createQuote(quote: NewQuote): Promise<Quote>;
   getQuote(id: number): Promise<Quote | undefined>;
   getAllQuotes(): Promise<Quote[]>;
   getQuotesByUser(userId: number): Promise<Quote[]>;
-  updateQuoteStatus(id: number, status: string): Promise<Quote | undefined>;
+  changeQuoteStatus(
+    id: number,
+    from: string,
+    change: { status: QuoteStatus; lostReason: string | null },
+    event: Pick<InsertQuoteEvent, "note" | "userId">,
+  ): Promise<Quote | undefined>;
+  setQuoteFollowUp(id: number, followUpAt: Date | null, userId: number): Promise<Quote | undefined>;
+  createQuoteEvent(event: InsertQuoteEvent): Promise<QuoteEvent>;
+  getQuoteEvents(quoteId: number): Promise<QuoteEventWithUser[]>;
+  migrateLegacyQuoteStatuses(): Promise<void>;
+  releaseQuarantinedQuote(id: number, userId: number): Promise<Quote | undefined>;
+  deleteQuarantinedQuote(id: number): Promise<QuoteAttachment[] | undefined>;
+  mergeQuotes(
+    primaryId: number,
+    duplicates: Quote[],
+    changes: Partial<Pick<Quote, "userId" | "projectDescription" | "answers">>,
+    userId: number,
+  ): Promise<Quote | undefined>;
+  linkAnonymousQuotes(userId: number, email: string): Promise<Quote[]>;
+
+  // Quote payment schedules
+  createPaymentSchedule(quoteId: number, price: string, currency: string, milestones: NewQuoteMilestone[], userId: number): Promise<QuoteMilestone[] | undefined>;
+  getQuoteMilestones(quoteId: number): Promise<(QuoteMilestone & { paymentCode: PaymentCode })[]>;
+
+  // Quote drafts
+  createQuoteDraft(draft: InsertQuoteDraft): Promise<QuoteDraft>;
+  getQuoteDraftByToken(token: string): Promise<QuoteDraft | undefined>;
+  getLatestQuoteDraftByUser(userId: number): Promise<QuoteDraft | undefined>;
+  updateQuoteDraft(id: number, draft: Partial<InsertQuoteDraft>): Promise<QuoteDraft | undefined>;
+  getAbandonedQuoteDrafts(inactiveSince: Date): Promise<QuoteDraft[]>;
+  completeQuoteDraft(id: number, quoteId: number): Promise<void>;
+
+  // Quote attachments
+  createQuoteAttachment(attachment: InsertQuoteAttachment): Promise<QuoteAttachment>;
+  getQuoteAttachment(id: number): Promise<QuoteAttachment | undefined>;
+  getQuoteAttachmentsByDraft(draftId: number): Promise<QuoteAttachment[]>;
+  getQuoteAttachmentsByQuote(quoteId: number): Promise<QuoteAttachment[]>;
+  deleteQuoteAttachment(id: number): Promise<boolean>;
+
+  // Quote proposals
+  createQuoteProposal(proposal: NewQuoteProposal): Promise<QuoteProposal>;
+  getQuoteProposals(quoteId: number): Promise<QuoteProposal[]>;
+  getQuoteProposalByToken(token: string): Promise<QuoteProposal | undefined>;
+  markQuoteProposalViewed(id: number): Promise<void>;
+  acceptQuoteProposal(id: number, signature: InsertProposalSignature): Promise<QuoteProposal | undefined>;
+  declineQuoteProposal(id: number, declineReason: string | null): Promise<QuoteProposal | undefined>;
+  getProposalSignature(proposalId: number): Promise<ProposalSignature | undefined>;
+  getProposalSignaturesByQuote(quoteId: number): Promise<ProposalSignature[]>;
 
   // Projects
   createProject(project: InsertProject): Promise<Project>;
@@ -42,32 +126,105 @@ export interface IStorage {
   getReview(id: number): Promise<Review | undefined>;
   getAllReviews(): Promise<Review[]>;
   getReviewsByUser(userId: number): Promise<Review[]>;
-  getApprovedReviews(): Promise<(Review & { user?: User })[]>;
+  getApprovedReviews(): Promise<(Review & { user?: PublicUser })[]>;
   approveReview(id: number): Promise<Review | undefined>;
   deleteReview(id: number): Promise<boolean>;
 
   // Payment Codes
   createPaymentCode(code: InsertPaymentCode): Promise<PaymentCode>;
+  getPaymentCode(id: number): Promise<PaymentCode | undefined>;
   getPaymentCodeByCode(code: string): Promise<PaymentCode | undefined>;
   getAllPaymentCodes(): Promise<PaymentCode[]>;
   getUsedPaymentCodes(): Promise<PaymentCode[]>;
-  markPaymentCodeAsUsed(code: string, email: string, name: string, stripePaymentId: string): Promise<PaymentCode | undefined>;
+  markPaymentCodeAsUsed(code: string, email: string, name: string): Promise<PaymentCode | undefined>;
+  releasePaymentCode(id: number): Promise<PaymentCode | undefined>;
   deletePaymentCode(id: number): Promise<boolean>;
 
+  // Code Verification Attempts
+  startCodeVerificationAttempt(
+    attempt: Omit<InsertCodeVerificationAttempt, "outcome">,
+    failedSince: Date,
+  ): Promise<{ attempt: CodeVerificationAttempt; recentFailures: CodeVerificationAttempt[][] }>;
+  setCodeVerificationOutcome(id: number, outcome: string): Promise<CodeVerificationAttempt | undefined>;
+  getAllCodeVerificationAttempts(limit?: number): Promise<CodeVerificationAttempt[]>;
+
   // Payments
   createPayment(payment: InsertPayment): Promise<Payment>;
   getPayment(id: number): Promise<Payment | undefined>;
+  getPaymentByStripePaymentId(stripePaymentId: string): Promise<Payment | undefined>;
   getPaymentsByUser(userId: number): Promise<Payment[]>;
+  getPaymentsByPaymentCodes(paymentCodeIds: number[]): Promise<Payment[]>;
   getAllPayments(): Promise<Payment[]>;
+  getAllPaymentsWithUsers(): Promise<(Payment & { user?: User })[]>;
   updatePaymentStatus(id: number, status: string): Promise<Payment | undefined>;
+  failPendingPayment(stripePaymentId: string): Promise<Payment | undefined>;
+
+  // Refunds
+  createRefund(refund: InsertRefund): Promise<Refund>;
+  getRefundByStripeId(stripeRefundId: string): Promise<Refund | undefined>;
+  getRefundsByPayment(paymentId: number): Promise<Refund[]>;
+  getAllRefunds(): Promise<Refund[]>;
+  updateRefundStatus(id: number, status: string): Promise<Refund | undefined>;
+
+  // Invoices
+  issueInvoice(series: string, invoice: NewInvoice): Promise<Invoice>;
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  getInvoiceByPayment(paymentId: number): Promise<Invoice | undefined>;
+  getInvoicesByUser(userId: number): Promise<Invoice[]>;
+  getAllInvoices(): Promise<Invoice[]>;
+  getInvoicesWithPaymentsBetween(start: Date, end: Date): Promise<(Invoice & { payment?: Payment })[]>;
+  cancelInvoice(id: number, reason: string): Promise<Invoice | undefined>;
 
   // Subscriptions
   createSubscription(subscription: InsertSubscription): Promise<Subscription>;
   getSubscription(id: number): Promise<Subscription | undefined>;
+  getSubscriptionByStripeId(stripeSubscriptionId: string): Promise<Subscription | undefined>;
   getSubscriptionsByUser(userId: number): Promise<Subscription[]>;
   getAllSubscriptions(): Promise<Subscription[]>;
   getAllSubscriptionsWithUsers(): Promise<(Subscription & { user?: User })[]>;
   updateSubscriptionStatus(id: number, status: string): Promise<Subscription | undefined>;
+  updateSubscription(id: number, subscription: Partial<InsertSubscription>): Promise<Subscription | undefined>;
+  getSubscriptionsWithUsersByStatus(statuses: string[]): Promise<(Subscription & { user?: User })[]>;
+
+  // Dunning
+  createDunningEvent(event: InsertDunningEvent): Promise<DunningEvent>;
+  getDunningEventsForCycle(subscriptionId: number, cycleStartedAt: Date): Promise<DunningEvent[]>;
+  getAllDunningEvents(limit?: number): Promise<DunningEvent[]>;
+
+  // Plans
+  createPlan(plan: InsertPlan): Promise<Plan>;
+  getPlan(id: number): Promise<Plan | undefined>;
+  getPlanBySlug(slug: string): Promise<Plan | undefined>;
+  getAllPlans(): Promise<Plan[]>;
+  getActivePlans(): Promise<Plan[]>;
+  updatePlan(id: number, plan: Partial<InsertPlan>): Promise<Plan | undefined>;
+  deletePlan(id: number): Promise<boolean>;
+
+  // Coupons
+  createCoupon(coupon: InsertCoupon): Promise<Coupon>;
+  getCoupon(id: number): Promise<Coupon | undefined>;
+  getCouponByCode(code: string): Promise<Coupon | undefined>;
+  getAllCoupons(): Promise<Coupon[]>;
+  updateCoupon(id: number, coupon: Partial<Coupon>): Promise<Coupon | undefined>;
+  deleteCoupon(id: number): Promise<boolean>;
+  redeemCoupon(redemption: InsertCouponRedemption): Promise<CouponRedemption | undefined>;
+  releaseCouponRedemption(stripeReference: string): Promise<CouponRedemption | undefined>;
+  getAllCouponRedemptions(): Promise<CouponRedemption[]>;
+
+  // Pricing Rules
+  getAllPricingRules(): Promise<PricingRule[]>;
+  replacePricingRules(rules: InsertPricingRule[]): Promise<PricingRule[]>;
+
+  // Quote Questionnaires
+  getAllQuoteQuestionnaires(): Promise<QuoteQuestionnaire[]>;
+  getQuoteQuestionnaire(serviceType: string, businessSegment: string): Promise<QuoteQuestionnaire | undefined>;
+  saveQuoteQuestionnaire(questionnaire: InsertQuoteQuestionnaire): Promise<QuoteQuestionnaire>;
+  deleteQuoteQuestionnaire(id: number): Promise<boolean>;
+
+  // Exchange Rates
+  getAllExchangeRates(): Promise<ExchangeRate[]>;
+  setExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate>;
+  deleteExchangeRate(currency: string): Promise<boolean>;
 
   // Monthly Reports
   createMonthlyReport(report: InsertMonthlyReport): Promise<MonthlyReport>;
@@ -77,6 +234,12 @@ export interface IStorage {
   // Chat Messages
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
   getChatMessagesBySession(sessionId: string): Promise<ChatMessage[]>;
+
+  // Stripe Events
+  claimStripeEvent(event: InsertStripeEvent, staleBefore: Date): Promise<StripeEvent | undefined>;
+  getStripeEvent(eventId: string): Promise<StripeEvent | undefined>;
+  markStripeEventProcessed(eventId: string): Promise<void>;
+  releaseStripeEvent(eventId: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -111,9 +274,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Quotes
-  async createQuote(quote: InsertQuote): Promise<Quote> {
-    const [newQuote] = await db.insert(quotes).values(quote).returning();
-    return newQuote;
+  async createQuote(quote: NewQuote): Promise<Quote> {
+    return db.transaction(async (tx) => {
+      const [newQuote] = await tx.insert(quotes).values(quote).returning();
+      await tx.insert(quoteEvents).values({ quoteId: newQuote.id, type: "created", toStatus: newQuote.status });
+      return newQuote;
+    });
   }
 
   async getQuote(id: number): Promise<Quote | undefined> {
@@ -129,11 +295,400 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(quotes).where(eq(quotes.userId, userId)).orderBy(desc(quotes.createdAt));
   }
 
-  async updateQuoteStatus(id: number, status: string): Promise<Quote | undefined> {
-    const [updated] = await db.update(quotes).set({ status }).where(eq(quotes.id, id)).returning();
+  // Guarded on the status the admin saw, so two admins moving the same quote
+  // cannot both succeed (undefined for the loser)
+  async changeQuoteStatus(
+    id: number,
+    from: string,
+    change: { status: QuoteStatus; lostReason: string | null },
+    event: Pick<InsertQuoteEvent, "note" | "userId">,
+  ): Promise<Quote | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(quotes)
+        .set(change)
+        .where(and(eq(quotes.id, id), eq(quotes.status, from)))
+        .returning();
+      if (!updated) return undefined;
+
+      await tx.insert(quoteEvents).values({
+        quoteId: id,
+        type: "status_changed",
+        fromStatus: from,
+        toStatus: change.status,
+        note: event.note,
+        userId: event.userId,
+      });
+      return updated;
+    });
+  }
+
+  async setQuoteFollowUp(id: number, followUpAt: Date | null, userId: number): Promise<Quote | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(quotes).set({ followUpAt }).where(eq(quotes.id, id)).returning();
+      if (!updated) return undefined;
+
+      await tx.insert(quoteEvents).values({ quoteId: id, type: "follow_up", followUpAt, userId });
+      return updated;
+    });
+  }
+
+  async createQuoteEvent(event: InsertQuoteEvent): Promise<QuoteEvent> {
+    const [created] = await db.insert(quoteEvents).values(event).returning();
+    return created;
+  }
+
+  async getQuoteEvents(quoteId: number): Promise<QuoteEventWithUser[]> {
+    const results = await db
+      .select()
+      .from(quoteEvents)
+      .leftJoin(users, eq(quoteEvents.userId, users.id))
+      .where(eq(quoteEvents.quoteId, quoteId))
+      .orderBy(desc(quoteEvents.createdAt), desc(quoteEvents.id));
+
+    return results.map(row => ({
+      ...row.quote_events,
+      userName: row.users?.displayName ?? null,
+    }));
+  }
+
+  // Quotes created before the pipeline used pending / in_progress /
+  // completed / rejected
+  async migrateLegacyQuoteStatuses(): Promise<void> {
+    const legacy: Record<string, QuoteStatus> = {
+      pending: "new",
+      in_progress: "won",
+      completed: "won",
+      rejected: "lost",
+    };
+    for (const from of Object.keys(legacy)) {
+      await db
+        .update(quotes)
+        .set({ status: legacy[from], ...(legacy[from] === "lost" ? { lostReason: "other" } : {}) })
+        .where(eq(quotes.status, from));
+    }
+  }
+
+  async releaseQuarantinedQuote(id: number, userId: number): Promise<Quote | undefined> {
+    return db.transaction(async (tx) => {
+      const [released] = await tx
+        .update(quotes)
+        .set({ quarantined: false })
+        .where(and(eq(quotes.id, id), eq(quotes.quarantined, true)))
+        .returning();
+      if (released) {
+        await tx.insert(quoteEvents).values({ quoteId: id, type: "released", userId });
+      }
+      return released;
+    });
+  }
+
+  // Only untouched quarantined quotes can go, so nothing else points at them
+  // but their timeline, draft and attachments. Returns the attachments so
+  // their files can be removed too.
+  async deleteQuarantinedQuote(id: number): Promise<QuoteAttachment[] | undefined> {
+    return db.transaction(async (tx) => {
+      const [quote] = await tx
+        .select()
+        .from(quotes)
+        .where(and(eq(quotes.id, id), eq(quotes.quarantined, true), eq(quotes.status, "new")))
+        .for("update");
+      if (!quote) return undefined;
+
+      const attachments = await tx.delete(quoteAttachments).where(eq(quoteAttachments.quoteId, id)).returning();
+      await tx.delete(quoteDrafts).where(eq(quoteDrafts.quoteId, id));
+      await tx.delete(quoteEvents).where(eq(quoteEvents.quoteId, id));
+      await tx.delete(quotes).where(eq(quotes.id, id));
+      return attachments;
+    });
+  }
+
+  // Duplicates stay in the table, pointing at the kept lead, so their own
+  // timeline and any proposal records are left as they were. Their
+  // attachments move to the kept lead. Undefined when one of them was
+  // merged in the meantime.
+  async mergeQuotes(
+    primaryId: number,
+    duplicates: Quote[],
+    changes: Partial<Pick<Quote, "userId" | "projectDescription" | "answers">>,
+    userId: number,
+  ): Promise<Quote | undefined> {
+    const duplicateIds = duplicates.map((duplicate) => duplicate.id);
+    return db.transaction(async (tx) => {
+      const locked = await tx
+        .select({ id: quotes.id })
+        .from(quotes)
+        .where(and(inArray(quotes.id, [primaryId, ...duplicateIds]), isNull(quotes.mergedIntoId)))
+        .for("update");
+      if (locked.length !== duplicateIds.length + 1) return undefined;
+
+      const [primary] = await tx.update(quotes).set(changes).where(eq(quotes.id, primaryId)).returning();
+      await tx.update(quotes).set({ mergedIntoId: primaryId }).where(inArray(quotes.id, duplicateIds));
+      await tx.update(quoteAttachments).set({ quoteId: primaryId }).where(inArray(quoteAttachments.quoteId, duplicateIds));
+      await tx.insert(quoteEvents).values(
+        duplicates.flatMap((duplicate) => [
+          {
+            quoteId: primaryId,
+            type: "merged",
+            note: `#${duplicate.id} · ${duplicate.firstName} ${duplicate.lastName} · ${duplicate.email} · ${duplicate.countryCode} ${duplicate.phone}`,
+            userId,
+          },
+          { quoteId: duplicate.id, type: "merged", note: `Fundido no orçamento #${primaryId}`, userId },
+        ]),
+      );
+      return primary;
+    });
+  }
+
+  // Quotes sent without an account under the address the user signed in with
+  async linkAnonymousQuotes(userId: number, email: string): Promise<Quote[]> {
+    return db
+      .update(quotes)
+      .set({ userId })
+      .where(and(isNull(quotes.userId), eq(sql`lower(${quotes.email})`, email.trim().toLowerCase())))
+      .returning();
+  }
+
+  // Moves a quote along as a side effect of something else (a proposal, a
+  // payment schedule), only when the pipeline allows it
+  private async advanceQuoteStatus(
+    tx: Transaction,
+    quoteId: number,
+    to: QuoteStatus,
+    userId: number | null,
+  ): Promise<void> {
+    const [quote] = await tx.select({ status: quotes.status }).from(quotes).where(eq(quotes.id, quoteId));
+    if (!quote || !canChangeQuoteStatus(quote.status, to)) return;
+
+    await tx.update(quotes).set({ status: to }).where(eq(quotes.id, quoteId));
+    await tx.insert(quoteEvents).values({ quoteId, type: "status_changed", fromStatus: quote.status, toStatus: to, userId });
+  }
+
+  // Quote payment schedules
+  // Accepting the quote, its codes and milestones is all or nothing. The
+  // quote is priced first, and only if it had no price yet, so concurrent
+  // accepts cannot both create codes (undefined for the one that lost).
+  async createPaymentSchedule(
+    quoteId: number,
+    price: string,
+    currency: string,
+    milestones: NewQuoteMilestone[],
+    userId: number,
+  ): Promise<QuoteMilestone[] | undefined> {
+    return db.transaction(async (tx) => {
+      const [priced] = await tx
+        .update(quotes)
+        .set({ price, currency, acceptedAt: new Date() })
+        .where(and(eq(quotes.id, quoteId), isNull(quotes.price)))
+        .returning({ id: quotes.id });
+      if (!priced) return undefined;
+
+      const created: QuoteMilestone[] = [];
+      for (const { paymentCode, ...milestone } of milestones) {
+        const [code] = await tx.insert(paymentCodes).values(paymentCode).returning();
+        const [newMilestone] = await tx
+          .insert(quoteMilestones)
+          .values({ ...milestone, quoteId, paymentCodeId: code.id })
+          .returning();
+        created.push(newMilestone);
+      }
+      await tx.insert(quoteEvents).values({ quoteId, type: "payment_schedule", note: `${currency} ${price}`, userId });
+      await this.advanceQuoteStatus(tx, quoteId, "won", userId);
+      return created;
+    });
+  }
+
+  async getQuoteMilestones(quoteId: number): Promise<(QuoteMilestone & { paymentCode: PaymentCode })[]> {
+    const results = await db
+      .select()
+      .from(quoteMilestones)
+      .innerJoin(paymentCodes, eq(quoteMilestones.paymentCodeId, paymentCodes.id))
+      .where(eq(quoteMilestones.quoteId, quoteId))
+      .orderBy(asc(quoteMilestones.position));
+
+    return results.map(row => ({
+      ...row.quote_milestones,
+      paymentCode: row.payment_codes,
+    }));
+  }
+
+  // Quote drafts
+  async createQuoteDraft(draft: InsertQuoteDraft): Promise<QuoteDraft> {
+    const [created] = await db.insert(quoteDrafts).values(draft).returning();
+    return created;
+  }
+
+  async getQuoteDraftByToken(token: string): Promise<QuoteDraft | undefined> {
+    const [draft] = await db.select().from(quoteDrafts).where(eq(quoteDrafts.token, token));
+    return draft;
+  }
+
+  async getLatestQuoteDraftByUser(userId: number): Promise<QuoteDraft | undefined> {
+    const [draft] = await db
+      .select()
+      .from(quoteDrafts)
+      .where(and(eq(quoteDrafts.userId, userId), isNull(quoteDrafts.quoteId)))
+      .orderBy(desc(quoteDrafts.updatedAt))
+      .limit(1);
+    return draft;
+  }
+
+  // Submitted drafts are left as they were
+  async updateQuoteDraft(id: number, draft: Partial<InsertQuoteDraft>): Promise<QuoteDraft | undefined> {
+    const [updated] = await db
+      .update(quoteDrafts)
+      .set({ ...draft, updatedAt: new Date() })
+      .where(and(eq(quoteDrafts.id, id), isNull(quoteDrafts.quoteId)))
+      .returning();
     return updated;
   }
 
+  async getAbandonedQuoteDrafts(inactiveSince: Date): Promise<QuoteDraft[]> {
+    return db
+      .select()
+      .from(quoteDrafts)
+      .where(and(isNull(quoteDrafts.quoteId), lt(quoteDrafts.updatedAt, inactiveSince)))
+      .orderBy(desc(quoteDrafts.updatedAt));
+  }
+
+  // Links the draft and the files uploaded with it to the submitted quote
+  async completeQuoteDraft(id: number, quoteId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(quoteDrafts)
+        .set({ quoteId, updatedAt: new Date() })
+        .where(and(eq(quoteDrafts.id, id), isNull(quoteDrafts.quoteId)));
+      await tx.update(quoteAttachments).set({ quoteId }).where(eq(quoteAttachments.draftId, id));
+    });
+  }
+
+  // Quote attachments
+  async createQuoteAttachment(attachment: InsertQuoteAttachment): Promise<QuoteAttachment> {
+    const [created] = await db.insert(quoteAttachments).values(attachment).returning();
+    return created;
+  }
+
+  async getQuoteAttachment(id: number): Promise<QuoteAttachment | undefined> {
+    const [attachment] = await db.select().from(quoteAttachments).where(eq(quoteAttachments.id, id));
+    return attachment;
+  }
+
+  async getQuoteAttachmentsByDraft(draftId: number): Promise<QuoteAttachment[]> {
+    return db
+      .select()
+      .from(quoteAttachments)
+      .where(eq(quoteAttachments.draftId, draftId))
+      .orderBy(asc(quoteAttachments.createdAt), asc(quoteAttachments.id));
+  }
+
+  async getQuoteAttachmentsByQuote(quoteId: number): Promise<QuoteAttachment[]> {
+    return db
+      .select()
+      .from(quoteAttachments)
+      .where(eq(quoteAttachments.quoteId, quoteId))
+      .orderBy(asc(quoteAttachments.createdAt), asc(quoteAttachments.id));
+  }
+
+  async deleteQuoteAttachment(id: number): Promise<boolean> {
+    const result = await db.delete(quoteAttachments).where(eq(quoteAttachments.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Quote proposals
+  // The new version supersedes any earlier one the client has not answered
+  async createQuoteProposal(proposal: NewQuoteProposal): Promise<QuoteProposal> {
+    return db.transaction(async (tx) => {
+      const [{ lastVersion }] = await tx
+        .select({ lastVersion: sql<number>`coalesce(max(${quoteProposals.version}), 0)` })
+        .from(quoteProposals)
+        .where(eq(quoteProposals.quoteId, proposal.quoteId));
+      await tx
+        .update(quoteProposals)
+        .set({ status: "superseded" })
+        .where(and(eq(quoteProposals.quoteId, proposal.quoteId), eq(quoteProposals.status, "sent")));
+      const [created] = await tx
+        .insert(quoteProposals)
+        .values({ ...proposal, version: Number(lastVersion) + 1, status: "sent" })
+        .returning();
+      await tx.insert(quoteEvents).values({
+        quoteId: proposal.quoteId,
+        type: "proposal_sent",
+        note: `v${created.version}`,
+        userId: proposal.createdBy ?? null,
+      });
+      await this.advanceQuoteStatus(tx, proposal.quoteId, "proposal_sent", proposal.createdBy ?? null);
+      return created;
+    });
+  }
+
+  async getQuoteProposals(quoteId: number): Promise<QuoteProposal[]> {
+    return db.select().from(quoteProposals).where(eq(quoteProposals.quoteId, quoteId)).orderBy(desc(quoteProposals.version));
+  }
+
+  async getQuoteProposalByToken(token: string): Promise<QuoteProposal | undefined> {
+    const [proposal] = await db.select().from(quoteProposals).where(eq(quoteProposals.token, token));
+    return proposal;
+  }
+
+  async markQuoteProposalViewed(id: number): Promise<void> {
+    await db
+      .update(quoteProposals)
+      .set({ viewedAt: new Date() })
+      .where(and(eq(quoteProposals.id, id), isNull(quoteProposals.viewedAt)));
+  }
+
+  // Only an open proposal can be answered, so a double click or a newer
+  // version sent meanwhile leaves it untouched (undefined). Accepting stores
+  // the signature and wins the quote; declining reopens the negotiation.
+  async acceptQuoteProposal(id: number, signature: InsertProposalSignature): Promise<QuoteProposal | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(quoteProposals)
+        .set({ status: "accepted", respondedAt: signature.signedAt })
+        .where(and(eq(quoteProposals.id, id), eq(quoteProposals.status, "sent")))
+        .returning();
+      if (!updated) return undefined;
+
+      await tx.insert(proposalSignatures).values(signature);
+      await tx.insert(quoteEvents).values({
+        quoteId: updated.quoteId,
+        type: "proposal_accepted",
+        note: `v${updated.version} · ${signature.signerName}`,
+      });
+      await this.advanceQuoteStatus(tx, updated.quoteId, "won", null);
+      return updated;
+    });
+  }
+
+  async declineQuoteProposal(id: number, declineReason: string | null): Promise<QuoteProposal | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(quoteProposals)
+        .set({ status: "declined", declineReason, respondedAt: new Date() })
+        .where(and(eq(quoteProposals.id, id), eq(quoteProposals.status, "sent")))
+        .returning();
+      if (!updated) return undefined;
+
+      await tx.insert(quoteEvents).values({
+        quoteId: updated.quoteId,
+        type: "proposal_declined",
+        note: declineReason ? `v${updated.version} · ${declineReason}` : `v${updated.version}`,
+      });
+      await this.advanceQuoteStatus(tx, updated.quoteId, "negotiating", null);
+      return updated;
+    });
+  }
+
+  // Signatures are audit records: there is deliberately no update or delete
+  async getProposalSignature(proposalId: number): Promise<ProposalSignature | undefined> {
+    const [signature] = await db.select().from(proposalSignatures).where(eq(proposalSignatures.proposalId, proposalId));
+    return signature;
+  }
+
+  async getProposalSignaturesByQuote(quoteId: number): Promise<ProposalSignature[]> {
+    return db.select().from(proposalSignatures).where(eq(proposalSignatures.quoteId, quoteId));
+  }
+
   // Projects
   async createProject(project: InsertProject): Promise<Project> {
     const [newProject] = await db.insert(projects).values(project).returning();
@@ -182,12 +737,15 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(reviews).where(eq(reviews.userId, userId)).orderBy(desc(reviews.createdAt));
   }
 
-  async getApprovedReviews(): Promise<(Review & { user?: User })[]> {
+  async getApprovedReviews(): Promise<(Review & { user?: PublicUser })[]> {
     const reviewsList = await db.select().from(reviews).where(eq(reviews.isApproved, true)).orderBy(desc(reviews.createdAt));
     const result = await Promise.all(
       reviewsList.map(async (review) => {
         const user = await this.getUser(review.userId);
-        return { ...review, user };
+        return {
+          ...review,
+          user: user && { id: user.id, displayName: user.displayName, avatarUrl: user.avatarUrl },
+        };
       })
     );
     return result;
@@ -209,6 +767,11 @@ export class DatabaseStorage implements IStorage {
     return newCode;
   }
 
+  async getPaymentCode(id: number): Promise<PaymentCode | undefined> {
+    const [paymentCode] = await db.select().from(paymentCodes).where(eq(paymentCodes.id, id));
+    return paymentCode;
+  }
+
   async getPaymentCodeByCode(code: string): Promise<PaymentCode | undefined> {
     const [paymentCode] = await db.select().from(paymentCodes).where(eq(paymentCodes.code, code));
     return paymentCode;
@@ -219,13 +782,44 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUsedPaymentCodes(): Promise<PaymentCode[]> {
-    return db.select().from(paymentCodes).where(eq(paymentCodes.isUsed, true)).orderBy(desc(paymentCodes.usedAt));
+    return db.select().from(paymentCodes).where(gt(paymentCodes.useCount, 0)).orderBy(desc(paymentCodes.usedAt));
   }
 
-  async markPaymentCodeAsUsed(code: string, email: string, name: string, stripePaymentId: string): Promise<PaymentCode | undefined> {
+  // Takes one use of the code in a single statement, so concurrent
+  // redemptions cannot go past maxUses. Undefined when the code is used up,
+  // expired or unknown.
+  async markPaymentCodeAsUsed(code: string, email: string, name: string): Promise<PaymentCode | undefined> {
     const [updated] = await db.update(paymentCodes)
-      .set({ isUsed: true, usedByEmail: email, usedByName: name, stripePaymentId, usedAt: new Date() })
-      .where(eq(paymentCodes.code, code))
+      .set({
+        useCount: sql`${paymentCodes.useCount} + 1`,
+        isUsed: sql`${paymentCodes.maxUses} is not null and ${paymentCodes.useCount} + 1 >= ${paymentCodes.maxUses}`,
+        usedByEmail: email,
+        usedByName: name,
+        usedAt: new Date(),
+      })
+      .where(and(
+        eq(paymentCodes.code, code),
+        sql`coalesce(${paymentCodes.isUsed}, false) = false`,
+        or(isNull(paymentCodes.maxUses), lt(paymentCodes.useCount, paymentCodes.maxUses)),
+        or(isNull(paymentCodes.expiresAt), gt(paymentCodes.expiresAt, sql`now()`)),
+      ))
+      .returning();
+    return updated;
+  }
+
+  // Giving back the last use also clears who used the code, so the admin
+  // list shows it as free again
+  async releasePaymentCode(id: number): Promise<PaymentCode | undefined> {
+    const lastUse = sql`${paymentCodes.useCount} <= 1`;
+    const [updated] = await db.update(paymentCodes)
+      .set({
+        isUsed: false,
+        useCount: sql`greatest(${paymentCodes.useCount} - 1, 0)`,
+        usedByEmail: sql`case when ${lastUse} then null else ${paymentCodes.usedByEmail} end`,
+        usedByName: sql`case when ${lastUse} then null else ${paymentCodes.usedByName} end`,
+        usedAt: sql`case when ${lastUse} then null else ${paymentCodes.usedAt} end`,
+      })
+      .where(eq(paymentCodes.id, id))
       .returning();
     return updated;
   }
@@ -235,6 +829,53 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  // Code Verification Attempts
+  // Logs the attempt as pending and returns the failures of its IP and of its
+  // session logged before it (newest first). Attempts of the same IP or
+  // session run one at a time, so concurrent guesses all count each other.
+  async startCodeVerificationAttempt(
+    attempt: Omit<InsertCodeVerificationAttempt, "outcome">,
+    failedSince: Date,
+  ): Promise<{ attempt: CodeVerificationAttempt; recentFailures: CodeVerificationAttempt[][] }> {
+    return db.transaction(async (tx) => {
+      const keyFilters = [eq(codeVerificationAttempts.ipAddress, attempt.ipAddress)];
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`code-attempts:ip:${attempt.ipAddress}`}))`);
+      if (attempt.sessionId) {
+        keyFilters.push(eq(codeVerificationAttempts.sessionId, attempt.sessionId));
+        await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`code-attempts:session:${attempt.sessionId}`}))`);
+      }
+
+      const recentFailures: CodeVerificationAttempt[][] = [];
+      for (const keyFilter of keyFilters) {
+        recentFailures.push(await tx.select().from(codeVerificationAttempts)
+          .where(and(
+            keyFilter,
+            gte(codeVerificationAttempts.createdAt, failedSince),
+            sql`${codeVerificationAttempts.outcome} not in ('success', 'locked')`,
+          ))
+          .orderBy(desc(codeVerificationAttempts.createdAt))
+          .limit(100));
+      }
+
+      const [created] = await tx.insert(codeVerificationAttempts)
+        .values({ ...attempt, outcome: "pending" })
+        .returning();
+      return { attempt: created, recentFailures };
+    });
+  }
+
+  async setCodeVerificationOutcome(id: number, outcome: string): Promise<CodeVerificationAttempt | undefined> {
+    const [updated] = await db.update(codeVerificationAttempts)
+      .set({ outcome })
+      .where(eq(codeVerificationAttempts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getAllCodeVerificationAttempts(limit = 200): Promise<CodeVerificationAttempt[]> {
+    return db.select().from(codeVerificationAttempts).orderBy(desc(codeVerificationAttempts.createdAt)).limit(limit);
+  }
+
   // Payments
   async createPayment(payment: InsertPayment): Promise<Payment> {
     const [newPayment] = await db.insert(payments).values(payment).returning();
@@ -246,19 +887,146 @@ export class DatabaseStorage implements IStorage {
     return payment;
   }
 
+  async getPaymentByStripePaymentId(stripePaymentId: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.stripePaymentId, stripePaymentId));
+    return payment;
+  }
+
   async getPaymentsByUser(userId: number): Promise<Payment[]> {
     return db.select().from(payments).where(eq(payments.userId, userId)).orderBy(desc(payments.createdAt));
   }
 
+  async getPaymentsByPaymentCodes(paymentCodeIds: number[]): Promise<Payment[]> {
+    if (paymentCodeIds.length === 0) return [];
+    return db.select().from(payments).where(inArray(payments.paymentCodeId, paymentCodeIds)).orderBy(asc(payments.createdAt));
+  }
+
   async getAllPayments(): Promise<Payment[]> {
     return db.select().from(payments).orderBy(desc(payments.createdAt));
   }
 
+  async getAllPaymentsWithUsers(): Promise<(Payment & { user?: User })[]> {
+    const results = await db
+      .select()
+      .from(payments)
+      .leftJoin(users, eq(payments.userId, users.id))
+      .orderBy(desc(payments.createdAt));
+
+    return results.map(row => ({
+      ...row.payments,
+      user: row.users || undefined,
+    }));
+  }
+
   async updatePaymentStatus(id: number, status: string): Promise<Payment | undefined> {
     const [updated] = await db.update(payments).set({ status }).where(eq(payments.id, id)).returning();
     return updated;
   }
 
+  // Only the delivery that moves the payment out of pending gets the row back,
+  // so whatever it reserved is given back once.
+  async failPendingPayment(stripePaymentId: string): Promise<Payment | undefined> {
+    const [updated] = await db.update(payments)
+      .set({ status: "failed" })
+      .where(and(eq(payments.stripePaymentId, stripePaymentId), eq(payments.status, "pending")))
+      .returning();
+    return updated;
+  }
+
+  // Refunds
+  async createRefund(refund: InsertRefund): Promise<Refund> {
+    const [newRefund] = await db.insert(refunds).values(refund).returning();
+    return newRefund;
+  }
+
+  async getRefundByStripeId(stripeRefundId: string): Promise<Refund | undefined> {
+    const [refund] = await db.select().from(refunds).where(eq(refunds.stripeRefundId, stripeRefundId));
+    return refund;
+  }
+
+  async getRefundsByPayment(paymentId: number): Promise<Refund[]> {
+    return db.select().from(refunds).where(eq(refunds.paymentId, paymentId)).orderBy(desc(refunds.createdAt));
+  }
+
+  async getAllRefunds(): Promise<Refund[]> {
+    return db.select().from(refunds).orderBy(desc(refunds.createdAt));
+  }
+
+  async updateRefundStatus(id: number, status: string): Promise<Refund | undefined> {
+    const [updated] = await db.update(refunds).set({ status }).where(eq(refunds.id, id)).returning();
+    return updated;
+  }
+
+  // Invoices
+  // The sequence bump and the insert share a transaction: a failed insert
+  // rolls the number back, and the row lock serializes concurrent issuers.
+  async issueInvoice(series: string, invoice: NewInvoice): Promise<Invoice> {
+    return db.transaction(async (tx) => {
+      const year = new Date().getFullYear();
+      const [sequence] = await tx
+        .insert(invoiceSequences)
+        .values({ series, year, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: [invoiceSequences.series, invoiceSequences.year],
+          set: { lastNumber: sql`${invoiceSequences.lastNumber} + 1` },
+        })
+        .returning();
+
+      const [newInvoice] = await tx
+        .insert(invoices)
+        .values({
+          ...invoice,
+          series,
+          year,
+          number: sequence.lastNumber,
+          invoiceNumber: `${series} ${year}/${sequence.lastNumber}`,
+        })
+        .returning();
+      return newInvoice;
+    });
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async getInvoiceByPayment(paymentId: number): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.paymentId, paymentId));
+    return invoice;
+  }
+
+  async getInvoicesByUser(userId: number): Promise<Invoice[]> {
+    return db.select().from(invoices).where(eq(invoices.userId, userId)).orderBy(desc(invoices.issuedAt));
+  }
+
+  async getAllInvoices(): Promise<Invoice[]> {
+    return db.select().from(invoices).orderBy(desc(invoices.issuedAt));
+  }
+
+  async getInvoicesWithPaymentsBetween(start: Date, end: Date): Promise<(Invoice & { payment?: Payment })[]> {
+    const results = await db
+      .select()
+      .from(invoices)
+      .leftJoin(payments, eq(invoices.paymentId, payments.id))
+      .where(and(gte(invoices.issuedAt, start), lt(invoices.issuedAt, end)))
+      .orderBy(asc(invoices.series), asc(invoices.year), asc(invoices.number));
+
+    return results.map(row => ({
+      ...row.invoices,
+      payment: row.payments || undefined,
+    }));
+  }
+
+  async cancelInvoice(id: number, reason: string): Promise<Invoice | undefined> {
+    const [updated] = await db
+      .update(invoices)
+      .set({ status: "canceled", cancelReason: reason })
+      .where(and(eq(invoices.id, id), eq(invoices.status, "issued")))
+      .returning();
+    return updated;
+  }
+
   // Subscriptions
   async createSubscription(subscription: InsertSubscription): Promise<Subscription> {
     const [newSubscription] = await db.insert(subscriptions).values(subscription).returning();
@@ -270,6 +1038,11 @@ export class DatabaseStorage implements IStorage {
     return subscription;
   }
 
+  async getSubscriptionByStripeId(stripeSubscriptionId: string): Promise<Subscription | undefined> {
+    const [subscription] = await db.select().from(subscriptions).where(eq(subscriptions.stripeSubscriptionId, stripeSubscriptionId));
+    return subscription;
+  }
+
   async getSubscriptionsByUser(userId: number): Promise<Subscription[]> {
     return db.select().from(subscriptions).where(eq(subscriptions.userId, userId)).orderBy(desc(subscriptions.createdAt));
   }
@@ -296,6 +1069,225 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async updateSubscription(id: number, subscription: Partial<InsertSubscription>): Promise<Subscription | undefined> {
+    const [updated] = await db.update(subscriptions).set(subscription).where(eq(subscriptions.id, id)).returning();
+    return updated;
+  }
+
+  async getSubscriptionsWithUsersByStatus(statuses: string[]): Promise<(Subscription & { user?: User })[]> {
+    const results = await db
+      .select()
+      .from(subscriptions)
+      .leftJoin(users, eq(subscriptions.userId, users.id))
+      .where(inArray(subscriptions.status, statuses));
+
+    return results.map(row => ({
+      ...row.subscriptions,
+      user: row.users || undefined,
+    }));
+  }
+
+  // Dunning
+  async createDunningEvent(event: InsertDunningEvent): Promise<DunningEvent> {
+    const [newEvent] = await db.insert(dunningEvents).values(event).returning();
+    return newEvent;
+  }
+
+  async getDunningEventsForCycle(subscriptionId: number, cycleStartedAt: Date): Promise<DunningEvent[]> {
+    return db
+      .select()
+      .from(dunningEvents)
+      .where(and(eq(dunningEvents.subscriptionId, subscriptionId), eq(dunningEvents.cycleStartedAt, cycleStartedAt)));
+  }
+
+  async getAllDunningEvents(limit = 500): Promise<DunningEvent[]> {
+    return db.select().from(dunningEvents).orderBy(desc(dunningEvents.createdAt)).limit(limit);
+  }
+
+  // Plans
+  async createPlan(plan: InsertPlan): Promise<Plan> {
+    const [newPlan] = await db.insert(plans).values(plan).returning();
+    return newPlan;
+  }
+
+  async getPlan(id: number): Promise<Plan | undefined> {
+    const [plan] = await db.select().from(plans).where(eq(plans.id, id));
+    return plan;
+  }
+
+  async getPlanBySlug(slug: string): Promise<Plan | undefined> {
+    const [plan] = await db.select().from(plans).where(eq(plans.slug, slug));
+    return plan;
+  }
+
+  async getAllPlans(): Promise<Plan[]> {
+    return db.select().from(plans).orderBy(plans.displayOrder);
+  }
+
+  async getActivePlans(): Promise<Plan[]> {
+    return db.select().from(plans).where(eq(plans.isActive, true)).orderBy(plans.displayOrder);
+  }
+
+  async updatePlan(id: number, plan: Partial<InsertPlan>): Promise<Plan | undefined> {
+    const [updated] = await db.update(plans).set(plan).where(eq(plans.id, id)).returning();
+    return updated;
+  }
+
+  async deletePlan(id: number): Promise<boolean> {
+    const result = await db.delete(plans).where(eq(plans.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Coupons
+  async createCoupon(coupon: InsertCoupon): Promise<Coupon> {
+    const [newCoupon] = await db.insert(coupons).values(coupon).returning();
+    return newCoupon;
+  }
+
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(eq(coupons.id, id));
+    return coupon;
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | undefined> {
+    const [coupon] = await db.select().from(coupons).where(eq(coupons.code, code));
+    return coupon;
+  }
+
+  async getAllCoupons(): Promise<Coupon[]> {
+    return db.select().from(coupons).orderBy(desc(coupons.createdAt));
+  }
+
+  async updateCoupon(id: number, coupon: Partial<Coupon>): Promise<Coupon | undefined> {
+    const [updated] = await db.update(coupons).set(coupon).where(eq(coupons.id, id)).returning();
+    return updated;
+  }
+
+  async deleteCoupon(id: number): Promise<boolean> {
+    const result = await db.delete(coupons).where(eq(coupons.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Takes one use from the coupon, or returns undefined when it has none left.
+  // A repeated Stripe reference returns the existing redemption, counted once.
+  async redeemCoupon(redemption: InsertCouponRedemption): Promise<CouponRedemption | undefined> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(couponRedemptions).values(redemption).onConflictDoNothing().returning();
+      if (!created) {
+        const [existing] = await tx
+          .select()
+          .from(couponRedemptions)
+          .where(eq(couponRedemptions.stripeReference, redemption.stripeReference));
+        return existing;
+      }
+
+      const [counted] = await tx
+        .update(coupons)
+        .set({ redemptionCount: sql`${coupons.redemptionCount} + 1` })
+        .where(and(
+          eq(coupons.id, redemption.couponId),
+          or(isNull(coupons.maxRedemptions), lt(coupons.redemptionCount, coupons.maxRedemptions)),
+        ))
+        .returning();
+      if (!counted) {
+        await tx.delete(couponRedemptions).where(eq(couponRedemptions.id, created.id));
+        return undefined;
+      }
+      return created;
+    });
+  }
+
+  async releaseCouponRedemption(stripeReference: string): Promise<CouponRedemption | undefined> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(couponRedemptions)
+        .where(eq(couponRedemptions.stripeReference, stripeReference))
+        .returning();
+      if (deleted) {
+        await tx
+          .update(coupons)
+          .set({ redemptionCount: sql`greatest(${coupons.redemptionCount} - 1, 0)` })
+          .where(eq(coupons.id, deleted.couponId));
+      }
+      return deleted;
+    });
+  }
+
+  async getAllCouponRedemptions(): Promise<CouponRedemption[]> {
+    return db.select().from(couponRedemptions).orderBy(desc(couponRedemptions.createdAt));
+  }
+
+  // Pricing Rules
+  async getAllPricingRules(): Promise<PricingRule[]> {
+    return db.select().from(pricingRules).orderBy(asc(pricingRules.kind), asc(pricingRules.key));
+  }
+
+  // The admin saves the whole table at once
+  async replacePricingRules(rules: InsertPricingRule[]): Promise<PricingRule[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(pricingRules);
+      if (rules.length === 0) return [];
+      return tx.insert(pricingRules).values(rules).returning();
+    });
+  }
+
+  // Quote Questionnaires
+  async getAllQuoteQuestionnaires(): Promise<QuoteQuestionnaire[]> {
+    return db
+      .select()
+      .from(quoteQuestionnaires)
+      .orderBy(asc(quoteQuestionnaires.businessSegment), asc(quoteQuestionnaires.serviceType));
+  }
+
+  async getQuoteQuestionnaire(serviceType: string, businessSegment: string): Promise<QuoteQuestionnaire | undefined> {
+    const [questionnaire] = await db
+      .select()
+      .from(quoteQuestionnaires)
+      .where(
+        and(eq(quoteQuestionnaires.serviceType, serviceType), eq(quoteQuestionnaires.businessSegment, businessSegment)),
+      );
+    return questionnaire;
+  }
+
+  async saveQuoteQuestionnaire(questionnaire: InsertQuoteQuestionnaire): Promise<QuoteQuestionnaire> {
+    const [saved] = await db
+      .insert(quoteQuestionnaires)
+      .values(questionnaire)
+      .onConflictDoUpdate({
+        target: [quoteQuestionnaires.serviceType, quoteQuestionnaires.businessSegment],
+        set: { fields: questionnaire.fields, updatedBy: questionnaire.updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteQuoteQuestionnaire(id: number): Promise<boolean> {
+    const deleted = await db.delete(quoteQuestionnaires).where(eq(quoteQuestionnaires.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Exchange Rates
+  async getAllExchangeRates(): Promise<ExchangeRate[]> {
+    return db.select().from(exchangeRates).orderBy(asc(exchangeRates.currency));
+  }
+
+  async setExchangeRate(rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const [saved] = await db
+      .insert(exchangeRates)
+      .values(rate)
+      .onConflictDoUpdate({
+        target: exchangeRates.currency,
+        set: { rate: rate.rate, updatedBy: rate.updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteExchangeRate(currency: string): Promise<boolean> {
+    const result = await db.delete(exchangeRates).where(eq(exchangeRates.currency, currency));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   // Monthly Reports
   async createMonthlyReport(report: InsertMonthlyReport): Promise<MonthlyReport> {
     const [newReport] = await db.insert(monthlyReports).values(report).returning();
@@ -321,6 +1313,36 @@ export class DatabaseStorage implements IStorage {
   async getChatMessagesBySession(sessionId: string): Promise<ChatMessage[]> {
     return db.select().from(chatMessages).where(eq(chatMessages.sessionId, sessionId)).orderBy(chatMessages.createdAt);
   }
+
+  // Stripe Events
+  // Undefined when the event was already claimed, possibly by a concurrent delivery
+  // Also takes over a claim from before `staleBefore` that was never marked
+  // processed: the delivery holding it died before finishing.
+  async claimStripeEvent(event: InsertStripeEvent, staleBefore: Date): Promise<StripeEvent | undefined> {
+    const [claimed] = await db
+      .insert(stripeEvents)
+      .values(event)
+      .onConflictDoUpdate({
+        target: stripeEvents.eventId,
+        set: { claimedAt: new Date() },
+        setWhere: and(isNull(stripeEvents.processedAt), lt(stripeEvents.claimedAt, staleBefore)),
+      })
+      .returning();
+    return claimed;
+  }
+
+  async getStripeEvent(eventId: string): Promise<StripeEvent | undefined> {
+    const [event] = await db.select().from(stripeEvents).where(eq(stripeEvents.eventId, eventId));
+    return event;
+  }
+
+  async markStripeEventProcessed(eventId: string): Promise<void> {
+    await db.update(stripeEvents).set({ processedAt: new Date() }).where(eq(stripeEvents.eventId, eventId));
+  }
+
+  async releaseStripeEvent(eventId: string): Promise<void> {
+    await db.delete(stripeEvents).where(eq(stripeEvents.eventId, eventId));
+  }
 }
 
 export const storage = new DatabaseStorage();
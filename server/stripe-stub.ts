@@ -0,0 +1,165 @@
+import Stripe from "stripe";
+import type { Request, Response } from "express";
+import type { BillingStripeClient } from "./billing";
+import { STRIPE_API_VERSION } from "./stripe";
+
+// In-memory stand-in for the parts of the Stripe client the billing code
+// uses. Every call is recorded so tests can check what was sent to Stripe.
+
+export interface StripeStubCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface StripeStubOptions {
+  subscription?: Partial<Stripe.Subscription>;
+  // Unit amount (cents) of prices that already exist in Stripe, by id
+  prices?: Record<string, number>;
+  invoices?: Partial<Stripe.Invoice>[];
+}
+
+export interface StripeStub {
+  client: BillingStripeClient;
+  calls: StripeStubCall[];
+  subscription: Stripe.Subscription;
+}
+
+function buildSubscription(overrides: Partial<Stripe.Subscription> = {}): Stripe.Subscription {
+  return {
+    id: "sub_stub",
+    object: "subscription",
+    status: "active",
+    cancel_at_period_end: false,
+    customer: "cus_stub",
+    metadata: { userId: "1", planType: "site_maintenance" },
+    items: {
+      object: "list",
+      has_more: false,
+      url: "/v1/subscription_items",
+      data: [
+        {
+          id: "si_stub",
+          object: "subscription_item",
+          price: { id: "price_site_month", unit_amount: 1500, currency: "eur", recurring: { interval: "month" } },
+        },
+      ],
+    },
+    ...overrides,
+  } as unknown as Stripe.Subscription;
+}
+
+export function createStripeStub(options: StripeStubOptions = {}): StripeStub {
+  const calls: StripeStubCall[] = [];
+  const prices: Record<string, number> = { price_site_month: 1500, ...options.prices };
+  const subscription = buildSubscription(options.subscription);
+  let createdPrices = 0;
+
+  const record = (method: string, ...args: unknown[]) => {
+    calls.push({ method, args });
+  };
+
+  const client = {
+    subscriptions: {
+      retrieve: async (id: string) => {
+        record("subscriptions.retrieve", id);
+        return subscription;
+      },
+      update: async (id: string, params: Stripe.SubscriptionUpdateParams) => {
+        record("subscriptions.update", id, params);
+        if (params.cancel_at_period_end !== undefined) {
+          subscription.cancel_at_period_end = params.cancel_at_period_end;
+        }
+        if (params.metadata) {
+          subscription.metadata = params.metadata as Stripe.Metadata;
+        }
+        for (const item of params.items ?? []) {
+          const existing = subscription.items.data.find((data) => data.id === item.id);
+          if (existing && item.price) {
+            existing.price = { ...existing.price, id: item.price, unit_amount: prices[item.price] ?? null };
+          }
+        }
+        return subscription;
+      },
+    },
+    prices: {
+      create: async (params: Stripe.PriceCreateParams) => {
+        record("prices.create", params);
+        const id = `price_stub_${++createdPrices}`;
+        prices[id] = params.unit_amount ?? 0;
+        return { id, object: "price", unit_amount: params.unit_amount, currency: params.currency };
+      },
+    },
+    billingPortal: {
+      sessions: {
+        create: async (params: Stripe.BillingPortal.SessionCreateParams) => {
+          record("billingPortal.sessions.create", params);
+          return { url: `https://billing.stripe.test/p/session/${params.customer}` };
+        },
+      },
+    },
+    invoices: {
+      list: async (params: Stripe.InvoiceListParams) => {
+        record("invoices.list", params);
+        return { object: "list", has_more: false, data: options.invoices ?? [] };
+      },
+    },
+  };
+
+  return { client: client as unknown as BillingStripeClient, calls, subscription };
+}
+
+// A webhook event around `object`, as Stripe would send it
+export function buildStripeEvent<T extends Stripe.Event.Type>(
+  type: T,
+  object: Partial<Extract<Stripe.Event, { type: T }>["data"]["object"]>,
+): Stripe.Event {
+  return {
+    id: `evt_${type.replace(/\W/g, "_")}`,
+    object: "event",
+    api_version: STRIPE_API_VERSION,
+    created: 1772366400,
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: null, idempotency_key: null },
+    type,
+    data: { object },
+  } as unknown as Stripe.Event;
+}
+
+export interface WebhookResponse {
+  status: number;
+  body: unknown;
+}
+
+// Posts the event to a webhook handler with a valid signature for the stub
+// secret (or a tampered one), the way Express hands over the raw body
+export async function postStripeEvent(
+  handler: (req: Request, res: Response) => Promise<unknown>,
+  event: Stripe.Event,
+  options: { tampered?: boolean } = {},
+): Promise<WebhookResponse> {
+  const payload = JSON.stringify(event);
+  const signature = Stripe.webhooks.generateTestHeaderString({
+    payload,
+    secret: process.env.STRIPE_WEBHOOK_SECRET!,
+  });
+  const req = {
+    headers: { "stripe-signature": signature },
+    rawBody: Buffer.from(options.tampered ? payload.replace(event.id, "evt_forged") : payload),
+  } as unknown as Request;
+
+  const response: WebhookResponse = { status: 200, body: undefined };
+  const res = {
+    status: (code: number) => {
+      response.status = code;
+      return res;
+    },
+    json: (body: unknown) => {
+      response.body = body;
+      return res;
+    },
+  } as unknown as Response;
+
+  await handler(req, res);
+  return response;
+}
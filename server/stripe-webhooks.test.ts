@@ -0,0 +1,196 @@
+import "./test-env";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { buildStripeEvent, postStripeEvent } from "./stripe-stub";
+import { handleStripeWebhook } from "./stripe-webhooks";
+import type { Payment, StripeEvent } from "@shared/schema";
+
+const pendingPayment: Payment = {
+  id: 5,
+  userId: null,
+  stripePaymentId: "pi_mbway",
+  amount: "80.00",
+  currency: "EUR",
+  exchangeRate: "1",
+  status: "pending",
+  paymentType: "code_payment",
+  paymentMethod: "mb_way",
+  paymentCodeId: 3,
+  multibancoEntity: null,
+  multibancoReference: null,
+  expiresAt: null,
+  createdAt: new Date("2026-03-02T10:00:00Z"),
+};
+
+const succeeded = buildStripeEvent("payment_intent.succeeded", { id: "pi_mbway", status: "succeeded" });
+
+function storedEvent(processedAt: Date | null): StripeEvent {
+  return {
+    id: 1,
+    eventId: succeeded.id,
+    type: succeeded.type,
+    claimedAt: new Date(),
+    processedAt,
+  };
+}
+
+let claims: { eventId: string; staleBefore: Date }[];
+let processed: string[];
+let released: string[];
+let statusUpdates: [number, string][];
+
+beforeEach(() => {
+  claims = [];
+  processed = [];
+  released = [];
+  statusUpdates = [];
+  mock.method(storage, "claimStripeEvent", async (event: { eventId: string; type: string }, staleBefore: Date) => {
+    claims.push({ eventId: event.eventId, staleBefore });
+    return { ...storedEvent(null), ...event };
+  });
+  mock.method(storage, "markStripeEventProcessed", async (eventId: string) => {
+    processed.push(eventId);
+  });
+  mock.method(storage, "releaseStripeEvent", async (eventId: string) => {
+    released.push(eventId);
+  });
+  mock.method(storage, "getPaymentByStripePaymentId", async () => pendingPayment);
+  mock.method(storage, "updatePaymentStatus", async (id: number, status: string) => {
+    statusUpdates.push([id, status]);
+    return { ...pendingPayment, status };
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("handleStripeWebhook", () => {
+  it("refuses an event whose signature does not match", async () => {
+    mock.method(console, "error", () => {});
+
+    const response = await postStripeEvent(handleStripeWebhook, succeeded, { tampered: true });
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(claims, []);
+  });
+
+  it("handles a signed event and marks it processed afterwards", async () => {
+    const response = await postStripeEvent(handleStripeWebhook, succeeded);
+
+    assert.deepEqual(response, { status: 200, body: { received: true } });
+    assert.deepEqual(statusUpdates, [[5, "succeeded"]]);
+    assert.deepEqual(processed, [succeeded.id]);
+    // Claims left unprocessed for five minutes are taken over
+    const staleFor = Date.now() - claims[0].staleBefore.getTime();
+    assert.ok(Math.abs(staleFor - 5 * 60 * 1000) < 1000);
+  });
+
+  it("acknowledges an event that was already processed without handling it again", async () => {
+    mock.method(storage, "claimStripeEvent", async () => undefined);
+    mock.method(storage, "getStripeEvent", async () => storedEvent(new Date()));
+
+    const response = await postStripeEvent(handleStripeWebhook, succeeded);
+
+    assert.deepEqual(response, { status: 200, body: { received: true, duplicate: true } });
+    assert.deepEqual(statusUpdates, []);
+  });
+
+  it("has Stripe retry while another delivery is still handling the event", async () => {
+    mock.method(storage, "claimStripeEvent", async () => undefined);
+    mock.method(storage, "getStripeEvent", async () => storedEvent(null));
+
+    const response = await postStripeEvent(handleStripeWebhook, succeeded);
+
+    assert.equal(response.status, 409);
+    assert.deepEqual(statusUpdates, []);
+  });
+
+  it("gives the claim back when handling fails", async () => {
+    mock.method(storage, "updatePaymentStatus", async () => {
+      throw new Error("connection lost");
+    });
+    mock.method(console, "error", () => {});
+
+    const response = await postStripeEvent(handleStripeWebhook, succeeded);
+
+    assert.equal(response.status, 500);
+    assert.deepEqual(processed, []);
+    assert.deepEqual(released, [succeeded.id]);
+  });
+});
+
+describe("payment_intent.payment_failed", () => {
+  const failed = buildStripeEvent("payment_intent.payment_failed", { id: "pi_mbway", status: "requires_payment_method" });
+  let releasedCodes: number[];
+  let releasedRedemptions: string[];
+
+  beforeEach(() => {
+    releasedCodes = [];
+    releasedRedemptions = [];
+    mock.method(storage, "releasePaymentCode", async (id: number) => {
+      releasedCodes.push(id);
+    });
+    mock.method(storage, "releaseCouponRedemption", async (stripeReference: string) => {
+      releasedRedemptions.push(stripeReference);
+    });
+  });
+
+  it("gives back the code and coupon of a pending payment", async () => {
+    mock.method(storage, "failPendingPayment", async () => ({ ...pendingPayment, status: "failed" }));
+
+    const response = await postStripeEvent(handleStripeWebhook, failed);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(releasedCodes, [3]);
+    assert.deepEqual(releasedRedemptions, ["pi_mbway"]);
+  });
+
+  it("keeps them when the attempt arrives after the PaymentIntent was paid", async () => {
+    // The checkout completed first and recorded the payment as succeeded
+    mock.method(storage, "failPendingPayment", async () => undefined);
+
+    const response = await postStripeEvent(handleStripeWebhook, failed);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(releasedCodes, []);
+    assert.deepEqual(releasedRedemptions, []);
+  });
+});
+
+describe("checkout.session.expired", () => {
+  let releasedCodes: number[];
+
+  beforeEach(() => {
+    releasedCodes = [];
+    mock.method(storage, "releasePaymentCode", async (id: number) => {
+      releasedCodes.push(id);
+    });
+  });
+
+  it("gives back the use of the code the checkout held", async () => {
+    const expired = buildStripeEvent("checkout.session.expired", {
+      id: "cs_card",
+      mode: "payment",
+      metadata: { code: "ABC123", paymentCodeId: "3", paymentMethod: "card" },
+    });
+
+    const response = await postStripeEvent(handleStripeWebhook, expired);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(releasedCodes, [3]);
+  });
+
+  it("leaves subscription checkouts alone", async () => {
+    const expired = buildStripeEvent("checkout.session.expired", {
+      id: "cs_subscription",
+      mode: "subscription",
+      metadata: { userId: "1", planType: "site_maintenance" },
+    });
+
+    await postStripeEvent(handleStripeWebhook, expired);
+
+    assert.deepEqual(releasedCodes, []);
+  });
+});
@@ -0,0 +1,343 @@
+import type { Request, Response } from "express";
+import type Stripe from "stripe";
+import { storage } from "./storage";
+import { stripe, constructWebhookEvent } from "./stripe";
+import { syncStripeRefund } from "./refunds";
+import { updateSubscriptionFromStripe } from "./dunning";
+import { recordCouponRedemption } from "./coupons";
+import { getExchangeRate } from "./exchange-rates";
+
+// A delivery still holding an event after this long is assumed to have died,
+// so Stripe's next retry handles the event again
+const eventClaimTimeout = 5 * 60 * 1000;
+
+// Plan type on the subscription -> payment type recorded for its invoices
+const maintenancePaymentTypes: Record<string, string> = {
+  site_maintenance: "maintenance_site",
+  app_maintenance: "maintenance_app",
+};
+
+function getId(value: string | { id: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === "string" ? value : value.id;
+}
+
+function fromUnixTime(seconds: number | undefined): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+function getSubscriptionPeriod(subscription: Stripe.Subscription) {
+  const item = subscription.items.data[0];
+  return {
+    currentPeriodStart: fromUnixTime(item?.current_period_start),
+    currentPeriodEnd: fromUnixTime(item?.current_period_end),
+  };
+}
+
+function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | undefined {
+  return getId(invoice.parent?.subscription_details?.subscription);
+}
+
+async function cancelPaymentIntent(paymentIntentId: string) {
+  if (!stripe) {
+    throw new Error("Stripe não configurado");
+  }
+  await stripe.paymentIntents.cancel(paymentIntentId);
+}
+
+async function retrieveSubscription(stripeSubscriptionId: string): Promise<Stripe.Subscription> {
+  if (!stripe) {
+    throw new Error("Stripe não configurado");
+  }
+  return stripe.subscriptions.retrieve(stripeSubscriptionId);
+}
+
+// Creates or refreshes the local row for a Stripe subscription. Checkout and
+// invoice events may arrive in any order, so every path goes through here.
+async function syncSubscription(stripeSubscription: Stripe.Subscription, metadata?: Stripe.Metadata | null) {
+  const item = stripeSubscription.items.data[0];
+  const data = {
+    cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+    amount: ((item?.price.unit_amount ?? 0) / 100).toFixed(2),
+    billingInterval: item?.price.recurring?.interval === "year" ? "year" : "month",
+    currency: (item?.price.currency ?? "eur").toUpperCase(),
+    ...getSubscriptionPeriod(stripeSubscription),
+  };
+
+  const existing = await storage.getSubscriptionByStripeId(stripeSubscription.id);
+  if (existing) {
+    return updateSubscriptionFromStripe(existing, stripeSubscription.status, data);
+  }
+
+  const { userId, planType } = { ...metadata, ...stripeSubscription.metadata };
+  if (!userId || !planType) return undefined;
+
+  return storage.createSubscription({
+    userId: parseInt(userId),
+    stripeSubscriptionId: stripeSubscription.id,
+    stripeCustomerId: getId(stripeSubscription.customer)!,
+    planType,
+    status: stripeSubscription.status,
+    ...data,
+  });
+}
+
+async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session) {
+  if (session.mode === "subscription") {
+    const stripeSubscriptionId = getId(session.subscription);
+    if (stripeSubscriptionId) {
+      const subscription = await syncSubscription(await retrieveSubscription(stripeSubscriptionId), session.metadata);
+      const redeemed = await recordCouponRedemption(session.metadata, {
+        stripeReference: session.id,
+        target: "subscription",
+        userId: subscription?.userId,
+        email: session.customer_details?.email,
+      });
+      if (!redeemed) {
+        console.warn(`Subscription ${stripeSubscriptionId} got coupon ${session.metadata?.couponId} after it ran out`);
+      }
+    }
+    return;
+  }
+
+  const { code, email, paymentMethod } = session.metadata || {};
+  const paymentIntentId = getId(session.payment_intent);
+
+  if (!code || !paymentIntentId) return;
+
+  const existing = await storage.getPaymentByStripePaymentId(paymentIntentId);
+  if (existing) return;
+
+  // The checkout took its use of the code when it was created. The coupon is
+  // taken now: an MB WAY payment the client has not approved yet is cancelled
+  // if it ran out in the meantime; a paid one is recorded anyway, since the
+  // money is in.
+  const paymentCode = await storage.getPaymentCodeByCode(code);
+  if (!paymentCode) return;
+
+  const paid = session.payment_status === "paid";
+  const user = email ? await storage.getUserByEmail(email) : undefined;
+  const redeemed = await recordCouponRedemption(session.metadata, {
+    stripeReference: paymentIntentId,
+    target: "payment_code",
+    userId: user?.id,
+    email,
+  });
+  if (!redeemed) {
+    if (!paid) {
+      await cancelPaymentIntent(paymentIntentId);
+      await storage.releasePaymentCode(paymentCode.id);
+      return;
+    }
+    console.warn(`Payment ${paymentIntentId} used coupon ${session.metadata?.couponId} after it ran out; check whether to refund it`);
+  }
+
+  const currency = session.currency?.toUpperCase() || "EUR";
+  await storage.createPayment({
+    userId: user?.id ?? null,
+    stripePaymentId: paymentIntentId,
+    amount: session.amount_total !== null ? (session.amount_total / 100).toFixed(2) : paymentCode.amount,
+    currency,
+    exchangeRate: await getExchangeRate(currency),
+    // MB WAY sessions complete before the client approves it in the app
+    status: paid ? "succeeded" : "pending",
+    paymentType: "code_payment",
+    paymentMethod: paymentMethod || "card",
+    paymentCodeId: paymentCode.id,
+  });
+}
+
+// Checkouts left unpaid give back the use of the code they took when created
+async function handleCheckoutSessionExpired(session: Stripe.Checkout.Session) {
+  const paymentCodeId = parseInt(session.metadata?.paymentCodeId ?? "");
+  if (paymentCodeId) {
+    await storage.releasePaymentCode(paymentCodeId);
+  }
+}
+
+// Asynchronous methods (Multibanco, MB WAY) confirm after checkout
+async function markPaymentSucceeded(stripePaymentId: string) {
+  const payment = await storage.getPaymentByStripePaymentId(stripePaymentId);
+  if (payment?.status === "pending") {
+    await storage.updatePaymentStatus(payment.id, "succeeded");
+  }
+}
+
+async function handleAsyncPaymentSucceeded(session: Stripe.Checkout.Session) {
+  const paymentIntentId = getId(session.payment_intent);
+  if (paymentIntentId) {
+    await markPaymentSucceeded(paymentIntentId);
+  }
+}
+
+async function handleAsyncPaymentFailed(session: Stripe.Checkout.Session) {
+  const paymentIntentId = getId(session.payment_intent);
+  if (paymentIntentId) {
+    await markPaymentFailed(paymentIntentId);
+  }
+}
+
+async function handleInvoicePaid(invoice: Stripe.Invoice) {
+  const stripeSubscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!stripeSubscriptionId) return;
+
+  const subscription = await syncSubscription(
+    await retrieveSubscription(stripeSubscriptionId),
+    invoice.parent?.subscription_details?.metadata,
+  );
+  if (!subscription || invoice.amount_paid === 0) return;
+
+  // Event payloads never include the invoice payments. The PaymentIntent is
+  // what refunds and charge.refunded work with, so it is looked up here.
+  if (!stripe) {
+    throw new Error("Stripe não configurado");
+  }
+  const { payments } = await stripe.invoices.retrieve(invoice.id, { expand: ["payments"] });
+  const paid = payments?.data.find((payment) => payment.status === "paid") ?? payments?.data[0];
+  const stripePaymentId = getId(paid?.payment.payment_intent) ?? invoice.id;
+  const existing = await storage.getPaymentByStripePaymentId(stripePaymentId);
+  if (existing) return;
+
+  await storage.createPayment({
+    userId: subscription.userId,
+    stripePaymentId,
+    amount: (invoice.amount_paid / 100).toFixed(2),
+    currency: invoice.currency.toUpperCase(),
+    exchangeRate: await getExchangeRate(invoice.currency),
+    status: "succeeded",
+    paymentType: maintenancePaymentTypes[subscription.planType] ?? "custom",
+  });
+}
+
+async function handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
+  const stripeSubscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!stripeSubscriptionId) return;
+
+  const subscription = await storage.getSubscriptionByStripeId(stripeSubscriptionId);
+  if (!subscription) return;
+
+  await updateSubscriptionFromStripe(subscription, "past_due");
+}
+
+async function handleSubscriptionUpdated(stripeSubscription: Stripe.Subscription) {
+  await syncSubscription(stripeSubscription);
+}
+
+async function handleSubscriptionDeleted(stripeSubscription: Stripe.Subscription) {
+  const subscription = await storage.getSubscriptionByStripeId(stripeSubscription.id);
+  if (!subscription) return;
+
+  await updateSubscriptionFromStripe(subscription, "canceled");
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  if (!stripe) {
+    throw new Error("Stripe não configurado");
+  }
+
+  // The event does not include the refunds themselves
+  const stripeRefunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+  for (const stripeRefund of stripeRefunds.data) {
+    await syncStripeRefund(stripeRefund);
+  }
+}
+
+async function handleRefundUpdated(stripeRefund: Stripe.Refund) {
+  await syncStripeRefund(stripeRefund);
+}
+
+async function markPaymentFailed(stripePaymentId: string) {
+  // Give back the use of the code and the coupon this payment held, so the
+  // client can try again with another method. Only a payment still pending
+  // holds them: a declined attempt can arrive after the same PaymentIntent
+  // was paid, and card payments only get a row once paid.
+  const payment = await storage.failPendingPayment(stripePaymentId);
+  if (!payment) return;
+
+  if (payment.paymentCodeId) {
+    await storage.releasePaymentCode(payment.paymentCodeId);
+  }
+  await storage.releaseCouponRedemption(stripePaymentId);
+}
+
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+  await markPaymentSucceeded(paymentIntent.id);
+}
+
+// Failed attempts and Multibanco references that expired unpaid
+async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
+  await markPaymentFailed(paymentIntent.id);
+}
+
+export async function handleStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case "checkout.session.completed":
+      return handleCheckoutSessionCompleted(event.data.object);
+    case "checkout.session.expired":
+      return handleCheckoutSessionExpired(event.data.object);
+    case "checkout.session.async_payment_succeeded":
+      return handleAsyncPaymentSucceeded(event.data.object);
+    case "checkout.session.async_payment_failed":
+      return handleAsyncPaymentFailed(event.data.object);
+    case "invoice.paid":
+      return handleInvoicePaid(event.data.object);
+    case "invoice.payment_failed":
+      return handleInvoicePaymentFailed(event.data.object);
+    case "customer.subscription.updated":
+      return handleSubscriptionUpdated(event.data.object);
+    case "customer.subscription.deleted":
+      return handleSubscriptionDeleted(event.data.object);
+    case "charge.refunded":
+      return handleChargeRefunded(event.data.object);
+    case "charge.refund.updated":
+      return handleRefundUpdated(event.data.object);
+    case "payment_intent.succeeded":
+      return handlePaymentIntentSucceeded(event.data.object);
+    case "payment_intent.payment_failed":
+    case "payment_intent.canceled":
+      return handlePaymentIntentFailed(event.data.object);
+    default:
+      // Other event types are acknowledged without any side effects
+      return;
+  }
+}
+
+export async function handleStripeWebhook(req: Request, res: Response) {
+  let event: Stripe.Event;
+  try {
+    event = constructWebhookEvent(req.rawBody, req.headers["stripe-signature"]);
+  } catch (error) {
+    console.error("Stripe webhook signature error:", error);
+    return res.status(400).json({ error: "Assinatura do webhook inválida" });
+  }
+
+  // Claimed before handling, so concurrent deliveries of the same event
+  // cannot both record it, and only marked processed once the handler is
+  // done. A failed attempt gives the claim back for Stripe's retry.
+  let claimed = false;
+  try {
+    const staleBefore = new Date(Date.now() - eventClaimTimeout);
+    claimed = !!(await storage.claimStripeEvent({ eventId: event.id, type: event.type }, staleBefore));
+    if (!claimed) {
+      const existing = await storage.getStripeEvent(event.id);
+      if (existing?.processedAt) {
+        return res.json({ received: true, duplicate: true });
+      }
+      // Another delivery is still on it; if that one dies, Stripe retries
+      return res.status(409).json({ error: "Evento ainda em processamento" });
+    }
+
+    await handleStripeEvent(event);
+    await storage.markStripeEventProcessed(event.id);
+
+    res.json({ received: true });
+  } catch (error) {
+    console.error("Stripe webhook error:", error);
+    if (claimed) {
+      await storage.releaseStripeEvent(event.id).catch((releaseError) => {
+        console.error("Error releasing Stripe event:", releaseError);
+      });
+    }
+    res.status(500).json({ error: "Webhook error" });
+  }
+}
@@ -0,0 +1,31 @@
+import Stripe from "stripe";
+
+// The version the installed SDK types describe. The webhook endpoint in the
+// Stripe dashboard must be created with the same version, otherwise event
+// payloads do not have the fields the handlers read.
+export const STRIPE_API_VERSION = "2026-02-25.clover";
+
+export const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: STRIPE_API_VERSION })
+  : null;
+
+// Verifies the Stripe-Signature header against the raw request body.
+// Throws if the secret is missing, the signature does not match or the
+// endpoint sends another API version.
+export function constructWebhookEvent(payload: unknown, signature: string | string[] | undefined): Stripe.Event {
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!webhookSecret) {
+    throw new Error("STRIPE_WEBHOOK_SECRET must be set to receive Stripe webhooks");
+  }
+
+  if (!Buffer.isBuffer(payload) || typeof signature !== "string") {
+    throw new Error("Missing raw body or Stripe-Signature header");
+  }
+
+  const event = Stripe.webhooks.constructEvent(payload, signature, webhookSecret);
+  if (event.api_version !== STRIPE_API_VERSION) {
+    throw new Error(`Stripe webhook endpoint uses API version ${event.api_version}, expected ${STRIPE_API_VERSION}`);
+  }
+  return event;
+}
@@ -0,0 +1,5 @@
+// Imported first by test files: the storage module needs a connection string
+// to load, but tests replace the storage calls they make and never connect.
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+// Webhook tests sign their fixture events with this
+process.env.STRIPE_WEBHOOK_SECRET = "whsec_stub";
@@ -1,9 +1,128 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, decimal, serial } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  integer,
+  boolean,
+  timestamp,
+  decimal,
+  serial,
+  jsonb,
+  unique,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Currencies we charge in; reporting converts everything to the base currency
+export const currencies = ["EUR", "GBP", "BRL"] as const;
+export type Currency = (typeof currencies)[number];
+export const baseCurrency: Currency = "EUR";
+
+// Options offered by the quote form, which the pricing rules are keyed on
+export const businessSegments = [
+  "Restaurante / Alimentação",
+  "Loja / E-commerce",
+  "Saúde / Medicina",
+  "Educação / Cursos",
+  "Advocacia / Jurídico",
+  "Imobiliária / Construção",
+  "Beleza / Estética",
+  "Academia / Fitness",
+  "Tecnologia / Startup",
+  "Consultoria / Serviços",
+  "Arte / Entretenimento",
+  "Outro",
+] as const;
+
+export const quoteAdditionalLabels: Record<string, string> = {
+  payment_online: "Pagamento Online",
+  scheduling: "Agendamento",
+  admin_panel: "Painel Administrativo",
+  chat: "Chat / Atendimento",
+};
+
+// Sales pipeline of a quote. Won and lost close it; a lost lead can be reopened.
+export const quoteStatuses = ["new", "contacted", "proposal_sent", "negotiating", "won", "lost"] as const;
+export type QuoteStatus = (typeof quoteStatuses)[number];
+
+export const quoteLostReasons: Record<string, string> = {
+  price: "Preço",
+  timing: "Prazo / timing",
+  competitor: "Escolheu outro fornecedor",
+  no_response: "Sem resposta",
+  out_of_scope: "Fora do nosso âmbito",
+  other: "Outro",
+};
+
+// Why a quote was held back for review instead of notifying the owner
+export const quoteQuarantineReasons: Record<string, string> = {
+  honeypot: "Preencheu o campo escondido",
+  too_fast: "Enviado depressa demais",
+  disposable_email: "Email descartável",
+  email_rate_limit: "Muitos pedidos com este email",
+};
+
+// What two quotes have in common to be flagged as the same lead
+export const quoteDuplicateReasons: Record<string, string> = {
+  email: "Mesmo email",
+  phone: "Mesmo telefone",
+  name: "Nome parecido",
+};
+export type QuoteDuplicateReason = "email" | "phone" | "name";
+
+// Hidden input of public forms: people never see it, bots fill it in
+export const formHoneypotField = "homepage";
+
+// Layouts of the admin quotes page
+export const quoteViews = ["list", "board"] as const;
+export type QuoteView = (typeof quoteViews)[number];
+
+export const pricingRuleKinds = ["base", "segment", "addon"] as const;
+export type PricingRuleKind = (typeof pricingRuleKinds)[number];
+
+// Extra questions an admin can ask per service type and business segment
+export const questionFieldTypes = ["text", "select", "multi_select", "number", "boolean"] as const;
+export type QuestionFieldType = (typeof questionFieldTypes)[number];
+
+export const questionFieldTypeLabels: Record<QuestionFieldType, string> = {
+  text: "Texto",
+  select: "Escolha única",
+  multi_select: "Escolha múltipla",
+  number: "Número",
+  boolean: "Sim / Não",
+};
+
+export const maxQuestionFields = 20;
+
+// Files a client can send with a quote request
+export const maxQuoteAttachments = 5;
+export const maxQuoteAttachmentSize = 10 * 1024 * 1024; // bytes
+
+export interface QuestionField {
+  id: string; // key of the answer, unique within the questionnaire
+  label: string;
+  type: QuestionFieldType;
+  required: boolean;
+  helpText?: string;
+  options?: string[]; // select and multi_select
+  min?: number; // number
+  max?: number;
+}
+
+export type QuestionAnswerValue = string | number | boolean | string[];
+
+// An answer as stored on the quote, with the question as it was asked, so
+// later edits to the questionnaire do not change past quotes
+export interface QuoteAnswer {
+  fieldId: string;
+  label: string;
+  type: QuestionFieldType;
+  value: QuestionAnswerValue;
+}
+
 // Users table - Google OAuth
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -13,6 +132,13 @@ export const users = pgTable("users", {
   displayName: text("display_name").notNull(),
   avatarUrl: text("avatar_url"),
   isAdmin: boolean("is_admin").default(false),
+  // Billing details used on invoices
+  nif: varchar("nif", { length: 9 }),
+  billingAddress: text("billing_address"),
+  billingPostalCode: text("billing_postal_code"),
+  billingCity: text("billing_city"),
+  billingCountry: varchar("billing_country", { length: 2 }).default("PT"),
+  quotesView: text("quotes_view").notNull().default("list"), // admin's layout of the quotes page, see quoteViews
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -36,15 +162,123 @@ export const quotes = pgTable("quotes", {
   businessSegment: text("business_segment").notNull(),
   additionals: text("additionals").array(), // ['payment_online', 'scheduling', 'admin_panel', 'chat']
   projectDescription: text("project_description"),
-  status: text("status").notNull().default("pending"), // 'pending' | 'in_progress' | 'completed' | 'rejected'
+  status: text("status").notNull().default("new"), // see quoteStatuses
+  lostReason: text("lost_reason"), // key of quoteLostReasons, set when lost
+  followUpAt: timestamp("follow_up_at"), // next time the admin should get back to the client
+  estimateMin: decimal("estimate_min", { precision: 10, scale: 2 }), // instant estimate (EUR) shown when submitted
+  estimateMax: decimal("estimate_max", { precision: 10, scale: 2 }),
+  quarantined: boolean("quarantined").notNull().default(false), // looks like spam; no notification until released
+  quarantineReasons: text("quarantine_reasons").array(), // keys of quoteQuarantineReasons
+  mergedIntoId: integer("merged_into_id").references((): AnyPgColumn => quotes.id), // duplicate folded into this lead
+  answers: jsonb("answers").$type<QuoteAnswer[]>(), // segment questionnaire, validated on submit
+  price: decimal("price", { precision: 10, scale: 2 }), // agreed when the quote is accepted
+  currency: text("currency").notNull().default("EUR"), // of the price and its milestones
+  acceptedAt: timestamp("accepted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const quotesRelations = relations(quotes, ({ one }) => ({
+export const quotesRelations = relations(quotes, ({ one, many }) => ({
   user: one(users, {
     fields: [quotes.userId],
     references: [users.id],
   }),
+  milestones: many(quoteMilestones),
+  proposals: many(quoteProposals),
+  events: many(quoteEvents),
+  attachments: many(quoteAttachments),
+}));
+
+// Timeline of a quote: status changes, internal notes, follow-ups and what
+// happened to its proposals. userId is null for the client and automatic steps.
+export const quoteEvents = pgTable("quote_events", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").references(() => quotes.id).notNull(),
+  type: text("type").notNull(), // 'created' | 'status_changed' | 'note' | 'follow_up' | 'proposal_sent' | 'proposal_accepted' | 'proposal_declined' | 'payment_schedule' | 'released' | 'merged'
+  fromStatus: text("from_status"),
+  toStatus: text("to_status"),
+  note: text("note"),
+  followUpAt: timestamp("follow_up_at"),
+  userId: integer("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const quoteEventsRelations = relations(quoteEvents, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteEvents.quoteId],
+    references: [quotes.id],
+  }),
+  user: one(users, {
+    fields: [quoteEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+// What the visitor has typed into the quote form so far
+export interface QuoteDraftData {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  countryCode?: string;
+  serviceType?: string;
+  businessSegment?: string;
+  additionals?: string[];
+  projectDescription?: string;
+  answers?: Record<string, QuestionAnswerValue>;
+}
+
+// Unfinished quote forms, saved as the visitor moves between steps. The token
+// is kept in the browser and in the emailed resume link; a draft is done once
+// its quote is submitted.
+export const quoteDrafts = pgTable("quote_drafts", {
+  id: serial("id").primaryKey(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  userId: integer("user_id").references(() => users.id), // when filled in while signed in
+  data: jsonb("data").$type<QuoteDraftData>().notNull(),
+  step: integer("step").notNull().default(1), // step of the form the visitor was on (1-6)
+  email: text("email"), // copied from data once valid, for the resume link and the report
+  resumeSentAt: timestamp("resume_sent_at"),
+  quoteId: integer("quote_id").references(() => quotes.id), // set when submitted
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const quoteDraftsRelations = relations(quoteDrafts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [quoteDrafts.userId],
+    references: [users.id],
+  }),
+  quote: one(quotes, {
+    fields: [quoteDrafts.quoteId],
+    references: [quotes.id],
+  }),
+  attachments: many(quoteAttachments),
+}));
+
+// Files sent with a quote request (briefs, logos, mockups). They are uploaded
+// while the form is still a draft and linked to the quote once submitted; the
+// bytes live in the file storage driver under storageKey.
+export const quoteAttachments = pgTable("quote_attachments", {
+  id: serial("id").primaryKey(),
+  draftId: integer("draft_id").references(() => quoteDrafts.id).notNull(),
+  quoteId: integer("quote_id").references(() => quotes.id), // set when the quote is submitted
+  fileName: text("file_name").notNull(), // as sent by the client
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  storageKey: text("storage_key").notNull().unique(),
+  sha256: varchar("sha256", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const quoteAttachmentsRelations = relations(quoteAttachments, ({ one }) => ({
+  draft: one(quoteDrafts, {
+    fields: [quoteAttachments.draftId],
+    references: [quoteDrafts.id],
+  }),
+  quote: one(quotes, {
+    fields: [quoteAttachments.quoteId],
+    references: [quotes.id],
+  }),
 }));
 
 // Portfolio projects
@@ -80,17 +314,122 @@ export const reviewsRelations = relations(reviews, ({ one }) => ({
 // Payment codes (6-digit codes)
 export const paymentCodes = pgTable("payment_codes", {
   id: serial("id").primaryKey(),
-  code: varchar("code", { length: 6 }).notNull().unique(),
+  code: varchar("code", { length: 12 }).notNull().unique(), // 6 digits or 10 alphanumeric characters
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  amountType: text("amount_type").notNull().default("fixed"), // 'fixed' | 'range' (customer chooses between min and max)
+  minAmount: decimal("min_amount", { precision: 10, scale: 2 }),
+  maxAmount: decimal("max_amount", { precision: 10, scale: 2 }),
+  currency: text("currency").notNull().default("EUR"), // 'EUR' | 'GBP' | 'BRL'
   description: text("description"),
-  isUsed: boolean("is_used").default(false),
+  clientEmail: text("client_email"), // only this email can redeem the code when set
+  expiresAt: timestamp("expires_at"),
+  maxUses: integer("max_uses").default(1), // null = unlimited
+  useCount: integer("use_count").notNull().default(0),
+  isUsed: boolean("is_used").default(false), // true once useCount reaches maxUses
   usedByEmail: text("used_by_email"),
   usedByName: text("used_by_name"),
-  stripePaymentId: text("stripe_payment_id"),
   createdAt: timestamp("created_at").defaultNow(),
   usedAt: timestamp("used_at"),
 });
 
+// Payment schedule of an accepted quote (e.g. 30/40/30); each milestone is
+// paid through its own payment code
+export const quoteMilestones = pgTable("quote_milestones", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").references(() => quotes.id).notNull(),
+  position: integer("position").notNull(),
+  label: text("label").notNull(),
+  percentage: decimal("percentage", { precision: 5, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  dueDate: timestamp("due_date"),
+  paymentCodeId: integer("payment_code_id").references(() => paymentCodes.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const quoteMilestonesRelations = relations(quoteMilestones, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteMilestones.quoteId],
+    references: [quotes.id],
+  }),
+  paymentCode: one(paymentCodes, {
+    fields: [quoteMilestones.paymentCodeId],
+    references: [paymentCodes.id],
+  }),
+}));
+
+export interface ProposalItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+// Formal proposals written for a quote. Every send is a new version and the
+// client answers through the public link identified by the token.
+export const quoteProposals = pgTable("quote_proposals", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").references(() => quotes.id).notNull(),
+  version: integer("version").notNull(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  items: jsonb("items").$type<ProposalItem[]>().notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("EUR"),
+  scope: text("scope").notNull(),
+  timeline: text("timeline"),
+  terms: text("terms"),
+  validUntil: timestamp("valid_until").notNull(),
+  status: text("status").notNull().default("sent"), // 'sent' | 'accepted' | 'declined' | 'superseded' (by a newer version)
+  declineReason: text("decline_reason"),
+  viewedAt: timestamp("viewed_at"), // first time the client opened the link
+  respondedAt: timestamp("responded_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique().on(table.quoteId, table.version)]);
+
+export const quoteProposalsRelations = relations(quoteProposals, ({ one }) => ({
+  quote: one(quotes, {
+    fields: [quoteProposals.quoteId],
+    references: [quotes.id],
+  }),
+  signature: one(proposalSignatures),
+}));
+
+// Electronic signature of an accepted proposal. Audit record: written once
+// with the signed PDF and its SHA-256, never updated or deleted.
+export const proposalSignatures = pgTable("proposal_signatures", {
+  id: serial("id").primaryKey(),
+  proposalId: integer("proposal_id").references(() => quoteProposals.id).notNull().unique(),
+  quoteId: integer("quote_id").references(() => quotes.id).notNull(),
+  signerName: text("signer_name").notNull(),
+  signatureImage: text("signature_image").notNull(), // PNG data URL drawn by the client
+  termsAccepted: boolean("terms_accepted").notNull(),
+  ipAddress: text("ip_address").notNull(),
+  userAgent: text("user_agent"),
+  signedPdf: text("signed_pdf").notNull(), // base64 of the exact bytes that were hashed
+  documentHash: varchar("document_hash", { length: 64 }).notNull(), // SHA-256 hex of the signed PDF
+  signedAt: timestamp("signed_at").notNull(),
+});
+
+export const proposalSignaturesRelations = relations(proposalSignatures, ({ one }) => ({
+  proposal: one(quoteProposals, {
+    fields: [proposalSignatures.proposalId],
+    references: [quoteProposals.id],
+  }),
+  quote: one(quotes, {
+    fields: [proposalSignatures.quoteId],
+    references: [quotes.id],
+  }),
+}));
+
+// Payment code verification attempts (brute-force lockout and audit log)
+export const codeVerificationAttempts = pgTable("code_verification_attempts", {
+  id: serial("id").primaryKey(),
+  ipAddress: text("ip_address").notNull(),
+  sessionId: text("session_id"),
+  code: varchar("code", { length: 12 }).notNull(),
+  outcome: text("outcome").notNull(), // 'pending' | 'success' | 'not_found' | 'unavailable' | 'wrong_client' | 'locked'
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Payments (one-time)
 export const payments = pgTable("payments", {
   id: serial("id").primaryKey(),
@@ -98,9 +437,14 @@ export const payments = pgTable("payments", {
   stripePaymentId: text("stripe_payment_id").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   currency: text("currency").default("EUR"),
-  status: text("status").notNull(), // 'pending' | 'succeeded' | 'failed'
+  exchangeRate: decimal("exchange_rate", { precision: 12, scale: 6 }), // units of currency per base unit when paid; null = no rate then
+  status: text("status").notNull(), // 'pending' | 'succeeded' | 'failed' | 'refunded' | 'partially_refunded'
   paymentType: text("payment_type").notNull(), // 'maintenance_site' | 'maintenance_app' | 'code_payment' | 'custom'
+  paymentMethod: text("payment_method").notNull().default("card"), // 'card' | 'multibanco' | 'mb_way'
   paymentCodeId: integer("payment_code_id").references(() => paymentCodes.id),
+  multibancoEntity: text("multibanco_entity"),
+  multibancoReference: text("multibanco_reference"),
+  expiresAt: timestamp("expires_at"), // when an unpaid Multibanco reference lapses
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -115,17 +459,101 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
   }),
 }));
 
+// Refunds issued against payments (full or partial)
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  paymentId: integer("payment_id").references(() => payments.id).notNull(),
+  paymentCodeId: integer("payment_code_id").references(() => paymentCodes.id),
+  stripeRefundId: text("stripe_refund_id").unique(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").default("EUR"),
+  reason: text("reason"),
+  status: text("status").notNull(), // 'pending' | 'succeeded' | 'failed' | 'canceled'
+  createdBy: integer("created_by").references(() => users.id), // null when issued from the Stripe dashboard
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const refundsRelations = relations(refunds, ({ one }) => ({
+  payment: one(payments, {
+    fields: [refunds.paymentId],
+    references: [payments.id],
+  }),
+  paymentCode: one(paymentCodes, {
+    fields: [refunds.paymentCodeId],
+    references: [paymentCodes.id],
+  }),
+}));
+
+// Invoice numbering: last number issued per series and year
+export const invoiceSequences = pgTable("invoice_sequences", {
+  id: serial("id").primaryKey(),
+  series: text("series").notNull(),
+  year: integer("year").notNull(),
+  lastNumber: integer("last_number").notNull(),
+}, (table) => [unique().on(table.series, table.year)]);
+
+export interface InvoiceItem {
+  description: string;
+  quantity: number;
+  unitPrice: number; // net of IVA
+  vatRate: number; // percentage, 0 requires an exemption code
+  vatExemptionCode?: string | null;
+}
+
+// Invoices (faturas) - never deleted, only canceled, so numbering stays gap-free
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  series: text("series").notNull(),
+  year: integer("year").notNull(),
+  number: integer("number").notNull(),
+  invoiceNumber: text("invoice_number").notNull().unique(), // e.g. 'FT 2026/12'
+  userId: integer("user_id").references(() => users.id),
+  paymentId: integer("payment_id").references(() => payments.id).unique(),
+  customerName: text("customer_name").notNull(),
+  customerEmail: text("customer_email"),
+  customerNif: varchar("customer_nif", { length: 9 }), // null = consumidor final
+  customerAddress: text("customer_address"),
+  customerPostalCode: text("customer_postal_code"),
+  customerCity: text("customer_city"),
+  customerCountry: varchar("customer_country", { length: 2 }).notNull().default("PT"),
+  items: jsonb("items").$type<InvoiceItem[]>().notNull(),
+  netTotal: decimal("net_total", { precision: 10, scale: 2 }).notNull(),
+  vatTotal: decimal("vat_total", { precision: 10, scale: 2 }).notNull(),
+  grossTotal: decimal("gross_total", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("EUR"),
+  exchangeRate: decimal("exchange_rate", { precision: 12, scale: 6 }), // units of currency per EUR when issued; null = no rate then
+  status: text("status").notNull().default("issued"), // 'issued' | 'canceled'
+  cancelReason: text("cancel_reason"),
+  createdBy: integer("created_by").references(() => users.id),
+  issuedAt: timestamp("issued_at").defaultNow(),
+}, (table) => [unique().on(table.series, table.year, table.number)]);
+
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  user: one(users, {
+    fields: [invoices.userId],
+    references: [users.id],
+  }),
+  payment: one(payments, {
+    fields: [invoices.paymentId],
+    references: [payments.id],
+  }),
+}));
+
 // Subscriptions (recurring)
 export const subscriptions = pgTable("subscriptions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
-  stripeSubscriptionId: text("stripe_subscription_id").notNull(),
+  stripeSubscriptionId: text("stripe_subscription_id").notNull().unique(),
   stripeCustomerId: text("stripe_customer_id").notNull(),
   planType: text("plan_type").notNull(), // 'site_maintenance' | 'app_maintenance'
-  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull(), // 'active' | 'past_due' | 'canceled' | 'unpaid'
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // charged every billing interval
+  billingInterval: text("billing_interval").notNull().default("month"), // 'month' | 'year'
+  currency: text("currency").notNull().default("EUR"),
+  status: text("status").notNull(), // 'active' | 'past_due' | 'canceled' | 'unpaid' | 'suspended' (set by dunning)
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false),
   currentPeriodStart: timestamp("current_period_start"),
   currentPeriodEnd: timestamp("current_period_end"),
+  pastDueSince: timestamp("past_due_since"), // start of the current dunning cycle, null when paid up
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -136,6 +564,117 @@ export const subscriptionsRelations = relations(subscriptions, ({ one }) => ({
   }),
 }));
 
+// Dunning log: every reminder, admin notice and suspension for a past-due subscription
+export const dunningEvents = pgTable("dunning_events", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").references(() => subscriptions.id).notNull(),
+  cycleStartedAt: timestamp("cycle_started_at").notNull(), // subscriptions.pastDueSince of the cycle
+  action: text("action").notNull(), // 'admin_notified' | 'reminder' | 'suspended' | 'resolved'
+  reminderDay: integer("reminder_day"), // day of the reminder sequence, for 'reminder'
+  detail: text("detail"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const dunningEventsRelations = relations(dunningEvents, ({ one }) => ({
+  subscription: one(subscriptions, {
+    fields: [dunningEvents.subscriptionId],
+    references: [subscriptions.id],
+  }),
+}));
+
+// Discount coupons for maintenance subscriptions and payment codes
+export const coupons = pgTable("coupons", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 32 }).notNull().unique(), // stored uppercase
+  description: text("description"),
+  discountType: text("discount_type").notNull().default("percent"), // 'percent' | 'fixed'
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull(), // % or EUR (fixed coupons only apply to EUR)
+  appliesTo: text("applies_to").notNull().default("all"), // 'all' | 'subscriptions' | 'payment_codes'
+  planSlugs: text("plan_slugs").array(), // null = every plan
+  paymentCodeIds: integer("payment_code_ids").array(), // null = every payment code
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  maxRedemptions: integer("max_redemptions"), // null = unlimited
+  redemptionCount: integer("redemption_count").notNull().default(0),
+  stripeCouponId: text("stripe_coupon_id"), // created on first use in a subscription checkout
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One row per paid (or pending) checkout that used a coupon
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: serial("id").primaryKey(),
+  couponId: integer("coupon_id").references(() => coupons.id).notNull(),
+  userId: integer("user_id").references(() => users.id),
+  email: text("email"),
+  target: text("target").notNull(), // 'subscription' | 'payment_code'
+  stripeReference: text("stripe_reference").notNull().unique(), // checkout session or PaymentIntent
+  originalAmount: decimal("original_amount", { precision: 10, scale: 2 }).notNull(),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("EUR"), // of both amounts
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const couponRedemptionsRelations = relations(couponRedemptions, ({ one }) => ({
+  coupon: one(coupons, {
+    fields: [couponRedemptions.couponId],
+    references: [coupons.id],
+  }),
+  user: one(users, {
+    fields: [couponRedemptions.userId],
+    references: [users.id],
+  }),
+}));
+
+// Maintenance plans catalog (maintenance page, chatbot and checkout read from here)
+export const plans = pgTable("plans", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(), // stored as subscriptions.planType: 'site_maintenance' | 'app_maintenance'
+  name: text("name").notNull(),
+  description: text("description"),
+  serviceType: text("service_type").notNull().default("website"), // 'website' | 'app'
+  features: text("features").array(),
+  monthlyPrice: decimal("monthly_price", { precision: 10, scale: 2 }).notNull(),
+  annualPrice: decimal("annual_price", { precision: 10, scale: 2 }), // null = monthly billing only
+  currency: text("currency").notNull().default("EUR"),
+  stripePriceId: text("stripe_price_id"),
+  stripeAnnualPriceId: text("stripe_annual_price_id"),
+  isActive: boolean("is_active").default(true),
+  isPopular: boolean("is_popular").default(false),
+  displayOrder: integer("display_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Rules behind the instant quote estimate: a base price per service type,
+// a multiplier per business segment and a price per add-on
+export const pricingRules = pgTable("pricing_rules", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // 'base' | 'segment' | 'addon'
+  key: text("key").notNull(), // service type, business segment or add-on id
+  value: decimal("value", { precision: 10, scale: 2 }).notNull(), // EUR for 'base' and 'addon', multiplier for 'segment'
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique().on(table.kind, table.key)]);
+
+// Extra questions of the quote form for one service type and business
+// segment, shown as their own step
+export const quoteQuestionnaires = pgTable("quote_questionnaires", {
+  id: serial("id").primaryKey(),
+  serviceType: text("service_type").notNull(), // 'website' | 'app'
+  businessSegment: text("business_segment").notNull(), // one of businessSegments
+  fields: jsonb("fields").$type<QuestionField[]>().notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique().on(table.serviceType, table.businessSegment)]);
+
+// Exchange rates kept by hand for reporting: units of `currency` per 1 EUR
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  currency: varchar("currency", { length: 3 }).notNull().unique(),
+  rate: decimal("rate", { precision: 12, scale: 6 }).notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Monthly reports
 export const monthlyReports = pgTable("monthly_reports", {
   id: serial("id").primaryKey(),
@@ -159,20 +698,119 @@ export const chatMessages = pgTable("chat_messages", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Processed Stripe webhook events (replays are ignored)
+export const stripeEvents = pgTable("stripe_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  type: text("type").notNull(),
+  claimedAt: timestamp("claimed_at").notNull().defaultNow(),
+  processedAt: timestamp("processed_at"), // null while a delivery is still handling it
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
-export const insertQuoteSchema = createInsertSchema(quotes).omit({ id: true, createdAt: true });
+// The estimate is computed by the server; price and currency are only set
+// when the admin accepts the quote, and the pipeline fields by the admin
+export const insertQuoteSchema = createInsertSchema(quotes).omit({
+  id: true,
+  createdAt: true,
+  lostReason: true,
+  followUpAt: true,
+  estimateMin: true,
+  estimateMax: true,
+  price: true,
+  currency: true,
+  acceptedAt: true,
+  answers: true,
+  quarantined: true,
+  quarantineReasons: true,
+  mergedIntoId: true,
+});
 export const insertProjectSchema = createInsertSchema(projects).omit({ id: true, createdAt: true });
 export const insertReviewSchema = createInsertSchema(reviews).omit({ id: true, createdAt: true, isApproved: true });
-export const insertPaymentCodeSchema = createInsertSchema(paymentCodes).omit({ id: true, createdAt: true, isUsed: true, usedAt: true });
+export const insertPaymentCodeSchema = createInsertSchema(paymentCodes)
+  .omit({ id: true, createdAt: true, isUsed: true, usedAt: true, useCount: true })
+  .extend({
+    amountType: z.enum(["fixed", "range"]).default("fixed"),
+    currency: z.enum(currencies).default("EUR"),
+    clientEmail: z.string().email("Email do cliente inválido").nullable().optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+    maxUses: z.number().int().min(1, "Número de utilizações deve ser pelo menos 1").nullable().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.amountType !== "range") return;
+    const min = parseFloat(data.minAmount ?? "");
+    const max = parseFloat(data.maxAmount ?? "");
+    if (isNaN(min) || isNaN(max) || min <= 0 || min > max) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["maxAmount"],
+        message: "Intervalo de valores inválido",
+      });
+    }
+  });
+export const insertQuoteMilestoneSchema = createInsertSchema(quoteMilestones).omit({ id: true, createdAt: true });
+export const insertQuoteEventSchema = createInsertSchema(quoteEvents).omit({ id: true, createdAt: true });
+export const insertQuoteDraftSchema = createInsertSchema(quoteDrafts).omit({ id: true, createdAt: true });
+export const insertQuoteAttachmentSchema = createInsertSchema(quoteAttachments).omit({ id: true, createdAt: true });
+export const insertQuoteProposalSchema = createInsertSchema(quoteProposals).omit({ id: true, createdAt: true });
+export const insertProposalSignatureSchema = createInsertSchema(proposalSignatures).omit({ id: true });
+export const insertCodeVerificationAttemptSchema = createInsertSchema(codeVerificationAttempts).omit({ id: true, createdAt: true });
 export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true });
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true, issuedAt: true });
+export const insertRefundSchema = createInsertSchema(refunds).omit({ id: true, createdAt: true });
 export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({ id: true, createdAt: true });
+export const insertDunningEventSchema = createInsertSchema(dunningEvents).omit({ id: true, createdAt: true });
+export const insertPlanSchema = createInsertSchema(plans)
+  .omit({ id: true, createdAt: true })
+  .extend({ currency: z.enum(currencies).default("EUR") });
+export const insertCouponSchema = createInsertSchema(coupons)
+  .omit({ id: true, createdAt: true, redemptionCount: true, stripeCouponId: true })
+  .extend({
+    code: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z0-9_-]{3,32}$/, "Código deve ter 3 a 32 letras, números, - ou _"),
+    discountType: z.enum(["percent", "fixed"]),
+    discountValue: z.coerce.number().positive("Desconto inválido").transform((value) => value.toFixed(2)),
+    appliesTo: z.enum(["all", "subscriptions", "payment_codes"]).default("all"),
+    validFrom: z.coerce.date().nullable().optional(),
+    validUntil: z.coerce.date().nullable().optional(),
+    maxRedemptions: z.number().int().min(1, "Número de utilizações deve ser pelo menos 1").nullable().optional(),
+  })
+  .refine((data) => data.discountType !== "percent" || Number(data.discountValue) <= 100, {
+    message: "A percentagem não pode passar de 100",
+    path: ["discountValue"],
+  })
+  .refine((data) => !data.validFrom || !data.validUntil || data.validFrom <= data.validUntil, {
+    message: "Período de validade inválido",
+    path: ["validUntil"],
+  });
+export const insertCouponRedemptionSchema = createInsertSchema(couponRedemptions).omit({ id: true, createdAt: true });
+export const insertPricingRuleSchema = createInsertSchema(pricingRules)
+  .omit({ id: true, updatedAt: true })
+  .extend({
+    kind: z.enum(pricingRuleKinds),
+    key: z.string().trim().min(1),
+    value: z.coerce.number().min(0, "Valor inválido").transform((value) => value.toFixed(2)),
+  });
+export const insertQuoteQuestionnaireSchema = createInsertSchema(quoteQuestionnaires).omit({ id: true, updatedAt: true });
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates)
+  .omit({ id: true, updatedAt: true })
+  .extend({
+    currency: z.enum(currencies),
+    rate: z.coerce.number().positive("Taxa de câmbio inválida").transform((value) => value.toFixed(6)),
+  });
 export const insertMonthlyReportSchema = createInsertSchema(monthlyReports).omit({ id: true, createdAt: true });
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({ id: true, createdAt: true });
+export const insertStripeEventSchema = createInsertSchema(stripeEvents).omit({ id: true, claimedAt: true, processedAt: true });
 
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+// What public pages may show about a user (no email or billing details)
+export type PublicUser = Pick<User, "id" | "displayName" | "avatarUrl">;
 
 export type Quote = typeof quotes.$inferSelect;
 export type InsertQuote = z.infer<typeof insertQuoteSchema>;
@@ -186,18 +824,69 @@ export type InsertReview = z.infer<typeof insertReviewSchema>;
 export type PaymentCode = typeof paymentCodes.$inferSelect;
 export type InsertPaymentCode = z.infer<typeof insertPaymentCodeSchema>;
 
+export type QuoteMilestone = typeof quoteMilestones.$inferSelect;
+export type InsertQuoteMilestone = z.infer<typeof insertQuoteMilestoneSchema>;
+
+export type QuoteEvent = typeof quoteEvents.$inferSelect;
+export type InsertQuoteEvent = z.infer<typeof insertQuoteEventSchema>;
+export type QuoteDraft = typeof quoteDrafts.$inferSelect;
+export type InsertQuoteDraft = z.infer<typeof insertQuoteDraftSchema>;
+export type QuoteAttachment = typeof quoteAttachments.$inferSelect;
+export type InsertQuoteAttachment = z.infer<typeof insertQuoteAttachmentSchema>;
+// What the client and the admin see of an attachment
+export type QuoteAttachmentInfo = Pick<QuoteAttachment, "id" | "fileName" | "contentType" | "size" | "createdAt">;
+
+export type QuoteProposal = typeof quoteProposals.$inferSelect;
+export type InsertQuoteProposal = z.infer<typeof insertQuoteProposalSchema>;
+
+export type ProposalSignature = typeof proposalSignatures.$inferSelect;
+export type InsertProposalSignature = z.infer<typeof insertProposalSignatureSchema>;
+
+export type CodeVerificationAttempt = typeof codeVerificationAttempts.$inferSelect;
+export type InsertCodeVerificationAttempt = z.infer<typeof insertCodeVerificationAttemptSchema>;
+
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+
 export type Subscription = typeof subscriptions.$inferSelect;
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
 
+export type DunningEvent = typeof dunningEvents.$inferSelect;
+export type InsertDunningEvent = z.infer<typeof insertDunningEventSchema>;
+
+export type Coupon = typeof coupons.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
+export type InsertCouponRedemption = z.infer<typeof insertCouponRedemptionSchema>;
+
+export type Plan = typeof plans.$inferSelect;
+export type InsertPlan = z.infer<typeof insertPlanSchema>;
+
+export type PricingRule = typeof pricingRules.$inferSelect;
+export type InsertPricingRule = z.infer<typeof insertPricingRuleSchema>;
+
+export type QuoteQuestionnaire = typeof quoteQuestionnaires.$inferSelect;
+export type InsertQuoteQuestionnaire = z.infer<typeof insertQuoteQuestionnaireSchema>;
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+
 export type MonthlyReport = typeof monthlyReports.$inferSelect;
 export type InsertMonthlyReport = z.infer<typeof insertMonthlyReportSchema>;
 
 export type ChatMessage = typeof chatMessages.$inferSelect;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type InsertStripeEvent = z.infer<typeof insertStripeEventSchema>;
+
 // Form validation schemas
 export const quoteFormStep1Schema = z.object({
   firstName: z.string().min(2, "Nome deve ter pelo menos 2 caracteres").max(50),
@@ -223,6 +912,15 @@ export const quoteFormStep5Schema = z.object({
   projectDescription: z.string().optional(),
 });
 
+// Input of the instant estimate; the segment may still be missing
+export const quoteEstimateRequestSchema = z.object({
+  serviceType: z.enum(["website", "app"]),
+  businessSegment: z.string().nullable().optional(),
+  additionals: z.array(z.string()).nullable().optional(),
+});
+
+export type QuoteEstimateRequest = z.infer<typeof quoteEstimateRequestSchema>;
+
 export const reviewFormSchema = z.object({
   rating: z.number().min(1).max(5),
   comment: z.string().min(10, "Comentário deve ter pelo menos 10 caracteres").max(500),
@@ -231,5 +929,380 @@ export const reviewFormSchema = z.object({
 export const paymentCodeFormSchema = z.object({
   name: z.string().min(2, "Nome deve ter pelo menos 2 caracteres"),
   email: z.string().email("Email inválido"),
-  code: z.string().length(6, "Código deve ter 6 dígitos"),
+  code: z.string().min(6, "Código deve ter pelo menos 6 caracteres").max(12, "Código inválido"),
+});
+
+// Payer details sent with a code payment; they also go into Stripe metadata
+export const codePaymentPayerSchema = z.object({
+  name: z.string().trim().min(2, "Nome deve ter pelo menos 2 caracteres").max(100, "Nome demasiado longo"),
+  email: z.string().trim().email("Email inválido").max(254, "Email inválido"),
+});
+
+// Methods offered for one-off payments (subscriptions stay on card)
+export const paymentMethods = ["card", "multibanco", "mb_way"] as const;
+export type PaymentMethod = (typeof paymentMethods)[number];
+
+// Billing intervals offered for maintenance plans
+export const billingIntervals = ["month", "year"] as const;
+export type BillingInterval = (typeof billingIntervals)[number];
+
+// Price charged per interval, or null when the plan is not sold yearly
+export function getPlanPrice(plan: Pick<Plan, "monthlyPrice" | "annualPrice">, interval: BillingInterval): number | null {
+  if (interval === "month") return parseFloat(plan.monthlyPrice);
+  return plan.annualPrice ? parseFloat(plan.annualPrice) : null;
+}
+
+// Percentage saved by paying yearly instead of twelve monthly payments
+export function getAnnualSavings(plan: Pick<Plan, "monthlyPrice" | "annualPrice">): number {
+  const annual = getPlanPrice(plan, "year");
+  const twelveMonths = parseFloat(plan.monthlyPrice) * 12;
+  if (annual === null || twelveMonths <= 0) return 0;
+  return Math.max(0, Math.round((1 - annual / twelveMonths) * 100));
+}
+
+// Recurring revenue of a subscription normalised to one month (MRR)
+export function getMonthlyRecurringAmount(subscription: Pick<Subscription, "amount" | "billingInterval">): number {
+  const amount = parseFloat(subscription.amount);
+  return subscription.billingInterval === "year" ? amount / 12 : amount;
+}
+
+const currencySymbols: Record<string, string> = {
+  EUR: "€",
+  GBP: "£",
+  BRL: "R$",
+};
+
+export function getCurrencySymbol(currency: string): string {
+  return currencySymbols[currency.toUpperCase()] ?? `${currency.toUpperCase()} `;
+}
+
+// e.g. "€15.00", "£12.50", "R$90.00"
+export function formatCurrency(amount: number | string, currency: string = baseCurrency): string {
+  return `${getCurrencySymbol(currency)}${Number(amount).toFixed(2)}`;
+}
+
+// Totals of mixed-currency amounts, kept apart per currency: "€120.00 + £40.00"
+export function formatCurrencyTotals(entries: { amount: number | string; currency: string | null }[]): string {
+  const totals: Record<string, number> = {};
+  for (const entry of entries) {
+    const currency = (entry.currency || baseCurrency).toUpperCase();
+    totals[currency] = (totals[currency] ?? 0) + Number(entry.amount);
+  }
+  const formatted = Object.keys(totals).map((currency) => formatCurrency(totals[currency], currency));
+  return formatted.length > 0 ? formatted.join(" + ") : formatCurrency(0);
+}
+
+// Discount a coupon gives on `amount`, never more than the amount itself
+export function calculateCouponDiscount(coupon: Pick<Coupon, "discountType" | "discountValue">, amount: number): number {
+  const value = parseFloat(coupon.discountValue);
+  const discount = coupon.discountType === "percent" ? (amount * value) / 100 : value;
+  return Math.round(Math.min(discount, amount) * 100) / 100;
+}
+
+export const refundRequestSchema = z.object({
+  amount: z.coerce.number().positive("Valor inválido").optional(), // omitted = full remaining amount
+  reason: z.string().trim().min(3, "Indique o motivo do reembolso").max(500),
 });
+
+// IVA rates in mainland Portugal (normal, intermediate, reduced) plus exempt
+export const vatRates = [23, 13, 6, 0] as const;
+
+// Exemption reasons (SAF-T TaxExemptionCode) accepted on 0% lines
+export const vatExemptionReasons: Record<string, string> = {
+  M05: "Isento artigo 14.º do CIVA",
+  M07: "Isento artigo 9.º do CIVA",
+  M10: "IVA - regime de isenção (artigo 53.º do CIVA)",
+  M16: "Isento artigo 14.º do RITI",
+  M40: "IVA - autoliquidação (artigo 6.º, n.º 6, alínea a) do CIVA)",
+  M99: "Não sujeito ou não tributado",
+};
+
+// Portuguese NIF: 9 digits, last one is a mod 11 check digit
+export function isValidNif(nif: string): boolean {
+  if (!/^[1-9]\d{8}$/.test(nif)) return false;
+  const sum = nif
+    .slice(0, 8)
+    .split("")
+    .reduce((acc, digit, i) => acc + Number(digit) * (9 - i), 0);
+  const check = 11 - (sum % 11);
+  return Number(nif[8]) === (check >= 10 ? 0 : check);
+}
+
+const nifSchema = z
+  .string()
+  .trim()
+  .refine(isValidNif, "NIF inválido");
+
+export const billingDetailsSchema = z.object({
+  nif: nifSchema.nullable().optional(),
+  billingAddress: z.string().trim().max(200).nullable().optional(),
+  billingPostalCode: z.string().trim().max(20).nullable().optional(),
+  billingCity: z.string().trim().max(100).nullable().optional(),
+  billingCountry: z.string().length(2).default("PT"),
+});
+
+export const invoiceItemSchema = z
+  .object({
+    description: z.string().trim().min(1, "Descrição obrigatória").max(200),
+    quantity: z.coerce.number().positive("Quantidade inválida"),
+    unitPrice: z.coerce.number().min(0, "Preço inválido"),
+    vatRate: z.coerce.number().refine((rate) => (vatRates as readonly number[]).includes(rate), "Taxa de IVA inválida"),
+    vatExemptionCode: z.string().nullable().optional(),
+  })
+  .refine(
+    (item) => item.vatRate !== 0 || (!!item.vatExemptionCode && item.vatExemptionCode in vatExemptionReasons),
+    { message: "Indique o motivo de isenção de IVA", path: ["vatExemptionCode"] },
+  );
+
+export const invoiceRequestSchema = z.object({
+  userId: z.number().int().nullable().optional(),
+  customerName: z.string().trim().min(2, "Nome do cliente obrigatório"),
+  customerEmail: z.string().email("Email inválido").nullable().optional(),
+  customerNif: nifSchema.nullable().optional(),
+  customerAddress: z.string().trim().nullable().optional(),
+  customerPostalCode: z.string().trim().nullable().optional(),
+  customerCity: z.string().trim().nullable().optional(),
+  customerCountry: z.string().length(2).default("PT"),
+  items: z.array(invoiceItemSchema).min(1, "A fatura precisa de pelo menos uma linha"),
+});
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida");
+
+// Period of a SAF-T (PT) export: inclusive dates within a single fiscal year
+export const saftExportSchema = z
+  .object({
+    start: isoDateSchema,
+    end: isoDateSchema,
+  })
+  .refine((period) => period.start <= period.end, { message: "Período inválido", path: ["end"] })
+  .refine((period) => period.start.slice(0, 4) === period.end.slice(0, 4), {
+    message: "O período tem de pertencer a um único ano fiscal",
+    path: ["end"],
+  });
+
+export type BillingDetails = z.infer<typeof billingDetailsSchema>;
+export type InvoiceRequest = z.infer<typeof invoiceRequestSchema>;
+export type SaftExportPeriod = z.infer<typeof saftExportSchema>;
+
+// Price and milestones set by the admin when accepting a quote
+export const paymentScheduleSchema = z
+  .object({
+    price: z.coerce.number().positive("Preço inválido"),
+    currency: z.enum(currencies).default("EUR"),
+    milestones: z
+      .array(
+        z.object({
+          label: z.string().trim().min(1, "Indique a descrição da prestação").max(100),
+          percentage: z.coerce.number().positive("Percentagem inválida").max(100),
+          dueDate: isoDateSchema.nullable().optional(),
+        }),
+      )
+      .min(1, "Indique pelo menos uma prestação")
+      .max(12),
+  })
+  .refine((data) => Math.round(data.milestones.reduce((acc, m) => acc + m.percentage, 0) * 100) === 10000, {
+    message: "As percentagens têm de somar 100%",
+    path: ["milestones"],
+  });
+
+export type PaymentScheduleInput = z.infer<typeof paymentScheduleSchema>;
+
+// Splits `price` by percentage in cents; rounding leftovers go to the last milestone
+export function splitScheduleAmounts(price: number, percentages: number[]): string[] {
+  const total = Math.round(price * 100);
+  const cents = percentages.map((percentage) => Math.round((total * percentage) / 100));
+  cents[cents.length - 1] += total - cents.reduce((acc, value) => acc + value, 0);
+  return cents.map((value) => (value / 100).toFixed(2));
+}
+
+export const proposalItemSchema = z.object({
+  description: z.string().trim().min(1, "Descrição obrigatória").max(200),
+  quantity: z.coerce.number().positive("Quantidade inválida"),
+  unitPrice: z.coerce.number().min(0, "Preço inválido"),
+});
+
+// Proposal written by the admin; every submit sends a new version
+export const proposalRequestSchema = z.object({
+  items: z.array(proposalItemSchema).min(1, "A proposta precisa de pelo menos uma linha").max(50),
+  currency: z.enum(currencies).default("EUR"),
+  scope: z.string().trim().min(10, "Descreva o âmbito do projeto").max(5000),
+  timeline: z.string().trim().max(2000).nullable().optional(),
+  terms: z.string().trim().max(5000).nullable().optional(),
+  validUntil: isoDateSchema,
+});
+
+// What the client submits on the signing page
+export const proposalSignatureSchema = z.object({
+  signerName: z.string().trim().min(3, "Indique o seu nome completo").max(100),
+  signature: z
+    .string()
+    .startsWith("data:image/png;base64,", "Assinatura inválida")
+    .max(90000, "Assinatura demasiado grande"),
+  acceptTerms: z.literal(true, { errorMap: () => ({ message: "Tem de aceitar os termos da proposta" }) }),
+});
+
+export const proposalDeclineSchema = z.object({
+  reason: z.string().trim().max(500).nullable().optional(),
+});
+
+export type ProposalRequest = z.infer<typeof proposalRequestSchema>;
+export type ProposalSignatureInput = z.infer<typeof proposalSignatureSchema>;
+
+export function calculateProposalTotal(items: ProposalItem[]): number {
+  const cents = items.reduce((acc, item) => acc + Math.round(item.quantity * item.unitPrice * 100), 0);
+  return cents / 100;
+}
+
+export const quoteStatusLabels: Record<QuoteStatus, string> = {
+  new: "Novo",
+  contacted: "Contactado",
+  proposal_sent: "Proposta enviada",
+  negotiating: "Em negociação",
+  won: "Ganho",
+  lost: "Perdido",
+};
+
+// Allowed moves between statuses. Open quotes can always be won or lost;
+// a new proposal version takes a negotiation back to proposal_sent.
+export const quoteStatusTransitions: Record<QuoteStatus, QuoteStatus[]> = {
+  new: ["contacted", "proposal_sent", "negotiating", "won", "lost"],
+  contacted: ["proposal_sent", "negotiating", "won", "lost"],
+  proposal_sent: ["negotiating", "won", "lost"],
+  negotiating: ["proposal_sent", "won", "lost"],
+  won: [],
+  lost: ["contacted"],
+};
+
+export function canChangeQuoteStatus(from: string, to: QuoteStatus): boolean {
+  return (quoteStatusTransitions[from as QuoteStatus] ?? []).includes(to);
+}
+
+export function isQuoteOpen(quote: Pick<Quote, "status">): boolean {
+  return quote.status !== "won" && quote.status !== "lost";
+}
+
+export const quoteStatusChangeSchema = z
+  .object({
+    status: z.enum(quoteStatuses),
+    lostReason: z.string().refine((reason) => Object.keys(quoteLostReasons).includes(reason), "Motivo inválido").nullable().optional(),
+    note: z.string().trim().max(1000).nullable().optional(),
+  })
+  .refine((data) => data.status !== "lost" || !!data.lostReason, {
+    message: "Indique o motivo da perda",
+    path: ["lostReason"],
+  });
+
+export const quoteNoteSchema = z.object({
+  note: z.string().trim().min(1, "Escreva a nota").max(2000),
+});
+
+// null clears the follow-up
+export const quoteFollowUpSchema = z.object({
+  followUpAt: isoDateSchema.nullable(),
+});
+
+export type QuoteStatusChange = z.infer<typeof quoteStatusChangeSchema>;
+
+export const adminPreferencesSchema = z.object({
+  quotesView: z.enum(quoteViews),
+});
+
+// Quotes folded into the one the admin keeps
+export const quoteMergeSchema = z.object({
+  duplicateIds: z.array(z.number().int().positive()).min(1, "Escolha os duplicados").max(20),
+});
+
+// Drafts are saved with whatever has been typed, so nothing is required yet
+export const quoteDraftSaveSchema = z.object({
+  step: z.number().int().min(1).max(6),
+  data: z.object({
+    firstName: z.string().max(100).optional(),
+    lastName: z.string().max(100).optional(),
+    email: z.string().max(254).optional(),
+    phone: z.string().max(30).optional(),
+    countryCode: z.string().max(6).optional(),
+    serviceType: z.string().max(20).optional(),
+    businessSegment: z.string().max(100).optional(),
+    additionals: z.array(z.string().max(50)).max(20).optional(),
+    projectDescription: z.string().max(5000).optional(),
+    answers: z
+      .record(z.union([z.string().max(2000), z.number(), z.boolean(), z.array(z.string().max(200)).max(50)]))
+      .refine((answers) => Object.keys(answers).length <= maxQuestionFields)
+      .optional(),
+  }),
+});
+
+export type QuoteDraftSave = z.infer<typeof quoteDraftSaveSchema>;
+
+const questionFieldSchema = z
+  .object({
+    id: z.string().trim().regex(/^[a-z0-9_]{1,40}$/, "Identificador inválido (letras minúsculas, números e _)"),
+    label: z.string().trim().min(1, "Indique a pergunta").max(200),
+    type: z.enum(questionFieldTypes),
+    required: z.boolean(),
+    helpText: z.string().trim().max(300).optional(),
+    options: z.array(z.string().trim().min(1).max(100)).max(30).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })
+  .refine((field) => (field.type !== "select" && field.type !== "multi_select") || (field.options?.length ?? 0) >= 2, {
+    message: "Indique pelo menos duas opções",
+    path: ["options"],
+  })
+  .refine((field) => field.min === undefined || field.max === undefined || field.min <= field.max, {
+    message: "O mínimo não pode ser maior que o máximo",
+    path: ["max"],
+  });
+
+export const quoteQuestionnaireSaveSchema = z.object({
+  serviceType: z.enum(["website", "app"]),
+  businessSegment: z.enum(businessSegments),
+  fields: z
+    .array(questionFieldSchema)
+    .max(maxQuestionFields)
+    .refine((fields) => new Set(fields.map((field) => field.id)).size === fields.length, {
+      message: "Há perguntas com o mesmo identificador",
+    }),
+});
+
+export type QuoteQuestionnaireSave = z.infer<typeof quoteQuestionnaireSaveSchema>;
+
+function buildAnswerSchema(field: QuestionField): z.ZodTypeAny {
+  const required = "Resposta obrigatória";
+  const inOptions = (value: string) => (field.options ?? []).includes(value);
+
+  switch (field.type) {
+    case "text": {
+      const text = z.string().trim().max(2000, "Resposta demasiado longa");
+      return field.required ? text.min(1, required) : text.optional();
+    }
+    case "number": {
+      let number = z.number({ required_error: required, invalid_type_error: "Indique um número" });
+      if (field.min !== undefined) number = number.min(field.min, `O mínimo é ${field.min}`);
+      if (field.max !== undefined) number = number.max(field.max, `O máximo é ${field.max}`);
+      return field.required ? number : number.optional();
+    }
+    case "select": {
+      const choice = z.string({ required_error: required }).refine(inOptions, "Opção inválida");
+      return field.required ? choice : choice.optional();
+    }
+    case "multi_select": {
+      const choices = z.array(z.string().refine(inOptions, "Opção inválida"));
+      return field.required ? choices.min(1, required) : choices.optional();
+    }
+    case "boolean": {
+      const answer = z.boolean({ required_error: required });
+      return field.required ? answer : answer.optional();
+    }
+  }
+}
+
+// Validates the answers to a questionnaire; used by the form and again by
+// the server when the quote is submitted. Unknown keys are dropped.
+export function buildQuestionnaireSchema(fields: QuestionField[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    shape[field.id] = buildAnswerSchema(field);
+  }
+  return z.object(shape);
+}